@@ -9,6 +9,7 @@ const Register = lazy(() => import("./pages/Register"));
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const ProjectDetail = lazy(() => import("./pages/ProjectDetail"));
 const InvitePage = lazy(() => import("./pages/InvitePage"));
+const RsvpPage = lazy(() => import("./pages/RsvpPage"));
 
 // 加载中组件
 const LoadingPage = () => (
@@ -82,6 +83,9 @@ function App() {
         {/* 邀请链接（无需登录可访问，但需要登录才能加入） */}
         <Route path="/invite/:token" element={<InvitePage />} />
 
+        {/* 宾客回复出席（凭链接访问，无需登录） */}
+        <Route path="/rsvp/:token" element={<RsvpPage />} />
+
         {/* 需要登录的路由 */}
         <Route
           path="/"
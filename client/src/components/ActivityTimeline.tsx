@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Avatar,
+  Card,
+  DatePicker,
+  Empty,
+  Pagination,
+  Select,
+  Spin,
+  Timeline,
+} from "antd";
+import { MailOutlined, UserOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import type { Dayjs } from "dayjs";
+import { projectApi } from "../services/api";
+import type { ActivityLog, ActivityQuery } from "../services/api";
+import styles from "./ActivityTimeline.module.css";
+
+interface ActivityTimelineProps {
+  projectId: string;
+}
+
+// 日志详情中常见的字段，各操作只写入其中一部分
+interface ActivityDetails {
+  name?: string;
+  guestName?: string;
+  guestNames?: string[];
+  otherName?: string | null;
+  tableName?: string;
+  tableNames?: string[];
+  fromTable?: string;
+  toTable?: string;
+  areaName?: string;
+  nickname?: string;
+  seatNumber?: number;
+  count?: number;
+  guestCount?: number;
+  imported?: number;
+  failed?: number;
+  options?: number;
+  rsvpStatus?: string;
+  summary?: string;
+  previousName?: string;
+  copyFrom?: string | null;
+  fromTableName?: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+const RSVP_LABELS: Record<string, string> = {
+  CONFIRMED: "确认出席",
+  DECLINED: "不出席",
+  TENTATIVE: "待定",
+};
+
+// 各操作的名称和描述，按对象分组用于筛选
+const ACTIVITY_GROUPS: Array<{
+  label: string;
+  color: string;
+  actions: Record<string, [string, (d: ActivityDetails) => string]>;
+}> = [
+  {
+    label: "宾客",
+    color: "blue",
+    actions: {
+      CREATE_GUEST: ["添加宾客", (d) => `添加了宾客 ${d.guestName}`],
+      UPDATE_GUEST: ["修改宾客", (d) => `修改了宾客 ${d.guestName} 的信息`],
+      DELETE_GUEST: ["删除宾客", (d) => `删除了宾客 ${d.guestName}`],
+      DELETE_GUESTS: ["批量删除宾客", (d) => `批量删除了 ${d.count} 位宾客`],
+      IMPORT_GUESTS: [
+        "导入宾客",
+        (d) =>
+          `导入了 ${d.imported} 位宾客${d.failed ? `，${d.failed} 行失败` : ""}`,
+      ],
+      CREATE_RSVP_LINKS: [
+        "生成回复链接",
+        (d) => `为 ${d.guestCount} 位宾客生成了回复链接`,
+      ],
+      RSVP_RESPONSE: [
+        "宾客回复",
+        (d) =>
+          `${d.guestName} 通过回复链接回复：${RSVP_LABELS[d.rsvpStatus || ""] || d.rsvpStatus}${
+            d.fromTableName ? `，"${d.fromTableName}"座位不足已撤下座位` : ""
+          }`,
+      ],
+    },
+  },
+  {
+    label: "座位",
+    color: "green",
+    actions: {
+      ASSIGN_SEAT: [
+        "安排座位",
+        (d) => `将 ${d.guestName} 安排到 ${d.tableName}`,
+      ],
+      UNASSIGN_SEAT: [
+        "移出座位",
+        (d) => `将 ${d.guestName} 移出 ${d.tableName}`,
+      ],
+      MOVE_SEAT: [
+        "换桌",
+        (d) => `将 ${d.guestName} 从 ${d.fromTable} 换到 ${d.toTable}`,
+      ],
+      CHANGE_SEAT: [
+        "调整座号",
+        (d) => `将 ${d.guestName} 调到 ${d.tableName} ${d.seatNumber} 号座`,
+      ],
+      SWAP_SEATS: [
+        "交换座位",
+        (d) => `交换了 ${d.tableName} 上 ${d.guestNames?.join("、")} 的座位`,
+      ],
+      ASSIGN_SEAT_BATCH: [
+        "整组入座",
+        (d) => `将 ${d.guestCount} 位宾客安排到 ${d.tableNames?.join("、")}`,
+      ],
+      AUTO_ASSIGN: ["一键排座", (d) => `一键排座安排了 ${d.guestCount} 位宾客`],
+      REBALANCE: ["均衡桌位", (d) => `均衡桌位调整了 ${d.guestCount} 位宾客`],
+      PIN_SEAT: ["固定座位", (d) => `固定了 ${d.guestName} 的座位`],
+      UNPIN_SEAT: ["取消固定", (d) => `取消固定 ${d.guestName} 的座位`],
+      UNDO_SEATING: ["撤销", (d) => `撤销了：${d.summary}`],
+      REDO_SEATING: ["重做", (d) => `重做了：${d.summary}`],
+      CREATE_SNAPSHOT: ["保存快照", (d) => `保存了座位方案快照 ${d.name}`],
+      RESTORE_SNAPSHOT: [
+        "恢复快照",
+        (d) => `恢复了座位方案快照 ${d.name}（${d.guestCount} 位宾客入座）`,
+      ],
+      DELETE_SNAPSHOT: ["删除快照", (d) => `删除了座位方案快照 ${d.name}`],
+      CREATE_SCENARIO: [
+        "新建方案",
+        (d) =>
+          d.copyFrom
+            ? `从 ${d.copyFrom} 复制了排座方案 ${d.name}`
+            : `新建了空白排座方案 ${d.name}`,
+      ],
+      UPDATE_SCENARIO: [
+        "修改方案",
+        (d) =>
+          d.previousName !== d.name
+            ? `将排座方案 ${d.previousName} 重命名为 ${d.name}`
+            : `修改了排座方案 ${d.name}`,
+      ],
+      SWITCH_SCENARIO: [
+        "切换方案",
+        (d) => `从 ${d.previousName} 切换到排座方案 ${d.name}`,
+      ],
+      PROMOTE_SCENARIO: [
+        "定稿方案",
+        (d) => `将排座方案 ${d.name} 定为最终方案`,
+      ],
+      DELETE_SCENARIO: ["删除方案", (d) => `删除了排座方案 ${d.name}`],
+    },
+  },
+  {
+    label: "桌位与区域",
+    color: "orange",
+    actions: {
+      CREATE_TABLE: ["添加桌位", (d) => `添加了桌位 ${d.tableName}`],
+      CREATE_TABLES: ["批量添加桌位", (d) => `批量添加了 ${d.count} 个桌位`],
+      CREATE_TABLE_PLAN: [
+        "按规划建桌",
+        (d) => `按桌数规划添加了 ${d.count} 个桌位`,
+      ],
+      UPDATE_TABLE: ["修改桌位", (d) => `修改了桌位 ${d.tableName}`],
+      DELETE_TABLE: ["删除桌位", (d) => `删除了桌位 ${d.tableName}`],
+      CREATE_AREA: ["添加区域", (d) => `添加了区域 ${d.areaName}`],
+      UPDATE_AREA: ["修改区域", (d) => `修改了区域 ${d.areaName}`],
+      DELETE_AREA: ["删除区域", (d) => `删除了区域 ${d.areaName}`],
+    },
+  },
+  {
+    label: "约束",
+    color: "purple",
+    actions: {
+      CREATE_CONSTRAINT: [
+        "添加约束",
+        (d) =>
+          `为 ${d.guestName} 添加了约束${d.otherName ? `（${d.otherName}）` : ""}`,
+      ],
+      DELETE_CONSTRAINT: [
+        "删除约束",
+        (d) =>
+          `删除了 ${d.guestName} 的约束${d.otherName ? `（${d.otherName}）` : ""}`,
+      ],
+      CREATE_CONSTRAINT_GROUP: [
+        "添加分组约束",
+        (d) => `添加了分组约束 ${d.name}（${d.guestCount} 人）`,
+      ],
+      DELETE_CONSTRAINT_GROUP: [
+        "删除分组约束",
+        (d) => `删除了分组约束 ${d.name}`,
+      ],
+    },
+  },
+  {
+    label: "项目与成员",
+    color: "gray",
+    actions: {
+      CREATE_PROJECT: ["创建项目", (d) => `创建了项目 ${d.name}`],
+      UPDATE_PROJECT: ["修改项目", () => "修改了项目信息"],
+      UPDATE_SEATING_POLICY: ["修改排座策略", () => "修改了排座策略"],
+      UPDATE_MENU: ["修改菜单", (d) => `保存了菜单（${d.options} 道菜品）`],
+      CREATE_INVITATION: ["生成邀请链接", () => "生成了成员邀请链接"],
+      JOIN_PROJECT: ["加入项目", (d) => `${d.nickname} 加入了项目`],
+      UPDATE_MEMBER: ["修改成员", (d) => `修改了成员 ${d.nickname} 的权限`],
+      REMOVE_MEMBER: ["移除成员", (d) => `移除了成员 ${d.nickname}`],
+    },
+  },
+];
+
+const ACTIVITY_INFO = Object.fromEntries(
+  ACTIVITY_GROUPS.flatMap((group) =>
+    Object.entries(group.actions).map(([action, [label, describe]]) => [
+      action,
+      { label, describe, color: group.color },
+    ])
+  )
+);
+
+const ACTION_OPTIONS = ACTIVITY_GROUPS.map((group) => ({
+  label: group.label,
+  options: Object.entries(group.actions).map(([value, [label]]) => ({
+    label,
+    value,
+  })),
+}));
+
+const TARGET_TYPE_OPTIONS = [
+  { label: "宾客", value: "guest" },
+  { label: "座位", value: "seating" },
+  { label: "快照", value: "snapshot" },
+  { label: "方案", value: "scenario" },
+  { label: "桌位", value: "table" },
+  { label: "区域", value: "area" },
+  { label: "约束", value: "constraint" },
+  { label: "成员", value: "member" },
+  { label: "项目", value: "project" },
+];
+
+const describeActivity = (activity: ActivityLog) => {
+  const info = ACTIVITY_INFO[activity.action];
+  const details = (activity.details || {}) as ActivityDetails;
+  return info ? info.describe(details) : activity.action;
+};
+
+export default function ActivityTimeline({ projectId }: ActivityTimelineProps) {
+  const [page, setPage] = useState(1);
+  const [userId, setUserId] = useState<string>();
+  const [actions, setActions] = useState<string[]>([]);
+  const [targetType, setTargetType] = useState<string>();
+  const [range, setRange] = useState<[Dayjs | null, Dayjs | null] | null>(null);
+
+  const query: ActivityQuery = {
+    userId,
+    action: actions.length > 0 ? actions.join(",") : undefined,
+    targetType,
+    from: range?.[0]?.startOf("day").toISOString(),
+    to: range?.[1]?.endOf("day").toISOString(),
+    page,
+    limit: PAGE_SIZE,
+  };
+
+  // 获取操作记录，新的记录通过 activity:created 事件刷新
+  const { data, isLoading } = useQuery({
+    queryKey: ["activities", projectId, query],
+    queryFn: async () => {
+      const response = await projectApi.getActivities(projectId, query);
+      return response.data.data as {
+        activities: ActivityLog[];
+        pagination: { total: number };
+      };
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  // 获取成员列表用于按操作者筛选
+  const { data: members } = useQuery({
+    queryKey: ["members", projectId],
+    queryFn: async () => {
+      const response = await projectApi.getMembers(projectId);
+      return response.data.data as Array<{
+        user: { id: string; nickname: string };
+      }>;
+    },
+  });
+
+  // 修改筛选条件后回到第一页
+  const withReset =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setPage(1);
+    };
+
+  return (
+    <Card className={styles.container}>
+      <div className={styles.filters}>
+        <Select
+          placeholder="全部成员"
+          allowClear
+          value={userId}
+          onChange={withReset(setUserId)}
+          options={[
+            ...(members || []).map((m) => ({
+              label: m.user.nickname,
+              value: m.user.id,
+            })),
+            { label: "宾客（回复链接）", value: "none" },
+          ]}
+          style={{ width: 160 }}
+        />
+        <Select
+          mode="multiple"
+          placeholder="全部操作"
+          allowClear
+          maxTagCount="responsive"
+          value={actions}
+          onChange={withReset(setActions)}
+          options={ACTION_OPTIONS}
+          style={{ width: 240 }}
+        />
+        <Select
+          placeholder="全部对象"
+          allowClear
+          value={targetType}
+          onChange={withReset(setTargetType)}
+          options={TARGET_TYPE_OPTIONS}
+          style={{ width: 120 }}
+        />
+        <DatePicker.RangePicker
+          value={range}
+          onChange={withReset(setRange)}
+          allowEmpty={[true, true]}
+        />
+      </div>
+
+      <Spin spinning={isLoading}>
+        {data && data.activities.length > 0 ? (
+          <>
+            <Timeline
+              className={styles.timeline}
+              items={data.activities.map((activity) => ({
+                key: activity.id,
+                color: ACTIVITY_INFO[activity.action]?.color || "gray",
+                content: (
+                  <div className={styles.item}>
+                    <div>{describeActivity(activity)}</div>
+                    <div className={styles.meta}>
+                      <Avatar
+                        size={16}
+                        src={activity.user?.avatar}
+                        icon={
+                          activity.user ? <UserOutlined /> : <MailOutlined />
+                        }
+                      />
+                      <span>{activity.user?.nickname || "宾客"}</span>
+                      <span>
+                        {dayjs(activity.createdAt).format(
+                          "YYYY-MM-DD HH:mm:ss"
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                ),
+              }))}
+            />
+            <Pagination
+              className={styles.pagination}
+              current={page}
+              pageSize={PAGE_SIZE}
+              total={data.pagination.total}
+              onChange={setPage}
+              showSizeChanger={false}
+              showTotal={(total) => `共 ${total} 条`}
+              size="small"
+            />
+          </>
+        ) : (
+          !isLoading && <Empty description="暂无操作记录" />
+        )}
+      </Spin>
+    </Card>
+  );
+}
@@ -0,0 +1,308 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  Button,
+  Tag,
+  Empty,
+  Popconfirm,
+  Tooltip,
+  Segmented,
+  Input,
+  InputNumber,
+} from "antd";
+import { DeleteOutlined, PlusOutlined } from "@ant-design/icons";
+import { seatingApi } from "../services/api";
+import type { ConstraintGroupInput, GroupRule } from "../services/api";
+import styles from "./ConstraintPanel.module.css";
+
+type GroupStatus = "satisfied" | "violated" | "pending";
+
+type MemberMode = "guests" | "tag" | "relationship";
+
+interface GroupItem {
+  id: string;
+  name: string;
+  rule: GroupRule;
+  maxPerTable: number | null;
+  tag: string | null;
+  relationship: string | null;
+  createdAt: string;
+  guests: Array<{ id: string; name: string }>;
+  createdBy: { id: string; nickname: string };
+}
+
+interface ConstraintGroupListProps {
+  projectId: string;
+  open: boolean;
+  guests: Array<{
+    id: string;
+    name: string;
+    tags: string[];
+    relationship: string | null;
+  }>;
+  tables: Array<{ id: string; assignments: Array<{ guest: { id: string } }> }>;
+  canEdit: boolean;
+  adding: boolean;
+  onAdd: (data: ConstraintGroupInput) => void;
+  onRemove: (groupId: string) => void;
+}
+
+const RULE_CONFIG: Record<GroupRule, { label: string; color: string }> = {
+  ALL_TOGETHER: { label: "全部同桌", color: "blue" },
+  ALL_APART: { label: "全部分开", color: "orange" },
+  MAX_PER_TABLE: { label: "每桌最多", color: "purple" },
+};
+
+const RULE_OPTIONS = (Object.keys(RULE_CONFIG) as GroupRule[]).map((value) => ({
+  value,
+  label: RULE_CONFIG[value].label,
+}));
+
+const STATUS_CONFIG: Record<GroupStatus, { label: string; color: string }> = {
+  satisfied: { label: "已满足", color: "green" },
+  violated: { label: "未满足", color: "red" },
+  pending: { label: "待安排", color: "default" },
+};
+
+// 与服务端 getGroupStatus 的判断一致
+const getStatus = (
+  group: GroupItem,
+  tableOf: Map<string, string>
+): GroupStatus => {
+  const counts = new Map<string, number>();
+  group.guests.forEach((g) => {
+    const tableId = tableOf.get(g.id);
+    if (tableId) counts.set(tableId, (counts.get(tableId) || 0) + 1);
+  });
+
+  const limit =
+    group.rule === "ALL_APART"
+      ? 1
+      : group.rule === "MAX_PER_TABLE"
+        ? group.maxPerTable
+        : null;
+  const violated =
+    group.rule === "ALL_TOGETHER"
+      ? counts.size > 1
+      : limit !== null && Array.from(counts.values()).some((c) => c > limit);
+  if (violated) return "violated";
+
+  const seated = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+  return seated === group.guests.length ? "satisfied" : "pending";
+};
+
+export default function ConstraintGroupList({
+  projectId,
+  open,
+  guests,
+  tables,
+  canEdit,
+  adding,
+  onAdd,
+  onRemove,
+}: ConstraintGroupListProps) {
+  const [mode, setMode] = useState<MemberMode>("guests");
+  const [draft, setDraft] = useState<Partial<ConstraintGroupInput>>({
+    rule: "ALL_TOGETHER",
+    maxPerTable: 2,
+  });
+
+  const { data: groups = [] } = useQuery({
+    queryKey: ["constraint-groups", projectId],
+    queryFn: async () => {
+      const response = await seatingApi.getConstraintGroups(projectId);
+      return response.data.data.groups as GroupItem[];
+    },
+    enabled: open,
+  });
+
+  const guestOptions = guests.map((g) => ({ label: g.name, value: g.id }));
+  const tagOptions = Array.from(new Set(guests.flatMap((g) => g.tags))).map(
+    (tag) => ({ label: tag, value: tag })
+  );
+  const relationshipOptions = Array.from(
+    new Set(guests.map((g) => g.relationship).filter(Boolean) as string[])
+  ).map((r) => ({ label: r, value: r }));
+
+  const items = useMemo(() => {
+    const tableOf = new Map<string, string>();
+    tables.forEach((t) =>
+      t.assignments.forEach((a) => tableOf.set(a.guest.id, t.id))
+    );
+    return groups.map((g) => ({ ...g, status: getStatus(g, tableOf) }));
+  }, [groups, tables]);
+
+  const draftReady =
+    !!draft.name?.trim() &&
+    (draft.rule !== "MAX_PER_TABLE" || !!draft.maxPerTable) &&
+    (mode === "guests"
+      ? (draft.guestIds?.length || 0) >= 2
+      : mode === "tag"
+        ? !!draft.tag
+        : !!draft.relationship);
+
+  return (
+    <>
+      {canEdit && (
+        <div className={styles.addForm}>
+          <div className={styles.addRow}>
+            <Input
+              placeholder="分组名称，如：伴娘团"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              size="small"
+              className={styles.guestSelect}
+            />
+            <Select
+              value={draft.rule}
+              onChange={(value) => setDraft({ ...draft, rule: value })}
+              options={RULE_OPTIONS}
+              size="small"
+              className={styles.typeSelect}
+            />
+            {draft.rule === "MAX_PER_TABLE" && (
+              <InputNumber
+                min={1}
+                precision={0}
+                value={draft.maxPerTable}
+                onChange={(value) =>
+                  setDraft({ ...draft, maxPerTable: value ?? undefined })
+                }
+                suffix="人"
+                size="small"
+                className={styles.limitInput}
+              />
+            )}
+          </div>
+          <Segmented
+            size="small"
+            value={mode}
+            onChange={(value) => setMode(value as MemberMode)}
+            options={[
+              { label: "指定宾客", value: "guests" },
+              { label: "按标签", value: "tag" },
+              { label: "按关系", value: "relationship" },
+            ]}
+          />
+          {mode === "guests" && (
+            <Select
+              mode="multiple"
+              placeholder="选择至少两位宾客"
+              optionFilterProp="label"
+              value={draft.guestIds}
+              onChange={(value) => setDraft({ ...draft, guestIds: value })}
+              options={guestOptions}
+              size="small"
+            />
+          )}
+          {mode === "tag" && (
+            <Select
+              placeholder="标签"
+              showSearch
+              value={draft.tag}
+              onChange={(value) => setDraft({ ...draft, tag: value })}
+              options={tagOptions}
+              size="small"
+            />
+          )}
+          {mode === "relationship" && (
+            <Select
+              placeholder="与新人关系"
+              showSearch
+              value={draft.relationship}
+              onChange={(value) => setDraft({ ...draft, relationship: value })}
+              options={relationshipOptions}
+              size="small"
+            />
+          )}
+          <Button
+            type="primary"
+            size="small"
+            icon={<PlusOutlined />}
+            disabled={!draftReady}
+            loading={adding}
+            onClick={() =>
+              onAdd({
+                name: draft.name!.trim(),
+                rule: draft.rule!,
+                ...(draft.rule === "MAX_PER_TABLE" && {
+                  maxPerTable: draft.maxPerTable,
+                }),
+                ...(mode === "guests" && { guestIds: draft.guestIds }),
+                ...(mode === "tag" && { tag: draft.tag }),
+                ...(mode === "relationship" && {
+                  relationship: draft.relationship,
+                }),
+              })
+            }
+            block
+          >
+            添加分组
+          </Button>
+          <div className={styles.hint}>
+            按标签或关系建立的分组会自动包含之后新增的宾客
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <Empty description="暂无分组约束" />
+      ) : (
+        <div className={styles.list}>
+          {items.map((g) => (
+            <div key={g.id} className={styles.item}>
+              <div className={styles.pair}>
+                <span className={styles.guestName}>{g.name}</span>
+                <Tag
+                  color={RULE_CONFIG[g.rule].color}
+                  className={styles.typeTag}
+                >
+                  {RULE_CONFIG[g.rule].label}
+                  {g.rule === "MAX_PER_TABLE" && ` ${g.maxPerTable} 人`}
+                </Tag>
+                <span className={styles.weight}>
+                  {g.tag
+                    ? `标签：${g.tag}`
+                    : g.relationship
+                      ? `关系：${g.relationship}`
+                      : "指定宾客"}
+                </span>
+              </div>
+              <div className={styles.members}>
+                {g.guests.length > 0
+                  ? g.guests.map((guest) => guest.name).join("、")
+                  : "暂无符合条件的宾客"}
+              </div>
+              <div className={styles.meta}>
+                <Tag color={STATUS_CONFIG[g.status].color}>
+                  {STATUS_CONFIG[g.status].label}
+                </Tag>
+                <span className={styles.creator}>
+                  {g.createdBy.nickname} ·{" "}
+                  {new Date(g.createdAt).toLocaleDateString()}
+                </span>
+                {canEdit && (
+                  <Popconfirm
+                    title="确定删除这个分组约束吗？"
+                    onConfirm={() => onRemove(g.id)}
+                    okText="删除"
+                    cancelText="取消"
+                  >
+                    <Tooltip title="删除">
+                      <Button
+                        type="text"
+                        size="small"
+                        icon={<DeleteOutlined />}
+                      />
+                    </Tooltip>
+                  </Popconfirm>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
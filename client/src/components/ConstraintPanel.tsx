@@ -0,0 +1,463 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Drawer,
+  Select,
+  Button,
+  Tag,
+  Empty,
+  Popconfirm,
+  Tooltip,
+  Segmented,
+  Rate,
+} from "antd";
+import { DeleteOutlined, PlusOutlined } from "@ant-design/icons";
+import { guestApi, seatingApi } from "../services/api";
+import type {
+  ConstraintGroupInput,
+  ConstraintInput,
+  ConstraintType,
+} from "../services/api";
+import ConstraintGroupList from "./ConstraintGroupList";
+import styles from "./ConstraintPanel.module.css";
+
+type ConstraintStatus = "satisfied" | "violated" | "pending";
+
+interface ConstraintGuest {
+  id: string;
+  name: string;
+  headCount: number;
+  tags: string[];
+  relationship: string | null;
+}
+
+interface ConstraintItem {
+  id: string;
+  constraintType: ConstraintType;
+  createdAt: string;
+  guest1: ConstraintGuest;
+  guest2: ConstraintGuest | null;
+  table: { id: string; name: string } | null;
+  tag: string | null;
+  weight: number | null;
+  createdBy: { id: string; nickname: string };
+  status: ConstraintStatus;
+}
+
+interface PanelTable {
+  id: string;
+  name: string;
+  capacity: number;
+  assignments: Array<{ seats: number[]; guest: { id: string; tags: string[] } }>;
+}
+
+interface ConstraintPanelProps {
+  open: boolean;
+  projectId: string;
+  // 当前桌位及入座宾客，用于实时计算约束状态
+  tables: PanelTable[];
+  canEdit: boolean;
+  adding: boolean;
+  onAdd: (data: ConstraintInput) => void;
+  onRemove: (constraintId: string) => void;
+  addingGroup: boolean;
+  onAddGroup: (data: ConstraintGroupInput) => void;
+  onRemoveGroup: (groupId: string) => void;
+  onClose: () => void;
+}
+
+const TYPE_CONFIG: Record<ConstraintType, { label: string; color: string }> = {
+  MUST_TOGETHER: { label: "必须同桌", color: "blue" },
+  MUST_APART: { label: "不能同桌", color: "orange" },
+  PREFER_TOGETHER: { label: "尽量同桌", color: "cyan" },
+  PREFER_APART: { label: "尽量分开", color: "gold" },
+  MUST_AT_TABLE: { label: "必须坐在", color: "purple" },
+  NEVER_AT_TABLE: { label: "不坐", color: "magenta" },
+  PREFER_WITH_TAG: { label: "偏好标签", color: "green" },
+  NEXT_TO: { label: "相邻就座", color: "geekblue" },
+  FACE_STAGE: { label: "面向舞台", color: "volcano" },
+};
+
+const SOFT_TYPES: ConstraintType[] = [
+  "PREFER_TOGETHER",
+  "PREFER_APART",
+  "PREFER_WITH_TAG",
+];
+
+const TYPE_OPTIONS = (Object.keys(TYPE_CONFIG) as ConstraintType[]).map(
+  (value) => ({ value, label: TYPE_CONFIG[value].label })
+);
+
+const STATUS_CONFIG: Record<ConstraintStatus, { label: string; color: string }> =
+  {
+    satisfied: { label: "已满足", color: "green" },
+    violated: { label: "未满足", color: "red" },
+    pending: { label: "待安排", color: "default" },
+  };
+
+// 约束的对象：另一位宾客、桌位、标签，面向舞台没有对象
+const targetKind = (type: ConstraintType) =>
+  type === "MUST_AT_TABLE" || type === "NEVER_AT_TABLE"
+    ? "table"
+    : type === "PREFER_WITH_TAG"
+      ? "tag"
+      : type === "FACE_STAGE"
+        ? "none"
+        : "guest";
+
+// 座号自桌子正上方（靠近舞台）顺时针编号，下半圈面向舞台
+const facesStage = (seat: number, capacity: number) =>
+  seat - 1 > capacity / 4 && seat - 1 < (capacity * 3) / 4;
+
+const areSeatsAdjacent = (a: number, b: number, capacity: number) =>
+  a !== b && (Math.abs(a - b) === 1 || Math.abs(a - b) === capacity - 1);
+
+type GuestSeat = { tableId: string; seat: number; capacity: number };
+
+// 与服务端 getConstraintStatus 的判断一致
+const getStatus = (
+  c: ConstraintItem,
+  tableOf: Map<string, string>,
+  tagmates: (guestId: string, tag: string) => number,
+  seatOf: Map<string, GuestSeat>
+): ConstraintStatus => {
+  const table1 = tableOf.get(c.guest1.id);
+  if (!table1) return "pending";
+  if (c.constraintType === "FACE_STAGE" || c.constraintType === "NEXT_TO") {
+    const own = seatOf.get(c.guest1.id);
+    const other = c.guest2 && seatOf.get(c.guest2.id);
+    if (!own || (c.constraintType === "NEXT_TO" && !other)) return "pending";
+    const satisfied =
+      c.constraintType === "FACE_STAGE"
+        ? facesStage(own.seat, own.capacity)
+        : own.tableId === other!.tableId &&
+          areSeatsAdjacent(own.seat, other!.seat, own.capacity);
+    return satisfied ? "satisfied" : "violated";
+  }
+  if (c.constraintType === "MUST_AT_TABLE") {
+    return table1 === c.table?.id ? "satisfied" : "violated";
+  }
+  if (c.constraintType === "NEVER_AT_TABLE") {
+    return table1 === c.table?.id ? "violated" : "satisfied";
+  }
+  if (c.constraintType === "PREFER_WITH_TAG") {
+    return c.tag && tagmates(c.guest1.id, c.tag) > 0 ? "satisfied" : "violated";
+  }
+  const table2 = c.guest2 && tableOf.get(c.guest2.id);
+  if (!table2) return "pending";
+  const apart =
+    c.constraintType === "MUST_APART" || c.constraintType === "PREFER_APART";
+  return apart !== (table1 === table2) ? "satisfied" : "violated";
+};
+
+export default function ConstraintPanel({
+  open,
+  projectId,
+  tables,
+  canEdit,
+  adding,
+  onAdd,
+  onRemove,
+  addingGroup,
+  onAddGroup,
+  onRemoveGroup,
+  onClose,
+}: ConstraintPanelProps) {
+  const [view, setView] = useState<"pair" | "group">("pair");
+  const [guestId, setGuestId] = useState<string>();
+  const [type, setType] = useState<ConstraintType>();
+  const [status, setStatus] = useState<ConstraintStatus | "all">("all");
+  const [draft, setDraft] = useState<Partial<ConstraintInput>>({
+    constraintType: "MUST_TOGETHER",
+    weight: 3,
+  });
+
+  const { data: constraints = [] } = useQuery({
+    queryKey: ["constraints", projectId, guestId, type],
+    queryFn: async () => {
+      const response = await seatingApi.getConstraints(projectId, {
+        guestId,
+        type,
+      });
+      return response.data.data.constraints as ConstraintItem[];
+    },
+    enabled: open,
+  });
+
+  // 筛选和新增约束时选择宾客
+  const { data: guests = [] } = useQuery({
+    queryKey: ["guests", projectId, "all"],
+    queryFn: async () => {
+      const response = await guestApi.getAll(projectId, { limit: 1000 });
+      return response.data.data.guests as ConstraintGuest[];
+    },
+    enabled: open,
+  });
+
+  const guestOptions = guests.map((g) => ({ label: g.name, value: g.id }));
+  const tableOptions = tables.map((t) => ({ label: t.name, value: t.id }));
+  const tagOptions = Array.from(new Set(guests.flatMap((g) => g.tags))).map(
+    (tag) => ({ label: tag, value: tag })
+  );
+
+  // 座位变化后无需重新请求，按当前桌位数据计算状态
+  const items = useMemo(() => {
+    const tableOf = new Map<string, string>();
+    const seatOf = new Map<string, GuestSeat>();
+    tables.forEach((t) =>
+      t.assignments.forEach((a) => {
+        tableOf.set(a.guest.id, t.id);
+        if (a.seats.length > 0) {
+          seatOf.set(a.guest.id, {
+            tableId: t.id,
+            seat: a.seats[0],
+            capacity: t.capacity,
+          });
+        }
+      })
+    );
+    const tagmates = (id: string, tag: string) =>
+      tables
+        .find((t) => t.id === tableOf.get(id))!
+        .assignments.filter(
+          (a) => a.guest.id !== id && a.guest.tags.includes(tag)
+        ).length;
+    return constraints.map((c) => ({
+      ...c,
+      status: getStatus(c, tableOf, tagmates, seatOf),
+    }));
+  }, [constraints, tables]);
+
+  const counts = items.reduce(
+    (acc, c) => ({ ...acc, [c.status]: acc[c.status] + 1 }),
+    { satisfied: 0, violated: 0, pending: 0 } as Record<ConstraintStatus, number>
+  );
+  const visible =
+    status === "all" ? items : items.filter((c) => c.status === status);
+
+  const draftKind = targetKind(draft.constraintType!);
+  const draftReady =
+    !!draft.guest1Id &&
+    (draftKind === "guest"
+      ? !!draft.guest2Id
+      : draftKind === "table"
+        ? !!draft.tableId
+        : draftKind === "tag"
+          ? !!draft.tag
+          : true);
+
+  return (
+    <Drawer title="排座约束" open={open} onClose={onClose} size={460}>
+      <Segmented
+        block
+        value={view}
+        onChange={(value) => setView(value as typeof view)}
+        className={styles.viewSwitch}
+        options={[
+          { label: "宾客约束", value: "pair" },
+          { label: "分组约束", value: "group" },
+        ]}
+      />
+      {view === "group" && (
+        <ConstraintGroupList
+          projectId={projectId}
+          open={open}
+          guests={guests}
+          tables={tables}
+          canEdit={canEdit}
+          adding={addingGroup}
+          onAdd={onAddGroup}
+          onRemove={onRemoveGroup}
+        />
+      )}
+      {view === "pair" && canEdit && (
+        <div className={styles.addForm}>
+          <div className={styles.addRow}>
+            <Select
+              placeholder="宾客"
+              showSearch
+              optionFilterProp="label"
+              value={draft.guest1Id}
+              onChange={(value) => setDraft({ ...draft, guest1Id: value })}
+              options={guestOptions}
+              size="small"
+              className={styles.guestSelect}
+            />
+            <Select
+              value={draft.constraintType}
+              onChange={(value) => setDraft({ ...draft, constraintType: value })}
+              options={TYPE_OPTIONS}
+              size="small"
+              className={styles.typeSelect}
+            />
+            {draftKind === "guest" && (
+              <Select
+                placeholder="宾客"
+                showSearch
+                optionFilterProp="label"
+                value={draft.guest2Id}
+                onChange={(value) => setDraft({ ...draft, guest2Id: value })}
+                options={guestOptions.filter((o) => o.value !== draft.guest1Id)}
+                size="small"
+                className={styles.guestSelect}
+              />
+            )}
+            {draftKind === "table" && (
+              <Select
+                placeholder="桌位"
+                showSearch
+                optionFilterProp="label"
+                value={draft.tableId}
+                onChange={(value) => setDraft({ ...draft, tableId: value })}
+                options={tableOptions}
+                size="small"
+                className={styles.guestSelect}
+              />
+            )}
+            {draftKind === "tag" && (
+              <Select
+                placeholder="标签"
+                showSearch
+                value={draft.tag}
+                onChange={(value) => setDraft({ ...draft, tag: value })}
+                options={tagOptions}
+                size="small"
+                className={styles.guestSelect}
+              />
+            )}
+          </div>
+          {SOFT_TYPES.includes(draft.constraintType!) && (
+            <div className={styles.weightRow}>
+              <span>偏好强度</span>
+              <Rate
+                count={5}
+                value={draft.weight}
+                onChange={(value) =>
+                  setDraft({ ...draft, weight: value || undefined })
+                }
+              />
+            </div>
+          )}
+          <Button
+            type="primary"
+            size="small"
+            icon={<PlusOutlined />}
+            disabled={!draftReady}
+            loading={adding}
+            onClick={() =>
+              onAdd({
+                guest1Id: draft.guest1Id!,
+                constraintType: draft.constraintType!,
+                ...(draftKind === "guest" && { guest2Id: draft.guest2Id }),
+                ...(draftKind === "table" && { tableId: draft.tableId }),
+                ...(draftKind === "tag" && { tag: draft.tag }),
+                ...(SOFT_TYPES.includes(draft.constraintType!) && {
+                  weight: draft.weight,
+                }),
+              })
+            }
+            block
+          >
+            添加约束
+          </Button>
+          <div className={styles.hint}>
+            也可以把一位待安排宾客拖到另一位宾客上添加约束
+          </div>
+        </div>
+      )}
+
+      {view === "pair" && (
+        <>
+          <div className={styles.filters}>
+            <Select
+              placeholder="按宾客筛选"
+              showSearch
+              optionFilterProp="label"
+              value={guestId}
+              onChange={setGuestId}
+              options={guestOptions}
+              size="small"
+              allowClear
+              className={styles.guestSelect}
+            />
+            <Select
+              placeholder="类型"
+              value={type}
+              onChange={setType}
+              options={TYPE_OPTIONS}
+              size="small"
+              allowClear
+              className={styles.typeSelect}
+            />
+          </div>
+          <Segmented
+            size="small"
+            value={status}
+            onChange={(value) => setStatus(value as typeof status)}
+            className={styles.statusFilter}
+            options={[
+              { label: `全部 ${items.length}`, value: "all" },
+              ...(Object.keys(STATUS_CONFIG) as ConstraintStatus[]).map(
+                (s) => ({
+                  label: `${STATUS_CONFIG[s].label} ${counts[s]}`,
+                  value: s,
+                })
+              ),
+            ]}
+          />
+
+          {visible.length === 0 ? (
+            <Empty description="暂无约束" />
+          ) : (
+            <div className={styles.list}>
+              {visible.map((c) => (
+                <div key={c.id} className={styles.item}>
+                  <div className={styles.pair}>
+                    <span className={styles.guestName}>{c.guest1.name}</span>
+                    <Tag
+                      color={TYPE_CONFIG[c.constraintType].color}
+                      className={styles.typeTag}
+                    >
+                      {TYPE_CONFIG[c.constraintType].label}
+                    </Tag>
+                    <span className={styles.guestName}>
+                      {c.guest2?.name || c.table?.name || c.tag}
+                    </span>
+                    {c.weight !== null && (
+                      <span className={styles.weight}>强度 {c.weight}</span>
+                    )}
+                  </div>
+                  <div className={styles.meta}>
+                    <Tag color={STATUS_CONFIG[c.status].color}>
+                      {STATUS_CONFIG[c.status].label}
+                    </Tag>
+                    <span className={styles.creator}>
+                      {c.createdBy.nickname} ·{" "}
+                      {new Date(c.createdAt).toLocaleDateString()}
+                    </span>
+                    {canEdit && (
+                      <Popconfirm
+                        title="确定删除这条约束吗？"
+                        onConfirm={() => onRemove(c.id)}
+                        okText="删除"
+                        cancelText="取消"
+                      >
+                        <Tooltip title="删除">
+                          <Button
+                            type="text"
+                            size="small"
+                            icon={<DeleteOutlined />}
+                          />
+                        </Tooltip>
+                      </Popconfirm>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Drawer>
+  );
+}
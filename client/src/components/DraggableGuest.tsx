@@ -1,5 +1,5 @@
-import { useDraggable } from '@dnd-kit/core'
-import { Tag } from 'antd'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { Checkbox, Tag } from 'antd'
 import { UserOutlined } from '@ant-design/icons'
 import styles from './DraggableGuest.module.css'
 
@@ -13,6 +13,9 @@ interface Guest {
 
 interface DraggableGuestProps {
   guest: Guest
+  // 多选：选中的宾客可一起拖到桌上
+  selected?: boolean
+  onToggleSelect?: (guestId: string) => void
 }
 
 const TAG_COLORS: Record<string, string> = {
@@ -24,19 +27,41 @@ const TAG_COLORS: Record<string, string> = {
   '领导': '#D4AF37',
 }
 
-export default function DraggableGuest({ guest }: DraggableGuestProps) {
+export default function DraggableGuest({
+  guest,
+  selected = false,
+  onToggleSelect,
+}: DraggableGuestProps) {
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: guest.id,
   })
+  // 把另一位宾客拖到这里可添加约束
+  const { setNodeRef: setDropRef, isOver } = useDroppable({
+    id: `guest:${guest.id}`,
+  })
 
   return (
     <div
-      ref={setNodeRef}
+      ref={(node) => {
+        setNodeRef(node)
+        setDropRef(node)
+      }}
       {...listeners}
       {...attributes}
-      className={`${styles.guestCard} ${isDragging ? styles.dragging : ''}`}
+      className={`${styles.guestCard} ${isDragging ? styles.dragging : ''} ${
+        selected ? styles.selected : ''
+      } ${isOver && !isDragging ? styles.dropTarget : ''}`}
     >
       <div className={styles.guestInfo}>
+        {onToggleSelect && (
+          // 阻止勾选时触发拖拽
+          <span onPointerDown={(e) => e.stopPropagation()}>
+            <Checkbox
+              checked={selected}
+              onChange={() => onToggleSelect(guest.id)}
+            />
+          </span>
+        )}
         <UserOutlined className={styles.icon} />
         <span className={styles.name}>{guest.name}</span>
         <Tag className={styles.countTag}>{guest.headCount}人</Tag>
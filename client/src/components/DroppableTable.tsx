@@ -5,7 +5,12 @@ import {
   UserOutlined,
   CloseOutlined,
   EditOutlined,
+  LockOutlined,
+  UnlockOutlined,
 } from "@ant-design/icons";
+import { ACCESSIBLE_TABLE_TAG, DIETARY_NEED_LABELS } from "../services/api";
+import type { DietaryNeed, TableKind, TableNeeds } from "../services/api";
+import { useEditLock } from "../stores/editLockStore";
 import styles from "./DroppableTable.module.css";
 
 interface TableGuest {
@@ -19,31 +24,57 @@ interface TableWithGuests {
   id: string;
   name: string;
   capacity: number;
+  kind: TableKind;
+  tags: string[];
   area: { id: string; name: string; color: string } | null;
+  pinned: boolean;
   assignments: Array<{
+    pinned: boolean;
+    seats: number[];
     guest: TableGuest;
   }>;
   occupiedSeats: number;
   availableSeats: number;
+  needs: TableNeeds;
+}
+
+interface GhostGuest {
+  id: string;
+  name: string;
+  headCount: number;
 }
 
 interface DroppableTableProps {
   table: TableWithGuests;
+  ghostGuests?: GhostGuest[];
+  // 预览中将被调离该桌的宾客
+  movingOutIds?: Set<string>;
   onRemoveGuest: (guestId: string) => void;
   onDeleteTable?: (tableId: string) => void;
   onEditTable?: (table: TableWithGuests) => void;
+  onTogglePin?: (table: TableWithGuests) => void;
+  onTogglePinGuest?: (guestId: string, pinned: boolean) => void;
 }
 
 export default function DroppableTable({
   table,
+  ghostGuests = [],
+  movingOutIds,
   onRemoveGuest,
   onDeleteTable,
   onEditTable,
+  onTogglePin,
+  onTogglePinGuest,
 }: DroppableTableProps) {
+  // 锁定的桌位不接受拖入
   const { setNodeRef, isOver } = useDroppable({
     id: table.id,
+    disabled: table.pinned,
   });
+  // 其他成员正在编辑桌位信息
+  const editLock = useEditLock("table", table.id);
 
+  const ghostSeats = ghostGuests.reduce((sum, g) => sum + g.headCount, 0);
   const percentage = Math.round((table.occupiedSeats / table.capacity) * 100);
 
   const getStatusColor = () => {
@@ -52,6 +83,17 @@ export default function DroppableTable({
     return "#B76E79";
   };
 
+  // 本桌的饮食需求与轮椅人数，如"素食 2 · 过敏 1"
+  const needsText = [
+    ...(Object.keys(table.needs.dietary) as DietaryNeed[]).map(
+      (need) => `${DIETARY_NEED_LABELS[need]} ${table.needs.dietary[need]}`
+    ),
+    table.needs.allergies > 0 && `过敏 ${table.needs.allergies}`,
+    table.needs.wheelchairs > 0 && `轮椅 ${table.needs.wheelchairs}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
   const getStatusText = () => {
     if (table.occupiedSeats === 0) return "空桌";
     if (table.occupiedSeats >= table.capacity) return "已满";
@@ -61,7 +103,9 @@ export default function DroppableTable({
   return (
     <div
       ref={setNodeRef}
-      className={`${styles.table} ${isOver ? styles.isOver : ""}`}
+      className={`${styles.table} ${isOver ? styles.isOver : ""} ${
+        table.pinned ? styles.pinned : ""
+      }`}
     >
       <div className={styles.header}>
         <div className={styles.tableName}>
@@ -71,18 +115,60 @@ export default function DroppableTable({
               {table.area.name}
             </Tag>
           )}
+          {table.kind === "KIDS" && (
+            <Tag color="orange" className={styles.areaTag}>
+              儿童桌
+            </Tag>
+          )}
+          {table.tags.includes(ACCESSIBLE_TABLE_TAG) && (
+            <Tag color="blue" className={styles.areaTag}>
+              无障碍
+            </Tag>
+          )}
+          {editLock && (
+            <Tooltip title="其他成员正在编辑桌位信息，暂时不能修改">
+              <Tag
+                icon={<EditOutlined />}
+                color="gold"
+                className={styles.areaTag}
+              >
+                {editLock.userNickname} 编辑中
+              </Tag>
+            </Tooltip>
+          )}
         </div>
         <div className={styles.headerActions}>
           <Tag color={getStatusColor()} className={styles.statusTag}>
             {getStatusText()}
           </Tag>
+          {onTogglePin && (
+            <Tooltip title={table.pinned ? "解锁整桌" : "锁定整桌"}>
+              <Button
+                type="text"
+                size="small"
+                icon={table.pinned ? <LockOutlined /> : <UnlockOutlined />}
+                className={
+                  table.pinned ? styles.pinnedTableBtn : styles.pinTableBtn
+                }
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTogglePin(table);
+                }}
+              />
+            </Tooltip>
+          )}
           {onEditTable && (
-            <Tooltip title="编辑桌位">
+            <Tooltip
+              title={
+                editLock ? `${editLock.userNickname} 正在编辑` : "编辑桌位"
+              }
+            >
               <Button
                 type="text"
                 size="small"
                 icon={<EditOutlined />}
                 className={styles.editTableBtn}
+                disabled={!!editLock}
                 onClick={(e) => {
                   e.stopPropagation();
                   onEditTable(table);
@@ -114,6 +200,9 @@ export default function DroppableTable({
       <div className={styles.capacity}>
         <span>
           {table.occupiedSeats}/{table.capacity} 人
+          {ghostSeats > 0 && (
+            <span className={styles.ghostCount}> +{ghostSeats} 预览</span>
+          )}
         </span>
         <Progress
           percent={percentage}
@@ -123,12 +212,21 @@ export default function DroppableTable({
         />
       </div>
 
+      {needsText && <div className={styles.needs}>{needsText}</div>}
+
       <div className={styles.guestList}>
-        {table.assignments.length === 0 ? (
-          <div className={styles.emptyHint}>拖拽宾客到此处</div>
+        {table.assignments.length === 0 && ghostGuests.length === 0 ? (
+          <div className={styles.emptyHint}>
+            {table.pinned ? "已锁定" : "拖拽宾客到此处"}
+          </div>
         ) : (
-          table.assignments.map(({ guest }) => (
-            <div key={guest.id} className={styles.guestItem}>
+          table.assignments.map(({ guest, pinned }) => (
+            <div
+              key={guest.id}
+              className={`${styles.guestItem} ${
+                movingOutIds?.has(guest.id) ? styles.movingOut : ""
+              }`}
+            >
               <Tooltip
                 title={`${guest.name}（${guest.headCount}人）`}
                 placement="left"
@@ -141,21 +239,50 @@ export default function DroppableTable({
                   </span>
                 </div>
               </Tooltip>
-              <Tooltip title="移除">
-                <Button
-                  type="text"
-                  size="small"
-                  icon={<DeleteOutlined />}
-                  className={styles.removeBtn}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onRemoveGuest(guest.id);
-                  }}
-                />
-              </Tooltip>
+              {onTogglePinGuest && !table.pinned && (
+                <Tooltip title={pinned ? "解锁座位" : "锁定座位"}>
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={pinned ? <LockOutlined /> : <UnlockOutlined />}
+                    className={pinned ? styles.pinnedGuestBtn : styles.pinBtn}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onTogglePinGuest(guest.id, !pinned);
+                    }}
+                  />
+                </Tooltip>
+              )}
+              {!pinned && !table.pinned && (
+                <Tooltip title="移除">
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<DeleteOutlined />}
+                    className={styles.removeBtn}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemoveGuest(guest.id);
+                    }}
+                  />
+                </Tooltip>
+              )}
             </div>
           ))
         )}
+        {/* 自动排座预览：尚未提交的安排以虚线显示 */}
+        {ghostGuests.map((guest) => (
+          <div
+            key={guest.id}
+            className={`${styles.guestItem} ${styles.ghostItem}`}
+          >
+            <div className={styles.guestInfo}>
+              <UserOutlined className={styles.guestIcon} />
+              <span className={styles.guestName}>{guest.name}</span>
+              <span className={styles.guestCount}>({guest.headCount}人)</span>
+            </div>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -7,16 +7,36 @@ import {
   SaveOutlined,
   DownloadOutlined,
 } from "@ant-design/icons";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  pointerWithin,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { DragEndEvent, DragStartEvent } from "@dnd-kit/core";
 import html2canvas from "html2canvas";
-import { tableApi } from "../services/api";
+import { seatingApi, tableApi } from "../services/api";
+import FloorSeat from "./FloorSeat";
+import ScenarioSwitcher from "./ScenarioSwitcher";
+import type { FloorSeatInfo } from "./FloorSeat";
+import type { AgeCategory, ApiError } from "../services/api";
 import styles from "./FloorPlan.module.css";
 
 interface TableGuest {
   id: string;
   name: string;
   headCount: number;
+  // 已登记的随行人员，依次坐在 seats[1]、seats[2]…
+  companions: Array<{ name: string; type: AgeCategory }>;
 }
 
+const COMPANION_CAPTIONS: Partial<Record<AgeCategory, string>> = {
+  CHILD: "儿童",
+  INFANT: "婴儿",
+};
+
 interface TableWithGuests {
   id: string;
   name: string;
@@ -27,22 +47,18 @@ interface TableWithGuests {
   occupiedSeats: number;
   availableSeats: number;
   assignments: Array<{
+    // 座号，依次为宾客本人及随行人员
+    seats: number[];
     guest: TableGuest;
   }>;
 }
 
-interface SeatInfo {
-  guestName: string;
-  seatIndex: number;
-  totalSeats: number;
-  isEmpty: boolean;
-}
-
 interface FloorPlanProps {
   projectId: string;
+  canEdit: boolean;
 }
 
-export default function FloorPlan({ projectId }: FloorPlanProps) {
+export default function FloorPlan({ projectId, canEdit }: FloorPlanProps) {
   const queryClient = useQueryClient();
   const canvasRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
@@ -53,6 +69,15 @@ export default function FloorPlan({ projectId }: FloorPlanProps) {
   const [dragStartPos, setDragStartPos] = useState({ x: 0, y: 0 });
   const [dragStartTablePos, setDragStartTablePos] = useState({ x: 0, y: 0 });
   const [exporting, setExporting] = useState(false);
+  const [activeSeat, setActiveSeat] = useState<FloorSeatInfo | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    })
+  );
 
   // 获取所有桌位
   const { data: tables = [] } = useQuery({
@@ -73,11 +98,66 @@ export default function FloorPlan({ projectId }: FloorPlanProps) {
       setPositions({});
       queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
     },
-    onError: () => {
-      message.error("保存失败");
+    onError: (error: ApiError) => {
+      // 其他成员正在编辑其中的桌位时返回 423，提示持有者
+      message.error(error.response?.data?.message || "保存失败");
     },
   });
 
+  // 同桌交换座位（目标可以是空座）
+  const swapSeatsMutation = useMutation({
+    mutationFn: seatingApi.swapSeats,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "调整座位失败");
+    },
+  });
+
+  // 坐到其他桌的空座位，整组宾客一起换桌
+  const placeSeatMutation = useMutation({
+    mutationFn: seatingApi.placeSeat,
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "调整座位失败");
+    },
+  });
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveSeat(event.active.data.current as FloorSeatInfo);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveSeat(null);
+    const from = event.active.data.current as FloorSeatInfo;
+    const to = event.over?.data.current as FloorSeatInfo | undefined;
+    const sameSeat =
+      to?.tableId === from.tableId && to?.seatNumber === from.seatNumber;
+    if (!to || sameSeat) return;
+
+    if (to.tableId === from.tableId) {
+      swapSeatsMutation.mutate({
+        tableId: to.tableId,
+        seatA: from.seatNumber,
+        seatB: to.seatNumber,
+      });
+    } else if (to.isEmpty) {
+      placeSeatMutation.mutate({
+        guestId: from.guestId!,
+        person: from.person,
+        tableId: to.tableId,
+        seatNumber: to.seatNumber,
+      });
+    } else {
+      message.warning("换桌时请拖到空座位上");
+    }
+  };
+
   const getTablePosition = useCallback(
     (table: TableWithGuests) => {
       if (positions[table.id]) {
@@ -177,35 +257,43 @@ export default function FloorPlan({ projectId }: FloorPlanProps) {
     return "#B76E79";
   };
 
-  // 生成座位列表（将宾客拆分成单个座位）
-  const generateSeats = (table: TableWithGuests): SeatInfo[] => {
-    const seats: SeatInfo[] = [];
-
-    // 先添加已安排的座位
-    if (table.assignments) {
-      table.assignments.forEach((assignment) => {
-        const guest = assignment.guest;
-        for (let i = 0; i < guest.headCount; i++) {
-          seats.push({
-            guestName: guest.name,
-            seatIndex: i + 1,
-            totalSeats: guest.headCount,
-            isEmpty: false,
-          });
-        }
-      });
-    }
-
-    // 填充空座位
-    const emptyCount = table.capacity - seats.length;
-    for (let i = 0; i < emptyCount; i++) {
-      seats.push({
+  // 生成座位列表：按座号排列，宾客本人及随行人员各占一个座位
+  const generateSeats = (table: TableWithGuests): FloorSeatInfo[] => {
+    const seats: FloorSeatInfo[] = Array.from(
+      { length: table.capacity },
+      (_, i) => ({
+        tableId: table.id,
+        seatNumber: i + 1,
+        guestId: null,
         guestName: "",
-        seatIndex: 0,
+        ownerName: "",
+        caption: "",
+        person: 0,
         totalSeats: 0,
         isEmpty: true,
+      })
+    );
+
+    table.assignments?.forEach((assignment) => {
+      const guest = assignment.guest;
+      assignment.seats.forEach((seatNumber, person) => {
+        if (seatNumber < 1 || seatNumber > table.capacity) return;
+        const companion = person > 0 ? guest.companions[person - 1] : null;
+        seats[seatNumber - 1] = {
+          tableId: table.id,
+          seatNumber,
+          guestId: guest.id,
+          guestName: companion?.name || guest.name,
+          ownerName: guest.name,
+          caption:
+            (companion && COMPANION_CAPTIONS[companion.type]) ||
+            `${person + 1}/${guest.headCount}`,
+          person,
+          totalSeats: guest.headCount,
+          isEmpty: false,
+        };
       });
-    }
+    });
 
     return seats;
   };
@@ -250,6 +338,7 @@ export default function FloorPlan({ projectId }: FloorPlanProps) {
           <span className={styles.scaleText}>{Math.round(scale * 100)}%</span>
         </div>
         <div className={styles.actions}>
+          <ScenarioSwitcher projectId={projectId} canEdit={canEdit} />
           <Button
             type="primary"
             icon={<SaveOutlined />}
@@ -268,98 +357,102 @@ export default function FloorPlan({ projectId }: FloorPlanProps) {
         </div>
       </div>
 
-      {/* 画布 */}
-      <div className={styles.canvasWrapper}>
-        <div
-          ref={canvasRef}
-          className={styles.canvas}
-          style={{ transform: `scale(${scale})` }}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-        >
-          {/* 舞台 */}
-          <div className={styles.stage}>🎭 舞 台</div>
-
-          {/* 桌位 */}
-          {tables.map((table) => {
-            const pos = getTablePosition(table);
-            const seats = generateSeats(table);
-            const { tableRadius, seatRadius, seatSize } = getTableSize(
-              table.capacity
-            );
-
-            return (
-              <div
-                key={table.id}
-                className={`${styles.tableWrapper} ${
-                  dragId === table.id ? styles.dragging : ""
-                }`}
-                style={{
-                  left: pos.x,
-                  top: pos.y + 100,
-                  width: seatRadius * 2 + seatSize,
-                  height: seatRadius * 2 + seatSize,
-                }}
-                onMouseDown={(e) => handleMouseDown(e, table.id)}
-              >
-                {/* 座位环绕 */}
-                {seats.map((seat, index) => {
-                  const seatPos = getSeatPosition(
-                    index,
-                    table.capacity,
-                    seatRadius
-                  );
-                  return (
-                    <div
-                      key={index}
-                      className={`${styles.seat} ${
-                        seat.isEmpty ? styles.emptySeat : styles.occupiedSeat
-                      }`}
-                      style={{
-                        left: `calc(50% + ${seatPos.x}px - ${seatSize / 2}px)`,
-                        top: `calc(50% + ${seatPos.y}px - ${seatSize / 2}px)`,
-                        width: seatSize,
-                        height: seatSize,
-                      }}
-                    >
-                      {!seat.isEmpty && (
-                        <>
-                          <span className={styles.seatName}>
-                            {seat.guestName}
-                          </span>
-                          <span className={styles.seatIndex}>
-                            {seat.seatIndex}/{seat.totalSeats}
-                          </span>
-                        </>
-                      )}
-                    </div>
-                  );
-                })}
-
-                {/* 桌位中心 */}
+      {/* 画布：座位可拖拽调整 */}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={pointerWithin}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActiveSeat(null)}
+      >
+        <div className={styles.canvasWrapper}>
+          <div
+            ref={canvasRef}
+            className={styles.canvas}
+            style={{ transform: `scale(${scale})` }}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          >
+            {/* 舞台 */}
+            <div className={styles.stage}>🎭 舞 台</div>
+
+            {/* 桌位 */}
+            {tables.map((table) => {
+              const pos = getTablePosition(table);
+              const seats = generateSeats(table);
+              const { tableRadius, seatRadius, seatSize } = getTableSize(
+                table.capacity
+              );
+
+              return (
                 <div
-                  className={styles.tableCenter}
+                  key={table.id}
+                  className={`${styles.tableWrapper} ${
+                    dragId === table.id ? styles.dragging : ""
+                  }`}
                   style={{
-                    width: tableRadius * 2,
-                    height: tableRadius * 2,
-                    backgroundColor: getTableColor(table),
-                    borderColor: table.area?.color || "#d9d9d9",
+                    left: pos.x,
+                    top: pos.y + 100,
+                    width: seatRadius * 2 + seatSize,
+                    height: seatRadius * 2 + seatSize,
                   }}
+                  onMouseDown={(e) => handleMouseDown(e, table.id)}
                 >
-                  <div className={styles.tableName}>{table.name}</div>
-                  <div className={styles.tableCapacity}>
-                    {table.occupiedSeats}/{table.capacity}
+                  {/* 座位环绕 */}
+                  {seats.map((seat, index) => {
+                    const seatPos = getSeatPosition(
+                      index,
+                      table.capacity,
+                      seatRadius
+                    );
+                    return (
+                      <FloorSeat
+                        key={seat.seatNumber}
+                        seat={seat}
+                        canEdit={canEdit}
+                        style={{
+                          left: `calc(50% + ${seatPos.x}px - ${seatSize / 2}px)`,
+                          top: `calc(50% + ${seatPos.y}px - ${seatSize / 2}px)`,
+                          width: seatSize,
+                          height: seatSize,
+                        }}
+                      />
+                    );
+                  })}
+
+                  {/* 桌位中心 */}
+                  <div
+                    className={styles.tableCenter}
+                    style={{
+                      width: tableRadius * 2,
+                      height: tableRadius * 2,
+                      backgroundColor: getTableColor(table),
+                      borderColor: table.area?.color || "#d9d9d9",
+                    }}
+                  >
+                    <div className={styles.tableName}>{table.name}</div>
+                    <div className={styles.tableCapacity}>
+                      {table.occupiedSeats}/{table.capacity}
+                    </div>
                   </div>
                 </div>
-              </div>
-            );
-          })}
+              );
+            })}
 
-          {/* 入口标记 */}
-          <div className={styles.entrance}>🚪 入口</div>
+            {/* 入口标记 */}
+            <div className={styles.entrance}>🚪 入口</div>
+          </div>
         </div>
-      </div>
+        <DragOverlay>
+          {activeSeat && (
+            <div className={styles.seatOverlay}>
+              {activeSeat.guestName}
+              {activeSeat.totalSeats > 1 && ` ${activeSeat.caption}`}
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
 
       {/* 图例 */}
       <div className={styles.legend}>
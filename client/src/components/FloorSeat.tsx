@@ -0,0 +1,73 @@
+import { useDraggable, useDroppable } from "@dnd-kit/core";
+import type { CSSProperties } from "react";
+import styles from "./FloorPlan.module.css";
+
+export interface FloorSeatInfo {
+  tableId: string;
+  seatNumber: number;
+  // 空座位没有宾客
+  guestId: string | null;
+  // 座位上的人：宾客本人或已登记姓名的随行人员，未登记时为宾客姓名
+  guestName: string;
+  ownerName: string;
+  // 姓名下方的小字：儿童/婴儿标识，或"第几位/共几位"
+  caption: string;
+  // 宾客本人为 0，随行人员依次为 1、2…
+  person: number;
+  totalSeats: number;
+  isEmpty: boolean;
+}
+
+interface FloorSeatProps {
+  seat: FloorSeatInfo;
+  canEdit: boolean;
+  style: CSSProperties;
+}
+
+export default function FloorSeat({ seat, canEdit, style }: FloorSeatProps) {
+  const id = `${seat.tableId}:${seat.seatNumber}`;
+  const draggable = canEdit && !seat.isEmpty;
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id,
+    data: seat,
+    disabled: !draggable,
+  });
+  // 拖到同桌座位上交换，拖到其他桌的空座位上换桌
+  const { setNodeRef: setDropRef, isOver } = useDroppable({
+    id: `seat:${id}`,
+    data: seat,
+    disabled: !canEdit,
+  });
+
+  return (
+    <div
+      ref={(node) => {
+        setNodeRef(node);
+        setDropRef(node);
+      }}
+      {...(draggable && { ...listeners, ...attributes })}
+      // 拖动座位时不带动整张桌
+      onMouseDown={draggable ? (e) => e.stopPropagation() : undefined}
+      className={`${styles.seat} ${
+        seat.isEmpty ? styles.emptySeat : styles.occupiedSeat
+      } ${draggable ? styles.draggableSeat : ""} ${
+        isDragging ? styles.draggingSeat : ""
+      } ${isOver && !isDragging ? styles.seatDropTarget : ""}`}
+      style={style}
+      title={
+        seat.isEmpty || seat.person === 0
+          ? `${seat.seatNumber} 号座位`
+          : `${seat.seatNumber} 号座位 · ${seat.ownerName} 的随行人员`
+      }
+    >
+      {seat.isEmpty ? (
+        <span className={styles.seatNumber}>{seat.seatNumber}</span>
+      ) : (
+        <>
+          <span className={styles.seatName}>{seat.guestName}</span>
+          <span className={styles.seatIndex}>{seat.caption}</span>
+        </>
+      )}
+    </div>
+  );
+}
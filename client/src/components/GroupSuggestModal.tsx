@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Modal,
+  Segmented,
+  Select,
+  Button,
+  Tag,
+  Empty,
+  Alert,
+  message,
+} from "antd";
+import { BulbOutlined } from "@ant-design/icons";
+import { guestApi, seatingApi } from "../services/api";
+import styles from "./GroupSuggestModal.module.css";
+
+interface GroupSuggestion {
+  type: "single" | "adjacent";
+  tables: Array<{ id: string; name: string; availableSeats: number }>;
+  assignments: Array<{ guestId: string; tableId: string }>;
+  score: number;
+  reasons: string[];
+}
+
+interface GroupSuggestResult {
+  guests: Array<{ id: string; name: string; headCount: number }>;
+  headCount: number;
+  skippedAssigned: number;
+  suggestions: GroupSuggestion[];
+}
+
+type GroupSource = "selected" | "tag" | "area";
+
+interface GroupSuggestModalProps {
+  open: boolean;
+  projectId: string;
+  selectedGuestIds: string[];
+  areas?: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export default function GroupSuggestModal({
+  open,
+  projectId,
+  selectedGuestIds,
+  areas,
+  onClose,
+  onApplied,
+}: GroupSuggestModalProps) {
+  const [source, setSource] = useState<GroupSource>("selected");
+  const [tag, setTag] = useState<string>();
+  const [areaId, setAreaId] = useState<string>();
+  const [result, setResult] = useState<GroupSuggestResult | null>(null);
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ["tags", projectId],
+    queryFn: async () => {
+      const response = await guestApi.getTags(projectId);
+      return response.data.data as string[];
+    },
+    enabled: open,
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: () =>
+      seatingApi.suggestGroup({
+        projectId,
+        ...(source === "selected" && { guestIds: selectedGuestIds }),
+        ...(source === "tag" && { tag }),
+        ...(source === "area" && { areaId }),
+      }),
+    onSuccess: (response) => {
+      setResult(response.data.data);
+    },
+    onError: (error: any) => {
+      setResult(null);
+      message.error(error.response?.data?.message || "获取推荐失败");
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (suggestion: GroupSuggestion) =>
+      seatingApi.assignBatch({
+        projectId,
+        assignments: suggestion.assignments,
+      }),
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      onApplied();
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "安排失败");
+    },
+  });
+
+  const canQuery =
+    (source === "selected" && selectedGuestIds.length > 0) ||
+    (source === "tag" && !!tag) ||
+    (source === "area" && !!areaId);
+
+  const guestName = (guestId: string) =>
+    result?.guests.find((g) => g.id === guestId)?.name || "";
+
+  return (
+    <Modal
+      title="成组排座推荐"
+      open={open}
+      onCancel={onClose}
+      afterOpenChange={(visible) => {
+        // 打开时有已选宾客则默认按已选宾客推荐
+        if (visible) {
+          setSource(selectedGuestIds.length > 0 ? "selected" : "tag");
+          setResult(null);
+        }
+      }}
+      footer={null}
+      width={560}
+    >
+      <div className={styles.toolbar}>
+        <Segmented
+          value={source}
+          onChange={(value) => {
+            setSource(value as GroupSource);
+            setResult(null);
+          }}
+          options={[
+            {
+              label: `已选宾客 ${selectedGuestIds.length}`,
+              value: "selected",
+              disabled: selectedGuestIds.length === 0,
+            },
+            { label: "按标签", value: "tag" },
+            { label: "按区域", value: "area" },
+          ]}
+        />
+        {source === "tag" && (
+          <Select
+            placeholder="选择标签"
+            value={tag}
+            onChange={setTag}
+            style={{ width: 140 }}
+            options={tags.map((t) => ({ label: t, value: t }))}
+          />
+        )}
+        {source === "area" && (
+          <Select
+            placeholder="选择区域"
+            value={areaId}
+            onChange={setAreaId}
+            style={{ width: 140 }}
+            options={areas?.map((a) => ({ label: a.name, value: a.id }))}
+          />
+        )}
+        <Button
+          type="primary"
+          icon={<BulbOutlined />}
+          disabled={!canQuery}
+          loading={suggestMutation.isPending}
+          onClick={() => suggestMutation.mutate()}
+        >
+          推荐
+        </Button>
+      </div>
+
+      {result && (
+        <>
+          <Alert
+            className={styles.summary}
+            type="info"
+            title={`共 ${result.guests.length} 位宾客，${result.headCount} 人${
+              result.skippedAssigned > 0
+                ? `（另有 ${result.skippedAssigned} 位已入座，不参与推荐）`
+                : ""
+            }`}
+          />
+
+          {result.suggestions.length === 0 ? (
+            <Empty description="没有能容纳整组的桌位或相邻桌组合，请先添加桌位或拆分后安排" />
+          ) : (
+            <div className={styles.list}>
+              {result.suggestions.map((suggestion, index) => (
+                <div
+                  key={suggestion.tables.map((t) => t.id).join("-")}
+                  className={styles.item}
+                >
+                  <div className={styles.itemHeader}>
+                    <span className={styles.rank}>#{index + 1}</span>
+                    {suggestion.tables.map((t) => (
+                      <Tag key={t.id} color="gold">
+                        {t.name}（余 {t.availableSeats}）
+                      </Tag>
+                    ))}
+                    {suggestion.type === "adjacent" && <Tag>相邻两桌</Tag>}
+                    <span className={styles.score}>
+                      得分 {suggestion.score}
+                    </span>
+                    <Button
+                      type="primary"
+                      size="small"
+                      loading={applyMutation.isPending}
+                      onClick={() => applyMutation.mutate(suggestion)}
+                    >
+                      应用
+                    </Button>
+                  </div>
+                  <ul className={styles.reasons}>
+                    {suggestion.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                  {suggestion.type === "adjacent" && (
+                    <div className={styles.split}>
+                      {suggestion.tables.map((t) => (
+                        <div key={t.id}>
+                          {t.name}：
+                          {suggestion.assignments
+                            .filter((a) => a.tableId === t.id)
+                            .map((a) => guestName(a.guestId))
+                            .join("、")}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -14,6 +14,7 @@ import {
   Upload,
   Popconfirm,
   Tooltip,
+  Typography,
 } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import {
@@ -25,23 +26,68 @@ import {
   EditOutlined,
   CheckCircleOutlined,
   ClockCircleOutlined,
+  MinusCircleOutlined,
+  LinkOutlined,
 } from "@ant-design/icons";
-import { guestApi, areaApi } from "../services/api";
+import {
+  guestApi,
+  areaApi,
+  projectApi,
+  ACCESSIBILITY_NEED_LABELS,
+  DIETARY_NEED_LABELS,
+  MEAL_KIND_LABELS,
+} from "../services/api";
+import type {
+  AccessibilityNeed,
+  AgeCategory,
+  DietaryNeed,
+  MenuOption,
+  RsvpStatus,
+} from "../services/api";
+import {
+  editLockKey,
+  useEditLockStore,
+  useHoldEditLock,
+} from "../stores/editLockStore";
 import styles from "./GuestManagement.module.css";
 
 interface Guest {
   id: string;
   name: string;
   headCount: number;
+  lapCount: number;
+  ageCategory: AgeCategory;
+  rsvpStatus: RsvpStatus;
+  confirmedCount: number | null;
+  respondedAt: string | null;
   phone: string | null;
   relationship: string | null;
   tags: string[];
   notes: string | null;
+  dietaryNeeds: DietaryNeed[];
+  allergies: string | null;
+  dietaryNotes: string | null;
+  accessibilityNeeds: AccessibilityNeed[];
+  mealChoiceId: string | null;
   area: { id: string; name: string; color: string } | null;
   assignment: { table: { id: string; name: string } } | null;
+  companions: Array<{
+    id: string;
+    name: string;
+    type: AgeCategory;
+    notes: string | null;
+    mealChoiceId: string | null;
+  }>;
   createdBy: { id: string; nickname: string };
 }
 
+interface RsvpLink {
+  guestId: string;
+  guestName: string;
+  rsvpLink: string;
+  expiresAt: string;
+}
+
 interface Area {
   id: string;
   name: string;
@@ -55,6 +101,38 @@ interface GuestManagementProps {
 // 预设标签
 const PRESET_TAGS = ["亲戚", "朋友", "同事", "领导", "VIP"];
 
+// 年龄段：宾客本人和随行人员共用
+const AGE_CATEGORY_LABELS: Record<AgeCategory, string> = {
+  ADULT: "成人",
+  CHILD: "儿童",
+  INFANT: "婴儿",
+};
+
+const AGE_CATEGORY_OPTIONS = (
+  Object.keys(AGE_CATEGORY_LABELS) as AgeCategory[]
+).map((value) => ({ label: AGE_CATEGORY_LABELS[value], value }));
+
+// 出席回复状态
+const RSVP_STATUS_CONFIG: Record<RsvpStatus, { label: string; color: string }> =
+  {
+    INVITED: { label: "未回复", color: "default" },
+    CONFIRMED: { label: "确认出席", color: "green" },
+    DECLINED: { label: "不出席", color: "red" },
+    TENTATIVE: { label: "待定", color: "gold" },
+  };
+
+const DIETARY_NEED_OPTIONS = (
+  Object.keys(DIETARY_NEED_LABELS) as DietaryNeed[]
+).map((value) => ({ label: DIETARY_NEED_LABELS[value], value }));
+
+const ACCESSIBILITY_NEED_OPTIONS = (
+  Object.keys(ACCESSIBILITY_NEED_LABELS) as AccessibilityNeed[]
+).map((value) => ({ label: ACCESSIBILITY_NEED_LABELS[value], value }));
+
+const RSVP_STATUS_OPTIONS = (
+  Object.keys(RSVP_STATUS_CONFIG) as RsvpStatus[]
+).map((value) => ({ label: RSVP_STATUS_CONFIG[value].label, value }));
+
 // 标签颜色映射
 const TAG_COLORS: Record<string, string> = {
   亲戚: "#E57373",
@@ -71,11 +149,35 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
   const [selectedAreaId, setSelectedAreaId] = useState<string>();
   const [selectedTag, setSelectedTag] = useState<string>();
   const [assignedFilter, setAssignedFilter] = useState<string>();
+  const [rsvpFilter, setRsvpFilter] = useState<RsvpStatus>();
   const [selectedRowKeys, setSelectedRowKeys] = useState<string[]>([]);
   const [modalOpen, setModalOpen] = useState(false);
   const [editingGuest, setEditingGuest] = useState<Guest | null>(null);
   const [importModalOpen, setImportModalOpen] = useState(false);
+  const [rsvpLinks, setRsvpLinks] = useState<RsvpLink[] | null>(null);
   const [form] = Form.useForm();
+  const formHeadCount = Form.useWatch("headCount", form) || 1;
+  const formRsvpStatus = Form.useWatch("rsvpStatus", form);
+  const editLocks = useEditLockStore((state) => state.locks);
+  // 其他成员正在编辑的宾客
+  const lockOf = (guestId: string) => editLocks[editLockKey("guest", guestId)];
+
+  const closeModal = () => {
+    setModalOpen(false);
+    setEditingGuest(null);
+    form.resetFields();
+  };
+
+  // 编辑期间锁定宾客，其他成员同时打开时提示并关闭弹窗
+  useHoldEditLock(
+    projectId,
+    "guest",
+    modalOpen ? editingGuest?.id : null,
+    (reason) => {
+      message.warning(`${reason}，请稍后再修改`);
+      closeModal();
+    }
+  );
 
   // 获取宾客列表
   const { data: guestsData, isLoading } = useQuery({
@@ -86,6 +188,7 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
       selectedAreaId,
       selectedTag,
       assignedFilter,
+      rsvpFilter,
     ],
     queryFn: async () => {
       const response = await guestApi.getAll(projectId, {
@@ -93,6 +196,7 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
         areaId: selectedAreaId,
         tag: selectedTag,
         assigned: assignedFilter,
+        rsvpStatus: rsvpFilter,
         limit: 1000,
       });
       return response.data.data;
@@ -108,6 +212,15 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
     },
   });
 
+  // 获取项目菜单
+  const { data: menu } = useQuery({
+    queryKey: ["menu", projectId],
+    queryFn: async () => {
+      const response = await projectApi.getMenu(projectId);
+      return response.data.data as MenuOption[];
+    },
+  });
+
   // 获取所有标签
   const { data: tags } = useQuery({
     queryKey: ["tags", projectId],
@@ -172,6 +285,31 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
     },
   });
 
+  // 生成宾客自助回复链接
+  const rsvpLinksMutation = useMutation({
+    mutationFn: (data: { guestIds: string[]; regenerate?: boolean }) =>
+      guestApi.createRsvpLinks(projectId, data),
+    onSuccess: (response, { regenerate }) => {
+      if (regenerate) message.success("已重新生成，旧链接已失效");
+      setRsvpLinks(response.data.data);
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "生成回复链接失败");
+    },
+  });
+
+  // 复制全部回复链接，每行为"姓名：链接"
+  const handleCopyRsvpLinks = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        (rsvpLinks || []).map((l) => `${l.guestName}：${l.rsvpLink}`).join("\n")
+      );
+      message.success("已复制到剪贴板");
+    } catch {
+      message.error("复制失败，请手动复制");
+    }
+  };
+
   // 导入宾客
   const importMutation = useMutation({
     mutationFn: (formData: FormData) => guestApi.import(projectId, formData),
@@ -235,25 +373,61 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
 
   // 打开编辑弹窗
   const openEditModal = (guest: Guest) => {
+    const lock = lockOf(guest.id);
+    if (lock) {
+      message.warning(`${lock.userNickname} 正在编辑该宾客，请稍后再修改`);
+      return;
+    }
     setEditingGuest(guest);
     form.setFieldsValue({
       name: guest.name,
       headCount: guest.headCount,
+      ageCategory: guest.ageCategory,
+      rsvpStatus: guest.rsvpStatus,
+      confirmedCount: guest.confirmedCount,
       phone: guest.phone,
       relationship: guest.relationship,
       tags: guest.tags,
       notes: guest.notes,
+      dietaryNeeds: guest.dietaryNeeds,
+      allergies: guest.allergies,
+      dietaryNotes: guest.dietaryNotes,
+      accessibilityNeeds: guest.accessibilityNeeds,
+      mealChoiceId: guest.mealChoiceId,
       areaId: guest.area?.id,
+      companions: guest.companions.map(
+        ({ name, type, notes, mealChoiceId }) => ({
+          name,
+          type,
+          notes,
+          mealChoiceId,
+        })
+      ),
     });
     setModalOpen(true);
   };
 
+  // 菜品选项，儿童餐注明类型；未选择时按默认菜品统计
+  const mealOptions = (menu || []).map((option) => ({
+    label:
+      option.kind === "CHILD"
+        ? `${option.name}（${MEAL_KIND_LABELS.CHILD}）`
+        : option.name,
+    value: option.id,
+  }));
+  const mealName = (id: string | null) =>
+    menu?.find((option) => option.id === id)?.name;
+
   // 提交表单
   const handleSubmit = (values: any) => {
+    // 清空菜品时改回按默认菜品统计（菜单有菜品时才显示菜品选择）
+    const data = mealOptions.length
+      ? { ...values, mealChoiceId: values.mealChoiceId ?? null }
+      : values;
     if (editingGuest) {
-      updateMutation.mutate({ id: editingGuest.id, data: values });
+      updateMutation.mutate({ id: editingGuest.id, data });
     } else {
-      createMutation.mutate({ ...values, projectId });
+      createMutation.mutate({ ...data, projectId });
     }
   };
 
@@ -264,7 +438,65 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
       dataIndex: "name",
       key: "name",
       width: 120,
-      render: (name) => <span style={{ fontWeight: 500 }}>{name}</span>,
+      render: (name, record) => (
+        <>
+          <span style={{ fontWeight: 500 }}>{name}</span>
+          {lockOf(record.id) && (
+            <Tooltip title="其他成员正在编辑，暂时不能修改">
+              <Tag
+                icon={<EditOutlined />}
+                color="gold"
+                className={styles.lockTag}
+              >
+                {lockOf(record.id).userNickname} 编辑中
+              </Tag>
+            </Tooltip>
+          )}
+          {record.ageCategory !== "ADULT" && (
+            <Tag color="orange" style={{ marginLeft: 6 }}>
+              {AGE_CATEGORY_LABELS[record.ageCategory]}
+            </Tag>
+          )}
+          {record.companions.length > 0 && (
+            <div className={styles.companions}>
+              随行：
+              {record.companions
+                .map((c) =>
+                  c.type === "ADULT"
+                    ? c.name
+                    : `${c.name}（${AGE_CATEGORY_LABELS[c.type]}）`
+                )
+                .join("、")}
+            </div>
+          )}
+          {(record.dietaryNeeds.length > 0 ||
+            record.accessibilityNeeds.length > 0) && (
+            <div className={styles.needs}>
+              {record.dietaryNeeds.map((need) => (
+                <Tag key={need} color="green">
+                  {DIETARY_NEED_LABELS[need]}
+                </Tag>
+              ))}
+              {record.accessibilityNeeds.map((need) => (
+                <Tag key={need} color="blue">
+                  {ACCESSIBILITY_NEED_LABELS[need]}
+                </Tag>
+              ))}
+            </div>
+          )}
+          {mealName(record.mealChoiceId) && (
+            <div className={styles.companions}>
+              菜品：{mealName(record.mealChoiceId)}
+            </div>
+          )}
+          {record.allergies && (
+            <div className={styles.companions}>过敏：{record.allergies}</div>
+          )}
+          {record.dietaryNotes && (
+            <div className={styles.companions}>饮食：{record.dietaryNotes}</div>
+          )}
+        </>
+      ),
     },
     {
       title: "人数",
@@ -272,7 +504,33 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
       key: "headCount",
       width: 80,
       align: "center",
-      render: (count) => `${count}人`,
+      // 有婴儿坐在大人腿上时注明实际占用的座位
+      render: (count, record) =>
+        record.lapCount > 0
+          ? `${count}人（${count - record.lapCount}座）`
+          : `${count}人`,
+    },
+    {
+      title: "出席",
+      dataIndex: "rsvpStatus",
+      key: "rsvpStatus",
+      width: 120,
+      render: (status: RsvpStatus, record) => (
+        <Tooltip
+          title={
+            record.respondedAt
+              ? `回复于 ${new Date(record.respondedAt).toLocaleString()}`
+              : undefined
+          }
+        >
+          <Tag color={RSVP_STATUS_CONFIG[status].color}>
+            {RSVP_STATUS_CONFIG[status].label}
+            {record.confirmedCount !== null &&
+              record.confirmedCount !== record.headCount &&
+              ` ${record.confirmedCount}人`}
+          </Tag>
+        </Tooltip>
+      ),
     },
     {
       title: "标签",
@@ -327,17 +585,34 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
     {
       title: "操作",
       key: "action",
-      width: 120,
+      width: 150,
       render: (_, record) => (
         <Space size={8}>
-          <Tooltip title="编辑">
+          <Tooltip
+            title={
+              lockOf(record.id)
+                ? `${lockOf(record.id).userNickname} 正在编辑`
+                : "编辑"
+            }
+          >
             <Button
               type="text"
               size="small"
               icon={<EditOutlined />}
+              disabled={!!lockOf(record.id)}
               onClick={() => openEditModal(record)}
             />
           </Tooltip>
+          <Tooltip title="回复链接">
+            <Button
+              type="text"
+              size="small"
+              icon={<LinkOutlined />}
+              onClick={() =>
+                rsvpLinksMutation.mutate({ guestIds: [record.id] })
+              }
+            />
+          </Tooltip>
           <Popconfirm
             title="确定要删除这位宾客吗？"
             onConfirm={() => deleteMutation.mutate(record.id)}
@@ -401,6 +676,14 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
               { label: "未安排", value: "false" },
             ]}
           />
+          <Select
+            placeholder="出席"
+            value={rsvpFilter}
+            onChange={setRsvpFilter}
+            style={{ width: 120 }}
+            allowClear
+            options={RSVP_STATUS_OPTIONS}
+          />
         </div>
 
         <div className={styles.actions}>
@@ -424,6 +707,17 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
           <Button icon={<DownloadOutlined />} onClick={handleExport}>
             导出名单
           </Button>
+          {selectedRowKeys.length > 0 && (
+            <Button
+              icon={<LinkOutlined />}
+              loading={rsvpLinksMutation.isPending}
+              onClick={() =>
+                rsvpLinksMutation.mutate({ guestIds: selectedRowKeys })
+              }
+            >
+              回复链接 ({selectedRowKeys.length})
+            </Button>
+          )}
           {selectedRowKeys.length > 0 && (
             <Popconfirm
               title={`确定要删除选中的 ${selectedRowKeys.length} 位宾客吗？`}
@@ -448,6 +742,19 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
           总人数{" "}
           <strong>{guests.reduce((sum, g) => sum + g.headCount, 0)}</strong> 人
         </span>
+        <span>
+          确认出席{" "}
+          <strong>
+            {guests
+              .filter((g: Guest) => g.rsvpStatus === "CONFIRMED")
+              .reduce(
+                (sum: number, g: Guest) =>
+                  sum + (g.confirmedCount ?? g.headCount),
+                0
+              )}
+          </strong>{" "}
+          人
+        </span>
       </div>
 
       {/* 表格 */}
@@ -472,11 +779,7 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
       <Modal
         title={editingGuest ? "编辑宾客" : "添加宾客"}
         open={modalOpen}
-        onCancel={() => {
-          setModalOpen(false);
-          setEditingGuest(null);
-          form.resetFields();
-        }}
+        onCancel={closeModal}
         footer={null}
         width={500}
       >
@@ -484,7 +787,12 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
           form={form}
           layout="vertical"
           onFinish={handleSubmit}
-          initialValues={{ headCount: 1 }}
+          initialValues={{
+            headCount: 1,
+            ageCategory: "ADULT",
+            rsvpStatus: "INVITED",
+            companions: [],
+          }}
         >
           <Form.Item
             name="name"
@@ -498,6 +806,92 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
             <InputNumber min={1} max={20} style={{ width: "100%" }} />
           </Form.Item>
 
+          <Form.Item name="ageCategory" label="年龄段">
+            <Select options={AGE_CATEGORY_OPTIONS} />
+          </Form.Item>
+
+          <Form.Item name="rsvpStatus" label="出席情况">
+            <Select options={RSVP_STATUS_OPTIONS} />
+          </Form.Item>
+
+          {/* 确认出席的人数可少于邀请人数，留空时按邀请人数计 */}
+          {(formRsvpStatus === "CONFIRMED" ||
+            formRsvpStatus === "TENTATIVE") && (
+            <Form.Item name="confirmedCount" label="出席人数">
+              <InputNumber
+                min={1}
+                max={formHeadCount}
+                placeholder={`${formHeadCount}`}
+                style={{ width: "100%" }}
+              />
+            </Form.Item>
+          )}
+
+          {/* 随行人员：最多为人数减去宾客本人 */}
+          <Form.List name="companions">
+            {(fields, { add, remove }) => (
+              <Form.Item label="随行人员">
+                {fields.map(({ key, name }) => (
+                  <Space
+                    key={key}
+                    className={styles.companionRow}
+                    align="start"
+                  >
+                    <Form.Item
+                      name={[name, "name"]}
+                      rules={[{ required: true, message: "请输入姓名" }]}
+                      noStyle
+                    >
+                      <Input
+                        placeholder="姓名"
+                        maxLength={50}
+                        style={{ width: 110 }}
+                      />
+                    </Form.Item>
+                    <Form.Item name={[name, "type"]} noStyle>
+                      <Select
+                        options={AGE_CATEGORY_OPTIONS}
+                        style={{ width: 80 }}
+                      />
+                    </Form.Item>
+                    <Form.Item name={[name, "notes"]} noStyle>
+                      <Input
+                        placeholder="备注（如需要宝宝椅）"
+                        maxLength={200}
+                        style={{ width: 180 }}
+                      />
+                    </Form.Item>
+                    {mealOptions.length > 0 && (
+                      <Form.Item name={[name, "mealChoiceId"]} noStyle>
+                        <Select
+                          placeholder="菜品"
+                          allowClear
+                          options={mealOptions}
+                          style={{ width: 120 }}
+                        />
+                      </Form.Item>
+                    )}
+                    <MinusCircleOutlined
+                      className={styles.companionRemove}
+                      onClick={() => remove(name)}
+                    />
+                  </Space>
+                ))}
+                <Button
+                  type="dashed"
+                  icon={<PlusOutlined />}
+                  disabled={fields.length >= formHeadCount - 1}
+                  onClick={() => add({ type: "ADULT" })}
+                  block
+                >
+                  {fields.length >= formHeadCount - 1
+                    ? "随行人员已满，增加人数后可继续添加"
+                    : "添加随行人员"}
+                </Button>
+              </Form.Item>
+            )}
+          </Form.List>
+
           <Form.Item name="areaId" label="所属区域">
             <Select
               placeholder="选择区域"
@@ -523,8 +917,50 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
             <Input placeholder="例如：新郎大学室友" />
           </Form.Item>
 
+          <Form.Item name="dietaryNeeds" label="饮食需求">
+            <Select
+              mode="multiple"
+              placeholder="选择饮食需求（宾客本人）"
+              options={DIETARY_NEED_OPTIONS}
+            />
+          </Form.Item>
+
+          {mealOptions.length > 0 && (
+            <Form.Item
+              name="mealChoiceId"
+              label="菜品"
+              extra="未选择时成人按第一道成人餐、儿童按第一道儿童餐统计"
+            >
+              <Select
+                placeholder="选择菜品（宾客本人）"
+                allowClear
+                options={mealOptions}
+              />
+            </Form.Item>
+          )}
+
+          <Form.Item name="allergies" label="过敏">
+            <Input placeholder="如花生、海鲜" />
+          </Form.Item>
+
+          <Form.Item name="dietaryNotes" label="饮食备注">
+            <Input placeholder="其他忌口" />
+          </Form.Item>
+
+          <Form.Item
+            name="accessibilityNeeds"
+            label="无障碍需求"
+            extra="项目开启后，轮椅宾客自动排座时只安排到无障碍桌"
+          >
+            <Select
+              mode="multiple"
+              placeholder="选择无障碍需求"
+              options={ACCESSIBILITY_NEED_OPTIONS}
+            />
+          </Form.Item>
+
           <Form.Item name="notes" label="备注">
-            <Input.TextArea rows={2} placeholder="特殊需求（如忌口、轮椅等）" />
+            <Input.TextArea rows={2} placeholder="其他特殊需求" />
           </Form.Item>
 
           <Form.Item style={{ marginBottom: 0, marginTop: 24 }}>
@@ -577,6 +1013,48 @@ export default function GuestManagement({ projectId }: GuestManagementProps) {
           </div>
         </div>
       </Modal>
+
+      {/* 回复链接弹窗：宾客打开链接即可自助回复出席，无需登录 */}
+      <Modal
+        title="宾客回复链接"
+        open={!!rsvpLinks}
+        onCancel={() => setRsvpLinks(null)}
+        width={600}
+        footer={
+          <Space>
+            <Popconfirm
+              title="重新生成后旧链接将失效，确定吗？"
+              onConfirm={() =>
+                rsvpLinksMutation.mutate({
+                  guestIds: (rsvpLinks || []).map((l) => l.guestId),
+                  regenerate: true,
+                })
+              }
+              okText="重新生成"
+              cancelText="取消"
+            >
+              <Button loading={rsvpLinksMutation.isPending}>重新生成</Button>
+            </Popconfirm>
+            <Button type="primary" onClick={handleCopyRsvpLinks}>
+              复制全部
+            </Button>
+          </Space>
+        }
+      >
+        <div className={styles.rsvpLinks}>
+          {rsvpLinks?.map((link) => (
+            <div key={link.guestId} className={styles.rsvpLinkRow}>
+              <span className={styles.rsvpLinkName}>{link.guestName}</span>
+              <Typography.Text copyable ellipsis className={styles.rsvpLinkUrl}>
+                {link.rsvpLink}
+              </Typography.Text>
+              <span className={styles.rsvpLinkExpiry}>
+                {new Date(link.expiresAt).toLocaleDateString()} 前有效
+              </span>
+            </div>
+          ))}
+        </div>
+      </Modal>
     </div>
   );
 }
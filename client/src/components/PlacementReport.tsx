@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react";
+import { Drawer, Collapse, Tag, Input, Segmented, Empty } from "antd";
+import { SearchOutlined } from "@ant-design/icons";
+import styles from "./PlacementReport.module.css";
+
+interface TableOption {
+  tableId: string;
+  tableName: string;
+  score: number;
+  components: {
+    area: number;
+    tags: number;
+    fill: number;
+    newTable: number;
+    preference: number;
+  };
+  matchingTags: string[];
+}
+
+interface TableRejection {
+  tableId: string;
+  tableName: string;
+  reason:
+    | "locked"
+    | "area"
+    | "tableRule"
+    | "together"
+    | "capacity"
+    | "mustApart"
+    | "groupLimit"
+    | "kidsTable"
+    | "accessible";
+  detail: string;
+}
+
+export interface PlacementDetail {
+  guestName: string;
+  members?: string[];
+  tableName?: string;
+  error?: string;
+  explanation: {
+    chosen: TableOption | null;
+    runnerUps: TableOption[];
+    rejections: TableRejection[];
+  };
+}
+
+interface PlacementReportProps {
+  open: boolean;
+  details: PlacementDetail[];
+  onClose: () => void;
+}
+
+const componentLabels: Array<[keyof TableOption["components"], string]> = [
+  ["area", "区域"],
+  ["tags", "标签"],
+  ["fill", "坐满"],
+  ["newTable", "开新桌"],
+  ["preference", "偏好"],
+];
+
+const rejectionLabels: Record<TableRejection["reason"], string> = {
+  locked: "已锁定",
+  area: "区域不符",
+  tableRule: "指定桌位",
+  together: "需同桌",
+  capacity: "座位不足",
+  mustApart: "不能同桌",
+  groupLimit: "分组上限",
+  kidsTable: "儿童桌",
+  accessible: "无障碍桌",
+};
+
+const formatScore = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+// 得分构成，只显示非零项
+const ScoreComponents = ({ option }: { option: TableOption }) => (
+  <span className={styles.components}>
+    {componentLabels
+      .filter(([key]) => option.components[key] !== 0)
+      .map(([key, label]) => (
+        <Tag
+          key={key}
+          color={option.components[key] > 0 ? "green" : "red"}
+          className={styles.componentTag}
+        >
+          {label} {formatScore(option.components[key])}
+          {key === "tags" &&
+            option.matchingTags.length > 0 &&
+            `（${option.matchingTags.join("、")}）`}
+        </Tag>
+      ))}
+  </span>
+);
+
+export default function PlacementReport({
+  open,
+  details,
+  onClose,
+}: PlacementReportProps) {
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<"all" | "assigned" | "failed">("all");
+
+  const filtered = useMemo(
+    () =>
+      details.filter((d) => {
+        if (filter === "assigned" && d.error) return false;
+        if (filter === "failed" && !d.error) return false;
+        return !search || d.guestName.includes(search);
+      }),
+    [details, filter, search]
+  );
+
+  const failedCount = details.filter((d) => d.error).length;
+
+  return (
+    <Drawer title="排座说明" open={open} onClose={onClose} size={480}>
+      <div className={styles.toolbar}>
+        <Input
+          placeholder="搜索宾客"
+          prefix={<SearchOutlined />}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          size="small"
+          allowClear
+        />
+        <Segmented
+          size="small"
+          value={filter}
+          onChange={(value) => setFilter(value as typeof filter)}
+          options={[
+            { label: "全部", value: "all" },
+            { label: "已安排", value: "assigned" },
+            { label: `未安排 ${failedCount}`, value: "failed" },
+          ]}
+        />
+      </div>
+
+      {filtered.length === 0 ? (
+        <Empty description="没有匹配的宾客" />
+      ) : (
+        <Collapse
+          size="small"
+          items={filtered.map((detail, index) => {
+            const { chosen, runnerUps, rejections } = detail.explanation;
+            return {
+              key: `${detail.guestName}-${index}`,
+              label: (
+                <div className={styles.itemHeader}>
+                  <span className={styles.guestName}>{detail.guestName}</span>
+                  {detail.error ? (
+                    <Tag color="red">未安排</Tag>
+                  ) : (
+                    <Tag color="green">{detail.tableName}</Tag>
+                  )}
+                </div>
+              ),
+              children: (
+                <div className={styles.itemBody}>
+                  {detail.error && (
+                    <p className={styles.error}>{detail.error}</p>
+                  )}
+
+                  {chosen && (
+                    <div className={styles.section}>
+                      <div className={styles.sectionTitle}>
+                        选择 {chosen.tableName}（得分 {chosen.score}）
+                      </div>
+                      <ScoreComponents option={chosen} />
+                    </div>
+                  )}
+
+                  {runnerUps.length > 0 && (
+                    <div className={styles.section}>
+                      <div className={styles.sectionTitle}>
+                        {chosen ? "其他可选桌位" : "可选桌位"}
+                      </div>
+                      {runnerUps.map((option) => (
+                        <div key={option.tableId} className={styles.row}>
+                          <span className={styles.tableName}>
+                            {option.tableName}（{option.score}）
+                          </span>
+                          <ScoreComponents option={option} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {rejections.length > 0 && (
+                    <div className={styles.section}>
+                      <div className={styles.sectionTitle}>各桌无法安排的原因</div>
+                      {rejections.map((rejection) => (
+                        <div key={rejection.tableId} className={styles.row}>
+                          <span className={styles.tableName}>
+                            {rejection.tableName}
+                          </span>
+                          <Tag className={styles.componentTag}>
+                            {rejectionLabels[rejection.reason]}
+                          </Tag>
+                          <span className={styles.detail}>
+                            {rejection.detail}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ),
+            };
+          })}
+        />
+      )}
+    </Drawer>
+  );
+}
@@ -16,6 +16,8 @@ import {
   message,
   Popconfirm,
   Space,
+  Switch,
+  Divider,
 } from 'antd'
 import {
   UserOutlined,
@@ -23,12 +25,19 @@ import {
   DeleteOutlined,
   CopyOutlined,
   PlusOutlined,
+  MinusCircleOutlined,
 } from '@ant-design/icons'
 import dayjs from 'dayjs'
-import { projectApi, areaApi } from '../services/api'
+import { projectApi, areaApi, MEAL_KIND_LABELS } from '../services/api'
+import type { MealKind, MenuOption } from '../services/api'
 import { useAuthStore } from '../stores/authStore'
 import styles from './ProjectSettings.module.css'
 
+const MEAL_KIND_OPTIONS = (Object.keys(MEAL_KIND_LABELS) as MealKind[]).map((value) => ({
+  label: MEAL_KIND_LABELS[value],
+  value,
+}))
+
 interface ProjectSettingsProps {
   projectId: string
   project: any
@@ -43,6 +52,8 @@ export default function ProjectSettings({ projectId, project }: ProjectSettingsP
   const [form] = Form.useForm()
   const [inviteForm] = Form.useForm()
   const [areaForm] = Form.useForm()
+  const [policyForm] = Form.useForm()
+  const [menuForm] = Form.useForm()
 
   // 获取成员列表
   const { data: members } = useQuery({
@@ -62,6 +73,24 @@ export default function ProjectSettings({ projectId, project }: ProjectSettingsP
     },
   })
 
+  // 获取排座策略
+  const { data: seatingPolicy } = useQuery({
+    queryKey: ['seatingPolicy', projectId],
+    queryFn: async () => {
+      const response = await projectApi.getSeatingPolicy(projectId)
+      return response.data.data
+    },
+  })
+
+  // 获取项目菜单
+  const { data: menu } = useQuery({
+    queryKey: ['menu', projectId],
+    queryFn: async () => {
+      const response = await projectApi.getMenu(projectId)
+      return response.data.data as MenuOption[]
+    },
+  })
+
   // 更新项目
   const updateMutation = useMutation({
     mutationFn: (data: any) => projectApi.update(projectId, data),
@@ -74,6 +103,36 @@ export default function ProjectSettings({ projectId, project }: ProjectSettingsP
     },
   })
 
+  // 保存排座策略
+  const updatePolicyMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      projectApi.updateSeatingPolicy(projectId, data),
+    onSuccess: () => {
+      message.success('排座策略已保存')
+      queryClient.invalidateQueries({ queryKey: ['seatingPolicy', projectId] })
+      // 婴儿是否占座会改变座位统计
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || '保存失败')
+    },
+  })
+
+  // 保存菜单
+  const updateMenuMutation = useMutation({
+    mutationFn: (options: Array<Omit<MenuOption, 'id'> & { id?: string }>) =>
+      projectApi.updateMenu(projectId, options),
+    onSuccess: (response) => {
+      message.success('菜单已保存')
+      // 新菜品带上服务端生成的 id，再次保存时不会重复创建
+      menuForm.setFieldsValue({ options: response.data.data })
+      queryClient.invalidateQueries({ queryKey: ['menu', projectId] })
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || '保存失败')
+    },
+  })
+
   // 生成邀请链接
   const inviteMutation = useMutation({
     mutationFn: (data: { role: string; areaId?: string; expiresInHours?: number }) =>
@@ -158,6 +217,21 @@ export default function ProjectSettings({ projectId, project }: ProjectSettingsP
     (m: any) => m.userId === user?.id && m.role === 'OWNER'
   )
 
+  const canEdit = project.members?.some(
+    (m: any) => m.userId === user?.id && m.role !== 'VIEWER'
+  )
+
+  const policyWeightFields = [
+    { name: 'areaMatchWeight', label: '同区域', extra: '宾客与桌位属于同一区域' },
+    { name: 'areaMismatchWeight', label: '区域不一致', extra: '通常为负数' },
+    { name: 'tagMatchWeight', label: '相同标签', extra: '桌上已有相同标签的宾客，按标签计' },
+    { name: 'tagGroupBonus', label: '加入同标签的桌', extra: '桌上已有同标签宾客时额外加分' },
+    { name: 'exactFillWeight', label: '正好坐满', extra: '需开启“优先坐满”' },
+    { name: 'nearFillWeight', label: '剩余 1-2 座', extra: '需开启“优先坐满”' },
+    { name: 'newTableAreaBonus', label: '同区域开新桌', extra: '需开启“优先坐满”' },
+    { name: 'newTablePenalty', label: '区域不匹配开新桌', extra: '通常为负数，需开启“优先坐满”' },
+  ]
+
   const tabItems = [
     {
       key: 'basic',
@@ -328,6 +402,184 @@ export default function ProjectSettings({ projectId, project }: ProjectSettingsP
         </Card>
       ),
     },
+    {
+      key: 'seating',
+      label: '🧮 排座策略',
+      children: (
+        <Card>
+          <p className={styles.policyHint}>
+            推荐座位和一键排座都按以下规则为“宾客放在某桌”打分，分数越高越优先。
+          </p>
+          {seatingPolicy && (
+            <Form
+              form={policyForm}
+              layout="vertical"
+              initialValues={seatingPolicy}
+              onFinish={(values) => updatePolicyMutation.mutate(values)}
+              disabled={!canEdit}
+            >
+              <Form.Item
+                name="neverMixAreas"
+                label="不同区域不同桌"
+                valuePropName="checked"
+                extra="开启后，宾客不会被安排到其他区域的桌位"
+              >
+                <Switch />
+              </Form.Item>
+
+              <Form.Item
+                name="preferFillingTables"
+                label="优先坐满已开的桌"
+                valuePropName="checked"
+                extra="关闭后不考虑坐满程度，宾客会更分散"
+              >
+                <Switch />
+              </Form.Item>
+
+              <Form.Item
+                name="infantsNeedSeat"
+                label="婴儿单独占座"
+                valuePropName="checked"
+                extra="关闭时婴儿随行人员坐在大人腿上，不计入桌位容量"
+              >
+                <Switch />
+              </Form.Item>
+
+              <Form.Item
+                name="childrenToKidsTables"
+                label="儿童安排到儿童桌"
+                valuePropName="checked"
+                extra="开启后，一键排座和推荐座位只把儿童宾客安排到儿童桌"
+              >
+                <Switch />
+              </Form.Item>
+
+              <Form.Item
+                name="wheelchairToAccessibleTables"
+                label="轮椅宾客安排到无障碍桌"
+                valuePropName="checked"
+                extra="开启后，一键排座和推荐座位只把轮椅宾客安排到带“无障碍”标签的桌"
+              >
+                <Switch />
+              </Form.Item>
+
+              <Form.Item
+                name="confirmedOnly"
+                label="只安排确认出席的宾客"
+                valuePropName="checked"
+                extra="开启后，一键排座跳过未回复和待定的宾客；不出席的宾客始终不安排"
+              >
+                <Switch />
+              </Form.Item>
+
+              <Divider />
+
+              <div className={styles.policyGrid}>
+                {policyWeightFields.map((field) => (
+                  <Form.Item
+                    key={field.name}
+                    name={field.name}
+                    label={field.label}
+                    extra={field.extra}
+                    rules={[{ required: true, message: '请输入权重' }]}
+                  >
+                    <InputNumber min={-5000} max={5000} precision={0} style={{ width: '100%' }} />
+                  </Form.Item>
+                ))}
+              </div>
+
+              <Form.Item>
+                <Space>
+                  <Button
+                    type="primary"
+                    htmlType="submit"
+                    loading={updatePolicyMutation.isPending}
+                  >
+                    保存策略
+                  </Button>
+                  <Button onClick={() => policyForm.setFieldsValue(seatingPolicy.defaults)}>
+                    恢复默认
+                  </Button>
+                </Space>
+              </Form.Item>
+            </Form>
+          )}
+        </Card>
+      ),
+    },
+    {
+      key: 'menu',
+      label: '🍽️ 菜单',
+      children: (
+        <Card>
+          <p className={styles.policyHint}>
+            宾客可在回复页选择菜品；未选择的成人按第一道成人餐、儿童按第一道儿童餐统计，婴儿默认不用餐。单价用于餐饮汇总中的费用估算。
+          </p>
+          {menu && (
+            <Form
+              form={menuForm}
+              initialValues={{ options: menu }}
+              onFinish={(values) => updateMenuMutation.mutate(values.options || [])}
+              disabled={!canEdit}
+            >
+              <Form.List name="options">
+                {(fields, { add, remove }) => (
+                  <>
+                    {fields.map(({ key, name }) => (
+                      <Space key={key} align="start" wrap className={styles.menuRow}>
+                        <Form.Item name={[name, 'id']} hidden>
+                          <Input />
+                        </Form.Item>
+                        <Form.Item
+                          name={[name, 'name']}
+                          rules={[{ required: true, message: '请输入菜品名称' }]}
+                        >
+                          <Input placeholder="菜品名称，如：香煎牛排" style={{ width: 200 }} />
+                        </Form.Item>
+                        <Form.Item name={[name, 'kind']}>
+                          <Select options={MEAL_KIND_OPTIONS} style={{ width: 100 }} />
+                        </Form.Item>
+                        <Form.Item name={[name, 'price']}>
+                          <InputNumber
+                            min={0}
+                            max={100000}
+                            precision={0}
+                            addonAfter="元/位"
+                            style={{ width: 150 }}
+                          />
+                        </Form.Item>
+                        <Form.Item name={[name, 'description']}>
+                          <Input placeholder="说明（选填）" style={{ width: 200 }} />
+                        </Form.Item>
+                        <MinusCircleOutlined
+                          className={styles.menuRemove}
+                          onClick={() => remove(name)}
+                        />
+                      </Space>
+                    ))}
+                    <Form.Item>
+                      <Button
+                        type="dashed"
+                        icon={<PlusOutlined />}
+                        onClick={() => add({ kind: 'ADULT', price: 0 })}
+                      >
+                        添加菜品
+                      </Button>
+                    </Form.Item>
+                  </>
+                )}
+              </Form.List>
+
+              <Form.Item>
+                <Button type="primary" htmlType="submit" loading={updateMenuMutation.isPending}>
+                  保存菜单
+                </Button>
+              </Form.Item>
+            </Form>
+          )}
+        </Card>
+      ),
+    },
   ]
 
   return (
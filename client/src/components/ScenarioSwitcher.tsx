@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Drawer,
+  Empty,
+  Input,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from "antd";
+import {
+  CheckOutlined,
+  CrownOutlined,
+  DeleteOutlined,
+  ForkOutlined,
+  PlusOutlined,
+  SwapOutlined,
+  TrophyOutlined,
+} from "@ant-design/icons";
+import { scenarioApi } from "../services/api";
+import type {
+  ApiError,
+  ScenarioScoreBreakdown,
+  SeatingScenario,
+} from "../services/api";
+import styles from "./ScenarioSwitcher.module.css";
+
+interface ScenarioSwitcherProps {
+  projectId: string;
+  canEdit: boolean;
+  size?: "small" | "middle";
+}
+
+const CURRENT = "current";
+const EMPTY = "empty";
+
+const BREAKDOWN_LABELS: Partial<Record<keyof ScenarioScoreBreakdown, string>> =
+  {
+    area: "区域匹配",
+    tagCohesion: "标签聚合",
+    fill: "坐满程度",
+    preference: "偏好满足",
+    unassigned: "未安排",
+  };
+
+// 评分明细：软目标逐项列出，硬约束合并为一项
+const renderBreakdown = (scenario: SeatingScenario) => (
+  <div>
+    {Object.entries(BREAKDOWN_LABELS).map(([key, label]) => (
+      <div key={key}>
+        {label}：
+        {Math.round(scenario.breakdown[key as keyof ScenarioScoreBreakdown])}
+      </div>
+    ))}
+    <div>违反硬约束：{scenario.hardViolations} 处</div>
+  </div>
+);
+
+export default function ScenarioSwitcher({
+  projectId,
+  canEdit,
+  size = "middle",
+}: ScenarioSwitcherProps) {
+  const queryClient = useQueryClient();
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [copyFrom, setCopyFrom] = useState(CURRENT);
+
+  // 获取方案列表及得分，座位变化后通过操作记录事件刷新
+  const { data: scenarios = [], isLoading } = useQuery({
+    queryKey: ["scenarios", projectId],
+    queryFn: async () => {
+      const response = await scenarioApi.getAll(projectId);
+      return response.data.data as SeatingScenario[];
+    },
+  });
+
+  const active = scenarios.find((s) => s.active);
+  const bestScore =
+    scenarios.length > 1 ? Math.max(...scenarios.map((s) => s.score)) : null;
+
+  // 切换或定稿会替换当前座位，刷新座位相关数据
+  const refreshSeating = () => {
+    queryClient.invalidateQueries({ queryKey: ["scenarios", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["seating-history", projectId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      scenarioApi.create(projectId, {
+        name: name.trim(),
+        copyFrom: copyFrom === CURRENT ? undefined : copyFrom,
+      }),
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["scenarios", projectId] });
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "新建方案失败");
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) =>
+      scenarioApi.update(id, { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scenarios", projectId] });
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "重命名失败");
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: scenarioApi.activate,
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      refreshSeating();
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "切换方案失败");
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: scenarioApi.promote,
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      refreshSeating();
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "定稿失败");
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: scenarioApi.remove,
+    onSuccess: (response, scenarioId) => {
+      message.success(response.data.message);
+      if (copyFrom === scenarioId) setCopyFrom(CURRENT);
+      queryClient.invalidateQueries({ queryKey: ["scenarios", projectId] });
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "删除方案失败");
+    },
+  });
+
+  const switching = activateMutation.isPending || promoteMutation.isPending;
+
+  const columns = [
+    {
+      title: "方案",
+      key: "name",
+      render: (_: unknown, scenario: SeatingScenario) => (
+        <div>
+          <Typography.Text
+            editable={
+              canEdit && {
+                onChange: (value) =>
+                  value.trim() &&
+                  value.trim() !== scenario.name &&
+                  updateMutation.mutate({
+                    id: scenario.id,
+                    name: value.trim(),
+                  }),
+                maxLength: 30,
+              }
+            }
+          >
+            {scenario.name}
+          </Typography.Text>
+          <div className={styles.tags}>
+            {scenario.active && <Tag color="blue">当前</Tag>}
+            {scenario.final && (
+              <Tag color="gold" icon={<CrownOutlined />}>
+                定稿
+              </Tag>
+            )}
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: "得分",
+      dataIndex: "score",
+      key: "score",
+      render: (score: number, scenario: SeatingScenario) => (
+        <Tooltip title={renderBreakdown(scenario)}>
+          <span className={styles.score}>
+            {score}
+            {score === bestScore && <TrophyOutlined className={styles.best} />}
+          </span>
+        </Tooltip>
+      ),
+    },
+    {
+      title: "入座",
+      key: "seated",
+      render: (_: unknown, scenario: SeatingScenario) =>
+        `${scenario.seatedGuestCount} 位 / ${scenario.seatedSeatCount} 座`,
+    },
+    {
+      title: "未安排",
+      dataIndex: "unassignedGuestCount",
+      key: "unassignedGuestCount",
+    },
+    {
+      title: "用桌",
+      dataIndex: "usedTableCount",
+      key: "usedTableCount",
+    },
+    {
+      title: "硬约束",
+      dataIndex: "hardViolations",
+      key: "hardViolations",
+      render: (count: number) =>
+        count > 0 ? <Tag color="red">{count} 处冲突</Tag> : <CheckOutlined />,
+    },
+    ...(canEdit
+      ? [
+          {
+            title: "操作",
+            key: "actions",
+            render: (_: unknown, scenario: SeatingScenario) => (
+              <Space size={0}>
+                <Tooltip title="切换为当前方案">
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<SwapOutlined />}
+                    disabled={scenario.active || switching}
+                    loading={
+                      activateMutation.isPending &&
+                      activateMutation.variables === scenario.id
+                    }
+                    onClick={() => activateMutation.mutate(scenario.id)}
+                  />
+                </Tooltip>
+                <Popconfirm
+                  title={`将"${scenario.name}"定为最终方案？`}
+                  description={
+                    scenario.active
+                      ? undefined
+                      : "会同时切换为当前方案，现有座位保存回原方案"
+                  }
+                  disabled={scenario.final || switching}
+                  onConfirm={() => promoteMutation.mutate(scenario.id)}
+                >
+                  <Tooltip title="定为最终方案">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<CrownOutlined />}
+                      disabled={scenario.final || switching}
+                      loading={
+                        promoteMutation.isPending &&
+                        promoteMutation.variables === scenario.id
+                      }
+                    />
+                  </Tooltip>
+                </Popconfirm>
+                <Popconfirm
+                  title="确定删除这个方案吗？"
+                  disabled={scenario.active}
+                  onConfirm={() => removeMutation.mutate(scenario.id)}
+                >
+                  <Tooltip
+                    title={scenario.active ? "当前方案不能删除" : "删除"}
+                  >
+                    <Button
+                      type="text"
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      disabled={scenario.active}
+                    />
+                  </Tooltip>
+                </Popconfirm>
+              </Space>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <>
+      <Space.Compact size={size}>
+        {scenarios.length > 0 && (
+          <Select
+            value={active?.id}
+            onChange={(id) => activateMutation.mutate(id)}
+            disabled={!canEdit || switching}
+            loading={switching}
+            options={scenarios.map((s) => ({
+              label: s.final ? `${s.name}（定稿）` : s.name,
+              value: s.id,
+            }))}
+            className={styles.select}
+            popupMatchSelectWidth={false}
+          />
+        )}
+        <Tooltip title="新建、切换和对比排座方案">
+          <Button icon={<ForkOutlined />} onClick={() => setPanelOpen(true)}>
+            方案
+          </Button>
+        </Tooltip>
+      </Space.Compact>
+
+      <Drawer
+        title="排座方案"
+        open={panelOpen}
+        onClose={() => setPanelOpen(false)}
+        size={720}
+      >
+        {canEdit && (
+          <div className={styles.createRow}>
+            <Input
+              placeholder="方案名称，如：按家庭分桌、同事集中"
+              value={name}
+              maxLength={30}
+              onChange={(e) => setName(e.target.value)}
+              onPressEnter={() => name.trim() && createMutation.mutate()}
+              size="small"
+            />
+            <Select
+              value={copyFrom}
+              onChange={setCopyFrom}
+              options={[
+                { label: "复制当前方案", value: CURRENT },
+                ...scenarios
+                  .filter((s) => !s.active)
+                  .map((s) => ({ label: `复制"${s.name}"`, value: s.id })),
+                { label: "空白方案", value: EMPTY },
+              ]}
+              size="small"
+              className={styles.copySelect}
+              popupMatchSelectWidth={false}
+            />
+            <Button
+              type="primary"
+              size="small"
+              icon={<PlusOutlined />}
+              disabled={!name.trim()}
+              loading={createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              新建方案
+            </Button>
+          </div>
+        )}
+
+        {scenarios.length === 0 && !isLoading ? (
+          <Empty description="还没有其他方案，新建方案时现有座位安排会保存为“主方案”" />
+        ) : (
+          <>
+            <Table
+              rowKey="id"
+              size="small"
+              loading={isLoading}
+              columns={columns}
+              dataSource={scenarios}
+              pagination={false}
+            />
+            <div className={styles.hint}>
+              得分与自动排座使用同一评分规则，越高越好；各方案共用宾客和桌位，
+              切换方案时现有座位会保存回原方案
+            </div>
+          </>
+        )}
+      </Drawer>
+    </>
+  );
+}
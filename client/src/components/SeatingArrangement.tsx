@@ -1,7 +1,9 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
+  Alert,
   Button,
+  Dropdown,
   Input,
   Select,
   Tag,
@@ -10,11 +12,23 @@ import {
   InputNumber,
   message,
   Empty,
+  Space,
+  Switch,
+  Tooltip,
 } from "antd";
 import {
+  BranchesOutlined,
+  CalculatorOutlined,
+  DownloadOutlined,
+  LinkOutlined,
   PlusOutlined,
+  ProfileOutlined,
+  RedoOutlined,
   SearchOutlined,
+  SyncOutlined,
+  TeamOutlined,
   ThunderboltOutlined,
+  UndoOutlined,
   UserOutlined,
 } from "@ant-design/icons";
 import {
@@ -23,10 +37,35 @@ import {
   useSensor,
   useSensors,
   PointerSensor,
+  pointerWithin,
+  rectIntersection,
 } from "@dnd-kit/core";
-import { guestApi, tableApi, seatingApi, areaApi } from "../services/api";
+import type { CollisionDetection } from "@dnd-kit/core";
+import {
+  guestApi,
+  tableApi,
+  seatingApi,
+  areaApi,
+  ACCESSIBLE_TABLE_TAG,
+} from "../services/api";
+import type {
+  ConstraintGroupInput,
+  ConstraintInput,
+  ConstraintType,
+  SeatingHistory,
+  TableKind,
+  TableNeeds,
+} from "../services/api";
 import DraggableGuest from "./DraggableGuest";
 import DroppableTable from "./DroppableTable";
+import PlacementReport from "./PlacementReport";
+import GroupSuggestModal from "./GroupSuggestModal";
+import TablePlannerModal from "./TablePlannerModal";
+import ConstraintPanel from "./ConstraintPanel";
+import SnapshotPanel from "./SnapshotPanel";
+import ScenarioSwitcher from "./ScenarioSwitcher";
+import { useHoldEditLock } from "../stores/editLockStore";
+import type { PlacementDetail } from "./PlacementReport";
 import styles from "./SeatingArrangement.module.css";
 
 interface Guest {
@@ -42,8 +81,13 @@ interface TableWithGuests {
   id: string;
   name: string;
   capacity: number;
+  kind: TableKind;
+  tags: string[];
   area: { id: string; name: string; color: string } | null;
+  pinned: boolean;
   assignments: Array<{
+    pinned: boolean;
+    seats: number[];
     guest: {
       id: string;
       name: string;
@@ -53,14 +97,52 @@ interface TableWithGuests {
   }>;
   occupiedSeats: number;
   availableSeats: number;
+  needs: TableNeeds;
+}
+
+// 自动排座 / 重新优化的预览方案
+interface SeatingPreview {
+  kind: "auto-assign" | "rebalance";
+  fingerprint: string;
+  moves: Array<{
+    guestId: string;
+    guestName: string;
+    headCount: number;
+    fromTableId: string | null;
+    toTableId: string | null;
+  }>;
+  failedGuests: string[];
+  // 约束自身的矛盾（矛盾链、超出最大桌的同桌组）
+  constraintIssues: string[];
+  score: number;
+  improvement: number;
 }
 
 interface SeatingArrangementProps {
   projectId: string;
+  canEdit: boolean;
 }
 
+const TABLE_KIND_OPTIONS: Array<{ label: string; value: TableKind }> = [
+  { label: "普通桌", value: "REGULAR" },
+  { label: "儿童桌", value: "KIDS" },
+];
+
+// 指针落在某位宾客上时视为拖到宾客上（添加约束），否则按桌位计算
+const collisionDetection: CollisionDetection = (args) => {
+  const guestHits = pointerWithin({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(
+      (c) =>
+        String(c.id).startsWith("guest:") && c.id !== `guest:${args.active.id}`
+    ),
+  });
+  return guestHits.length > 0 ? guestHits : rectIntersection(args);
+};
+
 export default function SeatingArrangement({
   projectId,
+  canEdit,
 }: SeatingArrangementProps) {
   const queryClient = useQueryClient();
   const [search, setSearch] = useState("");
@@ -71,9 +153,40 @@ export default function SeatingArrangement({
   const [editingTable, setEditingTable] = useState<TableWithGuests | null>(
     null
   );
+  const [preview, setPreview] = useState<SeatingPreview | null>(null);
+  // 最近一次自动排座的逐位说明
+  const [report, setReport] = useState<PlacementDetail[]>([]);
+  const [reportOpen, setReportOpen] = useState(false);
+  // 多选的待安排宾客
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [groupSuggestOpen, setGroupSuggestOpen] = useState(false);
+  const [plannerOpen, setPlannerOpen] = useState(false);
+  const [constraintPanelOpen, setConstraintPanelOpen] = useState(false);
+  const [snapshotPanelOpen, setSnapshotPanelOpen] = useState(false);
+  // 拖到另一位宾客上时待选择约束类型的两位宾客
+  const [constraintPair, setConstraintPair] = useState<{
+    guest1: { id: string; name: string };
+    guest2: { id: string; name: string };
+  } | null>(null);
   const [form] = Form.useForm();
   const [editForm] = Form.useForm();
 
+  const closeEditTableModal = () => {
+    setEditTableModalOpen(false);
+    setEditingTable(null);
+    editForm.resetFields();
+  };
+  // 编辑期间锁定桌位，其他成员同时打开时提示并关闭弹窗
+  useHoldEditLock(
+    projectId,
+    "table",
+    editTableModalOpen ? editingTable?.id : null,
+    (reason) => {
+      message.warning(`${reason}，请稍后再修改`);
+      closeEditTableModal();
+    }
+  );
+
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
@@ -96,6 +209,18 @@ export default function SeatingArrangement({
     },
   });
 
+  // 已入座或被筛选掉的宾客不再算作选中
+  const selectedGuests = unassignedGuests.filter((g) =>
+    selectedIds.includes(g.id)
+  );
+
+  const toggleSelect = (guestId: string) =>
+    setSelectedIds((ids) =>
+      ids.includes(guestId)
+        ? ids.filter((id) => id !== guestId)
+        : [...ids, guestId]
+    );
+
   // 获取所有桌位
   const { data: tables = [] } = useQuery({
     queryKey: ["tables", projectId],
@@ -114,6 +239,62 @@ export default function SeatingArrangement({
     },
   });
 
+  // 获取自己可撤销/重做的座位操作，座位操作写入日志后刷新
+  const { data: history } = useQuery({
+    queryKey: ["seating-history", projectId],
+    queryFn: async () => {
+      const response = await seatingApi.getHistory(projectId);
+      return response.data.data as SeatingHistory;
+    },
+    enabled: canEdit,
+  });
+
+  // 撤销/重做自己的上一条座位操作
+  const historyMutation = useMutation({
+    mutationFn: (direction: "undo" | "redo") =>
+      direction === "undo"
+        ? seatingApi.undo(projectId)
+        : seatingApi.redo(projectId),
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      queryClient.setQueryData(
+        ["seating-history", projectId],
+        response.data.data
+      );
+      queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "操作失败");
+      queryClient.invalidateQueries({
+        queryKey: ["seating-history", projectId],
+      });
+    },
+  });
+
+  // Ctrl+Z 撤销，Ctrl+Shift+Z 或 Ctrl+Y 重做（Mac 上为 Cmd）；输入框内保留默认行为
+  useEffect(() => {
+    if (!canEdit) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      const target = event.target as HTMLElement | null;
+      if (
+        target?.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+      event.preventDefault();
+      const direction = key === "y" || event.shiftKey ? "redo" : "undo";
+      if (!history?.[direction] || historyMutation.isPending) return;
+      historyMutation.mutate(direction);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canEdit, history, historyMutation]);
+
   // 安排座位
   const assignMutation = useMutation({
     mutationFn: seatingApi.assign,
@@ -126,6 +307,20 @@ export default function SeatingArrangement({
     },
   });
 
+  // 多选宾客一起安排到同一桌
+  const assignBatchMutation = useMutation({
+    mutationFn: seatingApi.assignBatch,
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "安排失败");
+    },
+  });
+
   // 移除座位
   const unassignMutation = useMutation({
     mutationFn: seatingApi.unassign,
@@ -150,6 +345,102 @@ export default function SeatingArrangement({
     },
   });
 
+  // 添加约束：与已有约束冲突时列出冲突链，确认后带 override 重新提交
+  const addConstraintMutation = useMutation({
+    mutationFn: (data: ConstraintInput & { override?: boolean }) =>
+      seatingApi.addConstraint({ projectId, ...data }),
+    onSuccess: () => {
+      message.success("约束添加成功");
+      setConstraintPair(null);
+      queryClient.invalidateQueries({ queryKey: ["constraints", projectId] });
+    },
+    onError: (error: any, variables) => {
+      const issues = error.response?.data?.data?.issues as
+        | Array<{ message: string }>
+        | undefined;
+      if (error.response?.status === 409 && issues) {
+        Modal.confirm({
+          title: "约束存在冲突",
+          content: (
+            <div>
+              {issues.map((issue) => (
+                <p key={issue.message}>{issue.message}</p>
+              ))}
+              <p>仍然保存后，自动排座可能无法满足全部约束。</p>
+            </div>
+          ),
+          okText: "仍然保存",
+          cancelText: "取消",
+          onOk: () =>
+            addConstraintMutation.mutate({ ...variables, override: true }),
+        });
+        return;
+      }
+      message.error(error.response?.data?.message || "添加约束失败");
+    },
+  });
+
+  // 删除约束
+  const removeConstraintMutation = useMutation({
+    mutationFn: seatingApi.removeConstraint,
+    onSuccess: () => {
+      message.success("约束已删除");
+      queryClient.invalidateQueries({ queryKey: ["constraints", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "删除失败");
+    },
+  });
+
+  // 添加分组约束：冲突时同样确认后带 override 重新提交
+  const addGroupMutation = useMutation({
+    mutationFn: (data: ConstraintGroupInput & { override?: boolean }) =>
+      seatingApi.addConstraintGroup({ projectId, ...data }),
+    onSuccess: () => {
+      message.success("分组约束添加成功");
+      queryClient.invalidateQueries({
+        queryKey: ["constraint-groups", projectId],
+      });
+    },
+    onError: (error: any, variables) => {
+      const issues = error.response?.data?.data?.issues as
+        | Array<{ message: string }>
+        | undefined;
+      if (error.response?.status === 409 && issues) {
+        Modal.confirm({
+          title: "分组约束存在冲突",
+          content: (
+            <div>
+              {issues.map((issue) => (
+                <p key={issue.message}>{issue.message}</p>
+              ))}
+              <p>仍然保存后，自动排座可能无法满足全部约束。</p>
+            </div>
+          ),
+          okText: "仍然保存",
+          cancelText: "取消",
+          onOk: () => addGroupMutation.mutate({ ...variables, override: true }),
+        });
+        return;
+      }
+      message.error(error.response?.data?.message || "添加分组约束失败");
+    },
+  });
+
+  // 删除分组约束
+  const removeGroupMutation = useMutation({
+    mutationFn: seatingApi.removeConstraintGroup,
+    onSuccess: () => {
+      message.success("分组约束已删除");
+      queryClient.invalidateQueries({
+        queryKey: ["constraint-groups", projectId],
+      });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "删除失败");
+    },
+  });
+
   // 创建桌位
   const createTableMutation = useMutation({
     mutationFn: tableApi.create,
@@ -178,21 +469,152 @@ export default function SeatingArrangement({
     },
   });
 
-  // 一键自动排座
+  // 一键自动排座：先生成预览，确认后再提交
   const autoAssignMutation = useMutation({
-    mutationFn: () => seatingApi.autoAssign(projectId),
+    mutationFn: () => seatingApi.autoAssign(projectId, { dryRun: true }),
     onSuccess: (response) => {
-      const { assigned, failed } = response.data.data;
-      message.success(
-        `自动排座完成：成功 ${assigned} 人${
-          failed > 0 ? `，失败 ${failed} 人` : ""
-        }`
-      );
+      const { plan, details, score, comparison, constraintIssues } =
+        response.data.data;
+      setReport(details);
+      if (plan.assignments.length === 0) {
+        message.warning("没有可以自动安排的宾客");
+        return;
+      }
+      setPreview({
+        kind: "auto-assign",
+        fingerprint: plan.fingerprint,
+        moves: (
+          plan.assignments as Array<{
+            guestId: string;
+            guestName: string;
+            headCount: number;
+            tableId: string;
+          }>
+        ).map((a) => ({ ...a, fromTableId: null, toTableId: a.tableId })),
+        failedGuests: (details as PlacementDetail[])
+          .filter((d) => d.error)
+          .map((d) => d.guestName),
+        constraintIssues: (constraintIssues as Array<{ message: string }>).map(
+          (issue) => issue.message
+        ),
+        score,
+        improvement: comparison.improvement,
+      });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "自动排座失败");
+    },
+  });
+
+  // 重新优化：锁定的座位和桌位不动，先生成调整预览
+  const rebalanceMutation = useMutation({
+    mutationFn: () => seatingApi.rebalance(projectId, { dryRun: true }),
+    onSuccess: (response) => {
+      const { moves, fingerprint, score, comparison } = response.data.data;
+      if (moves.length === 0) {
+        message.info(response.data.message);
+        return;
+      }
+      setPreview({
+        kind: "rebalance",
+        fingerprint,
+        moves,
+        failedGuests: [],
+        constraintIssues: [],
+        score,
+        improvement: comparison.improvement,
+      });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "重新优化失败");
+    },
+  });
+
+  // 接受预览方案
+  const commitPreviewMutation = useMutation({
+    mutationFn: (plan: SeatingPreview) =>
+      plan.kind === "auto-assign"
+        ? seatingApi.commitAutoAssign({
+            projectId,
+            fingerprint: plan.fingerprint,
+            assignments: plan.moves.map((m) => ({
+              guestId: m.guestId,
+              tableId: m.toTableId!,
+            })),
+          })
+        : seatingApi.commitRebalance({
+            projectId,
+            fingerprint: plan.fingerprint,
+            moves: plan.moves.map((m) => ({
+              guestId: m.guestId,
+              toTableId: m.toTableId,
+            })),
+          }),
+    onSuccess: (response) => {
+      message.success(response.data.message || "排座方案已应用");
+      setPreview(null);
       queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
       queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
     },
     onError: (error: any) => {
-      message.error(error.response?.data?.message || "自动排座失败");
+      // 预览已过期，需要重新生成
+      if (error.response?.status === 409) {
+        setPreview(null);
+      }
+      message.error(error.response?.data?.message || "应用排座方案失败");
+    },
+  });
+
+  // 按桌位归集预览中调入的宾客
+  const ghostGuestsByTable = useMemo(() => {
+    const map = new Map<
+      string,
+      Array<{ id: string; name: string; headCount: number }>
+    >();
+    preview?.moves.forEach((m) => {
+      if (!m.toTableId) return;
+      if (!map.has(m.toTableId)) {
+        map.set(m.toTableId, []);
+      }
+      map.get(m.toTableId)!.push({
+        id: m.guestId,
+        name: m.guestName,
+        headCount: m.headCount,
+      });
+    });
+    return map;
+  }, [preview]);
+
+  // 预览中将被调离原桌的宾客
+  const movingOutIds = useMemo(
+    () =>
+      new Set(
+        preview?.moves.filter((m) => m.fromTableId).map((m) => m.guestId)
+      ),
+    [preview]
+  );
+
+  // 锁定/解锁宾客座位
+  const pinGuestMutation = useMutation({
+    mutationFn: ({ guestId, pinned }: { guestId: string; pinned: boolean }) =>
+      seatingApi.pin(guestId, pinned),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "操作失败");
+    },
+  });
+
+  // 锁定/解锁整桌
+  const pinTableMutation = useMutation({
+    mutationFn: ({ tableId, pinned }: { tableId: string; pinned: boolean }) =>
+      tableApi.update(tableId, { pinned }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "操作失败");
     },
   });
 
@@ -256,6 +678,17 @@ export default function SeatingArrangement({
     const guestId = active.id as string;
     const targetId = over.id as string;
 
+    // 拖到另一位宾客上：添加约束
+    if (targetId.startsWith("guest:")) {
+      const otherId = targetId.slice("guest:".length);
+      const guest = unassignedGuests.find((g) => g.id === guestId);
+      const other = unassignedGuests.find((g) => g.id === otherId);
+      if (canEdit && guest && other && otherId !== guestId) {
+        setConstraintPair({ guest1: guest, guest2: other });
+      }
+      return;
+    }
+
     // 如果目标是"未安排"区域
     if (targetId === "unassigned") {
       const guest = tables
@@ -267,9 +700,9 @@ export default function SeatingArrangement({
       return;
     }
 
-    // 目标是桌位
+    // 目标是桌位（锁定的桌位不接受拖入）
     const targetTable = tables.find((t) => t.id === targetId);
-    if (!targetTable) return;
+    if (!targetTable || targetTable.pinned) return;
 
     // 检查宾客是否已在某桌
     const currentTable = tables.find((t) =>
@@ -281,14 +714,66 @@ export default function SeatingArrangement({
       if (currentTable.id !== targetId) {
         moveMutation.mutate({ guestId, newTableId: targetId });
       }
+    } else if (
+      selectedGuests.length > 1 &&
+      selectedGuests.some((g) => g.id === guestId)
+    ) {
+      // 拖动的是多选中的宾客：整组安排到该桌
+      assignBatchMutation.mutate({
+        projectId,
+        assignments: selectedGuests.map((g) => ({
+          guestId: g.id,
+          tableId: targetId,
+        })),
+      });
     } else {
       // 从未安排列表安排到桌位
       assignMutation.mutate({ guestId, tableId: targetId });
     }
   };
 
+  // 导出餐饮汇总
+  const handleExportCatering = async () => {
+    try {
+      message.loading({ content: "正在导出...", key: "catering" });
+      const response = await tableApi.exportCatering(projectId);
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement("a");
+      link.href = url;
+      link.setAttribute("download", "餐饮汇总.xlsx");
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+      message.success({ content: "导出成功", key: "catering" });
+    } catch {
+      message.error({ content: "导出失败", key: "catering" });
+    }
+  };
+
+  // 打开可打印的餐饮汇总，在浏览器中打印或另存为 PDF
+  const handlePrintCatering = async () => {
+    // 先打开窗口，避免请求完成后被浏览器拦截弹窗
+    const printWindow = window.open("", "_blank");
+    try {
+      const response = await tableApi.exportCatering(projectId, "html");
+      const url = window.URL.createObjectURL(
+        new Blob([response.data], { type: "text/html" })
+      );
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        window.open(url, "_blank");
+      }
+    } catch {
+      printWindow?.close();
+      message.error("生成打印版失败");
+    }
+  };
+
   // 处理创建桌位
   const handleCreateTable = (values: any) => {
+    const tags = values.accessible ? [ACCESSIBLE_TABLE_TAG] : [];
     if (values.batchCount && values.batchCount > 1) {
       batchCreateTableMutation.mutate({
         projectId,
@@ -296,6 +781,8 @@ export default function SeatingArrangement({
         namePrefix: values.namePrefix,
         capacity: values.capacity,
         areaId: values.areaId,
+        kind: values.kind,
+        tags,
         startNumber: values.startNumber || 1,
       });
     } else {
@@ -304,6 +791,8 @@ export default function SeatingArrangement({
         name: values.name,
         capacity: values.capacity,
         areaId: values.areaId,
+        kind: values.kind,
+        tags,
       });
     }
   };
@@ -315,6 +804,8 @@ export default function SeatingArrangement({
       name: table.name,
       capacity: table.capacity,
       areaId: table.area?.id,
+      kind: table.kind,
+      accessible: table.tags.includes(ACCESSIBLE_TABLE_TAG),
     });
     setEditTableModalOpen(true);
   };
@@ -328,6 +819,12 @@ export default function SeatingArrangement({
         name: values.name,
         capacity: values.capacity,
         areaId: values.areaId || null,
+        kind: values.kind,
+        // 只切换无障碍标签，保留桌位的其他标签
+        tags: [
+          ...editingTable.tags.filter((t) => t !== ACCESSIBLE_TABLE_TAG),
+          ...(values.accessible ? [ACCESSIBLE_TABLE_TAG] : []),
+        ],
       },
     });
   };
@@ -337,9 +834,22 @@ export default function SeatingArrangement({
     0
   );
 
+  const selectedGuestHeadCount = selectedGuests.reduce(
+    (sum, g) => sum + g.headCount,
+    0
+  );
+
+  // 拖动多选中的宾客时预览整组
+  const draggingGroup =
+    !!activeGuest &&
+    !activeGuest.assignment &&
+    selectedGuests.length > 1 &&
+    selectedGuests.some((g) => g.id === activeGuest.id);
+
   return (
     <DndContext
       sensors={sensors}
+      collisionDetection={collisionDetection}
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
@@ -350,6 +860,30 @@ export default function SeatingArrangement({
             <h3>📋 待安排宾客 ({totalUnassignedCount}人)</h3>
           </div>
 
+          {selectedGuests.length > 0 && (
+            <div className={styles.selectionBar}>
+              <span>
+                已选 {selectedGuests.length} 位（{selectedGuestHeadCount}人），可一起拖到桌上
+              </span>
+              <Space size={4}>
+                <Button
+                  size="small"
+                  type="link"
+                  onClick={() => setGroupSuggestOpen(true)}
+                >
+                  推荐桌位
+                </Button>
+                <Button
+                  size="small"
+                  type="link"
+                  onClick={() => setSelectedIds([])}
+                >
+                  清除
+                </Button>
+              </Space>
+            </div>
+          )}
+
           <div className={styles.filters}>
             <Input
               placeholder="搜索..."
@@ -375,7 +909,12 @@ export default function SeatingArrangement({
               <Empty description="所有宾客都已安排" />
             ) : (
               unassignedGuests.map((guest) => (
-                <DraggableGuest key={guest.id} guest={guest} />
+                <DraggableGuest
+                  key={guest.id}
+                  guest={guest}
+                  selected={selectedIds.includes(guest.id)}
+                  onToggleSelect={toggleSelect}
+                />
               ))
             )}
           </div>
@@ -386,10 +925,30 @@ export default function SeatingArrangement({
               icon={<ThunderboltOutlined />}
               onClick={() => autoAssignMutation.mutate()}
               loading={autoAssignMutation.isPending}
+              disabled={!!preview}
               block
             >
               一键智能排座
             </Button>
+            <Button
+              icon={<TeamOutlined />}
+              onClick={() => setGroupSuggestOpen(true)}
+              disabled={!!preview || tables.length === 0}
+              block
+            >
+              成组推荐
+            </Button>
+            {report.length > 0 && (
+              <Button
+                type="link"
+                size="small"
+                icon={<ProfileOutlined />}
+                onClick={() => setReportOpen(true)}
+                block
+              >
+                查看上次排座说明
+              </Button>
+            )}
           </div>
         </div>
 
@@ -397,16 +956,177 @@ export default function SeatingArrangement({
         <div className={styles.tablePanel}>
           <div className={styles.panelHeader}>
             <h3>🪑 桌位布局</h3>
-            <Button
-              type="primary"
-              size="small"
-              icon={<PlusOutlined />}
-              onClick={() => setCreateTableModalOpen(true)}
-            >
-              添加桌位
-            </Button>
+            <Space>
+              <ScenarioSwitcher
+                projectId={projectId}
+                canEdit={canEdit && !preview}
+                size="small"
+              />
+              {canEdit && (
+                <Space.Compact>
+                  <Tooltip
+                    title={
+                      history?.undo
+                        ? `撤销：${history.undo.summary}（Ctrl+Z）`
+                        : "没有可撤销的座位操作"
+                    }
+                  >
+                    <Button
+                      size="small"
+                      icon={<UndoOutlined />}
+                      onClick={() => historyMutation.mutate("undo")}
+                      disabled={!history?.undo}
+                      loading={
+                        historyMutation.isPending &&
+                        historyMutation.variables === "undo"
+                      }
+                    />
+                  </Tooltip>
+                  <Tooltip
+                    title={
+                      history?.redo
+                        ? `重做：${history.redo.summary}（Ctrl+Shift+Z）`
+                        : "没有可重做的座位操作"
+                    }
+                  >
+                    <Button
+                      size="small"
+                      icon={<RedoOutlined />}
+                      onClick={() => historyMutation.mutate("redo")}
+                      disabled={!history?.redo}
+                      loading={
+                        historyMutation.isPending &&
+                        historyMutation.variables === "redo"
+                      }
+                    />
+                  </Tooltip>
+                </Space.Compact>
+              )}
+              <Tooltip title="锁定的座位和桌位保持不动，其余宾客重新优化">
+                <Button
+                  size="small"
+                  icon={<SyncOutlined />}
+                  onClick={() => rebalanceMutation.mutate()}
+                  loading={rebalanceMutation.isPending}
+                  disabled={!!preview || tables.length === 0}
+                >
+                  重新优化
+                </Button>
+              </Tooltip>
+              <Button
+                size="small"
+                icon={<LinkOutlined />}
+                onClick={() => setConstraintPanelOpen(true)}
+              >
+                约束
+              </Button>
+              <Tooltip title="保存、对比和恢复座位方案快照">
+                <Button
+                  size="small"
+                  icon={<BranchesOutlined />}
+                  onClick={() => setSnapshotPanelOpen(true)}
+                >
+                  版本
+                </Button>
+              </Tooltip>
+              <Tooltip title="根据待安排宾客推荐需要的桌型和桌数">
+                <Button
+                  size="small"
+                  icon={<CalculatorOutlined />}
+                  onClick={() => setPlannerOpen(true)}
+                >
+                  桌数规划
+                </Button>
+              </Tooltip>
+              <Tooltip title="每桌各菜品份数、饮食需求和餐费估算，供餐饮方备餐">
+                <Dropdown
+                  disabled={tables.length === 0}
+                  menu={{
+                    items: [
+                      { key: "xlsx", label: "导出 Excel" },
+                      { key: "html", label: "打印 / PDF" },
+                    ],
+                    onClick: ({ key }) =>
+                      key === "html"
+                        ? handlePrintCatering()
+                        : handleExportCatering(),
+                  }}
+                >
+                  <Button size="small" icon={<DownloadOutlined />}>
+                    餐饮汇总
+                  </Button>
+                </Dropdown>
+              </Tooltip>
+              <Button
+                type="primary"
+                size="small"
+                icon={<PlusOutlined />}
+                onClick={() => setCreateTableModalOpen(true)}
+              >
+                添加桌位
+              </Button>
+            </Space>
           </div>
 
+          {preview && (
+            <Alert
+              className={styles.previewBar}
+              type="info"
+              showIcon
+              title={
+                preview.kind === "auto-assign"
+                  ? `排座预览：将安排 ${preview.moves.reduce(
+                      (sum, m) => sum + m.headCount,
+                      0
+                    )} 人，方案得分 ${preview.score}${
+                      preview.improvement > 0
+                        ? `（较贪心方案提升 ${preview.improvement}）`
+                        : ""
+                    }`
+                  : `重新优化预览：调整 ${preview.moves.length} 位宾客，方案得分 ${preview.score}（较当前提升 ${preview.improvement}）`
+              }
+              description={
+                <>
+                  {preview.failedGuests.length > 0
+                    ? `无法安排：${preview.failedGuests.join("、")}`
+                    : preview.kind === "auto-assign"
+                      ? "虚线显示的宾客为预览安排，确认后才会保存"
+                      : "虚线显示调入的宾客，划线显示调出的宾客，确认后才会保存"}
+                  {preview.constraintIssues.map((issue) => (
+                    <div key={issue} className={styles.constraintIssue}>
+                      ⚠️ {issue}
+                    </div>
+                  ))}
+                </>
+              }
+              action={
+                <Space orientation="vertical">
+                  <Button
+                    type="primary"
+                    size="small"
+                    loading={commitPreviewMutation.isPending}
+                    onClick={() => commitPreviewMutation.mutate(preview)}
+                  >
+                    接受
+                  </Button>
+                  <Button size="small" onClick={() => setPreview(null)}>
+                    放弃
+                  </Button>
+                  {preview.kind === "auto-assign" && (
+                    <Button
+                      size="small"
+                      type="link"
+                      icon={<ProfileOutlined />}
+                      onClick={() => setReportOpen(true)}
+                    >
+                      说明
+                    </Button>
+                  )}
+                </Space>
+              }
+            />
+          )}
+
           <div className={styles.tableGrid}>
             {tables.length === 0 ? (
               <Empty description="还没有桌位，请先创建">
@@ -422,6 +1142,17 @@ export default function SeatingArrangement({
                 <DroppableTable
                   key={table.id}
                   table={table}
+                  ghostGuests={ghostGuestsByTable.get(table.id)}
+                  movingOutIds={movingOutIds}
+                  onTogglePin={(t) =>
+                    pinTableMutation.mutate({
+                      tableId: t.id,
+                      pinned: !t.pinned,
+                    })
+                  }
+                  onTogglePinGuest={(guestId, pinned) =>
+                    pinGuestMutation.mutate({ guestId, pinned })
+                  }
                   onRemoveGuest={(guestId) => unassignMutation.mutate(guestId)}
                   onDeleteTable={(tableId) =>
                     deleteTableMutation.mutate(tableId)
@@ -434,15 +1165,128 @@ export default function SeatingArrangement({
         </div>
       </div>
 
+      {/* 自动排座说明 */}
+      <PlacementReport
+        open={reportOpen}
+        details={report}
+        onClose={() => setReportOpen(false)}
+      />
+
+      {/* 成组推荐 */}
+      <GroupSuggestModal
+        open={groupSuggestOpen}
+        projectId={projectId}
+        selectedGuestIds={selectedGuests.map((g) => g.id)}
+        areas={areas}
+        onClose={() => setGroupSuggestOpen(false)}
+        onApplied={() => {
+          setGroupSuggestOpen(false);
+          setSelectedIds([]);
+          queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+          queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+        }}
+      />
+
+      {/* 排座约束 */}
+      <ConstraintPanel
+        open={constraintPanelOpen}
+        projectId={projectId}
+        tables={tables}
+        canEdit={canEdit}
+        adding={addConstraintMutation.isPending}
+        onAdd={(data) => addConstraintMutation.mutate(data)}
+        onRemove={(constraintId) =>
+          removeConstraintMutation.mutate(constraintId)
+        }
+        addingGroup={addGroupMutation.isPending}
+        onAddGroup={(data) => addGroupMutation.mutate(data)}
+        onRemoveGroup={(groupId) => removeGroupMutation.mutate(groupId)}
+        onClose={() => setConstraintPanelOpen(false)}
+      />
+
+      {/* 座位方案快照 */}
+      <SnapshotPanel
+        open={snapshotPanelOpen}
+        projectId={projectId}
+        canEdit={canEdit}
+        onClose={() => setSnapshotPanelOpen(false)}
+      />
+
+      {/* 拖到宾客上后选择约束类型 */}
+      <Modal
+        title="添加约束"
+        open={!!constraintPair}
+        onCancel={() => setConstraintPair(null)}
+        footer={null}
+        width={360}
+      >
+        {constraintPair && (
+          <>
+            <p>
+              为 “{constraintPair.guest1.name}” 和 “{constraintPair.guest2.name}”
+              添加约束：
+            </p>
+            <Space wrap>
+              {(
+                [
+                  ["MUST_TOGETHER", "必须同桌"],
+                  ["MUST_APART", "不能同桌"],
+                  ["PREFER_TOGETHER", "尽量同桌"],
+                  ["PREFER_APART", "尽量分开"],
+                  ["NEXT_TO", "相邻就座"],
+                ] as Array<[ConstraintType, string]>
+              ).map(([constraintType, label]) => (
+                <Button
+                  key={constraintType}
+                  type={constraintType === "MUST_TOGETHER" ? "primary" : "default"}
+                  loading={
+                    addConstraintMutation.isPending &&
+                    addConstraintMutation.variables?.constraintType ===
+                      constraintType
+                  }
+                  onClick={() =>
+                    addConstraintMutation.mutate({
+                      guest1Id: constraintPair.guest1.id,
+                      guest2Id: constraintPair.guest2.id,
+                      constraintType,
+                    })
+                  }
+                >
+                  {label}
+                </Button>
+              ))}
+            </Space>
+          </>
+        )}
+      </Modal>
+
+      {/* 桌数规划 */}
+      <TablePlannerModal
+        open={plannerOpen}
+        projectId={projectId}
+        onClose={() => setPlannerOpen(false)}
+        onCreated={() => {
+          setPlannerOpen(false);
+          queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+        }}
+      />
+
       {/* 拖拽预览 */}
       <DragOverlay>
-        {activeGuest && (
-          <div className={styles.dragPreview}>
-            <UserOutlined />
-            <span>{activeGuest.name}</span>
-            <Tag>{activeGuest.headCount}人</Tag>
-          </div>
-        )}
+        {activeGuest &&
+          (draggingGroup ? (
+            <div className={styles.dragPreview}>
+              <TeamOutlined />
+              <span>{selectedGuests.length} 位宾客</span>
+              <Tag>{selectedGuestHeadCount}人</Tag>
+            </div>
+          ) : (
+            <div className={styles.dragPreview}>
+              <UserOutlined />
+              <span>{activeGuest.name}</span>
+              <Tag>{activeGuest.headCount}人</Tag>
+            </div>
+          ))}
       </DragOverlay>
 
       {/* 创建桌位弹窗 */}
@@ -457,7 +1301,12 @@ export default function SeatingArrangement({
           form={form}
           layout="vertical"
           onFinish={handleCreateTable}
-          initialValues={{ capacity: 10, batchCount: 1, startNumber: 1 }}
+          initialValues={{
+            capacity: 10,
+            batchCount: 1,
+            startNumber: 1,
+            kind: "REGULAR",
+          }}
         >
           <Form.Item name="batchCount" label="批量创建数量">
             <InputNumber min={1} max={50} style={{ width: "100%" }} />
@@ -501,6 +1350,19 @@ export default function SeatingArrangement({
             />
           </Form.Item>
 
+          <Form.Item name="kind" label="桌位类型">
+            <Select options={TABLE_KIND_OPTIONS} />
+          </Form.Item>
+
+          <Form.Item
+            name="accessible"
+            label="无障碍桌"
+            valuePropName="checked"
+            extra="方便轮椅进出，项目开启后轮椅宾客只安排到无障碍桌"
+          >
+            <Switch />
+          </Form.Item>
+
           <Form.Item style={{ marginBottom: 0, marginTop: 24 }}>
             <Button
               type="primary"
@@ -521,11 +1383,7 @@ export default function SeatingArrangement({
       <Modal
         title="编辑桌位"
         open={editTableModalOpen}
-        onCancel={() => {
-          setEditTableModalOpen(false);
-          setEditingTable(null);
-          editForm.resetFields();
-        }}
+        onCancel={closeEditTableModal}
         footer={null}
         width={400}
       >
@@ -562,6 +1420,19 @@ export default function SeatingArrangement({
             />
           </Form.Item>
 
+          <Form.Item name="kind" label="桌位类型">
+            <Select options={TABLE_KIND_OPTIONS} />
+          </Form.Item>
+
+          <Form.Item
+            name="accessible"
+            label="无障碍桌"
+            valuePropName="checked"
+            extra="方便轮椅进出，项目开启后轮椅宾客只安排到无障碍桌"
+          >
+            <Switch />
+          </Form.Item>
+
           <Form.Item style={{ marginBottom: 0, marginTop: 24 }}>
             <Button
               type="primary"
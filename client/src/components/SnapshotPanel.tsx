@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Drawer,
+  Empty,
+  Input,
+  Popconfirm,
+  Select,
+  Spin,
+  Tag,
+  Tooltip,
+  message,
+} from "antd";
+import {
+  DeleteOutlined,
+  DiffOutlined,
+  RollbackOutlined,
+  SaveOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { snapshotApi } from "../services/api";
+import type {
+  ApiError,
+  SeatingSnapshot,
+  SnapshotDiff,
+  SnapshotRestoreConflict,
+} from "../services/api";
+import styles from "./SnapshotPanel.module.css";
+
+interface SnapshotPanelProps {
+  open: boolean;
+  projectId: string;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+const CURRENT = "current";
+
+const TABLE_FIELD_LABELS: Record<string, string> = {
+  name: "名称",
+  capacity: "容量",
+  positionX: "位置",
+  positionY: "位置",
+  tableType: "桌型",
+  kind: "类型",
+  tags: "标签",
+  notes: "备注",
+  areaId: "区域",
+  pinned: "锁定",
+};
+
+const fieldNames = (fields: string[]) =>
+  Array.from(new Set(fields.map((f) => TABLE_FIELD_LABELS[f] || f))).join("、");
+
+export default function SnapshotPanel({
+  open,
+  projectId,
+  canEdit,
+  onClose,
+}: SnapshotPanelProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  // 对比的两个版本：快照 ID 或当前方案
+  const [compare, setCompare] = useState<{ from?: string; to: string }>({
+    to: CURRENT,
+  });
+
+  // 获取快照列表，保存、恢复或自动保存后通过操作记录事件刷新
+  const { data: snapshots = [], isLoading } = useQuery({
+    queryKey: ["snapshots", projectId],
+    queryFn: async () => {
+      const response = await snapshotApi.getAll(projectId);
+      return response.data.data as SeatingSnapshot[];
+    },
+    enabled: open,
+  });
+
+  const { data: diff, isFetching: diffLoading } = useQuery({
+    queryKey: ["snapshot-diff", projectId, compare.from, compare.to],
+    queryFn: async () => {
+      const response = await snapshotApi.diff(
+        projectId,
+        compare.from!,
+        compare.to
+      );
+      return response.data.data as SnapshotDiff;
+    },
+    enabled: open && !!compare.from && compare.from !== compare.to,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => snapshotApi.create(projectId, { name: name.trim() }),
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["snapshots", projectId] });
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "保存失败");
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: snapshotApi.restore,
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      queryClient.invalidateQueries({ queryKey: ["snapshots", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["snapshot-diff", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+    },
+    onError: (error: ApiError<{ tables: SnapshotRestoreConflict[] }>) => {
+      message.error(error.response?.data?.message || "恢复失败");
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: snapshotApi.remove,
+    onSuccess: (response, snapshotId) => {
+      message.success(response.data.message);
+      if (compare.from === snapshotId || compare.to === snapshotId) {
+        setCompare({ to: CURRENT });
+      }
+      queryClient.invalidateQueries({ queryKey: ["snapshots", projectId] });
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "删除失败");
+    },
+  });
+
+  const versionOptions = [
+    { label: "当前方案", value: CURRENT },
+    ...snapshots.map((s) => ({
+      label: `${s.name}（${dayjs(s.createdAt).format("MM-DD HH:mm")}）`,
+      value: s.id,
+    })),
+  ];
+
+  const tableLabel = (table: string | null) => table || "未安排";
+
+  const renderDiff = (d: SnapshotDiff) => {
+    const empty =
+      d.tablesAdded.length === 0 &&
+      d.tablesRemoved.length === 0 &&
+      d.tablesChanged.length === 0 &&
+      d.moved.length === 0;
+    if (empty) {
+      return <Empty description="两个版本没有差异" />;
+    }
+
+    return (
+      <div className={styles.diff}>
+        {d.tablesAdded.length > 0 && (
+          <div>
+            <div className={styles.diffTitle}>新增桌位</div>
+            {d.tablesAdded.map((t) => (
+              <Tag key={t.id} color="green">
+                {t.name}
+              </Tag>
+            ))}
+          </div>
+        )}
+        {d.tablesRemoved.length > 0 && (
+          <div>
+            <div className={styles.diffTitle}>删除桌位</div>
+            {d.tablesRemoved.map((t) => (
+              <Tag key={t.id} color="red">
+                {t.name}
+              </Tag>
+            ))}
+          </div>
+        )}
+        {d.tablesChanged.length > 0 && (
+          <div>
+            <div className={styles.diffTitle}>修改的桌位</div>
+            {d.tablesChanged.map((t) => (
+              <div key={t.id} className={styles.diffRow}>
+                {t.previousName !== t.name
+                  ? `${t.previousName} → ${t.name}`
+                  : t.name}
+                <span className={styles.meta}>{fieldNames(t.fields)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {d.moved.length > 0 && (
+          <div>
+            <div className={styles.diffTitle}>
+              座位变动（{d.moved.length} 位宾客）
+            </div>
+            {d.moved.map((m) => (
+              <div key={m.guestId} className={styles.diffRow}>
+                {m.guestName}
+                <span className={styles.meta}>
+                  {tableLabel(m.fromTable)} → {tableLabel(m.toTable)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Drawer title="方案版本" open={open} onClose={onClose} size={460}>
+      {canEdit && (
+        <div className={styles.saveRow}>
+          <Input
+            placeholder="快照名称，如：初版、调整主桌后"
+            value={name}
+            maxLength={50}
+            onChange={(e) => setName(e.target.value)}
+            onPressEnter={() => name.trim() && createMutation.mutate()}
+            size="small"
+          />
+          <Button
+            type="primary"
+            size="small"
+            icon={<SaveOutlined />}
+            disabled={!name.trim()}
+            loading={createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            保存当前方案
+          </Button>
+        </div>
+      )}
+
+      <Spin spinning={isLoading}>
+        {snapshots.length === 0 ? (
+          !isLoading && <Empty description="还没有快照" />
+        ) : (
+          <div className={styles.list}>
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className={styles.item}>
+                <div className={styles.itemMain}>
+                  <div>
+                    {snapshot.name}
+                    {snapshot.auto && (
+                      <Tag className={styles.autoTag}>自动</Tag>
+                    )}
+                  </div>
+                  <div className={styles.meta}>
+                    {snapshot.createdBy.nickname} ·{" "}
+                    {dayjs(snapshot.createdAt).format("YYYY-MM-DD HH:mm")} ·{" "}
+                    {snapshot.tableCount} 桌 / {snapshot.seatedGuestCount}{" "}
+                    位宾客入座
+                  </div>
+                </div>
+                <Tooltip title="与当前方案对比">
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<DiffOutlined />}
+                    onClick={() =>
+                      setCompare({ from: snapshot.id, to: CURRENT })
+                    }
+                  />
+                </Tooltip>
+                {canEdit && (
+                  <>
+                    <Popconfirm
+                      title={`恢复快照"${snapshot.name}"？`}
+                      description="当前方案会先自动保存；快照之后新增的桌位将被删除"
+                      onConfirm={() => restoreMutation.mutate(snapshot.id)}
+                    >
+                      <Tooltip title="恢复">
+                        <Button
+                          type="text"
+                          size="small"
+                          icon={<RollbackOutlined />}
+                          loading={
+                            restoreMutation.isPending &&
+                            restoreMutation.variables === snapshot.id
+                          }
+                        />
+                      </Tooltip>
+                    </Popconfirm>
+                    <Popconfirm
+                      title="确定删除这个快照吗？"
+                      onConfirm={() => removeMutation.mutate(snapshot.id)}
+                    >
+                      <Button
+                        type="text"
+                        size="small"
+                        danger
+                        icon={<DeleteOutlined />}
+                      />
+                    </Popconfirm>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Spin>
+
+      {snapshots.length > 0 && (
+        <div className={styles.compare}>
+          <div className={styles.diffTitle}>版本对比</div>
+          <div className={styles.compareRow}>
+            <Select
+              placeholder="选择版本"
+              value={compare.from}
+              onChange={(from) => setCompare({ ...compare, from })}
+              options={versionOptions}
+              size="small"
+              className={styles.versionSelect}
+            />
+            <span>→</span>
+            <Select
+              value={compare.to}
+              onChange={(to) => setCompare({ ...compare, to })}
+              options={versionOptions}
+              size="small"
+              className={styles.versionSelect}
+            />
+          </div>
+          <Spin spinning={diffLoading}>
+            {diff && compare.from !== compare.to && renderDiff(diff)}
+          </Spin>
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -1,5 +1,6 @@
+import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { Card, Statistic, Progress, List, Tag, Empty } from 'antd'
+import { Card, Statistic, Progress, List, Tag, Empty, Segmented } from 'antd'
 import {
   TeamOutlined,
   CheckCircleOutlined,
@@ -23,6 +24,9 @@ const TAG_COLORS: Record<string, string> = {
 }
 
 export default function Statistics({ projectId }: StatisticsProps) {
+  // 只统计确认出席的宾客
+  const [confirmedOnly, setConfirmedOnly] = useState(false)
+
   // 获取项目统计
   const { data: project } = useQuery({
     queryKey: ['project', projectId],
@@ -53,10 +57,15 @@ export default function Statistics({ projectId }: StatisticsProps) {
   if (!project) return null
 
   const { stats } = project
-  const unassignedCount = stats.totalGuests - stats.assignedGuests
-  const assignedPercentage = stats.totalGuests > 0
-    ? Math.round((stats.assignedGuests / stats.totalGuests) * 100)
+  const totalGuests = confirmedOnly ? stats.confirmedGuests : stats.totalGuests
+  const assignedGuests = confirmedOnly ? stats.assignedConfirmedGuests : stats.assignedGuests
+  const assignedSeats = confirmedOnly ? stats.assignedConfirmedSeats : stats.assignedSeats
+  const unassignedCount = totalGuests - assignedGuests
+  const assignedPercentage = totalGuests > 0
+    ? Math.round((assignedGuests / totalGuests) * 100)
     : 0
+  // 座位按占用数统计，坐在大人腿上的婴儿不占座
+  const lapSeatedCount = stats.totalGuests - stats.totalSeats
 
   // 统计标签分布
   const tagCounts: Record<string, number> = {}
@@ -71,12 +80,22 @@ export default function Statistics({ projectId }: StatisticsProps) {
 
   return (
     <div className={styles.container}>
+      <Segmented
+        className={styles.scopeSwitch}
+        value={confirmedOnly ? 'confirmed' : 'all'}
+        onChange={(value) => setConfirmedOnly(value === 'confirmed')}
+        options={[
+          { label: '全部宾客', value: 'all' },
+          { label: '仅确认出席', value: 'confirmed' },
+        ]}
+      />
+
       {/* 概览卡片 */}
       <div className={styles.overviewCards}>
         <Card className={styles.statCard}>
           <Statistic
-            title="总宾客"
-            value={stats.totalGuests}
+            title={confirmedOnly ? '确认出席' : '总宾客'}
+            value={totalGuests}
             suffix="人"
             prefix={<TeamOutlined />}
             styles={{ content: { color: 'var(--text-primary)' } }}
@@ -85,7 +104,7 @@ export default function Statistics({ projectId }: StatisticsProps) {
         <Card className={styles.statCard}>
           <Statistic
             title="已安排"
-            value={stats.assignedGuests}
+            value={assignedGuests}
             suffix="人"
             prefix={<CheckCircleOutlined />}
             styles={{ content: { color: '#6B9E78' } }}
@@ -123,7 +142,7 @@ export default function Statistics({ projectId }: StatisticsProps) {
           size={['100%', 20]}
         />
         <div className={styles.progressInfo}>
-          <span>已安排 {stats.assignedGuests} 人</span>
+          <span>已安排 {assignedGuests} 人</span>
           <span>剩余 {unassignedCount} 人待安排</span>
         </div>
       </Card>
@@ -211,25 +230,82 @@ export default function Statistics({ projectId }: StatisticsProps) {
           <div className={styles.capacityItem}>
             <span className={styles.capacityLabel}>已用座位</span>
             <span className={styles.capacityValue} style={{ color: '#B76E79' }}>
-              {stats.assignedGuests}
+              {assignedSeats}
             </span>
           </div>
           <div className={styles.capacityItem}>
             <span className={styles.capacityLabel}>剩余座位</span>
             <span className={styles.capacityValue} style={{ color: '#6B9E78' }}>
-              {(stats.totalCapacity || 0) - stats.assignedGuests}
+              {(stats.totalCapacity || 0) - assignedSeats}
             </span>
           </div>
           <div className={styles.capacityItem}>
             <span className={styles.capacityLabel}>使用率</span>
             <span className={styles.capacityValue}>
               {stats.totalCapacity > 0
-                ? Math.round((stats.assignedGuests / stats.totalCapacity) * 100)
+                ? Math.round((assignedSeats / stats.totalCapacity) * 100)
                 : 0}%
             </span>
           </div>
         </div>
       </Card>
+
+      {/* 出席回复 */}
+      <Card className={styles.capacityCard}>
+        <h3>💌 出席回复</h3>
+        <div className={styles.capacityInfo}>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>确认出席</span>
+            <span className={styles.capacityValue} style={{ color: '#6B9E78' }}>
+              {stats.rsvp.confirmed}
+            </span>
+          </div>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>待定</span>
+            <span className={styles.capacityValue} style={{ color: '#E6B422' }}>
+              {stats.rsvp.tentative}
+            </span>
+          </div>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>不出席</span>
+            <span className={styles.capacityValue} style={{ color: '#B76E79' }}>
+              {stats.rsvp.declined}
+            </span>
+          </div>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>未回复</span>
+            <span className={styles.capacityValue}>{stats.rsvp.invited}</span>
+          </div>
+        </div>
+        <div className={styles.progressInfo}>
+          <span>确认出席 {stats.confirmedGuests} 人，需 {stats.confirmedSeats} 个座位</span>
+        </div>
+      </Card>
+
+      {/* 儿童与婴儿 */}
+      <Card className={styles.capacityCard}>
+        <h3>🧒 儿童与婴儿</h3>
+        <div className={styles.capacityInfo}>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>儿童</span>
+            <span className={styles.capacityValue}>{stats.childCount}</span>
+          </div>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>婴儿</span>
+            <span className={styles.capacityValue}>{stats.infantCount}</span>
+          </div>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>不占座</span>
+            <span className={styles.capacityValue} style={{ color: '#6B9E78' }}>
+              {lapSeatedCount}
+            </span>
+          </div>
+          <div className={styles.capacityItem}>
+            <span className={styles.capacityLabel}>儿童桌</span>
+            <span className={styles.capacityValue}>{stats.kidsTableCount}</span>
+          </div>
+        </div>
+      </Card>
     </div>
   )
 }
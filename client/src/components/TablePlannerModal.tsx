@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Modal,
+  InputNumber,
+  Button,
+  Table,
+  Tag,
+  Alert,
+  Empty,
+  Statistic,
+  message,
+} from "antd";
+import { CalculatorOutlined } from "@ant-design/icons";
+import { tableApi } from "../services/api";
+import styles from "./TablePlannerModal.module.css";
+
+interface TablePlanItem {
+  areaId: string | null;
+  areaName: string;
+  capacity: number;
+  count: number;
+  kind: "standard" | "head";
+}
+
+interface AreaPlan {
+  areaId: string | null;
+  areaName: string;
+  headCount: number;
+  tags: Array<{ tag: string; headCount: number }>;
+  largestGroup: number;
+  existingFreeSeats: number;
+  items: TablePlanItem[];
+  seats: number;
+  usedSeats: number;
+  fillRate: number;
+}
+
+interface TablePlan {
+  capacity: number;
+  largeCapacity: number;
+  headCount: number;
+  existingFreeSeats: number;
+  areas: AreaPlan[];
+  items: TablePlanItem[];
+  summary: string;
+  totalTables: number;
+  totalSeats: number;
+  leftoverSeats: number;
+  fillRate: number;
+  warnings: string[];
+}
+
+interface TablePlannerModalProps {
+  open: boolean;
+  projectId: string;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+export default function TablePlannerModal({
+  open,
+  projectId,
+  onClose,
+  onCreated,
+}: TablePlannerModalProps) {
+  const [capacity, setCapacity] = useState<number | null>(null);
+  const [largeCapacity, setLargeCapacity] = useState<number | null>(null);
+  const [plan, setPlan] = useState<TablePlan | null>(null);
+
+  const planMutation = useMutation({
+    mutationFn: () =>
+      tableApi.plan(projectId, {
+        capacity: capacity || undefined,
+        largeCapacity: largeCapacity || undefined,
+      }),
+    onSuccess: (response) => {
+      const result = response.data.data as TablePlan;
+      setPlan(result);
+      setCapacity(result.capacity);
+      setLargeCapacity(result.largeCapacity);
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "计算失败");
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (items: TablePlanItem[]) =>
+      tableApi.applyPlan({
+        projectId,
+        items: items.map((i) => ({
+          areaId: i.areaId,
+          capacity: i.capacity,
+          count: i.count,
+        })),
+      }),
+    onSuccess: (response) => {
+      message.success(response.data.message);
+      setPlan(null);
+      onCreated();
+    },
+    onError: (error: any) => {
+      message.error(error.response?.data?.message || "创建失败");
+    },
+  });
+
+  return (
+    <Modal
+      title="桌数规划"
+      open={open}
+      onCancel={onClose}
+      afterOpenChange={(visible) => {
+        // 每次打开都按最新的宾客数据重新计算
+        if (visible) planMutation.mutate();
+      }}
+      footer={null}
+      width={640}
+    >
+      <div className={styles.toolbar}>
+        <span>标准桌</span>
+        <InputNumber
+          min={4}
+          max={20}
+          value={capacity}
+          onChange={setCapacity}
+          suffix="人"
+          size="small"
+          style={{ width: 100 }}
+        />
+        <span>主桌</span>
+        <InputNumber
+          min={4}
+          max={20}
+          value={largeCapacity}
+          onChange={setLargeCapacity}
+          suffix="人"
+          size="small"
+          style={{ width: 100 }}
+        />
+        <Button
+          size="small"
+          icon={<CalculatorOutlined />}
+          loading={planMutation.isPending}
+          onClick={() => planMutation.mutate()}
+        >
+          重新计算
+        </Button>
+      </div>
+
+      {plan &&
+        (plan.headCount === 0 ? (
+          <Empty description="所有宾客都已安排，无需新增桌位" />
+        ) : (
+          <>
+            <div className={styles.stats}>
+              <Statistic title="待安排" value={plan.headCount} suffix="人" />
+              <Statistic
+                title="已有空位"
+                value={plan.existingFreeSeats}
+                suffix="个"
+              />
+              <Statistic title="建议新增" value={plan.totalTables} suffix="桌" />
+              <Statistic title="预计坐满率" value={plan.fillRate} suffix="%" />
+              <Statistic title="剩余座位" value={plan.leftoverSeats} suffix="个" />
+            </div>
+
+            {plan.totalTables > 0 ? (
+              <Alert
+                className={styles.alert}
+                type="success"
+                title={`建议桌型：${plan.summary}`}
+              />
+            ) : (
+              <Alert
+                className={styles.alert}
+                type="success"
+                title="现有桌位的空位足够安排所有宾客"
+              />
+            )}
+
+            {plan.warnings.length > 0 && (
+              <Alert
+                className={styles.alert}
+                type="warning"
+                title="以下同桌组无法整桌安排"
+                description={plan.warnings.join("；")}
+              />
+            )}
+
+            <Table
+              size="small"
+              rowKey={(area) => area.areaId || "none"}
+              dataSource={plan.areas}
+              pagination={false}
+              columns={[
+                { title: "区域", dataIndex: "areaName" },
+                {
+                  title: "人数",
+                  dataIndex: "headCount",
+                  render: (headCount: number, area: AreaPlan) => (
+                    <div>
+                      {headCount}人
+                      <div className={styles.tags}>
+                        {area.tags.map((t) => (
+                          <Tag key={t.tag} className={styles.tag}>
+                            {t.tag} {t.headCount}
+                          </Tag>
+                        ))}
+                      </div>
+                    </div>
+                  ),
+                },
+                {
+                  title: "最大同桌组",
+                  dataIndex: "largestGroup",
+                  render: (value: number) => `${value}人`,
+                },
+                {
+                  title: "新增桌位",
+                  render: (_: unknown, area: AreaPlan) =>
+                    area.items.length === 0
+                      ? "无需新增"
+                      : area.items.map((i) => (
+                          <Tag
+                            key={i.kind}
+                            color={i.kind === "head" ? "gold" : "default"}
+                          >
+                            {i.count}×{i.capacity}
+                            {i.kind === "head" && " 主桌"}
+                          </Tag>
+                        )),
+                },
+                {
+                  title: "坐满率",
+                  dataIndex: "fillRate",
+                  render: (value: number, area: AreaPlan) =>
+                    area.seats > 0 ? `${value}%` : "-",
+                },
+              ]}
+            />
+
+            <Button
+              type="primary"
+              block
+              className={styles.apply}
+              disabled={plan.totalTables === 0}
+              loading={applyMutation.isPending}
+              onClick={() => applyMutation.mutate(plan.items)}
+            >
+              一键创建 {plan.totalTables} 个桌位
+            </Button>
+          </>
+        ))}
+    </Modal>
+  );
+}
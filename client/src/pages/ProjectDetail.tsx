@@ -27,10 +27,13 @@ import {
   SettingOutlined,
   UserOutlined,
   LogoutOutlined,
+  HistoryOutlined,
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { projectApi } from "../services/api";
+import type { RsvpStatus } from "../services/api";
 import { useAuthStore } from "../stores/authStore";
+import { useEditLockStore } from "../stores/editLockStore";
 import {
   connectSocket,
   disconnectSocket,
@@ -44,8 +47,16 @@ import SeatingArrangement from "../components/SeatingArrangement";
 import FloorPlan from "../components/FloorPlan";
 import Statistics from "../components/Statistics";
 import ProjectSettings from "../components/ProjectSettings";
+import ActivityTimeline from "../components/ActivityTimeline";
 import styles from "./ProjectDetail.module.css";
 
+const RSVP_RESPONSE_LABELS: Record<RsvpStatus, string> = {
+  INVITED: "未回复",
+  CONFIRMED: "确认出席",
+  DECLINED: "不出席",
+  TENTATIVE: "待定",
+};
+
 const { Header, Sider, Content } = Layout;
 
 interface OnlineMember {
@@ -131,6 +142,8 @@ export default function ProjectDetail() {
       },
       onGuestUpdated: () => {
         queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        // 人数变化会调整座号
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
       },
       onGuestDeleted: () => {
         queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
@@ -140,6 +153,22 @@ export default function ProjectDetail() {
         queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
         queryClient.invalidateQueries({ queryKey: ["project", projectId] });
       },
+      onGuestRsvpResponded: (data) => {
+        // 宾客通过回复链接提交，列表已由 guest:updated 刷新，这里更新统计并提示
+        queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+        const reply = `${data.guestName} 已回复：${RSVP_RESPONSE_LABELS[data.rsvpStatus]}${
+          data.rsvpStatus === "CONFIRMED" && data.confirmedCount
+            ? ` ${data.confirmedCount} 人`
+            : ""
+        }`;
+        if (data.fromTableName) {
+          message.warning(
+            `${reply}，"${data.fromTableName}" 座位不足，已移回待安排`
+          );
+        } else {
+          message.info(reply);
+        }
+      },
       onTableCreated: () => {
         queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
         queryClient.invalidateQueries({ queryKey: ["project", projectId] });
@@ -165,6 +194,106 @@ export default function ProjectDetail() {
         queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
         queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
       },
+      onSeatingAutoAssigned: () => {
+        queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+      },
+      onSeatingRebalanced: () => {
+        queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+      },
+      onSeatingPinned: () => {
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+      },
+      onSeatsChanged: () => {
+        queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+      },
+      onSeatingHistoryApplied: (data) => {
+        queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+        if (data.user.id !== user.id) {
+          message.info(
+            `${data.user.nickname} ${
+              data.direction === "undo" ? "撤销" : "重做"
+            }了：${data.summary}`
+          );
+        }
+      },
+      onSnapshotRestored: (data) => {
+        queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+        if (data.user.id !== user.id) {
+          message.info(`${data.user.nickname} 恢复了快照"${data.name}"`);
+        }
+      },
+      onScenarioSwitched: (data) => {
+        queryClient.invalidateQueries({ queryKey: ["guests", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["tables", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["project", projectId] });
+        queryClient.invalidateQueries({ queryKey: ["scenarios", projectId] });
+        if (data.user.id !== user.id) {
+          message.info(
+            data.final
+              ? `${data.user.nickname} 将"${data.name}"定为最终方案`
+              : `${data.user.nickname} 切换到了方案"${data.name}"`
+          );
+        }
+      },
+      onConstraintCreated: () => {
+        queryClient.invalidateQueries({ queryKey: ["constraints", projectId] });
+      },
+      onConstraintDeleted: () => {
+        queryClient.invalidateQueries({ queryKey: ["constraints", projectId] });
+      },
+      onConstraintGroupCreated: () => {
+        queryClient.invalidateQueries({
+          queryKey: ["constraint-groups", projectId],
+        });
+      },
+      onConstraintGroupDeleted: () => {
+        queryClient.invalidateQueries({
+          queryKey: ["constraint-groups", projectId],
+        });
+      },
+      onMenuUpdated: (menu) => {
+        queryClient.setQueryData(["menu", projectId], menu);
+      },
+      // 只记录其他成员的编辑锁，自己在其他标签页持有的锁不影响编辑
+      onEditingLocks: (locks) => {
+        useEditLockStore
+          .getState()
+          .setLocks(locks.filter((lock) => lock.userId !== user.id));
+      },
+      onEditingLocked: (lock) => {
+        if (lock.userId !== user.id) {
+          useEditLockStore.getState().addLock(lock);
+        }
+      },
+      onEditingUnlocked: (data) => {
+        useEditLockStore.getState().removeLock(data.type, data.id);
+      },
+      onActivityCreated: () => {
+        // 操作记录页按筛选条件重新加载，新记录出现在最前
+        queryClient.invalidateQueries({
+          queryKey: ["activities", projectId],
+        });
+        // 座位操作都会写日志，顺带刷新自己的撤销/重做状态
+        queryClient.invalidateQueries({
+          queryKey: ["seating-history", projectId],
+        });
+        // 保存快照和自动排座等操作前的自动快照
+        queryClient.invalidateQueries({
+          queryKey: ["snapshots", projectId],
+        });
+        // 座位变化会影响当前方案的得分
+        queryClient.invalidateQueries({
+          queryKey: ["scenarios", projectId],
+        });
+      },
     });
 
     // 加入项目房间
@@ -173,6 +302,7 @@ export default function ProjectDetail() {
     return () => {
       leaveProject(projectId);
       removeSocketListeners();
+      useEditLockStore.getState().setLocks([]);
     };
   }, [projectId, user, queryClient]);
 
@@ -200,6 +330,10 @@ export default function ProjectDetail() {
     );
   }
 
+  const canEdit = project.members?.some(
+    (m: any) => m.userId === user?.id && m.role !== "VIEWER"
+  );
+
   const daysUntilWedding = project.weddingDate
     ? dayjs(project.weddingDate).diff(dayjs(), "day")
     : null;
@@ -229,6 +363,11 @@ export default function ProjectDetail() {
         <NavLink to={`/project/${projectId}/statistics`}>数据统计</NavLink>
       ),
     },
+    {
+      key: "activity",
+      icon: <HistoryOutlined />,
+      label: <NavLink to={`/project/${projectId}/activity`}>操作记录</NavLink>,
+    },
     {
       key: "settings",
       icon: <SettingOutlined />,
@@ -243,6 +382,7 @@ export default function ProjectDetail() {
     if (path.includes("/seating")) return "seating";
     if (path.includes("/floor-plan")) return "floor-plan";
     if (path.includes("/statistics")) return "statistics";
+    if (path.includes("/activity")) return "activity";
     if (path.includes("/settings")) return "settings";
     return "guests";
   };
@@ -263,6 +403,12 @@ export default function ProjectDetail() {
       label: "统计",
       path: "statistics",
     },
+    {
+      key: "activity",
+      icon: <HistoryOutlined />,
+      label: "记录",
+      path: "activity",
+    },
     {
       key: "settings",
       icon: <SettingOutlined />,
@@ -424,16 +570,22 @@ export default function ProjectDetail() {
             />
             <Route
               path="seating"
-              element={<SeatingArrangement projectId={projectId!} />}
+              element={
+                <SeatingArrangement projectId={projectId!} canEdit={canEdit} />
+              }
             />
             <Route
               path="floor-plan"
-              element={<FloorPlan projectId={projectId!} />}
+              element={<FloorPlan projectId={projectId!} canEdit={canEdit} />}
             />
             <Route
               path="statistics"
               element={<Statistics projectId={projectId!} />}
             />
+            <Route
+              path="activity"
+              element={<ActivityTimeline projectId={projectId!} />}
+            />
             <Route
               path="settings"
               element={
@@ -0,0 +1,395 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  Checkbox,
+  Form,
+  Input,
+  InputNumber,
+  Radio,
+  Result,
+  Select,
+  Space,
+  Spin,
+  message,
+} from "antd";
+import {
+  CheckCircleOutlined,
+  MailOutlined,
+  MinusCircleOutlined,
+  PlusOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import {
+  rsvpApi,
+  ACCESSIBILITY_NEED_LABELS,
+  DIETARY_NEED_LABELS,
+  MEAL_KIND_LABELS,
+} from "../services/api";
+import type {
+  AccessibilityNeed,
+  AgeCategory,
+  ApiError,
+  CompanionInput,
+  DietaryNeed,
+  MenuOption,
+  RsvpStatus,
+} from "../services/api";
+import styles from "./Login.module.css";
+
+interface RsvpView {
+  project: {
+    name: string;
+    weddingDate: string | null;
+    venue: string | null;
+    menuOptions: Omit<MenuOption, "price">[];
+  };
+  guest: {
+    name: string;
+    headCount: number;
+    rsvpStatus: RsvpStatus;
+    confirmedCount: number | null;
+    respondedAt: string | null;
+    dietaryNeeds: DietaryNeed[];
+    allergies: string | null;
+    dietaryNotes: string | null;
+    accessibilityNeeds: AccessibilityNeed[];
+    mealChoiceId: string | null;
+    companions: Array<{
+      name: string;
+      type: AgeCategory;
+      notes: string | null;
+      mealChoiceId: string | null;
+    }>;
+  };
+  expiresAt: string;
+}
+
+interface RsvpFormValues {
+  rsvpStatus: Exclude<RsvpStatus, "INVITED">;
+  confirmedCount?: number | null;
+  companions: CompanionInput[];
+  dietaryNeeds: DietaryNeed[];
+  allergies?: string;
+  dietaryNotes?: string;
+  accessibilityNeeds: AccessibilityNeed[];
+  mealChoiceId?: string | null;
+}
+
+const AGE_CATEGORY_OPTIONS: Array<{ label: string; value: AgeCategory }> = [
+  { label: "成人", value: "ADULT" },
+  { label: "儿童", value: "CHILD" },
+  { label: "婴儿", value: "INFANT" },
+];
+
+const DIETARY_NEED_OPTIONS = (
+  Object.keys(DIETARY_NEED_LABELS) as DietaryNeed[]
+).map((value) => ({ label: DIETARY_NEED_LABELS[value], value }));
+
+const ACCESSIBILITY_NEED_OPTIONS = (
+  Object.keys(ACCESSIBILITY_NEED_LABELS) as AccessibilityNeed[]
+).map((value) => ({ label: ACCESSIBILITY_NEED_LABELS[value], value }));
+
+const RESPONSE_TEXT: Record<Exclude<RsvpStatus, "INVITED">, string> = {
+  CONFIRMED: "期待与您相见！",
+  TENTATIVE: "确定行程后欢迎随时通过此链接更新回复",
+  DECLINED: "感谢您告知，祝您一切顺利",
+};
+
+export default function RsvpPage() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const [form] = Form.useForm<RsvpFormValues>();
+  // 提交成功后显示感谢页，记录提交的状态
+  const [submittedStatus, setSubmittedStatus] =
+    useState<RsvpFormValues["rsvpStatus"]>();
+  const rsvpStatus = Form.useWatch("rsvpStatus", form);
+  const confirmedCount = Form.useWatch("confirmedCount", form);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["rsvp", token],
+    queryFn: async () => {
+      const response = await rsvpApi.get(token!);
+      return response.data.data as RsvpView;
+    },
+    retry: false,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (values: RsvpFormValues) =>
+      rsvpApi.submit(token!, {
+        ...values,
+        // 不出席时不提交随行人员和菜品，清空菜品时改回按默认菜品统计
+        companions:
+          values.rsvpStatus === "DECLINED" ? undefined : values.companions,
+        mealChoiceId:
+          values.rsvpStatus === "DECLINED"
+            ? undefined
+            : (values.mealChoiceId ?? null),
+      }),
+    onSuccess: (response, values) => {
+      // 用最新的回复刷新页面数据，修改回复时从提交的内容开始
+      queryClient.setQueryData(["rsvp", token], response.data.data);
+      setSubmittedStatus(values.rsvpStatus);
+    },
+    onError: (error: ApiError) => {
+      message.error(error.response?.data?.message || "提交失败，请稍后再试");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className={styles.container}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className={styles.container}>
+        <Card className={styles.card} style={{ maxWidth: 420 }}>
+          <Result
+            status="warning"
+            title="无法打开回复页面"
+            subTitle={
+              (error as ApiError | null)?.response?.data?.message ||
+              "链接无效或已过期，请联系新人重新发送"
+            }
+          />
+        </Card>
+      </div>
+    );
+  }
+
+  const { project, guest } = data;
+  const attending = rsvpStatus !== "DECLINED";
+  // 随行人员不能多于出席人数减去本人
+  const partySize = confirmedCount || guest.headCount;
+  // 菜品选项，说明写在名称后
+  const mealOptions = project.menuOptions.map((option) => ({
+    label: [
+      option.kind === "CHILD"
+        ? `${option.name}（${MEAL_KIND_LABELS.CHILD}）`
+        : option.name,
+      option.description,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    value: option.id,
+  }));
+
+  if (submittedStatus) {
+    return (
+      <div className={styles.container}>
+        <Card
+          className={styles.card}
+          style={{ maxWidth: 420, textAlign: "center" }}
+        >
+          <Result
+            icon={<CheckCircleOutlined style={{ color: "#6B9E78" }} />}
+            title="感谢您的回复"
+            subTitle={RESPONSE_TEXT[submittedStatus]}
+            extra={
+              <Button onClick={() => setSubmittedStatus(undefined)}>
+                修改回复
+              </Button>
+            }
+          />
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <Card className={styles.card} style={{ maxWidth: 520 }}>
+        <div style={{ textAlign: "center", marginBottom: 24 }}>
+          <MailOutlined style={{ fontSize: 56, color: "#B76E79" }} />
+          <h2
+            style={{
+              fontFamily: "Playfair Display, serif",
+              margin: "12px 0 8px",
+            }}
+          >
+            {project.name}
+          </h2>
+          <p style={{ color: "#8B8680", margin: 0 }}>
+            {[
+              project.weddingDate &&
+                dayjs(project.weddingDate).format("YYYY年M月D日 dddd"),
+              project.venue,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </div>
+
+        <p>
+          {guest.name}，您好！诚邀您
+          {guest.headCount > 1 ? `（共 ${guest.headCount} 位）` : ""}
+          出席，请告知是否能够到场。
+        </p>
+
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={(values) => submitMutation.mutate(values)}
+          initialValues={{
+            rsvpStatus:
+              guest.rsvpStatus === "INVITED" ? undefined : guest.rsvpStatus,
+            confirmedCount: guest.confirmedCount,
+            companions: guest.companions,
+            dietaryNeeds: guest.dietaryNeeds,
+            allergies: guest.allergies,
+            dietaryNotes: guest.dietaryNotes,
+            accessibilityNeeds: guest.accessibilityNeeds,
+            mealChoiceId: guest.mealChoiceId,
+          }}
+        >
+          <Form.Item
+            name="rsvpStatus"
+            label="是否出席"
+            rules={[{ required: true, message: "请选择是否出席" }]}
+          >
+            <Radio.Group>
+              <Radio.Button value="CONFIRMED">出席</Radio.Button>
+              <Radio.Button value="TENTATIVE">待定</Radio.Button>
+              <Radio.Button value="DECLINED">不出席</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+
+          {attending && guest.headCount > 1 && (
+            <Form.Item
+              name="confirmedCount"
+              label="出席人数"
+              extra={`最多 ${guest.headCount} 位（含您本人）`}
+            >
+              <InputNumber
+                min={1}
+                max={guest.headCount}
+                placeholder={`${guest.headCount}`}
+                style={{ width: "100%" }}
+              />
+            </Form.Item>
+          )}
+
+          {attending && guest.headCount > 1 && (
+            <Form.List name="companions">
+              {(fields, { add, remove }) => (
+                <Form.Item label="同行人员">
+                  {fields.map(({ key, name }) => (
+                    <Space key={key} align="start" style={{ marginBottom: 8 }}>
+                      <Form.Item
+                        name={[name, "name"]}
+                        rules={[{ required: true, message: "请输入姓名" }]}
+                        noStyle
+                      >
+                        <Input
+                          placeholder="姓名"
+                          maxLength={50}
+                          style={{ width: 110 }}
+                        />
+                      </Form.Item>
+                      <Form.Item name={[name, "type"]} noStyle>
+                        <Select
+                          options={AGE_CATEGORY_OPTIONS}
+                          style={{ width: 80 }}
+                        />
+                      </Form.Item>
+                      <Form.Item name={[name, "notes"]} noStyle>
+                        <Input
+                          placeholder="忌口、需要宝宝椅等"
+                          maxLength={200}
+                          style={{ width: 170 }}
+                        />
+                      </Form.Item>
+                      {mealOptions.length > 0 && (
+                        <Form.Item name={[name, "mealChoiceId"]} noStyle>
+                          <Select
+                            placeholder="菜品"
+                            allowClear
+                            options={mealOptions}
+                            style={{ width: 120 }}
+                          />
+                        </Form.Item>
+                      )}
+                      <MinusCircleOutlined
+                        style={{ marginTop: 9, color: "#8B8680" }}
+                        onClick={() => remove(name)}
+                      />
+                    </Space>
+                  ))}
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    disabled={fields.length >= partySize - 1}
+                    onClick={() => add({ type: "ADULT" })}
+                    block
+                  >
+                    添加同行人员
+                  </Button>
+                </Form.Item>
+              )}
+            </Form.List>
+          )}
+
+          {attending && (
+            <>
+              {mealOptions.length > 0 && (
+                <Form.Item name="mealChoiceId" label="菜品（您本人）">
+                  <Select
+                    placeholder="请选择您的菜品"
+                    allowClear
+                    options={mealOptions}
+                  />
+                </Form.Item>
+              )}
+              <Form.Item name="dietaryNeeds" label="饮食需求（您本人）">
+                <Checkbox.Group options={DIETARY_NEED_OPTIONS} />
+              </Form.Item>
+              <Form.Item name="allergies" label="过敏">
+                <Input maxLength={200} placeholder="如花生、海鲜" />
+              </Form.Item>
+              <Form.Item name="dietaryNotes" label="其他饮食备注">
+                <Input.TextArea
+                  rows={2}
+                  maxLength={200}
+                  placeholder="其他忌口，同行人员的忌口可填在其备注中"
+                />
+              </Form.Item>
+              <Form.Item
+                name="accessibilityNeeds"
+                label="无障碍需求"
+                extra="我们会为您安排方便出入的座位"
+              >
+                <Checkbox.Group options={ACCESSIBILITY_NEED_OPTIONS} />
+              </Form.Item>
+            </>
+          )}
+
+          <Form.Item style={{ marginBottom: 0, marginTop: 24 }}>
+            <Button
+              type="primary"
+              htmlType="submit"
+              size="large"
+              loading={submitMutation.isPending}
+              block
+            >
+              提交回复
+            </Button>
+          </Form.Item>
+        </Form>
+
+        {guest.respondedAt && (
+          <p style={{ marginTop: 16, color: "#8B8680", fontSize: 13 }}>
+            您已于 {dayjs(guest.respondedAt).format("M月D日 HH:mm")}{" "}
+            回复，可在链接有效期内随时修改
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+}
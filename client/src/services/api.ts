@@ -1,4 +1,5 @@
 import axios from "axios";
+import type { AxiosError } from "axios";
 import { useAuthStore } from "../stores/authStore";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
@@ -76,6 +77,252 @@ export interface ApiResponse<T = any> {
   data?: T;
 }
 
+// 接口失败时的错误，响应中带有错误信息（及冲突详情等附加数据）
+export type ApiError<T = unknown> = AxiosError<{ message?: string; data?: T }>;
+
+// 排座约束：宾客之间、指定桌位、偏好标签、本人座位四类，PREFER_* 为软约束
+export type ConstraintType =
+  | "MUST_TOGETHER"
+  | "MUST_APART"
+  | "PREFER_TOGETHER"
+  | "PREFER_APART"
+  | "MUST_AT_TABLE"
+  | "NEVER_AT_TABLE"
+  | "PREFER_WITH_TAG"
+  | "NEXT_TO"
+  | "FACE_STAGE";
+
+// 按类型提供 guest2Id、tableId 或 tag（FACE_STAGE 不需要），软约束可带偏好强度（1-5）
+export interface ConstraintInput {
+  guest1Id: string;
+  guest2Id?: string;
+  tableId?: string;
+  tag?: string;
+  weight?: number;
+  constraintType: ConstraintType;
+}
+
+// 分组约束：全部同桌、全部分开、每桌最多 K 人
+export type GroupRule = "ALL_TOGETHER" | "ALL_APART" | "MAX_PER_TABLE";
+
+// 成员三选一：指定宾客（至少两位），或按标签/关系筛选
+export interface ConstraintGroupInput {
+  name: string;
+  rule: GroupRule;
+  maxPerTable?: number;
+  guestIds?: string[];
+  tag?: string;
+  relationship?: string;
+}
+
+// 年龄段：宾客本人和随行人员共用，婴儿按项目规则可不单独占座（座号为 0）
+export type AgeCategory = "ADULT" | "CHILD" | "INFANT";
+
+// 出席回复状态：未回复 / 确认出席 / 不出席 / 待定
+export type RsvpStatus = "INVITED" | "CONFIRMED" | "DECLINED" | "TENTATIVE";
+
+// 桌位类型：儿童桌可在项目开启后专供儿童宾客
+export type TableKind = "REGULAR" | "KIDS";
+
+// 饮食需求与无障碍需求（宾客本人），随行人员的忌口记在其备注中
+export type DietaryNeed =
+  | "VEGETARIAN"
+  | "VEGAN"
+  | "HALAL"
+  | "NO_PORK"
+  | "NO_BEEF"
+  | "NO_SEAFOOD"
+  | "NO_SPICY"
+  | "GLUTEN_FREE";
+
+export type AccessibilityNeed =
+  "WHEELCHAIR" | "LIMITED_MOBILITY" | "HEARING" | "VISION";
+
+export const DIETARY_NEED_LABELS: Record<DietaryNeed, string> = {
+  VEGETARIAN: "素食",
+  VEGAN: "纯素",
+  HALAL: "清真",
+  NO_PORK: "不吃猪肉",
+  NO_BEEF: "不吃牛肉",
+  NO_SEAFOOD: "不吃海鲜",
+  NO_SPICY: "不吃辣",
+  GLUTEN_FREE: "无麸质",
+};
+
+export const ACCESSIBILITY_NEED_LABELS: Record<AccessibilityNeed, string> = {
+  WHEELCHAIR: "轮椅",
+  LIMITED_MOBILITY: "行动不便",
+  HEARING: "听力障碍",
+  VISION: "视力障碍",
+};
+
+// 带有该标签的桌位为无障碍桌，项目开启后轮椅宾客只安排到无障碍桌
+export const ACCESSIBLE_TABLE_TAG = "无障碍";
+
+// 每桌的饮食需求人数、过敏人数和轮椅宾客数
+export interface TableNeeds {
+  dietary: Partial<Record<DietaryNeed, number>>;
+  allergies: number;
+  wheelchairs: number;
+}
+
+// 随行人员：宾客人数中除本人以外的人，依次对应座号 seats[1]、seats[2]…
+export interface CompanionInput {
+  name: string;
+  type: AgeCategory;
+  notes?: string | null;
+  mealChoiceId?: string | null;
+}
+
+// 项目菜单的菜品：成人餐/儿童餐，单价为元/位
+export type MealKind = "ADULT" | "CHILD";
+
+export const MEAL_KIND_LABELS: Record<MealKind, string> = {
+  ADULT: "成人餐",
+  CHILD: "儿童餐",
+};
+
+export interface MenuOption {
+  id: string;
+  name: string;
+  kind: MealKind;
+  price: number;
+  description: string | null;
+}
+
+// 操作日志：宾客通过回复链接提交等无登录用户的操作 user 为空
+export interface ActivityLog {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+  projectId: string;
+  userId: string | null;
+  user: { id: string; nickname: string; avatar: string | null } | null;
+}
+
+export interface ActivityQuery {
+  userId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+// 成员可撤销/重做的座位操作
+export interface SeatingHistoryEntry {
+  id: string;
+  action: string;
+  summary: string;
+  createdAt: string;
+}
+
+export interface SeatingHistory {
+  undo: SeatingHistoryEntry | null;
+  redo: SeatingHistoryEntry | null;
+  undoCount: number;
+  redoCount: number;
+}
+
+// 座位方案快照（列表中只含汇总）
+export interface SeatingSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  auto: boolean;
+  createdAt: string;
+  createdBy: { id: string; nickname: string };
+  tableCount: number;
+  seatedGuestCount: number;
+}
+
+// 两个版本的差异，version 为快照 ID 或 current（当前方案）
+export interface SnapshotDiff {
+  from: { id: string; name: string; createdAt?: string };
+  to: { id: string; name: string; createdAt?: string };
+  tablesAdded: Array<{ id: string; name: string }>;
+  tablesRemoved: Array<{ id: string; name: string }>;
+  tablesChanged: Array<{
+    id: string;
+    name: string;
+    previousName: string;
+    fields: string[];
+  }>;
+  moved: Array<{
+    guestId: string;
+    guestName: string;
+    fromTable: string | null;
+    toTable: string | null;
+  }>;
+}
+
+// 恢复快照的结果，skipped 为未能入座的宾客姓名
+export interface SnapshotRestoreResult {
+  restored: number;
+  skipped: string[];
+  tablesRemoved: number;
+  tablesRecreated: number;
+}
+
+// 恢复快照被拒绝（409）时，仍被其他方案的座位或桌位约束使用的桌位
+export interface SnapshotRestoreConflict {
+  id: string;
+  name: string;
+  scenarios: string[];
+  constraintCount: number;
+}
+
+// 排座方案的评分明细，与自动排座使用同一评分规则
+export interface ScenarioScoreBreakdown {
+  area: number;
+  tagCohesion: number;
+  fill: number;
+  unassigned: number;
+  capacity: number;
+  mustApart: number;
+  mustTogether: number;
+  tableRule: number;
+  groupLimit: number;
+  preference: number;
+  moves: number;
+}
+
+// 排座方案（共用宾客和桌位的一套座位安排）及其统计和得分
+export interface SeatingScenario {
+  id: string;
+  name: string;
+  description: string | null;
+  active: boolean;
+  final: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: { id: string; nickname: string };
+  seatedGuestCount: number;
+  seatedSeatCount: number;
+  unassignedGuestCount: number;
+  usedTableCount: number;
+  score: number;
+  hardViolations: number;
+  breakdown: ScenarioScoreBreakdown;
+}
+
+// 切换方案的结果：入座人数和未能入座的宾客姓名
+export interface ScenarioActivation {
+  placed: number;
+  skipped: string[];
+}
+
+// 定稿的结果：是否一并切换了当前方案，以及切换时未能入座的宾客姓名
+export interface ScenarioPromotion {
+  switched: boolean;
+  skipped: string[];
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   pagination: {
@@ -145,6 +392,25 @@ export const projectApi = {
 
   removeMember: (projectId: string, memberId: string) =>
     api.delete<ApiResponse>(`/projects/${projectId}/members/${memberId}`),
+
+  getSeatingPolicy: (projectId: string) =>
+    api.get<ApiResponse>(`/projects/${projectId}/seating-policy`),
+
+  updateSeatingPolicy: (projectId: string, data: Record<string, unknown>) =>
+    api.put<ApiResponse>(`/projects/${projectId}/seating-policy`, data),
+
+  getMenu: (projectId: string) =>
+    api.get<ApiResponse>(`/projects/${projectId}/menu`),
+
+  // 操作记录（分页，按时间倒序），action 可用逗号分隔多个
+  getActivities: (projectId: string, params?: ActivityQuery) =>
+    api.get<ApiResponse>(`/projects/${projectId}/activities`, { params }),
+
+  // 整体替换菜单，没有 id 的为新菜品
+  updateMenu: (
+    projectId: string,
+    options: Array<Omit<MenuOption, "id"> & { id?: string }>
+  ) => api.put<ApiResponse>(`/projects/${projectId}/menu`, { options }),
 };
 
 // Guest API
@@ -156,6 +422,7 @@ export const guestApi = {
       areaId?: string;
       tag?: string;
       assigned?: string;
+      rsvpStatus?: RsvpStatus;
       page?: number;
       limit?: number;
     }
@@ -167,11 +434,19 @@ export const guestApi = {
     projectId: string;
     name: string;
     headCount?: number;
+    rsvpStatus?: RsvpStatus;
+    confirmedCount?: number | null;
     phone?: string;
     relationship?: string;
     tags?: string[];
     notes?: string;
+    dietaryNeeds?: DietaryNeed[];
+    allergies?: string;
+    dietaryNotes?: string;
+    accessibilityNeeds?: AccessibilityNeed[];
+    mealChoiceId?: string | null;
     areaId?: string;
+    companions?: CompanionInput[];
   }) => api.post<ApiResponse>("/guests", data),
 
   update: (guestId: string, data: any) =>
@@ -193,6 +468,11 @@ export const guestApi = {
 
   export: (projectId: string) =>
     api.get(`/guests/export/${projectId}`, { responseType: "blob" }),
+
+  createRsvpLinks: (
+    projectId: string,
+    data: { guestIds: string[]; regenerate?: boolean; expiresInDays?: number }
+  ) => api.post<ApiResponse>(`/guests/rsvp-links/${projectId}`, data),
 };
 
 // Table API
@@ -209,6 +489,7 @@ export const tableApi = {
     positionX?: number;
     positionY?: number;
     tableType?: string;
+    kind?: TableKind;
     tags?: string[];
     notes?: string;
     areaId?: string;
@@ -220,9 +501,21 @@ export const tableApi = {
     namePrefix?: string;
     capacity?: number;
     areaId?: string;
+    kind?: TableKind;
+    tags?: string[];
     startNumber?: number;
   }) => api.post<ApiResponse>("/tables/batch", data),
 
+  plan: (
+    projectId: string,
+    options?: { capacity?: number; largeCapacity?: number }
+  ) => api.post<ApiResponse>("/tables/plan", { projectId, ...options }),
+
+  applyPlan: (data: {
+    projectId: string;
+    items: Array<{ areaId: string | null; capacity: number; count: number }>;
+  }) => api.post<ApiResponse>("/tables/plan/apply", data),
+
   update: (tableId: string, data: any) =>
     api.put<ApiResponse>(`/tables/${tableId}`, data),
 
@@ -233,6 +526,13 @@ export const tableApi = {
     api.put<ApiResponse>("/tables/positions/batch", { projectId, positions }),
 
   delete: (tableId: string) => api.delete<ApiResponse>(`/tables/${tableId}`),
+
+  // 餐饮汇总（每桌各菜品份数、饮食需求与餐费估算），html 为可打印的页面
+  exportCatering: (projectId: string, format: "xlsx" | "html" = "xlsx") =>
+    api.get(`/tables/catering/${projectId}`, {
+      params: { format },
+      responseType: "blob",
+    }),
 };
 
 // Seating API
@@ -246,21 +546,173 @@ export const seatingApi = {
   move: (data: { guestId: string; newTableId: string }) =>
     api.put<ApiResponse>("/seating/move", data),
 
-  addConstraint: (data: {
-    projectId: string;
-    guest1Id: string;
-    guest2Id: string;
-    constraintType: "MUST_TOGETHER" | "MUST_APART";
-  }) => api.post<ApiResponse>("/seating/constraint", data),
+  // person 为宾客本人（0）或第几位随行人员
+  placeSeat: (data: {
+    guestId: string;
+    tableId: string;
+    seatNumber: number;
+    person?: number;
+  }) => api.put<ApiResponse>("/seating/seat", data),
+
+  swapSeats: (data: { tableId: string; seatA: number; seatB: number }) =>
+    api.put<ApiResponse>("/seating/seat/swap", data),
+
+  addConstraint: (
+    data: ConstraintInput & {
+      projectId: string;
+      // 约束存在冲突时确认仍要保存
+      override?: boolean;
+    }
+  ) => api.post<ApiResponse>("/seating/constraint", data),
+
+  validateConstraints: (
+    data: Partial<ConstraintInput> & {
+      projectId: string;
+    }
+  ) => api.post<ApiResponse>("/seating/constraint/validate", data),
+
+  getConstraints: (
+    projectId: string,
+    params?: {
+      guestId?: string;
+      type?: ConstraintType;
+      status?: "satisfied" | "violated" | "pending";
+    }
+  ) => api.get<ApiResponse>(`/seating/constraints/${projectId}`, { params }),
 
   removeConstraint: (constraintId: string) =>
     api.delete<ApiResponse>(`/seating/constraint/${constraintId}`),
 
+  getConstraintGroups: (projectId: string) =>
+    api.get<ApiResponse>(`/seating/constraint-groups/${projectId}`),
+
+  addConstraintGroup: (
+    data: ConstraintGroupInput & {
+      projectId: string;
+      // 分组与现有约束冲突时确认仍要保存
+      override?: boolean;
+    }
+  ) => api.post<ApiResponse>("/seating/constraint-group", data),
+
+  removeConstraintGroup: (groupId: string) =>
+    api.delete<ApiResponse>(`/seating/constraint-group/${groupId}`),
+
   suggest: (projectId: string, guestId: string) =>
     api.post<ApiResponse>("/seating/suggest", { projectId, guestId }),
 
-  autoAssign: (projectId: string) =>
-    api.post<ApiResponse>("/seating/auto-assign", { projectId }),
+  autoAssign: (
+    projectId: string,
+    options?: {
+      strategy?: "greedy" | "optimize";
+      timeBudgetMs?: number;
+      dryRun?: boolean;
+    }
+  ) =>
+    api.post<ApiResponse>(
+      "/seating/auto-assign",
+      { projectId, ...options },
+      // 全局优化会在服务端运行数秒，放宽超时
+      { timeout: 30000 }
+    ),
+
+  commitAutoAssign: (data: {
+    projectId: string;
+    fingerprint: string;
+    assignments: Array<{ guestId: string; tableId: string }>;
+  }) => api.post<ApiResponse>("/seating/auto-assign/commit", data),
+
+  pin: (guestId: string, pinned: boolean) =>
+    api.put<ApiResponse>(`/seating/pin/${guestId}`, { pinned }),
+
+  rebalance: (
+    projectId: string,
+    options?: { timeBudgetMs?: number; dryRun?: boolean }
+  ) =>
+    api.post<ApiResponse>(
+      "/seating/rebalance",
+      { projectId, ...options },
+      { timeout: 30000 }
+    ),
+
+  commitRebalance: (data: {
+    projectId: string;
+    fingerprint: string;
+    moves: Array<{ guestId: string; toTableId: string | null }>;
+  }) => api.post<ApiResponse>("/seating/rebalance/commit", data),
+
+  suggestGroup: (data: {
+    projectId: string;
+    guestIds?: string[];
+    tag?: string;
+    areaId?: string;
+  }) => api.post<ApiResponse>("/seating/suggest-group", data),
+
+  assignBatch: (data: {
+    projectId: string;
+    assignments: Array<{ guestId: string; tableId: string }>;
+  }) => api.post<ApiResponse>("/seating/assign-batch", data),
+
+  getHistory: (projectId: string) =>
+    api.get<ApiResponse<SeatingHistory>>(`/seating/history/${projectId}`),
+
+  // 撤销/重做自己的上一条座位操作，座位已被他人改动时返回 409
+  undo: (projectId: string) =>
+    api.post<ApiResponse<SeatingHistory>>("/seating/undo", { projectId }),
+
+  redo: (projectId: string) =>
+    api.post<ApiResponse<SeatingHistory>>("/seating/redo", { projectId }),
+};
+
+// Snapshot API
+export const snapshotApi = {
+  getAll: (projectId: string) =>
+    api.get<ApiResponse<SeatingSnapshot[]>>(`/snapshots/project/${projectId}`),
+
+  create: (projectId: string, data: { name: string; description?: string }) =>
+    api.post<ApiResponse>(`/snapshots/project/${projectId}`, data),
+
+  diff: (projectId: string, from: string, to = "current") =>
+    api.get<ApiResponse<SnapshotDiff>>(`/snapshots/project/${projectId}/diff`, {
+      params: { from, to },
+    }),
+
+  // 恢复前服务端会自动保存当前方案
+  restore: (snapshotId: string) =>
+    api.post<ApiResponse<SnapshotRestoreResult>>(
+      `/snapshots/${snapshotId}/restore`
+    ),
+
+  remove: (snapshotId: string) =>
+    api.delete<ApiResponse>(`/snapshots/${snapshotId}`),
+};
+
+// Scenario API
+export const scenarioApi = {
+  getAll: (projectId: string) =>
+    api.get<ApiResponse<SeatingScenario[]>>(`/scenarios/project/${projectId}`),
+
+  // copyFrom 默认为当前方案，empty 表示空白方案
+  create: (
+    projectId: string,
+    data: { name: string; description?: string; copyFrom?: string }
+  ) => api.post<ApiResponse>(`/scenarios/project/${projectId}`, data),
+
+  update: (scenarioId: string, data: { name?: string; description?: string }) =>
+    api.put<ApiResponse>(`/scenarios/${scenarioId}`, data),
+
+  activate: (scenarioId: string) =>
+    api.post<ApiResponse<ScenarioActivation>>(
+      `/scenarios/${scenarioId}/activate`
+    ),
+
+  // 定为最终方案，不是当前方案时服务端会一并切换
+  promote: (scenarioId: string) =>
+    api.post<ApiResponse<ScenarioPromotion>>(
+      `/scenarios/${scenarioId}/promote`
+    ),
+
+  remove: (scenarioId: string) =>
+    api.delete<ApiResponse>(`/scenarios/${scenarioId}`),
 };
 
 // Area API
@@ -282,3 +734,22 @@ export const areaApi = {
 
   delete: (areaId: string) => api.delete<ApiResponse>(`/areas/${areaId}`),
 };
+
+// RSVP API（宾客凭链接自助回复，无需登录）
+export const rsvpApi = {
+  get: (token: string) => api.get<ApiResponse>(`/rsvp/${token}`),
+
+  submit: (
+    token: string,
+    data: {
+      rsvpStatus: Exclude<RsvpStatus, "INVITED">;
+      confirmedCount?: number | null;
+      companions?: CompanionInput[];
+      dietaryNeeds?: DietaryNeed[];
+      allergies?: string | null;
+      dietaryNotes?: string | null;
+      accessibilityNeeds?: AccessibilityNeed[];
+      mealChoiceId?: string | null;
+    }
+  ) => api.put<ApiResponse>(`/rsvp/${token}`, data),
+};
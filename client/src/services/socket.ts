@@ -1,5 +1,6 @@
 import { io, Socket } from "socket.io-client";
 import { useAuthStore } from "../stores/authStore";
+import type { ActivityLog, MenuOption, RsvpStatus } from "./api";
 
 // 获取 Socket URL
 // 生产环境：使用当前页面的 origin（通过 nginx 代理 /socket.io 到后端）
@@ -92,9 +93,41 @@ export const leaveProject = (projectId: string) => {
   }
 };
 
-export const startEditing = (projectId: string, type: string, id: string) => {
+// 编辑锁的持有者
+export interface EditLockInfo {
+  type: string;
+  id: string;
+  userId: string;
+  userNickname: string;
+}
+
+// 加锁或心跳的结果，资源已被他人锁定时带上持有者
+export interface EditingResult {
+  ok: boolean;
+  message?: string;
+  lockedBy?: { userId: string; nickname: string };
+}
+
+export const startEditing = (
+  projectId: string,
+  type: string,
+  id: string,
+  onResult?: (result: EditingResult) => void
+) => {
+  if (socket?.connected) {
+    socket.emit("editing:start", { projectId, type, id }, onResult);
+  }
+};
+
+// 编辑期间定期续期，服务端超时未收到心跳会释放锁
+export const heartbeatEditing = (
+  projectId: string,
+  type: string,
+  id: string,
+  onResult?: (result: EditingResult) => void
+) => {
   if (socket?.connected) {
-    socket.emit("editing:start", { projectId, type, id });
+    socket.emit("editing:heartbeat", { projectId, type, id }, onResult);
   }
 };
 
@@ -122,6 +155,14 @@ export interface SocketEventHandlers {
   onGuestDeleted?: (data: { id: string }) => void;
   onGuestsImported?: (data: { count: number }) => void;
   onGuestsDeleted?: (data: { ids: string[] }) => void;
+  onGuestRsvpResponded?: (data: {
+    guestId: string;
+    guestName: string;
+    rsvpStatus: RsvpStatus;
+    confirmedCount: number | null;
+    // 原桌坐不下确认的人数时撤下了座位
+    fromTableName: string | null;
+  }) => void;
   onTableCreated?: (table: any) => void;
   onTableUpdated?: (table: any) => void;
   onTableDeleted?: (data: { id: string }) => void;
@@ -139,12 +180,38 @@ export interface SocketEventHandlers {
     newTableId: string;
   }) => void;
   onSeatingAutoAssigned?: (results: any) => void;
-  onEditingLocked?: (data: {
-    type: string;
-    id: string;
-    userId: string;
-    userNickname: string;
+  onSeatingRebalanced?: (data: { moved: number }) => void;
+  onSeatingPinned?: (data: { guestId: string; pinned: boolean }) => void;
+  onSeatsChanged?: (data: { tableIds: string[] }) => void;
+  onSeatingHistoryApplied?: (data: {
+    direction: "undo" | "redo";
+    action: string;
+    summary: string;
+    tableIds: string[];
+    user: { id: string; nickname: string };
+  }) => void;
+  onSnapshotRestored?: (data: {
+    snapshotId: string;
+    name: string;
+    restored: number;
+    skipped: string[];
+    user: { id: string; nickname: string };
   }) => void;
+  onScenarioSwitched?: (data: {
+    scenarioId: string;
+    name: string;
+    previousName: string;
+    final?: boolean;
+    user: { id: string; nickname: string };
+  }) => void;
+  onConstraintCreated?: (constraint: any) => void;
+  onConstraintDeleted?: (data: { constraintId: string }) => void;
+  onConstraintGroupCreated?: (group: any) => void;
+  onConstraintGroupDeleted?: (data: { groupId: string }) => void;
+  onMenuUpdated?: (menu: MenuOption[]) => void;
+  onActivityCreated?: (activity: ActivityLog) => void;
+  onEditingLocks?: (locks: EditLockInfo[]) => void;
+  onEditingLocked?: (data: EditLockInfo) => void;
   onEditingUnlocked?: (data: { type: string; id: string }) => void;
   onCursorUpdate?: (data: {
     userId: string;
@@ -175,6 +242,8 @@ export const setupSocketListeners = (handlers: SocketEventHandlers) => {
     socket.on("guests:imported", handlers.onGuestsImported);
   if (handlers.onGuestsDeleted)
     socket.on("guests:deleted", handlers.onGuestsDeleted);
+  if (handlers.onGuestRsvpResponded)
+    socket.on("guest:rsvp-responded", handlers.onGuestRsvpResponded);
 
   // 桌位事件
   if (handlers.onTableCreated)
@@ -197,8 +266,39 @@ export const setupSocketListeners = (handlers: SocketEventHandlers) => {
     socket.on("seating:moved", handlers.onSeatingMoved);
   if (handlers.onSeatingAutoAssigned)
     socket.on("seating:auto-assigned", handlers.onSeatingAutoAssigned);
+  if (handlers.onSeatingRebalanced)
+    socket.on("seating:rebalanced", handlers.onSeatingRebalanced);
+  if (handlers.onSeatingPinned)
+    socket.on("seating:pinned", handlers.onSeatingPinned);
+  if (handlers.onSeatsChanged)
+    socket.on("seating:seats-changed", handlers.onSeatsChanged);
+  if (handlers.onSeatingHistoryApplied)
+    socket.on("seating:history-applied", handlers.onSeatingHistoryApplied);
+  if (handlers.onSnapshotRestored)
+    socket.on("snapshot:restored", handlers.onSnapshotRestored);
+  if (handlers.onScenarioSwitched)
+    socket.on("scenario:switched", handlers.onScenarioSwitched);
+
+  // 排座约束事件
+  if (handlers.onConstraintCreated)
+    socket.on("constraint:created", handlers.onConstraintCreated);
+  if (handlers.onConstraintDeleted)
+    socket.on("constraint:deleted", handlers.onConstraintDeleted);
+  if (handlers.onConstraintGroupCreated)
+    socket.on("constraint-group:created", handlers.onConstraintGroupCreated);
+  if (handlers.onConstraintGroupDeleted)
+    socket.on("constraint-group:deleted", handlers.onConstraintGroupDeleted);
+
+  // 菜单事件
+  if (handlers.onMenuUpdated) socket.on("menu:updated", handlers.onMenuUpdated);
+
+  // 操作日志事件
+  if (handlers.onActivityCreated)
+    socket.on("activity:created", handlers.onActivityCreated);
 
   // 编辑锁定事件
+  if (handlers.onEditingLocks)
+    socket.on("editing:locks", handlers.onEditingLocks);
   if (handlers.onEditingLocked)
     socket.on("editing:locked", handlers.onEditingLocked);
   if (handlers.onEditingUnlocked)
@@ -220,6 +320,7 @@ export const removeSocketListeners = () => {
   socket.off("guest:deleted");
   socket.off("guests:imported");
   socket.off("guests:deleted");
+  socket.off("guest:rsvp-responded");
   socket.off("table:created");
   socket.off("table:updated");
   socket.off("table:deleted");
@@ -229,6 +330,19 @@ export const removeSocketListeners = () => {
   socket.off("seating:unassigned");
   socket.off("seating:moved");
   socket.off("seating:auto-assigned");
+  socket.off("seating:rebalanced");
+  socket.off("seating:pinned");
+  socket.off("seating:seats-changed");
+  socket.off("seating:history-applied");
+  socket.off("snapshot:restored");
+  socket.off("scenario:switched");
+  socket.off("constraint:created");
+  socket.off("constraint:deleted");
+  socket.off("constraint-group:created");
+  socket.off("constraint-group:deleted");
+  socket.off("menu:updated");
+  socket.off("activity:created");
+  socket.off("editing:locks");
   socket.off("editing:locked");
   socket.off("editing:unlocked");
   socket.off("cursor:update");
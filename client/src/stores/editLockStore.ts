@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react'
+import { create } from 'zustand'
+import { endEditing, heartbeatEditing, startEditing } from '../services/socket'
+import type { EditLockInfo } from '../services/socket'
+
+// 编辑期间的心跳间隔，需小于服务端 30 秒的锁超时
+const HEARTBEAT_INTERVAL_MS = 10 * 1000
+
+export type EditLockType = 'guest' | 'table'
+
+interface EditLockState {
+  // 其他成员持有的编辑锁，键为 type:id
+  locks: Record<string, EditLockInfo>
+
+  // Actions
+  setLocks: (locks: EditLockInfo[]) => void
+  addLock: (lock: EditLockInfo) => void
+  removeLock: (type: string, id: string) => void
+}
+
+export const editLockKey = (type: string, id: string) => `${type}:${id}`
+
+export const useEditLockStore = create<EditLockState>()((set) => ({
+  locks: {},
+
+  setLocks: (locks) => {
+    set({
+      locks: Object.fromEntries(locks.map((lock) => [editLockKey(lock.type, lock.id), lock])),
+    })
+  },
+
+  addLock: (lock) => {
+    set((state) => ({
+      locks: { ...state.locks, [editLockKey(lock.type, lock.id)]: lock },
+    }))
+  },
+
+  removeLock: (type, id) => {
+    set((state) => {
+      const locks = { ...state.locks }
+      delete locks[editLockKey(type, id)]
+      return { locks }
+    })
+  },
+}))
+
+// 读取资源被其他成员锁定的信息，未锁定时为 undefined
+export const useEditLock = (type: EditLockType, id: string) =>
+  useEditLockStore((state): EditLockInfo | undefined => state.locks[editLockKey(type, id)])
+
+// 编辑期间持有资源的编辑锁：id 有值时加锁并定期心跳，置空或卸载时释放
+// 已被其他成员抢先锁定时调用 onDenied
+export const useHoldEditLock = (
+  projectId: string,
+  type: EditLockType,
+  id: string | null | undefined,
+  onDenied: (message: string) => void
+) => {
+  const onDeniedRef = useRef(onDenied)
+
+  useEffect(() => {
+    onDeniedRef.current = onDenied
+  })
+
+  useEffect(() => {
+    if (!id) return
+
+    const acquire = () =>
+      startEditing(projectId, type, id, (result) => {
+        if (!result.ok) onDeniedRef.current(result.message || '该资源正在被其他成员编辑')
+      })
+
+    acquire()
+    // 锁因断线或超时失效后重新加锁
+    const timer = setInterval(() => {
+      heartbeatEditing(projectId, type, id, (result) => {
+        if (!result.ok) acquire()
+      })
+    }, HEARTBEAT_INTERVAL_MS)
+
+    return () => {
+      clearInterval(timer)
+      endEditing(projectId, type, id)
+    }
+  }, [projectId, type, id])
+}
@@ -13,7 +13,11 @@ import guestRoutes from "./routes/guest";
 import tableRoutes from "./routes/table";
 import seatingRoutes from "./routes/seating";
 import areaRoutes from "./routes/area";
+import rsvpRoutes from "./routes/rsvp";
+import snapshotRoutes from "./routes/snapshot";
+import scenarioRoutes from "./routes/scenario";
 import { errorHandler } from "./middleware/errorHandler";
+import { broadcastActivities } from "./middleware/activity";
 import { setupSocketIO } from "./socket";
 
 dotenv.config();
@@ -27,6 +31,16 @@ const io = new Server(httpServer, {
   },
 });
 
+// 部署在反向代理之后时按 X-Forwarded-For 识别客户端 IP（公开接口限流使用）
+// TRUST_PROXY 为代理层数或可信代理地址（逗号分隔）；未设置时不信任该请求头，防止客户端伪造 IP
+const parseTrustProxy = (value = "") => {
+  const setting = value.trim();
+  if (!setting || setting === "false") return false;
+  if (setting === "true") return true;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+};
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+
 // Middleware
 app.use(helmet());
 app.use(
@@ -43,6 +57,9 @@ app.use(cookieParser());
 // Make io accessible to routes
 app.set("io", io);
 
+// 请求中写入的操作日志在成功响应后实时推送
+app.use(broadcastActivities);
+
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/projects", projectRoutes);
@@ -50,6 +67,9 @@ app.use("/api/guests", guestRoutes);
 app.use("/api/tables", tableRoutes);
 app.use("/api/seating", seatingRoutes);
 app.use("/api/areas", areaRoutes);
+app.use("/api/rsvp", rsvpRoutes);
+app.use("/api/snapshots", snapshotRoutes);
+app.use("/api/scenarios", scenarioRoutes);
 
 // Health check
 app.get("/api/health", (req, res) => {
@@ -64,9 +84,12 @@ setupSocketIO(io);
 
 const PORT = process.env.PORT || 3001;
 
-httpServer.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📡 WebSocket server ready`);
-});
+// 被测试引用时不监听端口，由测试自行启动
+if (require.main === module) {
+  httpServer.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📡 WebSocket server ready`);
+  });
+}
 
-export { io };
+export { app, httpServer, io };
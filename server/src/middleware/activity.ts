@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// 当前请求中写入的操作日志 ID
+const pending = new AsyncLocalStorage<string[]>();
+
+export const queueActivity = (id: string) => {
+  pending.getStore()?.push(id);
+};
+
+/**
+ * 请求成功响应后，把本次请求写入的操作日志推送到各自的项目房间（activity:created）
+ * 按 ID 重新读取，事务回滚或重试留下的日志不会推送
+ */
+export const broadcastActivities = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const ids: string[] = [];
+
+  res.on("finish", async () => {
+    if (ids.length === 0 || res.statusCode >= 400) return;
+
+    try {
+      const logs = await prisma.activityLog.findMany({
+        where: { id: { in: ids } },
+        include: {
+          user: { select: { id: true, nickname: true, avatar: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+      const io = req.app.get("io");
+      logs.forEach((log) =>
+        io.to(`project:${log.projectId}`).emit("activity:created", log)
+      );
+    } catch (error) {
+      console.error("推送操作日志失败:", error);
+    }
+  });
+
+  pending.run(ids, next);
+};
@@ -3,11 +3,14 @@ import { Request, Response, NextFunction } from 'express';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // 随错误一起返回给前端的附加信息（如冲突详情）
+  data?: unknown;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, data?: unknown) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.data = data;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -23,6 +26,7 @@ export const errorHandler = (
     return res.status(err.statusCode).json({
       success: false,
       message: err.message,
+      ...(err.data !== undefined && { data: err.data }),
     });
   }
 
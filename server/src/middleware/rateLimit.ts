@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "./errorHandler";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+  // 计数的维度，默认按客户端 IP
+  keyOf?: (req: Request) => string;
+}
+
+/**
+ * 固定时间窗口的请求限流（进程内计数），超出次数返回 429
+ * 用于无需登录的公开接口
+ */
+export const rateLimit = ({
+  windowMs,
+  max,
+  message = "请求过于频繁，请稍后再试",
+  keyOf = (req) => req.ip || "unknown",
+}: RateLimitOptions) => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+
+    // 顺带清理已过期的计数，避免长期运行后占用内存
+    if (hits.size > 10000) {
+      hits.forEach((hit, key) => hit.resetAt <= now && hits.delete(key));
+    }
+
+    const key = keyOf(req);
+    const hit = hits.get(key);
+    if (!hit || hit.resetAt <= now) {
+      hits.set(key, { count: 1, resetAt: now + windowMs });
+      return next();
+    }
+
+    hit.count++;
+    if (hit.count > max) {
+      res.setHeader("Retry-After", Math.ceil((hit.resetAt - now) / 1000));
+      return next(new AppError(message, 429));
+    }
+    next();
+  };
+};
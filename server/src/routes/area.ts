@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, AuthRequest, isProjectMember, isProjectOwner } from '../middleware/auth';
+import { logActivity } from '../services/activityLog';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -109,6 +110,16 @@ router.post(
       },
     });
 
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: 'CREATE_AREA',
+      targetType: 'area',
+      targetId: area.id,
+      details: { areaName: name },
+    });
+
     res.status(201).json({
       success: true,
       message: '区域创建成功',
@@ -159,6 +170,16 @@ router.put(
       },
     });
 
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: area.projectId,
+      userId,
+      action: 'UPDATE_AREA',
+      targetType: 'area',
+      targetId: areaId,
+      details: { areaName: updatedArea.name },
+    });
+
     res.json({
       success: true,
       message: '区域更新成功',
@@ -208,6 +229,16 @@ router.delete(
       where: { id: areaId },
     });
 
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: area.projectId,
+      userId,
+      action: 'DELETE_AREA',
+      targetType: 'area',
+      targetId: areaId,
+      details: { areaName: area.name },
+    });
+
     res.json({
       success: true,
       message: '区域已删除',
@@ -10,6 +10,42 @@ import {
   isProjectMember,
   isProjectAdmin,
 } from "../middleware/auth";
+import { runSeatingTransaction } from "../services/seatingTx";
+import { updateGuestParty } from "../services/guestParty";
+import {
+  AGE_CATEGORY_LABELS,
+  companionsInclude,
+  countLapSeated,
+  formatCompanions,
+  isAgeCategory,
+  normalizeCompanions,
+  parseAgeCategory,
+  parseCompanions,
+  seatsTaken,
+} from "../services/companions";
+import { loadSeatingPolicy } from "../services/seatingPolicy";
+import {
+  createRsvpToken,
+  isRsvpStatus,
+  parseRsvpStatus,
+  resolveRsvp,
+  RSVP_LINK_DEFAULT_DAYS,
+  RSVP_LINK_MAX_DAYS,
+  RSVP_STATUS_LABELS,
+  rsvpLinkOf,
+} from "../services/rsvp";
+import {
+  formatAccessibilityNeeds,
+  formatDietaryNeeds,
+  parseAccessibilityNeeds,
+  parseAccessibilityNeedsText,
+  parseDietaryNeeds,
+  parseDietaryNeedsText,
+} from "../services/guestNeeds";
+import { assertMenuChoices, loadMenu } from "../services/menu";
+import { logActivity } from "../services/activityLog";
+import { createSnapshot } from "../services/seatingSnapshot";
+import { assertNotLockedByOthers } from "../services/editLocks";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -27,6 +63,7 @@ router.get(
       areaId,
       tag,
       assigned,
+      rsvpStatus,
       page = "1",
       limit = "50",
     } = req.query;
@@ -51,6 +88,13 @@ router.get(
       where.tags = { has: tag as string };
     }
 
+    if (rsvpStatus) {
+      if (!isRsvpStatus(rsvpStatus)) {
+        throw new AppError("出席状态不正确", 400);
+      }
+      where.rsvpStatus = rsvpStatus;
+    }
+
     if (assigned === "true") {
       where.assignment = { isNot: null };
     } else if (assigned === "false") {
@@ -71,6 +115,7 @@ router.get(
               },
             },
           },
+          companions: companionsInclude,
           createdBy: {
             select: { id: true, nickname: true },
           },
@@ -113,6 +158,7 @@ router.get(
             table: true,
           },
         },
+        companions: companionsInclude,
         createdBy: {
           select: { id: true, nickname: true },
         },
@@ -121,6 +167,9 @@ router.get(
             guest2: {
               select: { id: true, name: true },
             },
+            table: {
+              select: { id: true, name: true },
+            },
           },
         },
         constraints2: {
@@ -152,6 +201,10 @@ router.post(
     body("projectId").notEmpty().withMessage("请选择项目"),
     body("name").notEmpty().withMessage("请输入宾客姓名"),
     body("headCount").isInt({ min: 1 }).withMessage("人数至少为1"),
+    body("ageCategory")
+      .optional()
+      .custom(isAgeCategory)
+      .withMessage("年龄段不正确"),
   ],
   asyncHandler(async (req: AuthRequest, res: any) => {
     const errors = validationResult(req);
@@ -163,11 +216,20 @@ router.post(
       projectId,
       name,
       headCount,
+      ageCategory,
+      rsvpStatus,
+      confirmedCount,
       phone,
       relationship,
       tags,
       notes,
+      dietaryNeeds,
+      allergies,
+      dietaryNotes,
+      accessibilityNeeds,
+      mealChoiceId,
       areaId,
+      companions,
     } = req.body;
     const userId = req.user!.id;
 
@@ -182,33 +244,53 @@ router.post(
       throw new AppError("您没有添加宾客的权限", 403);
     }
 
+    const companionData = normalizeCompanions(companions ?? [], headCount || 1);
+    const rsvp = resolveRsvp({ rsvpStatus, confirmedCount }, headCount || 1);
+    await assertMenuChoices(prisma, projectId, [
+      mealChoiceId,
+      ...companionData.map((c) => c.mealChoiceId),
+    ]);
+    const { infantsNeedSeat } = await loadSeatingPolicy(prisma, projectId);
+
     const guest = await prisma.guest.create({
       data: {
         projectId,
         name,
         headCount: headCount || 1,
+        lapCount: countLapSeated(
+          headCount || 1,
+          companionData,
+          infantsNeedSeat
+        ),
+        ageCategory: ageCategory || "ADULT",
+        ...rsvp,
         phone,
         relationship,
         tags: tags || [],
         notes,
+        dietaryNeeds: parseDietaryNeeds(dietaryNeeds ?? []),
+        allergies,
+        dietaryNotes,
+        accessibilityNeeds: parseAccessibilityNeeds(accessibilityNeeds ?? []),
+        mealChoiceId: mealChoiceId || null,
         areaId,
         createdById: userId,
+        companions: { create: companionData },
       },
       include: {
         area: true,
+        companions: companionsInclude,
       },
     });
 
     // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId,
-        userId,
-        action: "CREATE_GUEST",
-        targetType: "guest",
-        targetId: guest.id,
-        details: { guestName: name, headCount },
-      },
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: "CREATE_GUEST",
+      targetType: "guest",
+      targetId: guest.id,
+      details: { guestName: name, headCount },
     });
 
     // 发送 Socket 事件
@@ -261,8 +343,18 @@ router.post(
       areaNameToId[area.name.toLowerCase()] = area.id;
     });
 
-    // 如果是覆盖模式，先删除现有宾客
+    const { infantsNeedSeat } = await loadSeatingPolicy(prisma, projectId);
+    // 菜品按名称匹配项目菜单
+    const menu = await loadMenu(prisma, projectId);
+
+    // 如果是覆盖模式，先自动保存座位方案（恢复时按姓名匹配新导入的宾客），再删除现有宾客
     if (mode === "replace") {
+      await createSnapshot(prisma, {
+        projectId,
+        userId,
+        name: "覆盖导入前自动保存",
+        auto: true,
+      });
       await prisma.guest.deleteMany({
         where: { projectId },
       });
@@ -327,18 +419,93 @@ router.post(
             .filter(Boolean)
         : [];
 
+      // 年龄段：成人/儿童/婴儿，省略时为成人
+      const rawAgeCategory = String(
+        row["年龄段"] || row["ageCategory"] || ""
+      ).trim();
+      const ageCategory = rawAgeCategory
+        ? parseAgeCategory(rawAgeCategory)
+        : "ADULT";
+      if (!ageCategory) {
+        results.failed++;
+        results.errors.push({
+          row: i + 2,
+          error: `年龄段"${rawAgeCategory}"无法识别`,
+        });
+        continue;
+      }
+
+      // 出席状态：未回复/确认出席/不出席/待定，省略时为未回复
+      const rawRsvpStatus = String(
+        row["出席状态"] || row["rsvpStatus"] || ""
+      ).trim();
+      const rsvpStatus = rawRsvpStatus
+        ? parseRsvpStatus(rawRsvpStatus)
+        : "INVITED";
+      if (!rsvpStatus) {
+        results.failed++;
+        results.errors.push({
+          row: i + 2,
+          error: `出席状态"${rawRsvpStatus}"无法识别`,
+        });
+        continue;
+      }
+
+      // 随行人员：每人"姓名/类型/备注"，多人以"；"分隔
+      const rawCompanions = row["随行人员"] || row["companions"] || "";
+      // 饮食需求和无障碍需求：多项以"、"分隔
+      const rawDietaryNeeds = row["饮食需求"] || row["dietaryNeeds"] || "";
+      const rawAccessibilityNeeds =
+        row["无障碍需求"] || row["accessibilityNeeds"] || "";
+
+      // 菜品：填写菜单中的菜品名称，省略时按菜单默认
+      const rawMeal = String(row["菜品"] || row["mealChoice"] || "").trim();
+      const mealChoice = rawMeal
+        ? menu.find((o) => o.name === rawMeal)
+        : null;
+      if (mealChoice === undefined) {
+        results.failed++;
+        results.errors.push({
+          row: i + 2,
+          error: `菜品"${rawMeal}"不在项目菜单中`,
+        });
+        continue;
+      }
+
       try {
+        const companions = normalizeCompanions(
+          parseCompanions(String(rawCompanions)),
+          headCount
+        );
+        const rsvp = resolveRsvp(
+          {
+            rsvpStatus,
+            confirmedCount: row["出席人数"] ?? row["confirmedCount"],
+          },
+          headCount
+        );
         await prisma.guest.create({
           data: {
             projectId,
             name: String(name),
             headCount,
+            lapCount: countLapSeated(headCount, companions, infantsNeedSeat),
+            ageCategory,
+            ...rsvp,
             phone,
             relationship: row["关系"] || row["relationship"] || null,
             tags,
             notes: row["备注"] || row["notes"] || null,
+            dietaryNeeds: parseDietaryNeedsText(String(rawDietaryNeeds)),
+            allergies: row["过敏"] || row["allergies"] || null,
+            dietaryNotes: row["饮食备注"] || row["dietaryNotes"] || null,
+            accessibilityNeeds: parseAccessibilityNeedsText(
+              String(rawAccessibilityNeeds)
+            ),
+            mealChoiceId: mealChoice?.id ?? null,
             areaId: resolvedAreaId,
             createdById: userId,
+            companions: { create: companions },
           },
         });
         results.success++;
@@ -350,14 +517,12 @@ router.post(
     }
 
     // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId,
-        userId,
-        action: "IMPORT_GUESTS",
-        targetType: "guest",
-        details: { imported: results.success, failed: results.failed },
-      },
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: "IMPORT_GUESTS",
+      targetType: "guest",
+      details: { imported: results.success, failed: results.failed },
     });
 
     // 发送 Socket 事件
@@ -382,19 +547,37 @@ router.get(
       {
         姓名: "张三",
         人数: 2,
+        年龄段: "成人",
+        出席状态: "确认出席",
+        出席人数: 2,
         手机号: "13800138000",
         关系: "新郎同事",
         标签: "同事,VIP",
         区域: "新郎方",
-        备注: "素食",
+        随行人员: "王芳/成人/素食",
+        饮食需求: "素食",
+        过敏: "",
+        饮食备注: "",
+        无障碍需求: "",
+        菜品: "",
+        备注: "",
       },
       {
         姓名: "李四",
         人数: 4,
+        年龄段: "成人",
+        出席状态: "未回复",
+        出席人数: "",
         手机号: "13900139000",
         关系: "新郎表哥",
         标签: "亲戚",
         区域: "新娘方",
+        随行人员: "李娜/成人；李小宝/婴儿/需要宝宝椅；李乐乐/儿童",
+        饮食需求: "不吃辣、不吃牛肉",
+        过敏: "花生",
+        饮食备注: "",
+        无障碍需求: "轮椅",
+        菜品: "",
         备注: "",
       },
     ];
@@ -423,12 +606,31 @@ router.put(
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
     const { guestId } = req.params;
-    const { name, headCount, phone, relationship, tags, notes, areaId } =
-      req.body;
+    const {
+      name,
+      headCount,
+      ageCategory,
+      rsvpStatus,
+      confirmedCount,
+      phone,
+      relationship,
+      tags,
+      notes,
+      dietaryNeeds,
+      allergies,
+      dietaryNotes,
+      accessibilityNeeds,
+      mealChoiceId,
+      areaId,
+      companions,
+    } = req.body;
     const userId = req.user!.id;
 
     const guest = await prisma.guest.findUnique({
       where: { id: guestId },
+      include: {
+        companions: { select: { type: true }, ...companionsInclude },
+      },
     });
 
     if (!guest) {
@@ -446,22 +648,87 @@ router.put(
       throw new AppError("您没有编辑权限", 403);
     }
 
-    const updatedGuest = await prisma.guest.update({
-      where: { id: guestId },
-      data: {
-        ...(name && { name }),
-        ...(headCount !== undefined && { headCount }),
-        ...(phone !== undefined && { phone }),
-        ...(relationship !== undefined && { relationship }),
-        ...(tags !== undefined && { tags }),
-        ...(notes !== undefined && { notes }),
-        ...(areaId !== undefined && { areaId }),
-      },
-      include: {
-        area: true,
-        assignment: {
-          include: { table: true },
+    // 其他成员正在编辑该宾客时拒绝修改
+    assertNotLockedByOthers(guest.projectId, "guest", guestId, userId);
+
+    if (ageCategory !== undefined && !isAgeCategory(ageCategory)) {
+      throw new AppError("年龄段不正确", 400);
+    }
+
+    // 传入随行人员时整体替换
+    const nextHeadCount = headCount ?? guest.headCount;
+    const companionData =
+      companions !== undefined
+        ? normalizeCompanions(companions, nextHeadCount)
+        : null;
+    const rsvp = resolveRsvp({ rsvpStatus, confirmedCount }, nextHeadCount, {
+      rsvpStatus: guest.rsvpStatus,
+      confirmedCount: guest.confirmedCount,
+      respondedAt: guest.respondedAt,
+    });
+    const needs = {
+      ...(dietaryNeeds !== undefined && {
+        dietaryNeeds: parseDietaryNeeds(dietaryNeeds),
+      }),
+      ...(accessibilityNeeds !== undefined && {
+        accessibilityNeeds: parseAccessibilityNeeds(accessibilityNeeds),
+      }),
+    };
+    await assertMenuChoices(prisma, guest.projectId, [
+      mealChoiceId,
+      ...(companionData || []).map((c) => c.mealChoiceId),
+    ]);
+
+    // 已入座宾客占用的座位数或随行人员变化时，在锁定的桌内核对座位并调整座号
+    const updatedGuest = await runSeatingTransaction(prisma, async (tx) => {
+      await updateGuestParty(tx, guest, {
+        headCount: nextHeadCount,
+        companions: companionData,
+        rsvp,
+      });
+      await tx.guest.update({
+        where: { id: guestId },
+        data: {
+          ...(name && { name }),
+          ...(ageCategory !== undefined && { ageCategory }),
+          ...(phone !== undefined && { phone }),
+          ...(relationship !== undefined && { relationship }),
+          ...(tags !== undefined && { tags }),
+          ...(notes !== undefined && { notes }),
+          ...needs,
+          ...(allergies !== undefined && { allergies }),
+          ...(dietaryNotes !== undefined && { dietaryNotes }),
+          ...(mealChoiceId !== undefined && {
+            mealChoiceId: mealChoiceId || null,
+          }),
+          ...(areaId !== undefined && { areaId }),
+        },
+      });
+
+      return tx.guest.findUniqueOrThrow({
+        where: { id: guestId },
+        include: {
+          area: true,
+          assignment: {
+            include: { table: true },
+          },
+          companions: companionsInclude,
         },
+      });
+    });
+
+    // 记录活动日志（只记录修改了哪些字段）
+    await logActivity(prisma, {
+      projectId: guest.projectId,
+      userId,
+      action: "UPDATE_GUEST",
+      targetType: "guest",
+      targetId: guestId,
+      details: {
+        guestName: updatedGuest.name,
+        fields: Object.keys(req.body).filter(
+          (key) => req.body[key] !== undefined
+        ),
       },
     });
 
@@ -504,20 +771,21 @@ router.delete(
       throw new AppError("您没有删除权限", 403);
     }
 
+    // 其他成员正在编辑该宾客时拒绝删除
+    assertNotLockedByOthers(guest.projectId, "guest", guestId, userId);
+
     await prisma.guest.delete({
       where: { id: guestId },
     });
 
     // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId: guest.projectId,
-        userId,
-        action: "DELETE_GUEST",
-        targetType: "guest",
-        targetId: guestId,
-        details: { guestName: guest.name },
-      },
+    await logActivity(prisma, {
+      projectId: guest.projectId,
+      userId,
+      action: "DELETE_GUEST",
+      targetType: "guest",
+      targetId: guestId,
+      details: { guestName: guest.name },
     });
 
     // 发送 Socket 事件
@@ -554,6 +822,16 @@ router.post(
       throw new AppError("您没有删除权限", 403);
     }
 
+    // 其他成员正在编辑其中的宾客时整批拒绝
+    guestIds.forEach((guestId: string) =>
+      assertNotLockedByOthers(projectId, "guest", guestId, userId)
+    );
+
+    const guests = await prisma.guest.findMany({
+      where: { id: { in: guestIds }, projectId },
+      select: { name: true },
+    });
+
     await prisma.guest.deleteMany({
       where: {
         id: { in: guestIds },
@@ -561,6 +839,18 @@ router.post(
       },
     });
 
+    // 记录活动日志，名单最多记录 50 位
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: "DELETE_GUESTS",
+      targetType: "guest",
+      details: {
+        count: guests.length,
+        guestNames: guests.slice(0, 50).map((g) => g.name),
+      },
+    });
+
     // 发送 Socket 事件
     const io = req.app.get("io");
     io.to(`project:${projectId}`).emit("guests:deleted", { ids: guestIds });
@@ -572,6 +862,89 @@ router.post(
   })
 );
 
+// 生成宾客自助回复链接：已有未过期的链接时沿用，regenerate 为 true 时重新生成（旧链接失效）
+router.post(
+  "/rsvp-links/:projectId",
+  authenticate,
+  isProjectMember,
+  isProjectAdmin,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const {
+      guestIds,
+      regenerate = false,
+      expiresInDays = RSVP_LINK_DEFAULT_DAYS,
+    } = req.body;
+    const userId = req.user!.id;
+
+    if (!Array.isArray(guestIds) || guestIds.length === 0) {
+      throw new AppError("请选择宾客", 400);
+    }
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > RSVP_LINK_MAX_DAYS) {
+      throw new AppError(
+        `有效期必须是 1 到 ${RSVP_LINK_MAX_DAYS} 之间的天数`,
+        400
+      );
+    }
+
+    const guests = await prisma.guest.findMany({
+      where: { id: { in: guestIds }, projectId },
+      select: {
+        id: true,
+        name: true,
+        rsvpToken: true,
+        rsvpTokenExpiresAt: true,
+      },
+    });
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+    const links = [];
+    for (const guest of guests) {
+      const valid =
+        !regenerate &&
+        guest.rsvpToken &&
+        guest.rsvpTokenExpiresAt &&
+        guest.rsvpTokenExpiresAt > now;
+      if (valid) {
+        links.push({
+          guestId: guest.id,
+          guestName: guest.name,
+          rsvpLink: rsvpLinkOf(guest.rsvpToken!),
+          expiresAt: guest.rsvpTokenExpiresAt,
+        });
+        continue;
+      }
+
+      const rsvpToken = createRsvpToken();
+      await prisma.guest.update({
+        where: { id: guest.id },
+        data: { rsvpToken, rsvpTokenExpiresAt: expiresAt, invitedAt: now },
+      });
+      links.push({
+        guestId: guest.id,
+        guestName: guest.name,
+        rsvpLink: rsvpLinkOf(rsvpToken),
+        expiresAt,
+      });
+    }
+
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: "CREATE_RSVP_LINKS",
+      targetType: "guest",
+      details: { guestCount: links.length, regenerate: !!regenerate },
+    });
+
+    res.json({
+      success: true,
+      data: links,
+    });
+  })
+);
+
 // 获取项目的所有标签
 router.get(
   "/tags/:projectId",
@@ -608,6 +981,7 @@ router.get(
       where: { id: projectId },
       select: { name: true },
     });
+    const policy = await loadSeatingPolicy(prisma, projectId);
 
     // 获取所有宾客
     const guests = await prisma.guest.findMany({
@@ -623,6 +997,8 @@ router.get(
             },
           },
         },
+        mealChoice: { select: { name: true } },
+        companions: companionsInclude,
       },
       orderBy: [{ area: { name: "asc" } }, { createdAt: "asc" }],
     });
@@ -632,11 +1008,24 @@ router.get(
       序号: index + 1,
       姓名: guest.name,
       人数: guest.headCount,
+      年龄段: AGE_CATEGORY_LABELS[guest.ageCategory],
+      占用座位: seatsTaken(guest, policy),
+      出席状态: RSVP_STATUS_LABELS[guest.rsvpStatus],
+      出席人数: guest.confirmedCount ?? "",
+      回复时间: guest.respondedAt?.toLocaleString("zh-CN") || "",
       手机号: guest.phone || "",
       关系: guest.relationship || "",
       标签: guest.tags.join(", "),
       区域: guest.area?.name || "",
       桌位: guest.assignment?.table?.name || "未安排",
+      座号:
+        guest.assignment?.seats.filter((seat) => seat > 0).join("、") || "",
+      随行人员: formatCompanions(guest.companions),
+      饮食需求: formatDietaryNeeds(guest.dietaryNeeds),
+      过敏: guest.allergies || "",
+      饮食备注: guest.dietaryNotes || "",
+      无障碍需求: formatAccessibilityNeeds(guest.accessibilityNeeds),
+      菜品: guest.mealChoice?.name || "",
       备注: guest.notes || "",
     }));
 
@@ -648,11 +1037,23 @@ router.get(
       { wch: 6 }, // 序号
       { wch: 12 }, // 姓名
       { wch: 6 }, // 人数
+      { wch: 8 }, // 年龄段
+      { wch: 10 }, // 占用座位
+      { wch: 10 }, // 出席状态
+      { wch: 8 }, // 出席人数
+      { wch: 20 }, // 回复时间
       { wch: 14 }, // 手机号
       { wch: 16 }, // 关系
       { wch: 20 }, // 标签
       { wch: 10 }, // 区域
       { wch: 10 }, // 桌位
+      { wch: 10 }, // 座号
+      { wch: 30 }, // 随行人员
+      { wch: 16 }, // 饮食需求
+      { wch: 12 }, // 过敏
+      { wch: 20 }, // 饮食备注
+      { wch: 12 }, // 无障碍需求
+      { wch: 14 }, // 菜品
       { wch: 20 }, // 备注
     ];
 
@@ -3,7 +3,17 @@ import { PrismaClient } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import crypto from 'crypto';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
-import { authenticate, AuthRequest, isProjectMember, isProjectOwner } from '../middleware/auth';
+import { authenticate, AuthRequest, isProjectMember, isProjectAdmin, isProjectOwner } from '../middleware/auth';
+import {
+  DEFAULT_SEATING_POLICY,
+  loadSeatingPolicy,
+  parseSeatingPolicyInput,
+} from '../services/seatingPolicy';
+import { lockProjectTables, runSeatingTransaction } from '../services/seatingTx';
+import { arrangeTableSeats } from '../services/seatLayout';
+import { refreshLapCounts, SEAT_COUNT_SELECT, seatsTaken } from '../services/companions';
+import { loadMenu, parseMenuInput } from '../services/menu';
+import { listActivities, logActivity } from '../services/activityLog';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -126,6 +136,15 @@ router.post(
       },
     });
 
+    await logActivity(prisma, {
+      projectId: project.id,
+      userId,
+      action: 'CREATE_PROJECT',
+      targetType: 'project',
+      targetId: project.id,
+      details: { name },
+    });
+
     res.status(201).json({
       success: true,
       message: '项目创建成功',
@@ -176,10 +195,20 @@ router.get(
     }
 
     // 获取统计数据
-    const [totalHeadCount, assignedHeadCount, tableStats] = await Promise.all([
+    const [
+      totalHeadCount,
+      assignedHeadCount,
+      tableStats,
+      kidsTableCount,
+      guestAges,
+      companionAges,
+      rsvpGroups,
+      seatedOrConfirmed,
+      policy,
+    ] = await Promise.all([
       prisma.guest.aggregate({
         where: { projectId },
-        _sum: { headCount: true },
+        _sum: { headCount: true, lapCount: true },
       }),
       prisma.guest.aggregate({
         where: {
@@ -193,8 +222,46 @@ router.get(
         _sum: { capacity: true },
         _count: true,
       }),
+      prisma.table.count({ where: { projectId, kind: 'KIDS' } }),
+      prisma.guest.groupBy({
+        by: ['ageCategory'],
+        where: { projectId },
+        _count: true,
+      }),
+      prisma.guestCompanion.groupBy({
+        by: ['type'],
+        where: { guest: { projectId } },
+        _count: true,
+      }),
+      prisma.guest.groupBy({
+        by: ['rsvpStatus'],
+        where: { projectId },
+        _count: true,
+        _sum: { confirmedCount: true },
+      }),
+      // 占用座位数随排座策略变化（按确认人数排座时），需逐位计算
+      prisma.guest.findMany({
+        where: { projectId, OR: [{ rsvpStatus: 'CONFIRMED' }, { assignment: { isNot: null } }] },
+        select: { ...SEAT_COUNT_SELECT, assignment: { select: { id: true } } },
+      }),
+      loadSeatingPolicy(prisma, projectId),
     ]);
 
+    // 儿童、婴儿人数：宾客本人与登记的随行人员合计
+    const countAge = (category: string) =>
+      (guestAges.find(g => g.ageCategory === category)?._count || 0) +
+      (companionAges.find(c => c.type === category)?._count || 0);
+
+    // 出席回复：各状态的宾客数；确认出席的人数按确认人数计，
+    // 座位按整组预留，项目按确认人数排座时按确认人数计
+    const confirmed = rsvpGroups.find(g => g.rsvpStatus === 'CONFIRMED');
+    const rsvpCounts = Object.fromEntries(rsvpGroups.map(g => [g.rsvpStatus, g._count]));
+    const sumSeats = (guests: typeof seatedOrConfirmed) =>
+      guests.reduce((sum, g) => sum + seatsTaken(g, policy), 0);
+    const seatedGuests = seatedOrConfirmed.filter(g => g.assignment);
+    const confirmedGuests = seatedOrConfirmed.filter(g => g.rsvpStatus === 'CONFIRMED');
+    const seatedConfirmed = confirmedGuests.filter(g => g.assignment);
+
     res.json({
       success: true,
       data: {
@@ -202,8 +269,24 @@ router.get(
         stats: {
           totalGuests: totalHeadCount._sum.headCount || 0,
           assignedGuests: assignedHeadCount._sum.headCount || 0,
+          // 占用的座位数：不单独占座的婴儿不计
+          totalSeats: (totalHeadCount._sum.headCount || 0) - (totalHeadCount._sum.lapCount || 0),
+          assignedSeats: sumSeats(seatedGuests),
+          childCount: countAge('CHILD'),
+          infantCount: countAge('INFANT'),
           tableCount: tableStats._count,
+          kidsTableCount,
           totalCapacity: tableStats._sum.capacity || 0,
+          rsvp: {
+            invited: rsvpCounts.INVITED || 0,
+            confirmed: rsvpCounts.CONFIRMED || 0,
+            declined: rsvpCounts.DECLINED || 0,
+            tentative: rsvpCounts.TENTATIVE || 0,
+          },
+          confirmedGuests: confirmed?._sum.confirmedCount || 0,
+          assignedConfirmedGuests: seatedConfirmed.reduce((sum, g) => sum + (g.confirmedCount || 0), 0),
+          confirmedSeats: sumSeats(confirmedGuests),
+          assignedConfirmedSeats: sumSeats(seatedConfirmed),
         },
       },
     });
@@ -232,6 +315,19 @@ router.put(
       },
     });
 
+    await logActivity(prisma, {
+      projectId,
+      userId: req.user!.id,
+      action: 'UPDATE_PROJECT',
+      targetType: 'project',
+      targetId: projectId,
+      details: {
+        fields: Object.keys(req.body).filter(key =>
+          ['name', 'weddingDate', 'venue', 'coverImage', 'defaultSeatsPerTable', 'status'].includes(key)
+        ),
+      },
+    });
+
     res.json({
       success: true,
       message: '项目更新成功',
@@ -240,6 +336,179 @@ router.put(
   })
 );
 
+// 获取项目排座策略
+router.get(
+  '/:projectId/seating-policy',
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    const policy = await loadSeatingPolicy(prisma, projectId);
+
+    res.json({
+      success: true,
+      data: { ...policy, defaults: DEFAULT_SEATING_POLICY },
+    });
+  })
+);
+
+// 更新项目排座策略
+router.put(
+  '/:projectId/seating-policy',
+  authenticate,
+  isProjectMember,
+  isProjectAdmin,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const userId = req.user!.id;
+
+    const data = parseSeatingPolicyInput(req.body);
+
+    // 婴儿是否占座或是否按确认人数排座变化时，在锁定的桌内重算每位宾客占用的座位数并调整座号
+    const current = await loadSeatingPolicy(prisma, projectId);
+    const next = { ...current, ...data };
+    const infantsChanged = next.infantsNeedSeat !== current.infantsNeedSeat;
+    if (infantsChanged || next.confirmedOnly !== current.confirmedOnly) {
+      const tableIds = await runSeatingTransaction(prisma, async (tx) => {
+        await lockProjectTables(tx, projectId);
+        await tx.seatingPolicy.upsert({
+          where: { projectId },
+          create: { projectId, ...data },
+          update: data,
+        });
+        if (infantsChanged) {
+          await refreshLapCounts(tx, projectId);
+        }
+
+        const tables = await tx.table.findMany({
+          where: { projectId },
+          include: { assignments: { include: { guest: { select: SEAT_COUNT_SELECT } } } },
+        });
+        const overfull = tables.find(
+          table => table.assignments.reduce((sum, a) => sum + seatsTaken(a.guest, next), 0) > table.capacity
+        );
+        if (overfull) {
+          throw new AppError(
+            `${infantsChanged ? '婴儿单独占座' : '按邀请人数计算座位'}后 "${overfull.name}" 将超出容量，请先调整该桌宾客`,
+            400
+          );
+        }
+        await arrangeTableSeats(tx, tables.map(table => table.id));
+        return tables.map(table => table.id);
+      });
+      req.app.get('io').to(`project:${projectId}`).emit('seating:seats-changed', { tableIds });
+    } else {
+      await prisma.seatingPolicy.upsert({
+        where: { projectId },
+        create: { projectId, ...data },
+        update: data,
+      });
+    }
+
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: 'UPDATE_SEATING_POLICY',
+      targetType: 'project',
+      targetId: projectId,
+      details: data,
+    });
+
+    const policy = await loadSeatingPolicy(prisma, projectId);
+
+    res.json({
+      success: true,
+      message: '排座策略已保存',
+      data: { ...policy, defaults: DEFAULT_SEATING_POLICY },
+    });
+  })
+);
+
+// 获取项目菜单
+router.get(
+  '/:projectId/menu',
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    res.json({
+      success: true,
+      data: await loadMenu(prisma, projectId),
+    });
+  })
+);
+
+// 保存项目菜单（整体替换）：带 id 的菜品更新，新菜品创建，未提交的菜品删除（已选的宾客改为按默认）
+router.put(
+  '/:projectId/menu',
+  authenticate,
+  isProjectMember,
+  isProjectAdmin,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const userId = req.user!.id;
+
+    const options = parseMenuInput(req.body.options);
+
+    const menu = await prisma.$transaction(async (tx) => {
+      const current = await loadMenu(tx, projectId);
+      const currentIds = new Set(current.map(o => o.id));
+      if (options.some(o => o.id && !currentIds.has(o.id))) {
+        throw new AppError('菜品不存在，请刷新后重试', 400);
+      }
+
+      const keptIds = options.flatMap(o => (o.id ? [o.id] : []));
+      await tx.menuOption.deleteMany({
+        where: { projectId, id: { notIn: keptIds } },
+      });
+      for (const [position, { id, ...data }] of options.entries()) {
+        if (id) {
+          await tx.menuOption.update({ where: { id }, data: { ...data, position } });
+        } else {
+          await tx.menuOption.create({ data: { ...data, position, projectId } });
+        }
+      }
+
+      return loadMenu(tx, projectId);
+    });
+
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: 'UPDATE_MENU',
+      targetType: 'project',
+      targetId: projectId,
+      details: { options: menu.length },
+    });
+
+    req.app.get('io').to(`project:${projectId}`).emit('menu:updated', menu);
+
+    res.json({
+      success: true,
+      message: '菜单已保存',
+      data: menu,
+    });
+  })
+);
+
+// 获取项目操作记录（分页，按时间倒序）
+// 查询参数：userId、action（逗号分隔多个）、targetType、targetId、from、to、page、limit
+router.get(
+  '/:projectId/activities',
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    res.json({
+      success: true,
+      data: await listActivities(prisma, projectId, req.query),
+    });
+  })
+);
+
 // 删除项目
 router.delete(
   '/:projectId',
@@ -287,6 +556,15 @@ router.post(
       },
     });
 
+    await logActivity(prisma, {
+      projectId,
+      userId: req.user!.id,
+      action: 'CREATE_INVITATION',
+      targetType: 'member',
+      targetId: invitation.id,
+      details: { role, expiresAt: expiresAt.toISOString() },
+    });
+
     const inviteLink = `${process.env.CLIENT_URL}/invite/${token}`;
 
     res.json({
@@ -339,7 +617,7 @@ router.post(
     }
 
     // 添加成员并标记邀请已使用
-    await prisma.$transaction([
+    const [member] = await prisma.$transaction([
       prisma.projectMember.create({
         data: {
           projectId: invitation.projectId,
@@ -354,6 +632,15 @@ router.post(
       }),
     ]);
 
+    await logActivity(prisma, {
+      projectId: invitation.projectId,
+      userId,
+      action: 'JOIN_PROJECT',
+      targetType: 'member',
+      targetId: member.id,
+      details: { nickname: req.user!.nickname, role: invitation.role },
+    });
+
     res.json({
       success: true,
       message: '成功加入项目',
@@ -427,6 +714,19 @@ router.put(
       },
     });
 
+    await logActivity(prisma, {
+      projectId,
+      userId: req.user!.id,
+      action: 'UPDATE_MEMBER',
+      targetType: 'member',
+      targetId: memberId,
+      details: {
+        nickname: updatedMember.user.nickname,
+        role: updatedMember.role,
+        areaId: updatedMember.areaId,
+      },
+    });
+
     res.json({
       success: true,
       message: '成员信息已更新',
@@ -446,6 +746,7 @@ router.delete(
 
     const member = await prisma.projectMember.findFirst({
       where: { id: memberId, projectId },
+      include: { user: { select: { nickname: true } } },
     });
 
     if (!member) {
@@ -460,6 +761,15 @@ router.delete(
       where: { id: memberId },
     });
 
+    await logActivity(prisma, {
+      projectId,
+      userId: req.user!.id,
+      action: 'REMOVE_MEMBER',
+      targetType: 'member',
+      targetId: memberId,
+      details: { nickname: member.user.nickname },
+    });
+
     res.json({
       success: true,
       message: '成员已移除',
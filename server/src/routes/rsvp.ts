@@ -0,0 +1,237 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { AppError, asyncHandler } from "../middleware/errorHandler";
+import { rateLimit } from "../middleware/rateLimit";
+import { runSeatingTransaction } from "../services/seatingTx";
+import { updateGuestParty } from "../services/guestParty";
+import {
+  companionsInclude,
+  normalizeCompanions,
+} from "../services/companions";
+import { resolveRsvp } from "../services/rsvp";
+import {
+  parseAccessibilityNeeds,
+  parseDietaryNeeds,
+} from "../services/guestNeeds";
+import { assertMenuChoices } from "../services/menu";
+import { logActivity } from "../services/activityLog";
+import { findEditLock } from "../services/editLocks";
+
+// 宾客自助回复出席：凭链接中的令牌访问，无需登录
+const router = Router();
+const prisma = new PrismaClient();
+
+// 按 IP 限流，防止暴力猜测令牌和重复提交
+router.use(rateLimit({ windowMs: 15 * 60 * 1000, max: 60 }));
+const submitLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: "提交次数过多，请稍后再试",
+  keyOf: (req) => `${req.ip}:${req.params.token}`,
+});
+
+// 宾客回复时可选的状态（不能改回未回复）
+const RESPONSE_STATUSES = ["CONFIRMED", "DECLINED", "TENTATIVE"];
+
+// 过敏和饮食备注的长度上限
+const MAX_NOTE_LENGTH = 200;
+
+// 校验宾客填写的文字，返回要写入的值（未提交时为 undefined）
+const noteInput = (value: unknown, label: string) => {
+  if (value === undefined) return undefined;
+  if (value !== null && typeof value !== "string") {
+    throw new AppError(`${label}格式不正确`, 400);
+  }
+  if (value && value.length > MAX_NOTE_LENGTH) {
+    throw new AppError(`${label}不能超过 ${MAX_NOTE_LENGTH} 字`, 400);
+  }
+  return value?.trim() || null;
+};
+
+const findGuestByToken = async (token: string) => {
+  const guest = await prisma.guest.findUnique({
+    where: { rsvpToken: token },
+    include: {
+      project: {
+        select: {
+          name: true,
+          weddingDate: true,
+          venue: true,
+          // 宾客可选的菜品，不显示单价
+          menuOptions: {
+            select: { id: true, name: true, kind: true, description: true },
+            orderBy: { position: "asc" },
+          },
+        },
+      },
+      companions: companionsInclude,
+    },
+  });
+
+  if (!guest) {
+    throw new AppError("回复链接无效", 404);
+  }
+
+  if (!guest.rsvpTokenExpiresAt || guest.rsvpTokenExpiresAt < new Date()) {
+    throw new AppError("回复链接已过期，请联系新人重新发送", 400);
+  }
+
+  return guest;
+};
+
+const toRsvpView = (guest: Awaited<ReturnType<typeof findGuestByToken>>) => ({
+  project: guest.project,
+  guest: {
+    name: guest.name,
+    headCount: guest.headCount,
+    rsvpStatus: guest.rsvpStatus,
+    confirmedCount: guest.confirmedCount,
+    respondedAt: guest.respondedAt,
+    dietaryNeeds: guest.dietaryNeeds,
+    allergies: guest.allergies,
+    dietaryNotes: guest.dietaryNotes,
+    accessibilityNeeds: guest.accessibilityNeeds,
+    mealChoiceId: guest.mealChoiceId,
+    companions: guest.companions.map(({ name, type, notes, mealChoiceId }) => ({
+      name,
+      type,
+      notes,
+      mealChoiceId,
+    })),
+  },
+  expiresAt: guest.rsvpTokenExpiresAt,
+});
+
+// 获取回复页信息
+router.get(
+  "/:token",
+  asyncHandler(async (req: any, res: any) => {
+    const guest = await findGuestByToken(req.params.token);
+
+    res.json({
+      success: true,
+      data: toRsvpView(guest),
+    });
+  })
+);
+
+// 提交回复：出席状态、出席人数（不超过邀请人数）、随行人员、饮食与无障碍需求
+router.put(
+  "/:token",
+  submitLimit,
+  asyncHandler(async (req: any, res: any) => {
+    const {
+      rsvpStatus,
+      confirmedCount,
+      companions,
+      dietaryNeeds,
+      allergies,
+      dietaryNotes,
+      accessibilityNeeds,
+      mealChoiceId,
+    } = req.body;
+
+    const guest = await findGuestByToken(req.params.token);
+
+    // 策划者正在编辑该宾客时不接受回复，避免双方互相覆盖；不向宾客透露编辑者
+    if (findEditLock(guest.projectId, "guest", guest.id)) {
+      throw new AppError("新人正在更新您的信息，请稍后再提交回复", 423);
+    }
+
+    if (!RESPONSE_STATUSES.includes(rsvpStatus)) {
+      throw new AppError("请选择是否出席", 400);
+    }
+    const needs = {
+      ...(dietaryNeeds !== undefined && {
+        dietaryNeeds: parseDietaryNeeds(dietaryNeeds),
+      }),
+      ...(accessibilityNeeds !== undefined && {
+        accessibilityNeeds: parseAccessibilityNeeds(accessibilityNeeds),
+      }),
+      allergies: noteInput(allergies, "过敏"),
+      dietaryNotes: noteInput(dietaryNotes, "饮食备注"),
+      ...(mealChoiceId !== undefined && { mealChoiceId: mealChoiceId || null }),
+    };
+
+    const rsvp = resolveRsvp({ rsvpStatus, confirmedCount }, guest.headCount, {
+      rsvpStatus: guest.rsvpStatus,
+      confirmedCount: guest.confirmedCount,
+      respondedAt: guest.respondedAt,
+    });
+    // 随行人员不能多于出席人数减去宾客本人
+    const companionData =
+      companions !== undefined && rsvpStatus !== "DECLINED"
+        ? normalizeCompanions(
+            companions,
+            rsvp.confirmedCount ?? guest.headCount
+          )
+        : null;
+    await assertMenuChoices(prisma, guest.projectId, [
+      needs.mealChoiceId,
+      ...(companionData || []).map((c) => c.mealChoiceId),
+    ]);
+
+    // 按确认人数排座时出席人数会改变占用的座位数，原桌坐不下则撤下座位交给策划者重新安排
+    const { unseatedFrom, updatedGuest } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        const { unseatedFrom } = await updateGuestParty(
+          tx,
+          guest,
+          { headCount: guest.headCount, companions: companionData, rsvp },
+          { unseatIfFull: true }
+        );
+        await tx.guest.update({
+          where: { id: guest.id },
+          data: needs,
+        });
+
+        const updatedGuest = await tx.guest.findUniqueOrThrow({
+          where: { id: guest.id },
+          include: {
+            area: true,
+            assignment: {
+              include: { table: true },
+            },
+            companions: companionsInclude,
+          },
+        });
+        return { unseatedFrom, updatedGuest };
+      }
+    );
+
+    // 记录活动日志：宾客本人提交，没有操作用户
+    await logActivity(prisma, {
+      projectId: guest.projectId,
+      userId: null,
+      action: "RSVP_RESPONSE",
+      targetType: "guest",
+      targetId: guest.id,
+      details: {
+        guestName: guest.name,
+        rsvpStatus: updatedGuest.rsvpStatus,
+        confirmedCount: updatedGuest.confirmedCount,
+        fromTableName: unseatedFrom,
+      },
+    });
+
+    // 发送 Socket 事件，策划者实时看到宾客的回复
+    const io = req.app.get("io");
+    io.to(`project:${guest.projectId}`).emit("guest:updated", updatedGuest);
+    io.to(`project:${guest.projectId}`).emit("guest:rsvp-responded", {
+      guestId: guest.id,
+      guestName: guest.name,
+      rsvpStatus: updatedGuest.rsvpStatus,
+      confirmedCount: updatedGuest.confirmedCount,
+      fromTableName: unseatedFrom,
+    });
+
+    res.json({
+      success: true,
+      message: "感谢您的回复",
+      data: toRsvpView(await findGuestByToken(req.params.token)),
+    });
+  })
+);
+
+export default router;
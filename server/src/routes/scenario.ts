@@ -0,0 +1,331 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { AppError, asyncHandler } from "../middleware/errorHandler";
+import {
+  authenticate,
+  AuthRequest,
+  isProjectAdmin,
+  isProjectMember,
+} from "../middleware/auth";
+import {
+  activateScenario,
+  createScenario,
+  MAX_SCENARIO_NAME_LENGTH,
+  promoteScenario,
+  scoreScenarios,
+} from "../services/seatingScenario";
+import {
+  lockProjectTables,
+  runSeatingTransaction,
+} from "../services/seatingTx";
+import { logActivity } from "../services/activityLog";
+
+// 排座方案：在共用的宾客和桌位上维护多套座位安排，切换、对比得分并定稿
+const router = Router();
+const prisma = new PrismaClient();
+
+// 校验方案名称，返回去掉首尾空格后的名称
+const parseScenarioName = (value: unknown) => {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) {
+    throw new AppError("请填写方案名称", 400);
+  }
+  if (name.length > MAX_SCENARIO_NAME_LENGTH) {
+    throw new AppError(`方案名称不能超过 ${MAX_SCENARIO_NAME_LENGTH} 字`, 400);
+  }
+  return name;
+};
+
+// 读取方案并验证当前用户有编辑权限
+const findEditableScenario = async (scenarioId: string, userId: string) => {
+  const scenario = await prisma.seatingScenario.findUnique({
+    where: { id: scenarioId },
+  });
+
+  if (!scenario) {
+    throw new AppError("方案不存在", 404);
+  }
+
+  const member = await prisma.projectMember.findUnique({
+    where: {
+      projectId_userId: { projectId: scenario.projectId, userId },
+    },
+  });
+
+  if (!member || member.role === "VIEWER") {
+    throw new AppError("您没有操作权限", 403);
+  }
+
+  return scenario;
+};
+
+// 获取项目的方案列表，附带各方案的统计和得分，便于并排对比
+router.get(
+  "/project/:projectId",
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    res.json({
+      success: true,
+      data: await scoreScenarios(prisma, projectId),
+    });
+  })
+);
+
+// 新建方案：默认复制当前方案的座位，copyFrom 可指定其他方案或 empty（空白方案）
+router.post(
+  "/project/:projectId",
+  authenticate,
+  isProjectMember,
+  isProjectAdmin,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const { description, copyFrom } = req.body;
+    const userId = req.user!.id;
+    const name = parseScenarioName(req.body.name);
+
+    if (copyFrom !== undefined && typeof copyFrom !== "string") {
+      throw new AppError("无效的复制来源", 400);
+    }
+
+    const { scenario, source } = await prisma.$transaction(async (tx) => {
+      const result = await createScenario(tx, {
+        projectId,
+        userId,
+        name,
+        description:
+          typeof description === "string" ? description.trim() : null,
+        copyFromId: copyFrom === "empty" ? null : copyFrom,
+      });
+
+      // 记录活动日志
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "CREATE_SCENARIO",
+        targetType: "scenario",
+        targetId: result.scenario.id,
+        details: { name, copyFrom: result.source?.name ?? null },
+      });
+
+      return result;
+    });
+
+    res.status(201).json({
+      success: true,
+      message: source
+        ? `已从"${source.name}"复制新方案 "${name}"`
+        : `已新建空白方案 "${name}"`,
+      data: scenario,
+    });
+  })
+);
+
+// 修改方案名称和说明
+router.put(
+  "/:scenarioId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { scenarioId } = req.params;
+    const { description } = req.body;
+    const userId = req.user!.id;
+    const scenario = await findEditableScenario(scenarioId, userId);
+    const name =
+      req.body.name !== undefined
+        ? parseScenarioName(req.body.name)
+        : scenario.name;
+
+    if (name !== scenario.name) {
+      const duplicate = await prisma.seatingScenario.findUnique({
+        where: {
+          projectId_name: { projectId: scenario.projectId, name },
+        },
+      });
+      if (duplicate) {
+        throw new AppError(`方案"${name}"已存在`, 400);
+      }
+    }
+
+    const updated = await prisma.seatingScenario.update({
+      where: { id: scenarioId },
+      data: {
+        name,
+        ...(description !== undefined && {
+          description:
+            typeof description === "string" && description.trim()
+              ? description.trim()
+              : null,
+        }),
+      },
+    });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: scenario.projectId,
+      userId,
+      action: "UPDATE_SCENARIO",
+      targetType: "scenario",
+      targetId: scenarioId,
+      details: { name, previousName: scenario.name },
+    });
+
+    res.json({
+      success: true,
+      message: "方案已更新",
+      data: updated,
+    });
+  })
+);
+
+// 切换当前方案：现有座位存回原方案，再载入目标方案的座位
+router.post(
+  "/:scenarioId/activate",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { scenarioId } = req.params;
+    const userId = req.user!.id;
+    const { projectId } = await findEditableScenario(scenarioId, userId);
+
+    const result = await runSeatingTransaction(prisma, async (tx) => {
+      await lockProjectTables(tx, projectId);
+      const result = await activateScenario(tx, {
+        projectId,
+        userId,
+        scenarioId,
+      });
+
+      // 记录活动日志
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "SWITCH_SCENARIO",
+        targetType: "scenario",
+        targetId: scenarioId,
+        details: {
+          name: result.scenario.name,
+          previousName: result.previous.name,
+          guestCount: result.placed,
+          skipped: result.skipped.length,
+        },
+      });
+
+      return result;
+    });
+
+    // 发送 Socket 事件，协作者据此刷新座位
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("scenario:switched", {
+      scenarioId,
+      name: result.scenario.name,
+      previousName: result.previous.name,
+      user: { id: userId, nickname: req.user!.nickname },
+    });
+
+    res.json({
+      success: true,
+      message:
+        result.skipped.length > 0
+          ? `已切换到方案 "${result.scenario.name}"，${result.skipped.length} 位宾客未能入座`
+          : `已切换到方案 "${result.scenario.name}"`,
+      data: {
+        placed: result.placed,
+        skipped: result.skipped,
+      },
+    });
+  })
+);
+
+// 定稿：把方案设为最终方案，不是当前方案时一并切换
+router.post(
+  "/:scenarioId/promote",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { scenarioId } = req.params;
+    const userId = req.user!.id;
+    const { projectId } = await findEditableScenario(scenarioId, userId);
+
+    const { scenario, switched } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        await lockProjectTables(tx, projectId);
+        const result = await promoteScenario(tx, {
+          projectId,
+          userId,
+          scenarioId,
+        });
+
+        // 记录活动日志
+        await logActivity(tx, {
+          projectId,
+          userId,
+          action: "PROMOTE_SCENARIO",
+          targetType: "scenario",
+          targetId: scenarioId,
+          details: {
+            name: result.scenario.name,
+            skipped: result.switched?.skipped.length ?? 0,
+          },
+        });
+
+        return result;
+      }
+    );
+
+    // 发送 Socket 事件，协作者据此刷新方案和座位
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("scenario:switched", {
+      scenarioId,
+      name: scenario.name,
+      previousName: switched?.previous.name ?? scenario.name,
+      final: true,
+      user: { id: userId, nickname: req.user!.nickname },
+    });
+
+    res.json({
+      success: true,
+      message:
+        switched && switched.skipped.length > 0
+          ? `已将 "${scenario.name}" 定为最终方案，${switched.skipped.length} 位宾客未能入座`
+          : `已将 "${scenario.name}" 定为最终方案`,
+      data: {
+        switched: !!switched,
+        skipped: switched?.skipped ?? [],
+      },
+    });
+  })
+);
+
+// 删除方案，当前方案不能删除
+router.delete(
+  "/:scenarioId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { scenarioId } = req.params;
+    const userId = req.user!.id;
+    const scenario = await findEditableScenario(scenarioId, userId);
+
+    if (scenario.active) {
+      throw new AppError("不能删除当前方案，请先切换到其他方案", 400);
+    }
+
+    await prisma.seatingScenario.delete({ where: { id: scenarioId } });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: scenario.projectId,
+      userId,
+      action: "DELETE_SCENARIO",
+      targetType: "scenario",
+      details: { name: scenario.name },
+    });
+
+    res.json({
+      success: true,
+      message: `已删除方案 "${scenario.name}"`,
+    });
+  })
+);
+
+export default router;
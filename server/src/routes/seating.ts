@@ -7,10 +7,146 @@ import {
   isProjectMember,
   isProjectAdmin,
 } from "../middleware/auth";
+import {
+  buildSeatingProblem,
+  PlacementExplanation,
+  scorePlacement,
+  SOLVER_GUEST_SELECT,
+  solveSeating,
+  sortGuestsForSeating,
+  toSolverGuest,
+} from "../services/seatingSolver";
+import { loadSeatingPolicy } from "../services/seatingPolicy";
+import { suggestGroupSeating } from "../services/groupSuggest";
+import { isTogetherType } from "../services/constraintGraph";
+import { SEAT_COUNT_SELECT, seatsTaken } from "../services/companions";
+import { isAccessibleTable, needsAccessibleTable } from "../services/guestNeeds";
+import {
+  checkProjectConstraints,
+  ConstraintStatus,
+  getConstraintStatus,
+} from "../services/constraintCheck";
+import {
+  ConstraintTypeValue,
+  createTableRuleChecker,
+  DEFAULT_PREFERENCE_WEIGHT,
+  isConstraintType,
+  isPairConstraintType,
+  isSelfConstraintType,
+  isTableConstraintType,
+  MAX_PREFERENCE_WEIGHT,
+  MIN_PREFERENCE_WEIGHT,
+  preferenceScore,
+  SOFT_CONSTRAINT_TYPES,
+} from "../services/constraintTypes";
+import {
+  getGroupStatus,
+  isGroupRule,
+  loadConstraintGroups,
+  resolveGroupMembers,
+  tableLimitOf,
+} from "../services/constraintGroups";
+import {
+  applySeatingPlan,
+  computeSeatingFingerprint,
+} from "../services/seatingPlan";
+import {
+  arrangeTableSeats,
+  assertSeatRulesKept,
+  loadSeatRuleStates,
+} from "../services/seatLayout";
+import {
+  assertGuestFitsTable,
+  lockProjectTables,
+  lockTables,
+  runSeatingTransaction,
+} from "../services/seatingTx";
+import { logActivity } from "../services/activityLog";
+import {
+  applySeatingHistory,
+  captureSeatStates,
+  getSeatingHistory,
+  HistoryDirection,
+  recordSeatingOperation,
+} from "../services/seatingHistory";
+import { createSnapshot } from "../services/seatingSnapshot";
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// 解析请求中的优化时长（毫秒），未提供时由求解器取默认值
+const parseTimeBudget = (value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  const timeBudgetMs = Number(value);
+  if (value === "" || !Number.isFinite(timeBudgetMs) || timeBudgetMs <= 0) {
+    throw new AppError("优化时长应为正数（毫秒）", 400);
+  }
+  return timeBudgetMs;
+};
+
+/**
+ * 按约束类型整理约束对象：宾客之间用 guest2Id，指定桌位用 tableId，标签用 tag，
+ * 软约束带偏好强度（未提供时取默认值），其余字段置空
+ */
+const normalizeConstraintTarget = (
+  constraintType: ConstraintTypeValue,
+  input: {
+    guest1Id: string;
+    guest2Id?: string;
+    tableId?: string;
+    tag?: string;
+    weight?: unknown;
+  }
+) => {
+  const target = {
+    guest2Id: null as string | null,
+    tableId: null as string | null,
+    tag: null as string | null,
+    weight: null as number | null,
+  };
+
+  if (isPairConstraintType(constraintType)) {
+    if (!input.guest2Id) {
+      throw new AppError("请选择另一位宾客", 400);
+    }
+    if (input.guest2Id === input.guest1Id) {
+      throw new AppError("不能为同一位宾客设置约束", 400);
+    }
+    target.guest2Id = input.guest2Id;
+  } else if (isTableConstraintType(constraintType)) {
+    if (!input.tableId) {
+      throw new AppError("请选择桌位", 400);
+    }
+    target.tableId = input.tableId;
+  } else if (!isSelfConstraintType(constraintType)) {
+    const tag = typeof input.tag === "string" ? input.tag.trim() : "";
+    if (!tag) {
+      throw new AppError("请填写标签", 400);
+    }
+    target.tag = tag;
+  }
+
+  if (SOFT_CONSTRAINT_TYPES.includes(constraintType)) {
+    const weight =
+      input.weight === undefined || input.weight === null
+        ? DEFAULT_PREFERENCE_WEIGHT
+        : Number(input.weight);
+    if (
+      !Number.isInteger(weight) ||
+      weight < MIN_PREFERENCE_WEIGHT ||
+      weight > MAX_PREFERENCE_WEIGHT
+    ) {
+      throw new AppError(
+        `偏好强度应为 ${MIN_PREFERENCE_WEIGHT}-${MAX_PREFERENCE_WEIGHT} 的整数`,
+        400
+      );
+    }
+    target.weight = weight;
+  }
+
+  return target;
+};
+
 // 安排座位（将宾客分配到桌位）
 router.post(
   "/assign",
@@ -26,34 +162,12 @@ router.post(
     // 获取宾客信息
     const guest = await prisma.guest.findUnique({
       where: { id: guestId },
-      include: { assignment: true },
     });
 
     if (!guest) {
       throw new AppError("宾客不存在", 404);
     }
 
-    // 检查宾客是否已有座位
-    if (guest.assignment) {
-      throw new AppError("该宾客已有座位安排，请先移除原座位", 400);
-    }
-
-    // 获取桌位信息
-    const table = await prisma.table.findUnique({
-      where: { id: tableId },
-      include: {
-        assignments: {
-          include: {
-            guest: { select: { headCount: true } },
-          },
-        },
-      },
-    });
-
-    if (!table) {
-      throw new AppError("桌位不存在", 404);
-    }
-
     // 验证权限
     const member = await prisma.projectMember.findUnique({
       where: {
@@ -65,88 +179,67 @@ router.post(
       throw new AppError("您没有安排座位的权限", 403);
     }
 
-    // 检查座位是否足够
-    const currentOccupied = table.assignments.reduce(
-      (sum, a) => sum + a.guest.headCount,
-      0
-    );
-    if (currentOccupied + guest.headCount > table.capacity) {
-      throw new AppError(
-        `该桌剩余 ${table.capacity - currentOccupied} 个座位，无法容纳 ${
-          guest.headCount
-        } 人`,
-        400
-      );
-    }
-
-    // 检查排座约束
-    const constraints = await prisma.seatingConstraint.findMany({
-      where: {
-        OR: [{ guest1Id: guestId }, { guest2Id: guestId }],
-      },
-      include: {
-        guest1: { select: { id: true, name: true } },
-        guest2: { select: { id: true, name: true } },
-      },
-    });
+    // 锁定目标桌后再检查，避免并发安排导致超员或违反约束
+    const { assignment, table } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        await lockTables(tx, [tableId]);
 
-    // 获取该桌已有宾客的ID
-    const tableGuestIds = table.assignments
-      .map((a) => a.guest)
-      .map((g: any) => g.id);
+        // 检查宾客是否已有座位
+        const existing = await tx.seatingAssignment.findUnique({
+          where: { guestId },
+        });
+        if (existing) {
+          throw new AppError("该宾客已有座位安排，请先移除原座位", 400);
+        }
 
-    for (const constraint of constraints) {
-      const otherGuestId =
-        constraint.guest1Id === guestId
-          ? constraint.guest2Id
-          : constraint.guest1Id;
-      const otherGuestName =
-        constraint.guest1Id === guestId
-          ? constraint.guest2.name
-          : constraint.guest1.name;
+        const table = await assertGuestFitsTable(tx, guest, tableId);
+        const before = await captureSeatStates(tx, [guestId]);
 
-      if (constraint.constraintType === "MUST_APART") {
-        // 不能同桌的人已在该桌
-        if (tableGuestIds.includes(otherGuestId)) {
-          throw new AppError(
-            `"${guest.name}" 与 "${otherGuestName}" 设置了不能同桌`,
-            400
-          );
-        }
-      }
-    }
+        // 创建座位安排并分配座号
+        const created = await tx.seatingAssignment.create({
+          data: {
+            tableId,
+            guestId,
+            assignedById: userId,
+          },
+        });
+        await arrangeTableSeats(tx, [tableId]);
+        await recordSeatingOperation(tx, {
+          projectId: guest.projectId,
+          userId,
+          action: "ASSIGN_SEAT",
+          summary: `将 "${guest.name}" 安排到 "${table.name}"`,
+          guests: before,
+        });
+        const assignment = await tx.seatingAssignment.findUniqueOrThrow({
+          where: { id: created.id },
+          include: {
+            guest: {
+              select: { id: true, name: true, headCount: true, tags: true },
+            },
+            table: {
+              select: { id: true, name: true },
+            },
+          },
+        });
 
-    // 创建座位安排
-    const assignment = await prisma.seatingAssignment.create({
-      data: {
-        tableId,
-        guestId,
-        assignedById: userId,
-      },
-      include: {
-        guest: {
-          select: { id: true, name: true, headCount: true, tags: true },
-        },
-        table: {
-          select: { id: true, name: true },
-        },
-      },
-    });
+        // 记录活动日志
+        await logActivity(tx, {
+          projectId: guest.projectId,
+          userId,
+          action: "ASSIGN_SEAT",
+          targetType: "seating",
+          targetId: assignment.id,
+          details: {
+            guestName: guest.name,
+            tableName: table.name,
+          },
+        });
 
-    // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId: guest.projectId,
-        userId,
-        action: "ASSIGN_SEAT",
-        targetType: "seating",
-        targetId: assignment.id,
-        details: {
-          guestName: guest.name,
-          tableName: table.name,
-        },
-      },
-    });
+        return { assignment, table };
+      }
+    );
 
     // 发送 Socket 事件
     const io = req.app.get("io");
@@ -177,7 +270,7 @@ router.delete(
       include: {
         assignment: {
           include: {
-            table: { select: { name: true } },
+            table: { select: { name: true, pinned: true } },
           },
         },
       },
@@ -202,16 +295,29 @@ router.delete(
       throw new AppError("您没有操作权限", 403);
     }
 
+    if (guest.assignment.pinned || guest.assignment.table.pinned) {
+      throw new AppError("该宾客的座位已锁定，请先解锁", 400);
+    }
+
     const tableId = guest.assignment.tableId;
     const tableName = guest.assignment.table.name;
 
-    await prisma.seatingAssignment.delete({
-      where: { guestId },
-    });
+    await runSeatingTransaction(prisma, async (tx) => {
+      await lockTables(tx, [tableId]);
+      const before = await captureSeatStates(tx, [guestId]);
+      await tx.seatingAssignment.delete({
+        where: { guestId },
+      });
+      await recordSeatingOperation(tx, {
+        projectId: guest.projectId,
+        userId,
+        action: "UNASSIGN_SEAT",
+        summary: `将 "${guest.name}" 从 "${tableName}" 移除`,
+        guests: before,
+      });
 
-    // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
+      // 记录活动日志
+      await logActivity(tx, {
         projectId: guest.projectId,
         userId,
         action: "UNASSIGN_SEAT",
@@ -220,7 +326,7 @@ router.delete(
           guestName: guest.name,
           tableName,
         },
-      },
+      });
     });
 
     // 发送 Socket 事件
@@ -247,11 +353,6 @@ router.put(
 
     const guest = await prisma.guest.findUnique({
       where: { id: guestId },
-      include: {
-        assignment: {
-          include: { table: true },
-        },
-      },
     });
 
     if (!guest) {
@@ -269,100 +370,73 @@ router.put(
       throw new AppError("您没有操作权限", 403);
     }
 
-    // 获取新桌位信息
-    const newTable = await prisma.table.findUnique({
-      where: { id: newTableId },
-      include: {
-        assignments: {
-          include: {
-            guest: { select: { id: true, headCount: true } },
-          },
-        },
-      },
-    });
-
-    if (!newTable) {
-      throw new AppError("目标桌位不存在", 404);
-    }
-
-    // 检查座位是否足够
-    const currentOccupied = newTable.assignments.reduce(
-      (sum, a) => sum + a.guest.headCount,
-      0
-    );
-    if (currentOccupied + guest.headCount > newTable.capacity) {
-      throw new AppError(
-        `目标桌剩余 ${newTable.capacity - currentOccupied} 个座位，无法容纳 ${
-          guest.headCount
-        } 人`,
-        400
-      );
-    }
-
-    // 检查排座约束
-    const constraints = await prisma.seatingConstraint.findMany({
-      where: {
-        OR: [{ guest1Id: guestId }, { guest2Id: guestId }],
-        constraintType: "MUST_APART",
-      },
-    });
-
-    const tableGuestIds = newTable.assignments.map((a) => a.guest.id);
-
-    for (const constraint of constraints) {
-      const otherGuestId =
-        constraint.guest1Id === guestId
-          ? constraint.guest2Id
-          : constraint.guest1Id;
-
-      if (tableGuestIds.includes(otherGuestId)) {
-        const otherGuest = await prisma.guest.findUnique({
-          where: { id: otherGuestId },
-          select: { name: true },
-        });
-        throw new AppError(
-          `"${guest.name}" 与 "${otherGuest?.name}" 设置了不能同桌`,
-          400
+    // 锁定目标桌后再检查，避免并发移动导致超员或违反约束
+    const { oldTableId, newTable } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        await lockTables(tx, [newTableId]);
+
+        const newTable = await assertGuestFitsTable(
+          tx,
+          guest,
+          newTableId,
+          "目标桌"
         );
-      }
-    }
 
-    const oldTableId = guest.assignment?.tableId;
-    const oldTableName = guest.assignment?.table.name;
+        // 事务内重新读取当前座位，以提交时的状态为准
+        const current = await tx.seatingAssignment.findUnique({
+          where: { guestId },
+          include: { table: { select: { name: true, pinned: true } } },
+        });
+        if (current && (current.pinned || current.table.pinned)) {
+          throw new AppError("该宾客的座位已锁定，请先解锁", 400);
+        }
+        const before = await captureSeatStates(tx, [guestId]);
+
+        // 更新或创建座位安排，换桌后在新桌重新分配座号
+        if (current) {
+          await tx.seatingAssignment.update({
+            where: { guestId },
+            data: {
+              tableId: newTableId,
+              seats: [],
+              assignedById: userId,
+            },
+          });
+        } else {
+          await tx.seatingAssignment.create({
+            data: {
+              tableId: newTableId,
+              guestId,
+              assignedById: userId,
+            },
+          });
+        }
+        await arrangeTableSeats(tx, [newTableId]);
+        await recordSeatingOperation(tx, {
+          projectId: guest.projectId,
+          userId,
+          action: "MOVE_SEAT",
+          summary: `将 "${guest.name}" 移动到 "${newTable.name}"`,
+          guests: before,
+        });
 
-    // 更新或创建座位安排
-    if (guest.assignment) {
-      await prisma.seatingAssignment.update({
-        where: { guestId },
-        data: {
-          tableId: newTableId,
-          assignedById: userId,
-        },
-      });
-    } else {
-      await prisma.seatingAssignment.create({
-        data: {
-          tableId: newTableId,
-          guestId,
-          assignedById: userId,
-        },
-      });
-    }
+        // 记录活动日志
+        await logActivity(tx, {
+          projectId: guest.projectId,
+          userId,
+          action: "MOVE_SEAT",
+          targetType: "seating",
+          details: {
+            guestName: guest.name,
+            fromTable: current?.table.name || "未安排",
+            toTable: newTable.name,
+          },
+        });
 
-    // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId: guest.projectId,
-        userId,
-        action: "MOVE_SEAT",
-        targetType: "seating",
-        details: {
-          guestName: guest.name,
-          fromTable: oldTableName || "未安排",
-          toTable: newTable.name,
-        },
-      },
-    });
+        return { oldTableId: current?.tableId, newTable };
+      }
+    );
 
     // 发送 Socket 事件
     const io = req.app.get("io");
@@ -379,30 +453,35 @@ router.put(
   })
 );
 
-// 添加排座约束
-router.post(
-  "/constraint",
+// 把宾客本人或某位随行人员（person，0 为本人）安排到指定座位
+// 目标座位在其他桌时整组换桌，检查与移动宾客相同
+router.put(
+  "/seat",
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
-    const { projectId, guest1Id, guest2Id, constraintType } = req.body;
+    const { guestId, tableId, seatNumber, person = 0 } = req.body;
     const userId = req.user!.id;
 
-    if (!guest1Id || !guest2Id || !constraintType) {
-      throw new AppError("请提供完整的约束信息", 400);
+    if (!guestId || !tableId || seatNumber === undefined) {
+      throw new AppError("请选择宾客和座位", 400);
     }
 
-    if (guest1Id === guest2Id) {
-      throw new AppError("不能为同一位宾客设置约束", 400);
+    const guest = await prisma.guest.findUnique({
+      where: { id: guestId },
+    });
+
+    if (!guest) {
+      throw new AppError("宾客不存在", 404);
     }
 
-    if (!["MUST_TOGETHER", "MUST_APART"].includes(constraintType)) {
-      throw new AppError("无效的约束类型", 400);
+    if (!Number.isInteger(person) || person < 0 || person >= guest.headCount) {
+      throw new AppError("无效的随行人员", 400);
     }
 
     // 验证权限
     const member = await prisma.projectMember.findUnique({
       where: {
-        projectId_userId: { projectId, userId },
+        projectId_userId: { projectId: guest.projectId, userId },
       },
     });
 
@@ -410,62 +489,141 @@ router.post(
       throw new AppError("您没有操作权限", 403);
     }
 
-    // 检查是否已存在约束
-    const existingConstraint = await prisma.seatingConstraint.findFirst({
-      where: {
-        OR: [
-          { guest1Id, guest2Id },
-          { guest1Id: guest2Id, guest2Id: guest1Id },
-        ],
-      },
-    });
+    const { fromTableId, table } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        const current = await tx.seatingAssignment.findUnique({
+          where: { guestId },
+        });
+        if (!current) {
+          throw new AppError("该宾客尚未安排座位", 400);
+        }
+        await lockTables(tx, [tableId, current.tableId]);
 
-    if (existingConstraint) {
-      throw new AppError("这两位宾客已存在约束关系", 400);
-    }
+        const currentTable = await tx.table.findUniqueOrThrow({
+          where: { id: current.tableId },
+        });
+        if (current.pinned || currentTable.pinned) {
+          throw new AppError("该宾客的座位已锁定，请先解锁", 400);
+        }
 
-    const constraint = await prisma.seatingConstraint.create({
-      data: {
-        projectId,
-        guest1Id,
-        guest2Id,
-        constraintType,
-        createdById: userId,
-      },
-      include: {
-        guest1: { select: { id: true, name: true } },
-        guest2: { select: { id: true, name: true } },
-      },
+        const before = await loadSeatRuleStates(tx, [guestId]);
+        const history = await captureSeatStates(tx, [guestId]);
+
+        if (current.tableId !== tableId) {
+          await assertGuestFitsTable(tx, guest, tableId, "目标桌");
+          await tx.seatingAssignment.update({
+            where: { guestId },
+            data: { tableId, seats: [], assignedById: userId },
+          });
+        }
+        // 先补齐该桌所有宾客的座号，再按最新状态判断目标座位
+        await arrangeTableSeats(tx, [tableId]);
+
+        const table = await tx.table.findUniqueOrThrow({
+          where: { id: tableId },
+          include: {
+            assignments: {
+              include: { guest: { select: { name: true } } },
+            },
+          },
+        });
+        if (
+          !Number.isInteger(seatNumber) ||
+          seatNumber < 1 ||
+          seatNumber > table.capacity
+        ) {
+          throw new AppError(`座号应为 1-${table.capacity}`, 400);
+        }
+
+        const occupant = table.assignments.find(
+          (a) => a.guestId !== guestId && a.seats.includes(seatNumber)
+        );
+        if (occupant) {
+          throw new AppError(
+            `${seatNumber} 号座位已有 "${occupant.guest.name}"`,
+            400
+          );
+        }
+
+        // 目标座位是同组其他人的座位时两人对调
+        const own = table.assignments.find((a) => a.guestId === guestId)!;
+        if (own.seats[person] === 0) {
+          throw new AppError("婴儿坐在大人腿上，不单独占座", 400);
+        }
+        const seats = [...own.seats];
+        const index = seats.indexOf(seatNumber);
+        if (index >= 0) seats[index] = seats[person];
+        seats[person] = seatNumber;
+        await tx.seatingAssignment.update({
+          where: { guestId },
+          data: { seats },
+        });
+
+        assertSeatRulesKept(before, await loadSeatRuleStates(tx, [guestId]));
+        await recordSeatingOperation(tx, {
+          projectId: guest.projectId,
+          userId,
+          action: "CHANGE_SEAT",
+          summary: `将 "${guest.name}" 安排到 "${table.name}" ${seatNumber} 号座位`,
+          guests: history,
+        });
+
+        // 记录活动日志
+        await logActivity(tx, {
+          projectId: guest.projectId,
+          userId,
+          action: "CHANGE_SEAT",
+          targetType: "seating",
+          targetId: own.id,
+          details: {
+            guestName: guest.name,
+            tableName: table.name,
+            seatNumber,
+          },
+        });
+
+        return { fromTableId: current.tableId, table };
+      }
+    );
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${guest.projectId}`).emit("seating:seats-changed", {
+      tableIds: Array.from(new Set([fromTableId, tableId])),
     });
 
-    res.status(201).json({
+    res.json({
       success: true,
-      message: "约束添加成功",
-      data: constraint,
+      message: `已将 "${guest.name}" 安排到 "${table.name}" ${seatNumber} 号座位`,
     });
   })
 );
 
-// 删除排座约束
-router.delete(
-  "/constraint/:constraintId",
+// 交换同一桌两个座位上的人，其中一个可以是空座
+router.put(
+  "/seat/swap",
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
-    const { constraintId } = req.params;
+    const { tableId, seatA, seatB } = req.body;
     const userId = req.user!.id;
 
-    const constraint = await prisma.seatingConstraint.findUnique({
-      where: { id: constraintId },
+    if (!tableId || seatA === undefined || seatB === undefined) {
+      throw new AppError("请选择要交换的座位", 400);
+    }
+
+    const table = await prisma.table.findUnique({
+      where: { id: tableId },
     });
 
-    if (!constraint) {
-      throw new AppError("约束不存在", 404);
+    if (!table) {
+      throw new AppError("桌位不存在", 404);
     }
 
     // 验证权限
     const member = await prisma.projectMember.findUnique({
       where: {
-        projectId_userId: { projectId: constraint.projectId, userId },
+        projectId_userId: { projectId: table.projectId, userId },
       },
     });
 
@@ -473,147 +631,1454 @@ router.delete(
       throw new AppError("您没有操作权限", 403);
     }
 
-    await prisma.seatingConstraint.delete({
-      where: { id: constraintId },
-    });
+    await runSeatingTransaction(prisma, async (tx) => {
+      await lockTables(tx, [tableId]);
+      await arrangeTableSeats(tx, [tableId]);
 
-    res.json({
+      const current = await tx.table.findUniqueOrThrow({
+        where: { id: tableId },
+        include: {
+          assignments: {
+            include: { guest: { select: { name: true } } },
+          },
+        },
+      });
+      const valid = (seat: unknown) =>
+        Number.isInteger(seat) &&
+        (seat as number) >= 1 &&
+        (seat as number) <= current.capacity;
+      if (!valid(seatA) || !valid(seatB) || seatA === seatB) {
+        throw new AppError(`座号应为 1-${current.capacity} 且互不相同`, 400);
+      }
+      if (current.pinned) {
+        throw new AppError(`"${current.name}" 已锁定，请先解锁再调整`, 400);
+      }
+
+      const ownerOf = (seat: number) =>
+        current.assignments.find((a) => a.seats.includes(seat));
+      const owners = [ownerOf(seatA), ownerOf(seatB)].filter(
+        (a): a is NonNullable<typeof a> => !!a
+      );
+      if (owners.length === 0) {
+        throw new AppError("两个座位都是空座", 400);
+      }
+      if (owners.some((a) => a.pinned)) {
+        throw new AppError("座位已锁定，请先解锁", 400);
+      }
+
+      const guestIds = Array.from(new Set(owners.map((a) => a.guestId)));
+      const before = await loadSeatRuleStates(tx, guestIds);
+      const history = await captureSeatStates(tx, guestIds);
+
+      for (const owner of new Set(owners)) {
+        const seats = owner.seats.map((seat) =>
+          seat === seatA ? seatB : seat === seatB ? seatA : seat
+        );
+        await tx.seatingAssignment.update({
+          where: { id: owner.id },
+          data: { seats },
+        });
+      }
+
+      assertSeatRulesKept(before, await loadSeatRuleStates(tx, guestIds));
+      await recordSeatingOperation(tx, {
+        projectId: table.projectId,
+        userId,
+        action: "SWAP_SEATS",
+        summary: `交换 "${current.name}" ${seatA} 号和 ${seatB} 号座位`,
+        guests: history,
+      });
+
+      // 记录活动日志
+      await logActivity(tx, {
+        projectId: table.projectId,
+        userId,
+        action: "SWAP_SEATS",
+        targetType: "seating",
+        details: {
+          tableName: current.name,
+          seats: [seatA, seatB],
+          guestNames: owners.map((a) => a.guest.name),
+        },
+      });
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${table.projectId}`).emit("seating:seats-changed", {
+      tableIds: [tableId],
+    });
+
+    res.json({
+      success: true,
+      message: "座位已交换",
+    });
+  })
+);
+
+// 获取项目的排座约束，可按宾客、类型和状态筛选
+router.get(
+  "/constraints/:projectId",
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const { guestId, type, status } = req.query;
+
+    if (type && !isConstraintType(type)) {
+      throw new AppError("无效的约束类型", 400);
+    }
+
+    const guestSelect = {
+      select: {
+        id: true,
+        name: true,
+        headCount: true,
+        assignment: {
+          select: { table: { select: { id: true, name: true } } },
+        },
+      },
+    };
+
+    const [constraints, seated] = await Promise.all([
+      prisma.seatingConstraint.findMany({
+        where: {
+          projectId,
+          ...(type && { constraintType: type as ConstraintTypeValue }),
+          ...(guestId && {
+            OR: [
+              { guest1Id: guestId as string },
+              { guest2Id: guestId as string },
+            ],
+          }),
+        },
+        include: {
+          guest1: guestSelect,
+          guest2: guestSelect,
+          table: { select: { id: true, name: true } },
+          createdBy: { select: { id: true, nickname: true, avatar: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      // 全部已入座宾客，用于判断标签偏好和座位约束是否满足
+      prisma.seatingAssignment.findMany({
+        where: { table: { projectId } },
+        select: {
+          guestId: true,
+          tableId: true,
+          seats: true,
+          guest: { select: { tags: true } },
+          table: { select: { capacity: true } },
+        },
+      }),
+    ]);
+
+    const tableOf = new Map(seated.map((a) => [a.guestId, a.tableId] as const));
+    const seatById = new Map(
+      seated
+        .filter((a) => a.seats[0] > 0)
+        .map((a) => [
+          a.guestId,
+          { tableId: a.tableId, seat: a.seats[0], capacity: a.table.capacity },
+        ])
+    );
+    const seating = {
+      tableOf: (id: string) => tableOf.get(id) || null,
+      seatOf: (id: string) => seatById.get(id) || null,
+      tagmates: (id: string, tag: string) =>
+        seated.filter(
+          (a) =>
+            a.guestId !== id &&
+            a.tableId === tableOf.get(id) &&
+            a.guest.tags.includes(tag)
+        ).length,
+    };
+
+    const withStatus = constraints.map((c) => ({
+      ...c,
+      status: getConstraintStatus(c, seating),
+    }));
+
+    const summary: Record<ConstraintStatus, number> = {
+      satisfied: 0,
+      violated: 0,
+      pending: 0,
+    };
+    withStatus.forEach((c) => summary[c.status]++);
+
+    res.json({
+      success: true,
+      data: {
+        constraints: status
+          ? withStatus.filter((c) => c.status === status)
+          : withStatus,
+        summary,
+      },
+    });
+  })
+);
+
+// 添加排座约束
+router.post(
+  "/constraint",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, guest1Id, constraintType, override } = req.body;
+    const userId = req.user!.id;
+
+    if (!guest1Id || !constraintType) {
+      throw new AppError("请提供完整的约束信息", 400);
+    }
+
+    if (!isConstraintType(constraintType)) {
+      throw new AppError("无效的约束类型", 400);
+    }
+
+    const target = normalizeConstraintTarget(constraintType, req.body);
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    // 检查是否已存在约束
+    if (target.guest2Id) {
+      const existingConstraint = await prisma.seatingConstraint.findFirst({
+        where: {
+          OR: [
+            { guest1Id, guest2Id: target.guest2Id },
+            { guest1Id: target.guest2Id, guest2Id: guest1Id },
+          ],
+        },
+      });
+
+      if (existingConstraint) {
+        throw new AppError("这两位宾客已存在约束关系", 400);
+      }
+    } else if (target.tableId) {
+      const table = await prisma.table.findFirst({
+        where: { id: target.tableId, projectId },
+      });
+      if (!table) {
+        throw new AppError("桌位不存在", 404);
+      }
+
+      const existingConstraint = await prisma.seatingConstraint.findFirst({
+        where: {
+          guest1Id,
+          OR: [
+            { tableId: target.tableId },
+            // 每位宾客只能指定一张必须坐的桌
+            ...(constraintType === "MUST_AT_TABLE"
+              ? [{ constraintType: "MUST_AT_TABLE" as const }]
+              : []),
+          ],
+        },
+        include: { table: { select: { name: true } } },
+      });
+
+      if (existingConstraint) {
+        throw new AppError(
+          existingConstraint.tableId === target.tableId
+            ? "该宾客已存在针对这一桌的约束"
+            : `该宾客已被指定坐在 "${existingConstraint.table?.name}"`,
+          400
+        );
+      }
+    } else {
+      const existingConstraint = await prisma.seatingConstraint.findFirst({
+        where: { guest1Id, constraintType, tag: target.tag },
+      });
+
+      if (existingConstraint) {
+        throw new AppError(
+          target.tag ? "该宾客已存在这个标签的约束" : "该宾客已存在这条约束",
+          400
+        );
+      }
+    }
+
+    // 与现有约束矛盾或使同桌组超出最大桌时，需用户确认（override）后才保存
+    const issues = await checkProjectConstraints(prisma, projectId, {
+      id: null,
+      guest1Id,
+      guest2Id: target.guest2Id,
+      tableId: target.tableId,
+      constraintType,
+    });
+    if (issues.length > 0 && override !== true) {
+      throw new AppError(issues[0].message, 409, { issues });
+    }
+
+    const constraint = await prisma.seatingConstraint.create({
+      data: {
+        projectId,
+        guest1Id,
+        ...target,
+        constraintType,
+        createdById: userId,
+      },
+      include: {
+        guest1: { select: { id: true, name: true } },
+        guest2: { select: { id: true, name: true } },
+        table: { select: { id: true, name: true } },
+      },
+    });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: "CREATE_CONSTRAINT",
+      targetType: "constraint",
+      targetId: constraint.id,
+      details: {
+        constraintType,
+        guestName: constraint.guest1.name,
+        otherName: constraint.guest2?.name ?? constraint.table?.name ?? null,
+        override: issues.length > 0,
+      },
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("constraint:created", constraint);
+
+    res.status(201).json({
+      success: true,
+      message: "约束添加成功",
+      data: constraint,
+    });
+  })
+);
+
+// 检查排座约束的一致性；提供约束类型和对象时只检查这条待添加的约束
+router.post(
+  "/constraint/validate",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, guest1Id, constraintType } = req.body;
+    const userId = req.user!.id;
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new AppError("您不是该项目的成员", 403);
+    }
+
+    if (constraintType && !isConstraintType(constraintType)) {
+      throw new AppError("无效的约束类型", 400);
+    }
+
+    let proposed;
+    if (guest1Id && constraintType) {
+      const target = normalizeConstraintTarget(constraintType, req.body);
+      proposed = {
+        id: null,
+        guest1Id,
+        guest2Id: target.guest2Id,
+        tableId: target.tableId,
+        constraintType,
+      };
+    }
+    const issues = await checkProjectConstraints(prisma, projectId, proposed);
+
+    res.json({
+      success: true,
+      data: {
+        valid: issues.length === 0,
+        issues,
+      },
+    });
+  })
+);
+
+// 删除排座约束
+router.delete(
+  "/constraint/:constraintId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { constraintId } = req.params;
+    const userId = req.user!.id;
+
+    const constraint = await prisma.seatingConstraint.findUnique({
+      where: { id: constraintId },
+      include: {
+        guest1: { select: { name: true } },
+        guest2: { select: { name: true } },
+        table: { select: { name: true } },
+      },
+    });
+
+    if (!constraint) {
+      throw new AppError("约束不存在", 404);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: constraint.projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    await prisma.seatingConstraint.delete({
+      where: { id: constraintId },
+    });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: constraint.projectId,
+      userId,
+      action: "DELETE_CONSTRAINT",
+      targetType: "constraint",
+      targetId: constraintId,
+      details: {
+        constraintType: constraint.constraintType,
+        guestName: constraint.guest1.name,
+        otherName: constraint.guest2?.name ?? constraint.table?.name ?? null,
+      },
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${constraint.projectId}`).emit("constraint:deleted", {
+      constraintId,
+    });
+
+    res.json({
+      success: true,
+      message: "约束已删除",
+    });
+  })
+);
+
+// 获取项目的分组约束及当前状态
+router.get(
+  "/constraint-groups/:projectId",
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    const [groups, guests, seated] = await Promise.all([
+      prisma.constraintGroup.findMany({
+        where: { projectId },
+        include: {
+          members: { select: { guestId: true } },
+          createdBy: { select: { id: true, nickname: true, avatar: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.guest.findMany({
+        where: { projectId },
+        select: { id: true, name: true, tags: true, relationship: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.seatingAssignment.findMany({
+        where: { table: { projectId } },
+        select: { guestId: true, tableId: true },
+      }),
+    ]);
+
+    const guestById = new Map(guests.map((g) => [g.id, g] as const));
+    const tableOf = new Map(seated.map((a) => [a.guestId, a.tableId] as const));
+
+    const withStatus = groups.map(({ members, ...group }) => {
+      const guestIds = resolveGroupMembers(
+        { ...group, memberIds: members.map((m) => m.guestId) },
+        guests
+      );
+      return {
+        ...group,
+        guests: guestIds.map((id) => ({ id, name: guestById.get(id)!.name })),
+        status: getGroupStatus({ ...group, guestIds }, tableOf),
+      };
+    });
+
+    res.json({
+      success: true,
+      data: { groups: withStatus },
+    });
+  })
+);
+
+// 添加分组约束：指定宾客，或按标签/关系筛选宾客（之后新增的宾客自动纳入）
+router.post(
+  "/constraint-group",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const {
+      projectId,
+      name,
+      rule,
+      maxPerTable,
+      guestIds,
+      tag,
+      relationship,
+      override,
+    } = req.body;
+    const userId = req.user!.id;
+
+    if (!projectId || !name?.trim() || !rule) {
+      throw new AppError("请提供完整的分组信息", 400);
+    }
+
+    if (!isGroupRule(rule)) {
+      throw new AppError("无效的分组规则", 400);
+    }
+
+    if (
+      rule === "MAX_PER_TABLE" &&
+      !(Number.isInteger(maxPerTable) && maxPerTable >= 1)
+    ) {
+      throw new AppError("每桌最多人数必须是不小于 1 的整数", 400);
+    }
+
+    const hasIds = Array.isArray(guestIds) && guestIds.length > 0;
+    if ([hasIds, !!tag, !!relationship].filter(Boolean).length !== 1) {
+      throw new AppError("请指定分组成员，或选择一个标签/关系", 400);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    const guests = await prisma.guest.findMany({
+      where: { projectId },
+      select: { id: true, tags: true, relationship: true },
+      orderBy: { createdAt: "asc" },
+    });
+    const memberIds: string[] = hasIds ? Array.from(new Set(guestIds)) : [];
+    const selector = {
+      tag: tag || null,
+      relationship: relationship || null,
+      memberIds,
+    };
+    const resolved = resolveGroupMembers(selector, guests);
+
+    if (hasIds && resolved.length !== memberIds.length) {
+      throw new AppError("部分宾客不存在", 404);
+    }
+    if (hasIds && memberIds.length < 2) {
+      throw new AppError("分组至少需要两位宾客", 400);
+    }
+
+    // 与现有约束矛盾或使同桌组超出最大桌时，需用户确认（override）后才保存
+    const issues = await checkProjectConstraints(prisma, projectId, undefined, {
+      id: null,
+      name: name.trim(),
+      rule,
+      maxPerTable: rule === "MAX_PER_TABLE" ? maxPerTable : null,
+      guestIds: resolved,
+    });
+    if (issues.length > 0 && override !== true) {
+      throw new AppError(issues[0].message, 409, { issues });
+    }
+
+    const group = await prisma.constraintGroup.create({
+      data: {
+        projectId,
+        name: name.trim(),
+        rule,
+        maxPerTable: rule === "MAX_PER_TABLE" ? maxPerTable : null,
+        tag: selector.tag,
+        relationship: selector.relationship,
+        createdById: userId,
+        members: {
+          create: memberIds.map((guestId) => ({ guestId })),
+        },
+      },
+    });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: "CREATE_CONSTRAINT_GROUP",
+      targetType: "constraint",
+      targetId: group.id,
+      details: {
+        name: group.name,
+        rule,
+        guestCount: memberIds.length,
+        override: issues.length > 0,
+      },
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("constraint-group:created", group);
+
+    res.status(201).json({
+      success: true,
+      message: "分组约束添加成功",
+      data: group,
+    });
+  })
+);
+
+// 删除分组约束
+router.delete(
+  "/constraint-group/:groupId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { groupId } = req.params;
+    const userId = req.user!.id;
+
+    const group = await prisma.constraintGroup.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new AppError("分组约束不存在", 404);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: group.projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    await prisma.constraintGroup.delete({
+      where: { id: groupId },
+    });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: group.projectId,
+      userId,
+      action: "DELETE_CONSTRAINT_GROUP",
+      targetType: "constraint",
+      targetId: groupId,
+      details: { name: group.name, rule: group.rule },
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${group.projectId}`).emit("constraint-group:deleted", {
+      groupId,
+    });
+
+    res.json({
+      success: true,
+      message: "分组约束已删除",
+    });
+  })
+);
+
+// 智能排座建议
+router.post(
+  "/suggest",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, guestId } = req.body;
+
+    const guest = await prisma.guest.findUnique({
+      where: { id: guestId },
+      include: {
+        constraints1: true,
+        constraints2: true,
+      },
+    });
+
+    if (!guest) {
+      throw new AppError("宾客不存在", 404);
+    }
+
+    const [policy, groups] = await Promise.all([
+      loadSeatingPolicy(prisma, projectId),
+      loadConstraintGroups(prisma, projectId),
+    ]);
+    const allConstraints = [...guest.constraints1, ...guest.constraints2];
+    // 该宾客所在的分组
+    const guestGroups = groups.filter((g) => g.guestIds.includes(guestId));
+    // 指定桌位和标签偏好只看以该宾客为主体的约束
+    const tableRuleAt = createTableRuleChecker(guest.constraints1);
+    const tagPreferences = guest.constraints1.filter(
+      (c) => c.constraintType === "PREFER_WITH_TAG" && c.tag
+    );
+
+    // 获取所有可用桌位
+    const tables = await prisma.table.findMany({
+      where: { projectId },
+      include: {
+        assignments: {
+          include: {
+            guest: {
+              select: {
+                id: true,
+                ...SEAT_COUNT_SELECT,
+                tags: true,
+                areaId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    // 开启儿童坐儿童桌且项目有儿童桌时，儿童只推荐儿童桌，成人不推荐儿童桌
+    const routeKids =
+      policy.childrenToKidsTables && tables.some((t) => t.kind === "KIDS");
+    const isChild = guest.ageCategory !== "ADULT";
+    // 开启轮椅宾客坐无障碍桌且项目有无障碍桌时，轮椅宾客只推荐无障碍桌
+    const routeWheelchair =
+      policy.wheelchairToAccessibleTables &&
+      needsAccessibleTable(guest) &&
+      tables.some(isAccessibleTable);
+
+    const suggestions = [];
+
+    for (const table of tables) {
+      const occupiedSeats = table.assignments.reduce(
+        (sum, a) => sum + seatsTaken(a.guest, policy),
+        0
+      );
+      const availableSeats = table.capacity - occupiedSeats;
+
+      // 跳过座位不足的桌
+      if (availableSeats < seatsTaken(guest, policy)) continue;
+
+      if (routeKids && isChild !== (table.kind === "KIDS")) continue;
+      if (routeWheelchair && !isAccessibleTable(table)) continue;
+
+      // 指定了其他桌或设置了不坐这一桌
+      if (tableRuleAt(guestId, table.id)) continue;
+
+      // 检查约束
+      const tableGuestIds = table.assignments.map((a) => a.guest.id);
+      let hasConflict = false;
+      let mustTogetherMatch = 0;
+      let preferTogetherMatch = 0;
+      let preferenceBonus = 0;
+
+      for (const constraint of allConstraints) {
+        const otherGuestId =
+          constraint.guest1Id === guestId
+            ? constraint.guest2Id
+            : constraint.guest1Id;
+        if (!otherGuestId || !tableGuestIds.includes(otherGuestId)) continue;
+
+        if (constraint.constraintType === "MUST_APART") {
+          hasConflict = true;
+          break;
+        }
+
+        if (isTogetherType(constraint.constraintType)) {
+          mustTogetherMatch++;
+        }
+
+        // 软约束只影响分数
+        if (
+          constraint.constraintType === "PREFER_TOGETHER" ||
+          constraint.constraintType === "PREFER_APART"
+        ) {
+          preferenceBonus += preferenceScore(
+            constraint.constraintType,
+            constraint.weight
+          );
+          if (constraint.constraintType === "PREFER_TOGETHER") {
+            preferTogetherMatch++;
+          }
+        }
+      }
+
+      if (hasConflict) continue;
+
+      // 所在分组在该桌已达人数上限；全部同桌的分组成员按必须同桌计
+      const groupFull = guestGroups.some((group) => {
+        const limit = tableLimitOf(group);
+        if (limit === null) return false;
+        const count = group.guestIds.filter((id) => tableGuestIds.includes(id))
+          .length;
+        return count + 1 > limit;
+      });
+      if (groupFull) continue;
+      guestGroups
+        .filter((group) => group.rule === "ALL_TOGETHER")
+        .forEach((group) => {
+          mustTogetherMatch += group.guestIds.filter(
+            (id) => id !== guestId && tableGuestIds.includes(id)
+          ).length;
+        });
+
+      // 锁定的桌位、以及开启“不同区域不同桌”时其他区域的桌位不推荐
+      if (table.pinned) continue;
+      if (
+        policy.neverMixAreas &&
+        guest.areaId &&
+        table.areaId &&
+        guest.areaId !== table.areaId
+      ) {
+        continue;
+      }
+
+      // 计算推荐分数（与自动排座使用同一套排座策略）
+      const tagCounts = new Map<string, number>();
+      table.assignments.forEach((a) =>
+        a.guest.tags.forEach((tag) =>
+          tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)
+        )
+      );
+      const { score, matchingTags } = scorePlacement(
+        policy,
+        toSolverGuest(guest, policy),
+        table,
+        { seats: occupiedSeats, tagCount: (tag) => tagCounts.get(tag) || 0 }
+      );
+
+      // 桌上有其他带该标签的宾客时标签偏好满足
+      const preferredTags = tagPreferences
+        .filter((c) =>
+          table.assignments.some(
+            (a) => a.guest.id !== guestId && a.guest.tags.includes(c.tag!)
+          )
+        )
+        .map((c) => {
+          preferenceBonus += preferenceScore(c.constraintType, c.weight);
+          return c.tag!;
+        });
+
+      const sameAreaGuests = guest.areaId
+        ? table.assignments.filter((a) => a.guest.areaId === guest.areaId)
+        : [];
+
+      suggestions.push({
+        table: {
+          id: table.id,
+          name: table.name,
+          capacity: table.capacity,
+          occupiedSeats,
+          availableSeats,
+        },
+        score: score + preferenceBonus,
+        reasons: [
+          guest.constraints1.some(
+            (c) => c.constraintType === "MUST_AT_TABLE" && c.tableId === table.id
+          ) && "指定坐在这一桌",
+          matchingTags.length > 0 && `有${matchingTags.length}位相同标签的宾客`,
+          sameAreaGuests.length > 0 &&
+            `有${sameAreaGuests.length}位同区域的宾客`,
+          mustTogetherMatch > 0 && `有${mustTogetherMatch}位必须同桌的宾客`,
+          preferTogetherMatch > 0 &&
+            `有${preferTogetherMatch}位希望同桌的宾客`,
+          preferredTags.length > 0 &&
+            `有希望同桌的标签：${preferredTags.join("、")}`,
+        ].filter(Boolean),
+        mustTogetherMatch,
+      });
+    }
+
+    // 必须同桌的宾客已入座时只能去那一桌，与自动排座保持一致
+    const anchored = suggestions.filter((s) => s.mustTogetherMatch > 0);
+    const candidates = anchored.length > 0 ? anchored : suggestions;
+
+    // 按分数排序
+    candidates.sort((a, b) => b.score - a.score);
+
+    res.json({
       success: true,
-      message: "约束已删除",
+      data: candidates
+        .slice(0, 5) // 返回前5个推荐
+        .map(({ mustTogetherMatch: _mustTogetherMatch, ...s }) => s),
     });
   })
 );
 
-// 智能排座建议
+// 成组排座建议：按宾客 ID，或按标签/区域筛选未安排的宾客
 router.post(
-  "/suggest",
+  "/suggest-group",
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
-    const { projectId, guestId } = req.body;
+    const { projectId, guestIds, tag, areaId } = req.body;
+    const userId = req.user!.id;
 
-    const guest = await prisma.guest.findUnique({
-      where: { id: guestId },
-      include: {
-        constraints1: true,
-        constraints2: true,
+    if (!projectId) {
+      throw new AppError("请提供项目ID", 400);
+    }
+
+    const hasIds = Array.isArray(guestIds) && guestIds.length > 0;
+    if (!hasIds && !tag && !areaId) {
+      throw new AppError("请选择宾客，或指定标签/区域", 400);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
       },
     });
 
-    if (!guest) {
-      throw new AppError("宾客不存在", 404);
+    if (!member) {
+      throw new AppError("您不是该项目的成员", 403);
     }
 
-    // 获取所有可用桌位
+    const matched = await prisma.guest.findMany({
+      where: {
+        projectId,
+        ...(hasIds && { id: { in: guestIds } }),
+        ...(tag && { tags: { has: tag } }),
+        ...(areaId && { areaId }),
+      },
+      select: {
+        ...SOLVER_GUEST_SELECT,
+        assignment: { select: { id: true } },
+      },
+    });
+
+    // 已入座的宾客不参与推荐
+    const guests = matched.filter((g) => !g.assignment);
+
+    if (guests.length === 0) {
+      throw new AppError("没有需要安排的宾客", 400);
+    }
+
+    const [tables, constraints, policy] = await Promise.all([
+      prisma.table.findMany({
+        where: { projectId },
+        include: {
+          assignments: {
+            include: { guest: { select: SOLVER_GUEST_SELECT } },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.seatingConstraint.findMany({ where: { projectId } }),
+      loadSeatingPolicy(prisma, projectId),
+    ]);
+    const groups = await loadConstraintGroups(prisma, projectId);
+
+    const suggestions = suggestGroupSeating({
+      guests: sortGuestsForSeating(
+        guests.map((g) => toSolverGuest(g, policy))
+      ),
+      tables: tables.map((table) => ({
+        id: table.id,
+        name: table.name,
+        capacity: table.capacity,
+        areaId: table.areaId,
+        pinned: table.pinned,
+        positionX: table.positionX,
+        positionY: table.positionY,
+        occupants: table.assignments.map((a) =>
+          toSolverGuest(a.guest, policy)
+        ),
+      })),
+      constraints,
+      groups,
+      policy,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        guests: guests.map((g) => ({
+          id: g.id,
+          name: g.name,
+          headCount: g.headCount,
+        })),
+        headCount: guests.reduce((sum, g) => sum + g.headCount, 0),
+        skippedAssigned: matched.length - guests.length,
+        suggestions,
+      },
+    });
+  })
+);
+
+// 批量安排座位（成组推荐的应用、多选拖拽），全部成功或全部不生效
+router.post(
+  "/assign-batch",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, assignments } = req.body;
+    const userId = req.user!.id;
+
+    if (!projectId || !Array.isArray(assignments) || assignments.length === 0) {
+      throw new AppError("请提供要安排的宾客和桌位", 400);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有安排座位的权限", 403);
+    }
+
+    const plan = assignments as { guestId: string; tableId: string }[];
+    if (plan.some((a) => !a.guestId || !a.tableId)) {
+      throw new AppError("请选择宾客和桌位", 400);
+    }
+
+    const guestIds = plan.map((a) => a.guestId);
+    const guests = await prisma.guest.findMany({
+      where: { id: { in: guestIds }, projectId },
+    });
+    if (
+      guests.length !== new Set(guestIds).size ||
+      guests.length !== plan.length
+    ) {
+      throw new AppError("宾客不存在或重复", 400);
+    }
+    const guestById = new Map(guests.map((g) => [g.id, g] as const));
+
+    const tableNames = await runSeatingTransaction(prisma, async (tx) => {
+      await lockTables(tx, plan.map((a) => a.tableId));
+
+      const existing = await tx.seatingAssignment.findMany({
+        where: { guestId: { in: guestIds } },
+        include: { guest: { select: { name: true } } },
+      });
+      if (existing.length > 0) {
+        throw new AppError(
+          `"${existing[0].guest.name}" 已有座位安排，请先移除原座位`,
+          400
+        );
+      }
+
+      // 逐位检查并写入，后面的检查会计入本批次已安排的宾客
+      const before = await captureSeatStates(tx, guestIds);
+      const names = new Set<string>();
+      for (const { guestId, tableId } of plan) {
+        const guest = guestById.get(guestId)!;
+        const table = await assertGuestFitsTable(tx, guest, tableId);
+        if (table.projectId !== projectId) {
+          throw new AppError("桌位不存在", 404);
+        }
+        await tx.seatingAssignment.create({
+          data: { tableId, guestId, assignedById: userId },
+        });
+        names.add(table.name);
+      }
+      await arrangeTableSeats(tx, plan.map((a) => a.tableId));
+      await recordSeatingOperation(tx, {
+        projectId,
+        userId,
+        action: "ASSIGN_SEAT_BATCH",
+        summary: `将 ${plan.length} 位宾客安排到 ${Array.from(names)
+          .map((name) => `"${name}"`)
+          .join("、")}`,
+        guests: before,
+      });
+
+      // 记录活动日志
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "ASSIGN_SEAT_BATCH",
+        targetType: "seating",
+        details: {
+          guestCount: plan.length,
+          tableNames: Array.from(names),
+        },
+      });
+
+      return Array.from(names);
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("seating:assigned", {
+      assignments: plan,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `已将 ${plan.length} 位宾客安排到 ${tableNames
+        .map((name) => `"${name}"`)
+        .join("、")}`,
+    });
+  })
+);
+
+// 一键自动排座
+router.post(
+  "/auto-assign",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, strategy, timeBudgetMs, dryRun } = req.body;
+    const userId = req.user!.id;
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    if (strategy !== undefined && !["greedy", "optimize"].includes(strategy)) {
+      throw new AppError("无效的排座策略", 400);
+    }
+    const budget = parseTimeBudget(timeBudgetMs);
+
+    // 先记录当前状态的指纹，写入（或预览提交）时据此判断方案是否已失效
+    const fingerprint = await computeSeatingFingerprint(prisma, projectId);
+
+    const policy = await loadSeatingPolicy(prisma, projectId);
+
+    // 获取未安排的宾客：不出席的不安排，策略要求时只安排确认出席的
+    const unassignedGuests = await prisma.guest.findMany({
+      where: {
+        projectId,
+        assignment: null,
+        rsvpStatus: policy.confirmedOnly ? "CONFIRMED" : { not: "DECLINED" },
+      },
+      select: SOLVER_GUEST_SELECT,
+    });
+
+    // 获取所有桌位
     const tables = await prisma.table.findMany({
       where: { projectId },
       include: {
         assignments: {
-          include: {
-            guest: {
-              select: { id: true, headCount: true, tags: true, areaId: true },
-            },
-          },
+          include: { guest: { select: SOLVER_GUEST_SELECT } },
         },
       },
+      orderBy: { createdAt: "asc" },
     });
 
-    const suggestions = [];
+    // 获取项目的全部排座约束（包括已入座宾客之间的）
+    const constraints = await prisma.seatingConstraint.findMany({
+      where: { projectId },
+    });
+    const groups = await loadConstraintGroups(prisma, projectId);
+
+    // 按区域优先、标签次之的顺序构建问题，MUST_TOGETHER 的宾客合并为同桌单元
+    const problem = buildSeatingProblem({
+      guests: sortGuestsForSeating(
+        unassignedGuests.map((g) => toSolverGuest(g, policy))
+      ),
+      tables: tables.map((table) => ({
+        id: table.id,
+        name: table.name,
+        capacity: table.capacity,
+        areaId: table.areaId,
+        occupants: table.assignments.map((a) =>
+          toSolverGuest(a.guest, policy)
+        ),
+        locked: table.pinned,
+        kids: table.kind === "KIDS",
+        accessible: isAccessibleTable(table),
+      })),
+      constraints,
+      groups,
+      policy,
+    });
 
-    for (const table of tables) {
-      const occupiedSeats = table.assignments.reduce(
-        (sum, a) => sum + a.guest.headCount,
-        0
+    const solution = await solveSeating(problem, {
+      strategy,
+      timeBudgetMs: budget,
+    });
+
+    // 排座前先检查约束本身是否自相矛盾，随结果一起提示
+    const constraintIssues = await checkProjectConstraints(prisma, projectId);
+
+    const results = {
+      assigned: 0,
+      failed: 0,
+      details: [] as {
+        guestName: string;
+        members?: string[];
+        tableName?: string;
+        error?: string;
+        explanation: PlacementExplanation;
+      }[],
+      strategy: solution.strategy,
+      score: solution.evaluation.score,
+      breakdown: solution.evaluation.breakdown,
+      comparison: {
+        greedy: solution.greedy,
+        improvement: solution.evaluation.score - solution.greedy.score,
+        iterations: solution.iterations,
+      },
+      constraintIssues,
+    };
+
+    const newAssignments: {
+      tableId: string;
+      guestId: string;
+      assignedById: string;
+    }[] = [];
+
+    for (const { unit, table, error, explanation } of solution.outcomes) {
+      if (table) {
+        for (const guest of unit.members) {
+          newAssignments.push({
+            tableId: table.id,
+            guestId: guest.id,
+            assignedById: userId,
+          });
+          results.assigned++;
+          results.details.push({
+            guestName: guest.name,
+            tableName: table.name,
+            explanation,
+          });
+        }
+      } else {
+        // 同组宾客作为一条失败记录返回，列出全部成员
+        results.failed += unit.members.length;
+        results.details.push({
+          guestName: unit.members.map((m) => m.name).join("、"),
+          ...(unit.members.length > 1 && {
+            members: unit.members.map((m) => m.name),
+          }),
+          error,
+          explanation,
+        });
+      }
+    }
+
+    // 预览模式：只返回方案，不写入数据库
+    if (dryRun) {
+      const guestById = new Map(
+        unassignedGuests.map((g) => [g.id, g] as const)
       );
-      const availableSeats = table.capacity - occupiedSeats;
+      const tableById = new Map(tables.map((t) => [t.id, t] as const));
 
-      // 跳过座位不足的桌
-      if (availableSeats < guest.headCount) continue;
+      return res.json({
+        success: true,
+        message: `已生成排座预览：可安排 ${results.assigned} 人，失败 ${results.failed} 人`,
+        data: {
+          ...results,
+          plan: {
+            fingerprint,
+            assignments: newAssignments.map((a) => ({
+              guestId: a.guestId,
+              guestName: guestById.get(a.guestId)!.name,
+              headCount: guestById.get(a.guestId)!.headCount,
+              tableId: a.tableId,
+              tableName: tableById.get(a.tableId)!.name,
+            })),
+          },
+        },
+      });
+    }
 
-      // 检查约束
-      const tableGuestIds = table.assignments.map((a) => a.guest.id);
-      let hasConflict = false;
-      let mustTogetherMatch = 0;
+    // 求解期间不持锁，写入时锁定桌位并核对指纹，与手动拖拽互不覆盖
+    if (newAssignments.length > 0) {
+      await runSeatingTransaction(prisma, async (tx) => {
+        await lockProjectTables(tx, projectId);
+        await createSnapshot(tx, {
+          projectId,
+          userId,
+          name: "一键排座前自动保存",
+          auto: true,
+        });
+        const before = await captureSeatStates(
+          tx,
+          newAssignments.map((a) => a.guestId)
+        );
+        await applySeatingPlan(tx, {
+          projectId,
+          userId,
+          fingerprint,
+          assignments: newAssignments,
+        });
+        await logActivity(tx, {
+          projectId,
+          userId,
+          action: "AUTO_ASSIGN",
+          targetType: "seating",
+          details: { guestCount: newAssignments.length },
+        });
+        await recordSeatingOperation(tx, {
+          projectId,
+          userId,
+          action: "AUTO_ASSIGN",
+          summary: `一键排座安排 ${newAssignments.length} 位宾客`,
+          guests: before,
+        });
+      });
+    }
 
-      const allConstraints = [...guest.constraints1, ...guest.constraints2];
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("seating:auto-assigned", results);
 
-      for (const constraint of allConstraints) {
-        const otherGuestId =
-          constraint.guest1Id === guestId
-            ? constraint.guest2Id
-            : constraint.guest1Id;
+    res.json({
+      success: true,
+      message: `自动排座完成：成功 ${results.assigned} 人，失败 ${results.failed} 人`,
+      data: results,
+    });
+  })
+);
 
-        if (
-          constraint.constraintType === "MUST_APART" &&
-          tableGuestIds.includes(otherGuestId)
-        ) {
-          hasConflict = true;
-          break;
-        }
+// 提交预览的排座方案
+router.post(
+  "/auto-assign/commit",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, fingerprint, assignments } = req.body;
+    const userId = req.user!.id;
+
+    if (!fingerprint || !Array.isArray(assignments) || assignments.length === 0) {
+      throw new AppError("请提供要提交的排座方案", 400);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    const plan = assignments as { guestId: string; tableId: string }[];
+
+    // 预览之后有人改动过宾客、桌位、座位或约束，方案作废
+    await runSeatingTransaction(prisma, async (tx) => {
+      await lockProjectTables(tx, projectId);
+      await createSnapshot(tx, {
+        projectId,
+        userId,
+        name: "一键排座前自动保存",
+        auto: true,
+      });
+      const before = await captureSeatStates(
+        tx,
+        plan.map((a) => a.guestId)
+      );
+      await applySeatingPlan(tx, {
+        projectId,
+        userId,
+        fingerprint,
+        assignments: plan,
+      });
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "AUTO_ASSIGN",
+        targetType: "seating",
+        details: { guestCount: plan.length },
+      });
+      await recordSeatingOperation(tx, {
+        projectId,
+        userId,
+        action: "AUTO_ASSIGN",
+        summary: `一键排座安排 ${plan.length} 位宾客`,
+        guests: before,
+      });
+    });
 
-        if (
-          constraint.constraintType === "MUST_TOGETHER" &&
-          tableGuestIds.includes(otherGuestId)
-        ) {
-          mustTogetherMatch++;
-        }
-      }
+    const results = { assigned: plan.length, failed: 0, details: [] };
 
-      if (hasConflict) continue;
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("seating:auto-assigned", results);
+
+    res.json({
+      success: true,
+      message: `已应用排座方案：安排 ${plan.length} 人`,
+      data: results,
+    });
+  })
+);
 
-      // 计算推荐分数
-      let score = 0;
+// 锁定/解锁宾客的座位
+router.put(
+  "/pin/:guestId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { guestId } = req.params;
+    const { pinned } = req.body;
+    const userId = req.user!.id;
 
-      // 同标签加分
-      const tableGuestTags = table.assignments.flatMap((a) => a.guest.tags);
-      const matchingTags = guest.tags.filter((t) => tableGuestTags.includes(t));
-      score += matchingTags.length * 10;
+    const guest = await prisma.guest.findUnique({
+      where: { id: guestId },
+      include: { assignment: true },
+    });
 
-      // 同区域加分
-      const sameAreaGuests = table.assignments.filter(
-        (a) => a.guest.areaId === guest.areaId
-      );
-      score += sameAreaGuests.length * 5;
+    if (!guest) {
+      throw new AppError("宾客不存在", 404);
+    }
 
-      // 必须同桌的人在该桌加分
-      score += mustTogetherMatch * 20;
+    if (!guest.assignment) {
+      throw new AppError("该宾客尚未安排座位", 400);
+    }
 
-      // 桌子快满减分（留出余地）
-      if (availableSeats <= 2) score -= 5;
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: guest.projectId, userId },
+      },
+    });
 
-      suggestions.push({
-        table: {
-          id: table.id,
-          name: table.name,
-          capacity: table.capacity,
-          occupiedSeats,
-          availableSeats,
-        },
-        score,
-        reasons: [
-          matchingTags.length > 0 && `有${matchingTags.length}位相同标签的宾客`,
-          sameAreaGuests.length > 0 &&
-            `有${sameAreaGuests.length}位同区域的宾客`,
-          mustTogetherMatch > 0 && `有${mustTogetherMatch}位必须同桌的宾客`,
-        ].filter(Boolean),
-      });
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
     }
 
-    // 按分数排序
-    suggestions.sort((a, b) => b.score - a.score);
+    await prisma.seatingAssignment.update({
+      where: { guestId },
+      data: { pinned: !!pinned },
+    });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: guest.projectId,
+      userId,
+      action: pinned ? "PIN_SEAT" : "UNPIN_SEAT",
+      targetType: "seating",
+      targetId: guest.assignment.id,
+      details: { guestName: guest.name },
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${guest.projectId}`).emit("seating:pinned", {
+      guestId,
+      pinned: !!pinned,
+    });
 
     res.json({
       success: true,
-      data: suggestions.slice(0, 5), // 返回前5个推荐
+      message: pinned ? `已锁定 "${guest.name}" 的座位` : `已解锁 "${guest.name}" 的座位`,
     });
   })
 );
 
-// 一键自动排座
+// 重新优化现有布局：锁定的座位和整桌锁定的桌位保持不动，其余宾客（含未安排的）可重新调整
 router.post(
-  "/auto-assign",
+  "/rebalance",
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
-    const { projectId } = req.body;
+    const { projectId, timeBudgetMs, dryRun } = req.body;
     const userId = req.user!.id;
 
     // 验证权限
@@ -627,290 +2092,301 @@ router.post(
       throw new AppError("您没有操作权限", 403);
     }
 
-    // 获取未安排的宾客
-    const unassignedGuests = await prisma.guest.findMany({
-      where: {
-        projectId,
-        assignment: null,
-      },
-      include: {
-        constraints1: true,
-        constraints2: true,
-        area: true,
-      },
-    });
+    const budget = parseTimeBudget(timeBudgetMs);
 
-    // 获取所有桌位
-    const tables = await prisma.table.findMany({
-      where: { projectId },
-      include: {
-        assignments: {
-          include: {
-            guest: { select: { id: true, headCount: true, tags: true } },
+    const fingerprint = await computeSeatingFingerprint(prisma, projectId);
+
+    const [guests, tables, constraints, policy] = await Promise.all([
+      prisma.guest.findMany({
+        where: { projectId },
+        select: {
+          ...SOLVER_GUEST_SELECT,
+          assignment: { select: { tableId: true, pinned: true } },
+        },
+      }),
+      prisma.table.findMany({
+        where: { projectId },
+        include: {
+          assignments: {
+            include: { guest: { select: SOLVER_GUEST_SELECT } },
           },
         },
-        area: true,
-      },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.seatingConstraint.findMany({
+        where: { projectId },
+      }),
+      loadSeatingPolicy(prisma, projectId),
+    ]);
+    const groups = await loadConstraintGroups(prisma, projectId);
+
+    const tableById = new Map(tables.map((t) => [t.id, t] as const));
+    const isFixed = (a: { tableId: string; pinned: boolean }) =>
+      a.pinned || tableById.get(a.tableId)!.pinned;
+
+    const movableGuests = guests
+      .filter((g) => !g.assignment || !isFixed(g.assignment))
+      .map((g) => toSolverGuest(g, policy));
+    const headCountOf = new Map(guests.map((g) => [g.id, g.headCount] as const));
+    const currentTables = new Map(
+      guests
+        .filter((g) => g.assignment && !isFixed(g.assignment))
+        .map((g) => [g.id, g.assignment!.tableId] as const)
+    );
+
+    const problem = buildSeatingProblem({
+      guests: sortGuestsForSeating(movableGuests),
+      tables: tables.map((table) => ({
+        id: table.id,
+        name: table.name,
+        capacity: table.capacity,
+        areaId: table.areaId,
+        occupants: table.assignments
+          .filter((a) => isFixed(a))
+          .map((a) => toSolverGuest(a.guest, policy)),
+        locked: table.pinned,
+        kids: table.kind === "KIDS",
+        accessible: isAccessibleTable(table),
+      })),
+      constraints,
+      groups,
+      currentTables,
+      policy,
     });
 
+    const solution = await solveSeating(problem, { timeBudgetMs: budget });
+
+    // 只列出桌位发生变化的宾客，toTableId 为 null 表示撤下座位
+    const moves = solution.outcomes.flatMap(({ unit, table }) =>
+      unit.members
+        .filter((m) => (currentTables.get(m.id) || null) !== (table?.id || null))
+        .map((m) => {
+          const fromTableId = currentTables.get(m.id) || null;
+          return {
+            guestId: m.id,
+            guestName: m.name,
+            headCount: headCountOf.get(m.id)!,
+            fromTableId,
+            fromTableName: fromTableId ? tableById.get(fromTableId)!.name : null,
+            toTableId: table?.id || null,
+            toTableName: table?.name || null,
+          };
+        })
+    );
+
     const results = {
-      assigned: 0,
-      failed: 0,
-      details: [] as {
-        guestName: string;
-        tableName?: string;
-        error?: string;
-      }[],
+      moved: moves.length,
+      moves,
+      score: solution.evaluation.score,
+      breakdown: solution.evaluation.breakdown,
+      comparison: {
+        current: solution.initial,
+        improvement: solution.evaluation.score - solution.initial.score,
+        iterations: solution.iterations,
+      },
     };
 
-    // ===== 优化：先按区域分组，再按标签分组 =====
-
-    // 按区域分组
-    const areaGroups = new Map<string | null, typeof unassignedGuests>();
-
-    for (const guest of unassignedGuests) {
-      const areaKey = guest.areaId || null;
-      if (!areaGroups.has(areaKey)) {
-        areaGroups.set(areaKey, []);
-      }
-      areaGroups.get(areaKey)!.push(guest);
+    if (dryRun || moves.length === 0) {
+      return res.json({
+        success: true,
+        message:
+          moves.length === 0
+            ? "当前布局已是最优，无需调整"
+            : `已生成重新优化预览：调整 ${moves.length} 位宾客`,
+        data: { ...results, fingerprint },
+      });
     }
 
-    // 对每个区域内，再按标签分组
-    const sortedGuests: typeof unassignedGuests = [];
-
-    // 先处理有区域的宾客
-    const areasWithGuests = Array.from(areaGroups.entries())
-      .filter(([areaId]) => areaId !== null)
-      .sort((a, b) => {
-        const totalA = a[1].reduce((sum, g) => sum + g.headCount, 0);
-        const totalB = b[1].reduce((sum, g) => sum + g.headCount, 0);
-        return totalB - totalA;
+    await runSeatingTransaction(prisma, async (tx) => {
+      await lockProjectTables(tx, projectId);
+      await createSnapshot(tx, {
+        projectId,
+        userId,
+        name: "重新优化前自动保存",
+        auto: true,
       });
-
-    for (const [, guests] of areasWithGuests) {
-      // 在区域内按标签分组
-      const tagGroups = new Map<string, typeof guests>();
-      const noTagGuests: typeof guests = [];
-
-      for (const guest of guests) {
-        if (guest.tags.length === 0) {
-          noTagGuests.push(guest);
-        } else {
-          const primaryTag = guest.tags[0];
-          if (!tagGroups.has(primaryTag)) {
-            tagGroups.set(primaryTag, []);
-          }
-          tagGroups.get(primaryTag)!.push(guest);
-        }
-      }
-
-      // 按标签组大小排序
-      const sortedTagGroups = Array.from(tagGroups.entries()).sort((a, b) => {
-        const totalA = a[1].reduce((sum, g) => sum + g.headCount, 0);
-        const totalB = b[1].reduce((sum, g) => sum + g.headCount, 0);
-        return totalB - totalA;
+      const before = await captureSeatStates(
+        tx,
+        moves.map((m) => m.guestId)
+      );
+      await applySeatingPlan(tx, {
+        projectId,
+        userId,
+        fingerprint,
+        assignments: moves.map((m) => ({
+          guestId: m.guestId,
+          tableId: m.toTableId,
+        })),
       });
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "REBALANCE",
+        targetType: "seating",
+        details: { guestCount: moves.length },
+      });
+      await recordSeatingOperation(tx, {
+        projectId,
+        userId,
+        action: "REBALANCE",
+        summary: `重新优化调整 ${moves.length} 位宾客`,
+        guests: before,
+      });
+    });
 
-      // 先添加有标签的（按人数降序）
-      for (const [, tagGuests] of sortedTagGroups) {
-        tagGuests.sort((a, b) => b.headCount - a.headCount);
-        sortedGuests.push(...tagGuests);
-      }
-      // 再添加无标签的
-      noTagGuests.sort((a, b) => b.headCount - a.headCount);
-      sortedGuests.push(...noTagGuests);
-    }
-
-    // 最后处理没有区域的宾客
-    const noAreaGuests = areaGroups.get(null) || [];
-    const noAreaTagGroups = new Map<string, typeof noAreaGuests>();
-    const noAreaNoTagGuests: typeof noAreaGuests = [];
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("seating:rebalanced", {
+      moved: moves.length,
+    });
 
-    for (const guest of noAreaGuests) {
-      if (guest.tags.length === 0) {
-        noAreaNoTagGuests.push(guest);
-      } else {
-        const primaryTag = guest.tags[0];
-        if (!noAreaTagGroups.has(primaryTag)) {
-          noAreaTagGroups.set(primaryTag, []);
-        }
-        noAreaTagGroups.get(primaryTag)!.push(guest);
-      }
-    }
+    res.json({
+      success: true,
+      message: `重新优化完成：调整 ${moves.length} 位宾客`,
+      data: results,
+    });
+  })
+);
 
-    const sortedNoAreaTagGroups = Array.from(noAreaTagGroups.entries()).sort(
-      (a, b) => {
-        const totalA = a[1].reduce((sum, g) => sum + g.headCount, 0);
-        const totalB = b[1].reduce((sum, g) => sum + g.headCount, 0);
-        return totalB - totalA;
-      }
-    );
+// 提交重新优化的预览方案
+router.post(
+  "/rebalance/commit",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, fingerprint, moves } = req.body;
+    const userId = req.user!.id;
 
-    for (const [, tagGuests] of sortedNoAreaTagGroups) {
-      tagGuests.sort((a, b) => b.headCount - a.headCount);
-      sortedGuests.push(...tagGuests);
+    if (!fingerprint || !Array.isArray(moves) || moves.length === 0) {
+      throw new AppError("请提供要提交的调整方案", 400);
     }
-    noAreaNoTagGuests.sort((a, b) => b.headCount - a.headCount);
-    sortedGuests.push(...noAreaNoTagGuests);
-
-    // 辅助函数：计算桌位得分
-    const calculateTableScore = (
-      table: (typeof tables)[0],
-      guest: (typeof unassignedGuests)[0],
-      occupiedSeats: number
-    ) => {
-      let score = 0;
-      const availableSeats = table.capacity - occupiedSeats;
-
-      // 1. 区域匹配得分（权重最高）
-      const areaMatched =
-        guest.areaId && table.areaId && guest.areaId === table.areaId;
-      if (areaMatched) {
-        score += 500; // 区域匹配 +500 分
-      }
-
-      // 如果宾客有区域，但桌位区域不匹配，惩罚
-      if (guest.areaId && table.areaId && guest.areaId !== table.areaId) {
-        score -= 300; // 区域不匹配 -300 分
-      }
-
-      // 2. 标签匹配得分
-      const tableGuestTags = table.assignments.flatMap((a) => a.guest.tags);
-      const matchingTags = guest.tags.filter((t) => tableGuestTags.includes(t));
-      score += matchingTags.length * 100; // 每个匹配标签 +100 分
-
-      // 3. 如果桌位已有相同标签的宾客，额外加分
-      if (matchingTags.length > 0 && table.assignments.length > 0) {
-        score += 150; // 优先填充已有相同标签的桌位
-      }
-
-      // 4. 空间利用率得分（优先选择刚好能坐下的桌位）
-      const remainingAfter = availableSeats - guest.headCount;
-      if (remainingAfter === 0) {
-        score += 30; // 刚好坐满加分
-      } else if (remainingAfter <= 2) {
-        score += 20; // 接近坐满也加分
-      }
 
-      // 5. 空桌处理
-      if (table.assignments.length === 0) {
-        // 如果是空桌且区域匹配，可以开新桌
-        if (areaMatched) {
-          score += 50;
-        } else if (!guest.areaId && !table.areaId) {
-          // 都没有区域，中性
-          score += 0;
-        } else {
-          // 避免过早开不匹配的桌
-          score -= 100;
-        }
-      }
-
-      return score;
-    };
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
 
-    // 辅助函数：检查约束冲突
-    const hasConstraintConflict = (
-      guest: (typeof unassignedGuests)[0],
-      table: (typeof tables)[0]
-    ) => {
-      const tableGuestIds = table.assignments.map((a) => a.guest.id);
-      const allConstraints = [...guest.constraints1, ...guest.constraints2];
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
 
-      for (const constraint of allConstraints) {
-        const otherGuestId =
-          constraint.guest1Id === guest.id
-            ? constraint.guest2Id
-            : constraint.guest1Id;
+    const plan = moves as { guestId: string; toTableId: string | null }[];
 
-        if (
-          constraint.constraintType === "MUST_APART" &&
-          tableGuestIds.includes(otherGuestId)
-        ) {
-          return true;
-        }
-      }
-      return false;
-    };
+    await runSeatingTransaction(prisma, async (tx) => {
+      await lockProjectTables(tx, projectId);
+      await createSnapshot(tx, {
+        projectId,
+        userId,
+        name: "重新优化前自动保存",
+        auto: true,
+      });
+      const before = await captureSeatStates(
+        tx,
+        plan.map((m) => m.guestId)
+      );
+      await applySeatingPlan(tx, {
+        projectId,
+        userId,
+        fingerprint,
+        assignments: plan.map((m) => ({
+          guestId: m.guestId,
+          tableId: m.toTableId || null,
+        })),
+      });
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "REBALANCE",
+        targetType: "seating",
+        details: { guestCount: plan.length },
+      });
+      await recordSeatingOperation(tx, {
+        projectId,
+        userId,
+        action: "REBALANCE",
+        summary: `重新优化调整 ${plan.length} 位宾客`,
+        guests: before,
+      });
+    });
 
-    // 辅助函数：安排单个宾客
-    const assignGuest = async (guest: (typeof unassignedGuests)[0]) => {
-      let bestTable: (typeof tables)[0] | null = null;
-      let bestScore = -Infinity;
+    // 发送 Socket 事件
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("seating:rebalanced", {
+      moved: plan.length,
+    });
 
-      for (const table of tables) {
-        const occupiedSeats = table.assignments.reduce(
-          (sum, a) => sum + a.guest.headCount,
-          0
-        );
-        const availableSeats = table.capacity - occupiedSeats;
+    res.json({
+      success: true,
+      message: `已应用调整方案：调整 ${plan.length} 位宾客`,
+    });
+  })
+);
 
-        // 检查容量
-        if (availableSeats < guest.headCount) continue;
+// 获取当前成员可撤销和可重做的座位操作
+router.get(
+  "/history/:projectId",
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
 
-        // 检查约束冲突
-        if (hasConstraintConflict(guest, table)) continue;
+    res.json({
+      success: true,
+      data: await getSeatingHistory(prisma, projectId, req.user!.id),
+    });
+  })
+);
 
-        // 计算得分
-        const score = calculateTableScore(table, guest, occupiedSeats);
+// 撤销/重做当前成员的上一条座位操作，涉及的座位或桌位已被改动时返回 409
+const seatingHistoryHandler = (direction: HistoryDirection) =>
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.body;
+    const userId = req.user!.id;
 
-        if (score > bestScore) {
-          bestScore = score;
-          bestTable = table;
-        }
-      }
+    if (!projectId) {
+      throw new AppError("请选择项目", 400);
+    }
 
-      if (bestTable) {
-        await prisma.seatingAssignment.create({
-          data: {
-            tableId: bestTable.id,
-            guestId: guest.id,
-            assignedById: userId,
-          },
-        });
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
 
-        // 更新内存中的桌位数据
-        bestTable.assignments.push({
-          guest: {
-            id: guest.id,
-            headCount: guest.headCount,
-            tags: guest.tags,
-          },
-        } as any);
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
 
-        results.assigned++;
-        results.details.push({
-          guestName: guest.name,
-          tableName: bestTable.name,
-        });
-        return true;
-      } else {
-        results.failed++;
-        results.details.push({
-          guestName: guest.name,
-          error: "没有合适的桌位",
-        });
-        return false;
+    const { operation, tableIds } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        await lockProjectTables(tx, projectId);
+        return applySeatingHistory(tx, { projectId, userId, direction });
       }
-    };
-
-    // ===== 开始排座 =====
-    // 按区域优先、标签次之的顺序安排宾客
-    for (const guest of sortedGuests) {
-      await assignGuest(guest);
-    }
+    );
 
-    // 发送 Socket 事件
+    // 发送 Socket 事件，协作者据此刷新座位和桌位
     const io = req.app.get("io");
-    io.to(`project:${projectId}`).emit("seating:auto-assigned", results);
+    io.to(`project:${projectId}`).emit("seating:history-applied", {
+      direction,
+      action: operation.action,
+      summary: operation.summary,
+      tableIds,
+      user: { id: userId, nickname: req.user!.nickname },
+    });
 
     res.json({
       success: true,
-      message: `自动排座完成：成功 ${results.assigned} 人，失败 ${results.failed} 人`,
-      data: results,
+      message: `已${direction === "undo" ? "撤销" : "重做"}：${
+        operation.summary
+      }`,
+      data: await getSeatingHistory(prisma, projectId, userId),
     });
-  })
-);
+  });
+
+router.post("/undo", authenticate, seatingHistoryHandler("undo"));
+router.post("/redo", authenticate, seatingHistoryHandler("redo"));
 
 export default router;
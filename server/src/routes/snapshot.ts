@@ -0,0 +1,287 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { AppError, asyncHandler } from "../middleware/errorHandler";
+import {
+  authenticate,
+  AuthRequest,
+  isProjectAdmin,
+  isProjectMember,
+} from "../middleware/auth";
+import {
+  captureSnapshotData,
+  createSnapshot,
+  diffSnapshots,
+  findSnapshot,
+  MAX_SNAPSHOT_NAME_LENGTH,
+  restoreSnapshot,
+  SnapshotData,
+  summarizeSnapshot,
+} from "../services/seatingSnapshot";
+import {
+  lockProjectTables,
+  runSeatingTransaction,
+} from "../services/seatingTx";
+import { logActivity } from "../services/activityLog";
+
+// 座位方案快照：保存、对比和恢复项目的桌位布局与座位安排
+const router = Router();
+const prisma = new PrismaClient();
+
+// 获取项目的快照列表，按时间倒序
+router.get(
+  "/project/:projectId",
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    const snapshots = await prisma.seatingSnapshot.findMany({
+      where: { projectId },
+      include: { createdBy: { select: { id: true, nickname: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({
+      success: true,
+      data: snapshots.map(({ data, ...snapshot }) => ({
+        ...snapshot,
+        ...summarizeSnapshot(data as unknown as SnapshotData),
+      })),
+    });
+  })
+);
+
+// 把当前方案保存为快照
+router.post(
+  "/project/:projectId",
+  authenticate,
+  isProjectMember,
+  isProjectAdmin,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const { description } = req.body;
+    const userId = req.user!.id;
+
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!name) {
+      throw new AppError("请填写快照名称", 400);
+    }
+    if (name.length > MAX_SNAPSHOT_NAME_LENGTH) {
+      throw new AppError(
+        `快照名称不能超过 ${MAX_SNAPSHOT_NAME_LENGTH} 字`,
+        400
+      );
+    }
+
+    const snapshot = await prisma.$transaction(async (tx) => {
+      const snapshot = await createSnapshot(tx, {
+        projectId,
+        userId,
+        name,
+        description:
+          typeof description === "string" ? description.trim() : null,
+      });
+
+      // 记录活动日志
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: "CREATE_SNAPSHOT",
+        targetType: "snapshot",
+        targetId: snapshot.id,
+        details: { name },
+      });
+
+      return snapshot;
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `已保存快照 "${name}"`,
+      data: {
+        id: snapshot.id,
+        name: snapshot.name,
+        ...summarizeSnapshot(snapshot.data as unknown as SnapshotData),
+      },
+    });
+  })
+);
+
+// 对比两个快照，或快照与当前方案（from/to 为快照 ID 或 current，to 默认为 current）
+router.get(
+  "/project/:projectId/diff",
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+    const { from, to = "current" } = req.query;
+
+    if (typeof from !== "string" || typeof to !== "string" || !from) {
+      throw new AppError("请选择要对比的快照", 400);
+    }
+    if (from === to) {
+      throw new AppError("请选择两个不同的版本", 400);
+    }
+
+    const load = async (id: string) =>
+      id === "current"
+        ? {
+            version: { id, name: "当前方案" },
+            data: await captureSnapshotData(prisma, projectId),
+          }
+        : await findSnapshot(prisma, projectId, id).then((snapshot) => ({
+            version: {
+              id: snapshot.id,
+              name: snapshot.name,
+              createdAt: snapshot.createdAt,
+            },
+            data: snapshot.data,
+          }));
+
+    const [before, after] = await Promise.all([load(from), load(to)]);
+
+    res.json({
+      success: true,
+      data: {
+        from: before.version,
+        to: after.version,
+        ...diffSnapshots(before.data, after.data),
+      },
+    });
+  })
+);
+
+// 恢复快照：先自动保存当前方案，再在一个事务内还原桌位和座位
+router.post(
+  "/:snapshotId/restore",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { snapshotId } = req.params;
+    const userId = req.user!.id;
+
+    const existing = await prisma.seatingSnapshot.findUnique({
+      where: { id: snapshotId },
+      select: { projectId: true },
+    });
+
+    if (!existing) {
+      throw new AppError("快照不存在", 404);
+    }
+
+    const { projectId } = existing;
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    const { snapshot, result } = await runSeatingTransaction(
+      prisma,
+      async (tx) => {
+        await lockProjectTables(tx, projectId);
+        const snapshot = await findSnapshot(tx, projectId, snapshotId);
+
+        await createSnapshot(tx, {
+          projectId,
+          userId,
+          name: `恢复"${snapshot.name}"前自动保存`,
+          auto: true,
+        });
+        const result = await restoreSnapshot(
+          tx,
+          projectId,
+          snapshot.data,
+          userId
+        );
+
+        // 记录活动日志
+        await logActivity(tx, {
+          projectId,
+          userId,
+          action: "RESTORE_SNAPSHOT",
+          targetType: "snapshot",
+          targetId: snapshot.id,
+          details: {
+            name: snapshot.name,
+            guestCount: result.restored,
+            skipped: result.skipped.length,
+          },
+        });
+
+        return { snapshot, result };
+      }
+    );
+
+    // 发送 Socket 事件，协作者据此刷新桌位和座位
+    const io = req.app.get("io");
+    io.to(`project:${projectId}`).emit("snapshot:restored", {
+      snapshotId,
+      name: snapshot.name,
+      ...result,
+      user: { id: userId, nickname: req.user!.nickname },
+    });
+
+    res.json({
+      success: true,
+      message:
+        result.skipped.length > 0
+          ? `已恢复快照 "${snapshot.name}"，${result.skipped.length} 位宾客未能入座`
+          : `已恢复快照 "${snapshot.name}"`,
+      data: result,
+    });
+  })
+);
+
+// 删除快照
+router.delete(
+  "/:snapshotId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { snapshotId } = req.params;
+    const userId = req.user!.id;
+
+    const snapshot = await prisma.seatingSnapshot.findUnique({
+      where: { id: snapshotId },
+      select: { id: true, name: true, projectId: true },
+    });
+
+    if (!snapshot) {
+      throw new AppError("快照不存在", 404);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: snapshot.projectId, userId },
+      },
+    });
+
+    if (!member || member.role === "VIEWER") {
+      throw new AppError("您没有操作权限", 403);
+    }
+
+    await prisma.seatingSnapshot.delete({ where: { id: snapshotId } });
+
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId: snapshot.projectId,
+      userId,
+      action: "DELETE_SNAPSHOT",
+      targetType: "snapshot",
+      details: { name: snapshot.name },
+    });
+
+    res.json({
+      success: true,
+      message: `已删除快照 "${snapshot.name}"`,
+    });
+  })
+);
+
+export default router;
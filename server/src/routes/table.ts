@@ -3,10 +3,24 @@ import { PrismaClient } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, AuthRequest, isProjectMember, isProjectAdmin } from '../middleware/auth';
+import { lockTables, runSeatingTransaction } from '../services/seatingTx';
+import { createTableBatch } from '../services/tableBatch';
+import { arrangeTableSeats, fitSeats } from '../services/seatLayout';
+import { MAX_TABLE_CAPACITY, MIN_TABLE_CAPACITY, planTables } from '../services/tablePlanner';
+import { attendingSeatFlags, SEAT_COUNT_SELECT, seatsTaken } from '../services/companions';
+import { loadSeatingPolicy } from '../services/seatingPolicy';
+import { GUEST_NEEDS_SELECT, summarizeTableNeeds } from '../services/guestNeeds';
+import { buildCateringReport, cateringHtml, cateringWorkbook } from '../services/catering';
+import { logActivity } from '../services/activityLog';
+import { captureSeatStates, captureTableState, recordSeatingOperation } from '../services/seatingHistory';
+import { assertNotLockedByOthers } from '../services/editLocks';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// 桌位类型：普通桌、儿童桌
+const TABLE_KINDS = ['REGULAR', 'KIDS'];
+
 // 获取项目的所有桌位
 router.get(
   '/project/:projectId',
@@ -24,24 +38,53 @@ router.get(
         assignments: {
           include: {
             guest: {
-              select: { id: true, name: true, headCount: true, tags: true },
+              select: {
+                id: true,
+                name: true,
+                ...SEAT_COUNT_SELECT,
+                ageCategory: true,
+                tags: true,
+                ...GUEST_NEEDS_SELECT,
+                companions: {
+                  select: { name: true, type: true },
+                  orderBy: { position: 'asc' },
+                },
+              },
             },
           },
+          orderBy: { assignedAt: 'asc' },
         },
       },
       orderBy: { createdAt: 'asc' },
     });
 
-    // 计算每桌的已用座位数
+    const policy = await loadSeatingPolicy(prisma, projectId);
+
+    // 计算每桌的已用座位数；尚未分配座号的旧记录按入座顺序补齐座号用于展示
     const tablesWithStats = tables.map(table => {
       const occupiedSeats = table.assignments.reduce(
-        (sum, a) => sum + a.guest.headCount,
+        (sum, a) => sum + seatsTaken(a.guest, policy),
         0
       );
+      const seats = fitSeats(
+        table.capacity,
+        table.assignments.map(a => ({
+          guestId: a.guestId,
+          seatFlags: attendingSeatFlags(a.guest, policy),
+          seats: a.seats,
+        })),
+        { faceStage: new Set(), nextTo: new Map() }
+      );
       return {
         ...table,
+        assignments: table.assignments.map(a => ({
+          ...a,
+          seats: seats.get(a.guestId)!,
+        })),
         occupiedSeats,
         availableSeats: table.capacity - occupiedSeats,
+        // 每桌的饮食需求人数、过敏人数和轮椅宾客数
+        needs: summarizeTableNeeds(table.assignments.map(a => a.guest)),
       };
     });
 
@@ -52,6 +95,33 @@ router.get(
   })
 );
 
+// 导出餐饮汇总：每桌用餐人数、各菜品份数、饮食需求与餐费估算；format=html 时返回可打印的页面
+router.get(
+  '/catering/:projectId',
+  authenticate,
+  isProjectMember,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId } = req.params;
+
+    const report = await buildCateringReport(prisma, projectId);
+
+    if (req.query.format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(cateringHtml(report));
+      return;
+    }
+
+    const fileName = encodeURIComponent(`${report.projectName}_餐饮汇总.xlsx`);
+
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${fileName}`);
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    res.send(cateringWorkbook(report));
+  })
+);
+
 // 获取单个桌位详情
 router.get(
   '/:tableId',
@@ -69,7 +139,7 @@ router.get(
               select: {
                 id: true,
                 name: true,
-                headCount: true,
+                ...SEAT_COUNT_SELECT,
                 tags: true,
                 phone: true,
                 relationship: true,
@@ -87,8 +157,9 @@ router.get(
       throw new AppError('桌位不存在', 404);
     }
 
+    const policy = await loadSeatingPolicy(prisma, table.projectId);
     const occupiedSeats = table.assignments.reduce(
-      (sum, a) => sum + a.guest.headCount,
+      (sum, a) => sum + seatsTaken(a.guest, policy),
       0
     );
 
@@ -110,6 +181,7 @@ router.post(
   [
     body('projectId').notEmpty().withMessage('请选择项目'),
     body('name').notEmpty().withMessage('请输入桌位名称'),
+    body('kind').optional().isIn(TABLE_KINDS).withMessage('桌位类型不正确'),
   ],
   asyncHandler(async (req: AuthRequest, res: any) => {
     const errors = validationResult(req);
@@ -117,7 +189,7 @@ router.post(
       throw new AppError(errors.array()[0].msg, 400);
     }
 
-    const { projectId, name, capacity, positionX, positionY, tableType, tags, notes, areaId } = req.body;
+    const { projectId, name, capacity, positionX, positionY, tableType, kind, tags, notes, areaId } = req.body;
     const userId = req.user!.id;
 
     // 验证权限
@@ -145,6 +217,7 @@ router.post(
         positionX: positionX || 0,
         positionY: positionY || 0,
         tableType: tableType || 'ROUND',
+        kind: kind || 'REGULAR',
         tags: tags || [],
         notes,
         areaId,
@@ -155,15 +228,13 @@ router.post(
     });
 
     // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId,
-        userId,
-        action: 'CREATE_TABLE',
-        targetType: 'table',
-        targetId: table.id,
-        details: { tableName: name },
-      },
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: 'CREATE_TABLE',
+      targetType: 'table',
+      targetId: table.id,
+      details: { tableName: name },
     });
 
     // 发送 Socket 事件
@@ -183,12 +254,15 @@ router.post(
   '/batch',
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
-    const { projectId, count, namePrefix, capacity, areaId, startNumber = 1 } = req.body;
+    const { projectId, count, namePrefix, capacity, areaId, kind, tags, startNumber = 1 } = req.body;
     const userId = req.user!.id;
 
     if (!count || count < 1 || count > 100) {
       throw new AppError('请输入有效的桌位数量（1-100）', 400);
     }
+    if (kind !== undefined && !TABLE_KINDS.includes(kind)) {
+      throw new AppError('桌位类型不正确', 400);
+    }
 
     // 验证权限
     const member = await prisma.projectMember.findUnique({
@@ -207,21 +281,24 @@ router.post(
       select: { defaultSeatsPerTable: true },
     });
 
-    const tables = [];
-    for (let i = 0; i < count; i++) {
-      const tableNumber = startNumber + i;
-      tables.push({
-        projectId,
-        name: namePrefix ? `${namePrefix}${tableNumber}` : `第${tableNumber}桌`,
-        capacity: capacity || project?.defaultSeatsPerTable || 10,
-        positionX: (i % 5) * 150,
-        positionY: Math.floor(i / 5) * 150,
-        areaId,
-      });
-    }
+    await createTableBatch(prisma, {
+      projectId,
+      count,
+      namePrefix,
+      capacity: capacity || project?.defaultSeatsPerTable || 10,
+      areaId,
+      kind,
+      tags,
+      startNumber,
+    });
 
-    await prisma.table.createMany({
-      data: tables,
+    // 记录活动日志
+    await logActivity(prisma, {
+      projectId,
+      userId,
+      action: 'CREATE_TABLES',
+      targetType: 'table',
+      details: { count, namePrefix: namePrefix || null },
     });
 
     // 发送 Socket 事件
@@ -235,24 +312,173 @@ router.post(
   })
 );
 
+// 桌数规划：根据未入座宾客的人数、区域、标签和必须同桌的组推荐桌型与桌数
+router.post(
+  '/plan',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, capacity, largeCapacity } = req.body;
+    const userId = req.user!.id;
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new AppError('您不是该项目的成员', 403);
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { defaultSeatsPerTable: true },
+    });
+
+    const standard = Number(capacity || project?.defaultSeatsPerTable || 10);
+    const large = Number(largeCapacity || Math.min(standard + 2, MAX_TABLE_CAPACITY));
+    const validSize = (size: number) =>
+      Number.isInteger(size) && size >= MIN_TABLE_CAPACITY && size <= MAX_TABLE_CAPACITY;
+    if (!validSize(standard) || !validSize(large) || large < standard) {
+      throw new AppError(
+        `桌型座位数须在 ${MIN_TABLE_CAPACITY}-${MAX_TABLE_CAPACITY} 之间，主桌不小于标准桌`,
+        400
+      );
+    }
+
+    const [guests, tables, areas, constraints, policy] = await Promise.all([
+      prisma.guest.findMany({
+        where: { projectId, assignment: null },
+        select: { id: true, name: true, ...SEAT_COUNT_SELECT, tags: true, areaId: true },
+      }),
+      prisma.table.findMany({
+        where: { projectId },
+        include: {
+          assignments: { include: { guest: { select: SEAT_COUNT_SELECT } } },
+        },
+      }),
+      prisma.area.findMany({
+        where: { projectId },
+        select: { id: true, name: true },
+      }),
+      prisma.seatingConstraint.findMany({ where: { projectId } }),
+      loadSeatingPolicy(prisma, projectId),
+    ]);
+
+    // 按项目规则下占用的座位数规划（不单独占座的婴儿不计）
+    const plan = planTables({
+      guests: guests.map(guest => ({ ...guest, headCount: seatsTaken(guest, policy) })),
+      tables: tables.map(table => ({
+        capacity: table.capacity,
+        areaId: table.areaId,
+        pinned: table.pinned,
+        occupiedSeats: table.assignments.reduce((sum, a) => sum + seatsTaken(a.guest, policy), 0),
+      })),
+      areas,
+      constraints,
+      capacity: standard,
+      largeCapacity: large,
+    });
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  })
+);
+
+// 按桌数规划一键创建桌位，编号接在已有桌位之后
+router.post(
+  '/plan/apply',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: any) => {
+    const { projectId, items } = req.body;
+    const userId = req.user!.id;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new AppError('请提供要创建的桌位', 400);
+    }
+
+    const plan = items as Array<{ areaId?: string | null; capacity: number; count: number }>;
+    const total = plan.reduce((sum, i) => sum + Number(i.count), 0);
+    const invalid = plan.some(
+      i =>
+        !Number.isInteger(i.count) ||
+        i.count < 1 ||
+        !Number.isInteger(i.capacity) ||
+        i.capacity < MIN_TABLE_CAPACITY ||
+        i.capacity > MAX_TABLE_CAPACITY
+    );
+    if (invalid || total > 100) {
+      throw new AppError('请输入有效的桌位数量（1-100）和座位数', 400);
+    }
+
+    // 验证权限
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      throw new AppError('您没有创建桌位的权限', 403);
+    }
+
+    const areaIds = Array.from(new Set(plan.map(i => i.areaId).filter(Boolean))) as string[];
+    const areaCount = await prisma.area.count({
+      where: { id: { in: areaIds }, projectId },
+    });
+    if (areaCount !== areaIds.length) {
+      throw new AppError('区域不存在', 400);
+    }
+
+    await prisma.$transaction(async tx => {
+      let existing = await tx.table.count({ where: { projectId } });
+      for (const item of plan) {
+        await createTableBatch(tx, {
+          projectId,
+          count: item.count,
+          capacity: item.capacity,
+          areaId: item.areaId || null,
+          startNumber: existing + 1,
+          positionOffset: existing,
+        });
+        existing += item.count;
+      }
+
+      // 记录活动日志
+      await logActivity(tx, {
+        projectId,
+        userId,
+        action: 'CREATE_TABLE_PLAN',
+        targetType: 'table',
+        details: { count: total, items: plan.map(i => `${i.count}×${i.capacity}`) },
+      });
+    });
+
+    // 发送 Socket 事件
+    const io = req.app.get('io');
+    io.to(`project:${projectId}`).emit('tables:created', { count: total });
+
+    res.status(201).json({
+      success: true,
+      message: `成功创建 ${total} 个桌位`,
+    });
+  })
+);
+
 // 更新桌位
 router.put(
   '/:tableId',
   authenticate,
   asyncHandler(async (req: AuthRequest, res: any) => {
     const { tableId } = req.params;
-    const { name, capacity, positionX, positionY, tableType, tags, notes, areaId } = req.body;
+    const { name, capacity, positionX, positionY, tableType, kind, tags, notes, areaId, pinned } = req.body;
     const userId = req.user!.id;
 
     const table = await prisma.table.findUnique({
       where: { id: tableId },
-      include: {
-        assignments: {
-          include: {
-            guest: { select: { headCount: true } },
-          },
-        },
-      },
     });
 
     if (!table) {
@@ -270,41 +496,96 @@ router.put(
       throw new AppError('您没有编辑权限', 403);
     }
 
-    // 如果修改容量，检查是否会超员
-    if (capacity !== undefined) {
-      const currentOccupied = table.assignments.reduce(
-        (sum, a) => sum + a.guest.headCount,
-        0
-      );
-      if (capacity < currentOccupied) {
-        throw new AppError(`该桌已有 ${currentOccupied} 人，容量不能少于此数`, 400);
-      }
+    // 其他成员正在编辑该桌位时拒绝修改
+    assertNotLockedByOthers(table.projectId, 'table', tableId, userId);
+
+    if (kind !== undefined && !TABLE_KINDS.includes(kind)) {
+      throw new AppError('桌位类型不正确', 400);
     }
 
-    const updatedTable = await prisma.table.update({
-      where: { id: tableId },
-      data: {
-        ...(name && { name }),
-        ...(capacity !== undefined && { capacity }),
-        ...(positionX !== undefined && { positionX }),
-        ...(positionY !== undefined && { positionY }),
-        ...(tableType && { tableType }),
-        ...(tags !== undefined && { tags }),
-        ...(notes !== undefined && { notes }),
-        ...(areaId !== undefined && { areaId }),
-      },
-      include: {
-        area: true,
-        assignments: {
-          include: {
-            guest: {
-              select: { id: true, name: true, headCount: true, tags: true },
+    const updatedTable = await runSeatingTransaction(prisma, async (tx) => {
+      // 锁定桌位后再核对人数，避免与同时进行的排座交错
+      await lockTables(tx, [tableId]);
+
+      // 记录修改前的桌位和座号，用于撤销（容量变小可能让部分宾客换座号）
+      const before = await captureTableState(tx, tableId);
+      const seated = await tx.seatingAssignment.findMany({ where: { tableId }, select: { guestId: true } });
+      const seatsBefore = await captureSeatStates(tx, seated.map(a => a.guestId));
+
+      // 如果修改容量，检查是否会超员
+      if (capacity !== undefined) {
+        const assignments = await tx.seatingAssignment.findMany({
+          where: { tableId },
+          include: { guest: { select: SEAT_COUNT_SELECT } },
+        });
+        const policy = await loadSeatingPolicy(tx, table.projectId);
+        const currentOccupied = assignments.reduce(
+          (sum, a) => sum + seatsTaken(a.guest, policy),
+          0
+        );
+        if (capacity < currentOccupied) {
+          throw new AppError(`该桌已占用 ${currentOccupied} 个座位，容量不能少于此数`, 400);
+        }
+      }
+
+      await tx.table.update({
+        where: { id: tableId },
+        data: {
+          ...(name && { name }),
+          ...(capacity !== undefined && { capacity }),
+          ...(positionX !== undefined && { positionX }),
+          ...(positionY !== undefined && { positionY }),
+          ...(tableType && { tableType }),
+          ...(kind && { kind }),
+          ...(tags !== undefined && { tags }),
+          ...(notes !== undefined && { notes }),
+          ...(areaId !== undefined && { areaId }),
+          ...(pinned !== undefined && { pinned: !!pinned }),
+        },
+      });
+      // 容量变小后超出范围的座号重新分配
+      if (capacity !== undefined) {
+        await arrangeTableSeats(tx, [tableId]);
+      }
+      await recordSeatingOperation(tx, {
+        projectId: table.projectId,
+        userId,
+        action: 'UPDATE_TABLE',
+        summary: `修改桌位 "${before.name}"`,
+        guests: seatsBefore,
+        table: before,
+      });
+
+      return tx.table.findUniqueOrThrow({
+        where: { id: tableId },
+        include: {
+          area: true,
+          assignments: {
+            include: {
+              guest: {
+                select: { id: true, name: true, headCount: true, tags: true },
+              },
             },
           },
         },
-      },
+      });
     });
 
+    // 记录活动日志，只拖动位置时不记录
+    const fields = Object.keys(req.body).filter(
+      key => req.body[key] !== undefined && !['positionX', 'positionY'].includes(key)
+    );
+    if (fields.length > 0) {
+      await logActivity(prisma, {
+        projectId: table.projectId,
+        userId,
+        action: 'UPDATE_TABLE',
+        targetType: 'table',
+        targetId: tableId,
+        details: { tableName: updatedTable.name, fields },
+      });
+    }
+
     // 发送 Socket 事件
     const io = req.app.get('io');
     io.to(`project:${table.projectId}`).emit('table:updated', updatedTable);
@@ -340,6 +621,11 @@ router.put(
       throw new AppError('您没有编辑权限', 403);
     }
 
+    // 其他成员正在编辑其中的桌位时整批拒绝
+    positions.forEach((pos: { id: string }) =>
+      assertNotLockedByOthers(projectId, 'table', pos.id, userId)
+    );
+
     // 批量更新位置
     await prisma.$transaction(
       positions.map((pos: { id: string; positionX: number; positionY: number }) =>
@@ -394,6 +680,9 @@ router.delete(
       throw new AppError('您没有删除权限', 403);
     }
 
+    // 其他成员正在编辑该桌位时拒绝删除
+    assertNotLockedByOthers(table.projectId, 'table', tableId, userId);
+
     // 检查是否有宾客
     if (table._count.assignments > 0) {
       throw new AppError('该桌位已有宾客，请先移除宾客后再删除', 400);
@@ -404,15 +693,13 @@ router.delete(
     });
 
     // 记录活动日志
-    await prisma.activityLog.create({
-      data: {
-        projectId: table.projectId,
-        userId,
-        action: 'DELETE_TABLE',
-        targetType: 'table',
-        targetId: tableId,
-        details: { tableName: table.name },
-      },
+    await logActivity(prisma, {
+      projectId: table.projectId,
+      userId,
+      action: 'DELETE_TABLE',
+      targetType: 'table',
+      targetId: tableId,
+      details: { tableName: table.name },
     });
 
     // 发送 Socket 事件
@@ -0,0 +1,117 @@
+// 操作日志：写入日志（请求成功后实时推送给项目成员），以及按条件查询项目的操作记录
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { queueActivity } from "../middleware/activity";
+
+// 日志附带的操作者信息
+export const ACTIVITY_INCLUDE = {
+  user: { select: { id: true, nickname: true, avatar: true } },
+} as const;
+
+export interface ActivityInput {
+  projectId: string;
+  // 宾客通过回复链接等无登录用户的操作为 null
+  userId: string | null;
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  details?: Prisma.InputJsonValue;
+}
+
+/**
+ * 写入一条操作日志，可在事务中调用；请求成功响应后推送到项目房间
+ */
+export const logActivity = async (
+  db: Prisma.TransactionClient,
+  data: ActivityInput
+) => {
+  const log = await db.activityLog.create({ data, select: { id: true } });
+  queueActivity(log.id);
+  return log;
+};
+
+// 每页条数上限
+const MAX_PAGE_SIZE = 100;
+
+const parseDate = (value: unknown, label: string) => {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new AppError(`${label}格式不正确`, 400);
+  }
+  return date;
+};
+
+/**
+ * 按查询参数构造筛选条件：操作者、操作类型（可用逗号分隔多个）、对象类型与对象、时间范围
+ */
+export const activityFilter = (
+  projectId: string,
+  query: Record<string, unknown>
+): Prisma.ActivityLogWhereInput => {
+  const { userId, action, targetType, targetId, from, to } = query;
+  const since = parseDate(from, "开始时间");
+  const until = parseDate(to, "结束时间");
+  if (since && until && since > until) {
+    throw new AppError("开始时间不能晚于结束时间", 400);
+  }
+  const actions = action
+    ? String(action)
+        .split(",")
+        .map((a) => a.trim())
+        .filter(Boolean)
+    : [];
+
+  return {
+    projectId,
+    // userId=none 查询宾客通过回复链接等无登录用户的操作
+    ...(typeof userId === "string" &&
+      userId && { userId: userId === "none" ? null : userId }),
+    ...(actions.length > 0 && { action: { in: actions } }),
+    ...(typeof targetType === "string" && targetType && { targetType }),
+    ...(typeof targetId === "string" && targetId && { targetId }),
+    ...((since || until) && {
+      createdAt: {
+        ...(since && { gte: since }),
+        ...(until && { lte: until }),
+      },
+    }),
+  };
+};
+
+/**
+ * 分页查询操作记录，按时间倒序
+ */
+export const listActivities = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  query: Record<string, unknown>
+) => {
+  const where = activityFilter(projectId, query);
+  const page = Math.max(1, parseInt(String(query.page ?? "1")) || 1);
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(String(query.limit ?? "20")) || 20)
+  );
+
+  const [activities, total] = await Promise.all([
+    db.activityLog.findMany({
+      where,
+      include: ACTIVITY_INCLUDE,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    db.activityLog.count({ where }),
+  ]);
+
+  return {
+    activities,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
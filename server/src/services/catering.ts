@@ -0,0 +1,398 @@
+// 餐饮汇总：按桌统计用餐人数、各菜品份数和饮食需求，估算餐费，导出 Excel 或可打印的 HTML
+// 份数、人数和费用只计确认出席的宾客（按确认人数）；未回复和待定的宾客单列为待确认人数，
+// 不计入份数和费用，便于餐饮方按确认人数备餐、另行预留；过敏和特殊饮食名单仍列出待确认的宾客
+import { Prisma } from "@prisma/client";
+import * as XLSX from "xlsx";
+import { AgeCategoryValue, attendingParty, partyAgeCounts } from "./companions";
+import {
+  DIETARY_NEEDS,
+  DIETARY_NEED_LABELS,
+  DietaryNeedValue,
+  formatDietaryNeeds,
+  GUEST_NEEDS_SELECT,
+  summarizeTableNeeds,
+  TableNeedsSummary,
+} from "./guestNeeds";
+import { loadMenu, MEAL_KIND_LABELS, MenuOptionRecord, resolvePartyMeals } from "./menu";
+
+const CATERING_GUEST_SELECT = {
+  name: true,
+  headCount: true,
+  ageCategory: true,
+  rsvpStatus: true,
+  confirmedCount: true,
+  mealChoiceId: true,
+  ...GUEST_NEEDS_SELECT,
+  companions: {
+    select: { name: true, type: true, notes: true, mealChoiceId: true },
+    orderBy: { position: "asc" as const },
+  },
+} as const;
+
+type CateringGuest = Prisma.GuestGetPayload<{ select: typeof CATERING_GUEST_SELECT }>;
+
+export interface CateringRow {
+  tableName: string;
+  areaName: string;
+  kidsTable: boolean;
+  ages: Record<AgeCategoryValue, number>;
+  // 各菜品的份数（按菜品 id）
+  meals: Record<string, number>;
+  // 需用餐但菜单中没有可用菜品的人数
+  unselected: number;
+  // 尚未确认出席（未回复或待定）的人数，不计入以上各项
+  pending: number;
+  needs: TableNeedsSummary;
+  // 过敏的宾客，如"张三：花生"
+  allergies: string[];
+}
+
+export interface CateringReport {
+  projectName: string;
+  menu: MenuOptionRecord[];
+  rows: CateringRow[];
+  total: CateringRow;
+  // 项目中有人需要的饮食需求
+  usedNeeds: DietaryNeedValue[];
+  // 需要单独准备的人：有饮食需求、过敏或饮食备注的宾客，以及填写了备注的随行人员
+  specials: Array<{
+    tableName: string;
+    name: string;
+    dietaryNeeds: string;
+    allergies: string;
+    notes: string;
+  }>;
+  costs: Array<{ option: MenuOptionRecord; count: number; subtotal: number }>;
+  totalCost: number;
+}
+
+// 未入座宾客汇总在最后一行
+const UNSEATED_ROW_NAME = "未安排座位";
+
+const isConfirmed = (guest: CateringGuest) => guest.rsvpStatus === "CONFIRMED";
+
+// 待确认的宾客在名单中注明
+const listedName = (guest: CateringGuest) =>
+  isConfirmed(guest) ? guest.name : `${guest.name}（待确认）`;
+
+const summarizeGuests = (
+  tableName: string,
+  areaName: string,
+  kidsTable: boolean,
+  guests: CateringGuest[],
+  menu: MenuOptionRecord[]
+): CateringRow => {
+  const confirmed = guests.filter(isConfirmed);
+  const row: CateringRow = {
+    tableName,
+    areaName,
+    kidsTable,
+    ages: { ADULT: 0, CHILD: 0, INFANT: 0 },
+    meals: {},
+    unselected: 0,
+    // 待定的宾客填写了人数时按填写的人数，否则按邀请人数
+    pending: guests
+      .filter((g) => !isConfirmed(g))
+      .reduce((sum, g) => sum + (g.confirmedCount ?? g.headCount), 0),
+    needs: summarizeTableNeeds(confirmed),
+    allergies: guests
+      .filter((g) => g.allergies)
+      .map((g) => `${listedName(g)}：${g.allergies}`),
+  };
+  for (const guest of confirmed) {
+    const ages = partyAgeCounts(attendingParty(guest));
+    (Object.keys(ages) as AgeCategoryValue[]).forEach(
+      (age) => (row.ages[age] += ages[age])
+    );
+    for (const meal of resolvePartyMeals(guest, menu)) {
+      if (meal.status === "meal") {
+        row.meals[meal.option.id] = (row.meals[meal.option.id] || 0) + 1;
+      } else if (meal.status === "unselected") {
+        row.unselected++;
+      }
+    }
+  }
+  return row;
+};
+
+// 费用估算中单列待确认的人数
+const PENDING_COST_LABEL = "待确认人数（未计入合计）";
+
+const mealCount = (row: CateringRow) =>
+  Object.values(row.meals).reduce((sum, n) => sum + n, 0) + row.unselected;
+
+/**
+ * 生成项目的餐饮汇总：桌位按编号排序（第2桌在第10桌之前），不出席的宾客不计，
+ * 未确认出席的宾客只计入待确认人数
+ */
+export const buildCateringReport = async (
+  db: Prisma.TransactionClient,
+  projectId: string
+): Promise<CateringReport> => {
+  const [project, menu, tables, unseated] = await Promise.all([
+    db.project.findUnique({ where: { id: projectId }, select: { name: true } }),
+    loadMenu(db, projectId),
+    db.table.findMany({
+      where: { projectId },
+      include: {
+        area: { select: { name: true } },
+        assignments: {
+          where: { guest: { rsvpStatus: { not: "DECLINED" } } },
+          include: { guest: { select: CATERING_GUEST_SELECT } },
+          orderBy: { assignedAt: "asc" },
+        },
+      },
+    }),
+    db.guest.findMany({
+      where: { projectId, assignment: null, rsvpStatus: { not: "DECLINED" } },
+      select: CATERING_GUEST_SELECT,
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  tables.sort((a, b) =>
+    a.name.localeCompare(b.name, "zh-CN", { numeric: true })
+  );
+  const seated = tables.map((table) => ({
+    tableName: table.name,
+    guests: table.assignments.map((a) => a.guest),
+  }));
+  const rows = tables.map((table, i) =>
+    summarizeGuests(
+      table.name,
+      table.area?.name || "",
+      table.kind === "KIDS",
+      seated[i].guests,
+      menu
+    )
+  );
+  if (unseated.length > 0) {
+    rows.push(summarizeGuests(UNSEATED_ROW_NAME, "", false, unseated, menu));
+    seated.push({ tableName: UNSEATED_ROW_NAME, guests: unseated });
+  }
+
+  const total = summarizeGuests(
+    "合计",
+    "",
+    false,
+    seated.flatMap((s) => s.guests),
+    menu
+  );
+  total.allergies = [];
+
+  const costs = menu.map((option) => {
+    const count = total.meals[option.id] || 0;
+    return { option, count, subtotal: count * option.price };
+  });
+
+  return {
+    projectName: project?.name || "婚礼",
+    menu,
+    rows,
+    total,
+    usedNeeds: DIETARY_NEEDS.filter((need) => total.needs.dietary[need]),
+    specials: seated.flatMap(({ tableName, guests }) =>
+      guests.flatMap((guest) => [
+        ...(guest.dietaryNeeds.length > 0 || guest.allergies || guest.dietaryNotes
+          ? [
+              {
+                tableName,
+                name: listedName(guest),
+                dietaryNeeds: formatDietaryNeeds(guest.dietaryNeeds),
+                allergies: guest.allergies || "",
+                notes: guest.dietaryNotes || "",
+              },
+            ]
+          : []),
+        ...guest.companions
+          .filter((c) => c.notes)
+          .map((c) => ({
+            tableName,
+            name: `${c.name}（${listedName(guest)} 同行）`,
+            dietaryNeeds: "",
+            allergies: "",
+            notes: c.notes!,
+          })),
+      ])
+    ),
+    costs,
+    totalCost: costs.reduce((sum, c) => sum + c.subtotal, 0),
+  };
+};
+
+// 菜品列名，儿童餐注明类型
+const optionTitle = (option: MenuOptionRecord) =>
+  option.kind === "CHILD" ? `${option.name}（${MEAL_KIND_LABELS.CHILD}）` : option.name;
+
+// 每桌一行的列：桌位、人数、各菜品份数、饮食需求人数、过敏和轮椅
+const tableColumns = (report: CateringReport) => {
+  const showUnselected = report.total.unselected > 0;
+  const showPending = report.total.pending > 0;
+  return [
+    { title: "桌位", value: (r: CateringRow) => r.tableName, wch: 12 },
+    { title: "区域", value: (r: CateringRow) => r.areaName, wch: 10 },
+    {
+      title: "桌型",
+      value: (r: CateringRow) =>
+        r === report.total || r.tableName === UNSEATED_ROW_NAME
+          ? ""
+          : r.kidsTable
+            ? "儿童桌"
+            : "普通桌",
+      wch: 8,
+    },
+    { title: "用餐人数", value: mealCount, wch: 8 },
+    { title: "成人", value: (r: CateringRow) => r.ages.ADULT, wch: 6 },
+    { title: "儿童", value: (r: CateringRow) => r.ages.CHILD, wch: 6 },
+    { title: "婴儿", value: (r: CateringRow) => r.ages.INFANT, wch: 6 },
+    ...report.menu.map((option) => ({
+      title: optionTitle(option),
+      value: (r: CateringRow) => r.meals[option.id] || 0,
+      wch: 12,
+    })),
+    ...(showUnselected
+      ? [{ title: "未选菜品", value: (r: CateringRow) => r.unselected, wch: 8 }]
+      : []),
+    ...(showPending
+      ? [{ title: "待确认人数", value: (r: CateringRow) => r.pending, wch: 10 }]
+      : []),
+    ...report.usedNeeds.map((need) => ({
+      title: DIETARY_NEED_LABELS[need],
+      value: (r: CateringRow) => r.needs.dietary[need] || 0,
+      wch: 8,
+    })),
+    { title: "过敏", value: (r: CateringRow) => r.allergies.join("；"), wch: 30 },
+    { title: "轮椅", value: (r: CateringRow) => r.needs.wheelchairs || "", wch: 6 },
+  ];
+};
+
+/**
+ * 导出 Excel：每桌菜品统计、费用估算、特殊饮食名单
+ */
+export const cateringWorkbook = (report: CateringReport) => {
+  const columns = tableColumns(report);
+  const tableSheet = XLSX.utils.aoa_to_sheet([
+    columns.map((c) => c.title),
+    ...[...report.rows, report.total].map((row) => columns.map((c) => c.value(row))),
+  ]);
+  tableSheet["!cols"] = columns.map((c) => ({ wch: c.wch }));
+
+  const costSheet = XLSX.utils.aoa_to_sheet([
+    ["菜品", "类型", "单价（元）", "份数", "小计（元）"],
+    ...report.costs.map(({ option, count, subtotal }) => [
+      option.name,
+      MEAL_KIND_LABELS[option.kind],
+      option.price,
+      count,
+      subtotal,
+    ]),
+    ...(report.total.unselected > 0
+      ? [["未选菜品", "", "", report.total.unselected, ""]]
+      : []),
+    ...(report.total.pending > 0
+      ? [[PENDING_COST_LABEL, "", "", report.total.pending, ""]]
+      : []),
+    ["合计", "", "", mealCount(report.total), report.totalCost],
+  ]);
+  costSheet["!cols"] = [{ wch: 16 }, { wch: 8 }, { wch: 10 }, { wch: 8 }, { wch: 12 }];
+
+  const specialSheet = XLSX.utils.aoa_to_sheet([
+    ["桌位", "姓名", "饮食需求", "过敏", "备注"],
+    ...report.specials.map((s) => [s.tableName, s.name, s.dietaryNeeds, s.allergies, s.notes]),
+  ]);
+  specialSheet["!cols"] = [{ wch: 12 }, { wch: 20 }, { wch: 16 }, { wch: 16 }, { wch: 30 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, tableSheet, "每桌餐饮汇总");
+  XLSX.utils.book_append_sheet(workbook, costSheet, "费用估算");
+  XLSX.utils.book_append_sheet(workbook, specialSheet, "特殊饮食名单");
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value).replace(
+    /[&<>"']/g,
+    (ch) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch]!
+  );
+
+const htmlTable = (head: unknown[], body: unknown[][], foot?: unknown[]) =>
+  `<table><thead><tr>${head.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead>` +
+  `<tbody>${body
+    .map((row) => `<tr>${row.map((v) => `<td>${escapeHtml(v)}</td>`).join("")}</tr>`)
+    .join("")}</tbody>` +
+  (foot ? `<tfoot><tr>${foot.map((v) => `<td>${escapeHtml(v)}</td>`).join("")}</tr></tfoot>` : "") +
+  `</table>`;
+
+/**
+ * 可打印的 HTML 版本，在浏览器中打印或另存为 PDF
+ */
+export const cateringHtml = (report: CateringReport) => {
+  const columns = tableColumns(report);
+  const title = `${report.projectName} 餐饮汇总`;
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; margin: 24px; color: #333; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .meta { color: #888; font-size: 12px; margin-bottom: 16px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: center; }
+  th { background: #f5f5f5; }
+  tfoot td { font-weight: bold; background: #fafafa; }
+  .print { margin-bottom: 16px; }
+  @media print {
+    .print { display: none; }
+    body { margin: 0; }
+    tr { page-break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">打印 / 另存为 PDF</button>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">生成时间：${escapeHtml(new Date().toLocaleString("zh-CN"))}，只统计确认出席的宾客，未回复和待定的宾客列为待确认人数</div>
+<h2>每桌餐饮汇总</h2>
+${htmlTable(
+  columns.map((c) => c.title),
+  report.rows.map((row) => columns.map((c) => c.value(row))),
+  columns.map((c) => c.value(report.total))
+)}
+<h2>费用估算</h2>
+${htmlTable(
+  ["菜品", "类型", "单价（元）", "份数", "小计（元）"],
+  [
+    ...report.costs.map(({ option, count, subtotal }) => [
+      option.name,
+      MEAL_KIND_LABELS[option.kind],
+      option.price,
+      count,
+      subtotal,
+    ]),
+    ...(report.total.unselected > 0
+      ? [["未选菜品", "", "", report.total.unselected, ""]]
+      : []),
+    ...(report.total.pending > 0
+      ? [[PENDING_COST_LABEL, "", "", report.total.pending, ""]]
+      : []),
+  ],
+  ["合计", "", "", mealCount(report.total), report.totalCost]
+)}
+${
+  report.specials.length > 0
+    ? `<h2>特殊饮食名单</h2>
+${htmlTable(
+  ["桌位", "姓名", "饮食需求", "过敏", "备注"],
+  report.specials.map((s) => [s.tableName, s.name, s.dietaryNeeds, s.allergies, s.notes])
+)}`
+    : ""
+}
+</body>
+</html>`;
+};
@@ -0,0 +1,281 @@
+// 随行人员：宾客人数中除本人以外的人，可记录姓名、类型（成人/儿童/婴儿）和备注
+// 以及按项目规则换算一行人占用的座位数
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { loadSeatingPolicy } from "./seatingPolicy";
+
+export const AGE_CATEGORIES = ["ADULT", "CHILD", "INFANT"] as const;
+
+export type AgeCategoryValue = (typeof AGE_CATEGORIES)[number];
+
+export const AGE_CATEGORY_LABELS: Record<AgeCategoryValue, string> = {
+  ADULT: "成人",
+  CHILD: "儿童",
+  INFANT: "婴儿",
+};
+
+export interface CompanionInput {
+  name: string;
+  type: AgeCategoryValue;
+  notes: string | null;
+  // 所选菜品，由调用方核对属于项目菜单
+  mealChoiceId: string | null;
+  position: number;
+}
+
+// 查询宾客时按顺序带出随行人员
+export const companionsInclude = {
+  orderBy: { position: "asc" as const },
+};
+
+export const isAgeCategory = (value: unknown): value is AgeCategoryValue =>
+  AGE_CATEGORIES.includes(value as AgeCategoryValue);
+
+// Excel 中的年龄段可写中文或英文
+export const parseAgeCategory = (text: string) =>
+  AGE_CATEGORIES.find(
+    (t) => t === text.toUpperCase() || AGE_CATEGORY_LABELS[t] === text
+  ) ?? null;
+
+// 随行人员姓名和备注的长度上限，备注与宾客的过敏、饮食备注一致
+export const MAX_COMPANION_NAME_LENGTH = 50;
+export const MAX_COMPANION_NOTES_LENGTH = 200;
+
+/**
+ * 校验请求中的随行人员列表，按顺序编号（position 从 1 起）
+ * 随行人员不能多于人数减去宾客本人
+ */
+export const normalizeCompanions = (
+  raw: unknown,
+  headCount: number
+): CompanionInput[] => {
+  if (!Array.isArray(raw)) {
+    throw new AppError("随行人员格式不正确", 400);
+  }
+
+  const companions = raw.map((item, index) => {
+    const name = typeof item?.name === "string" ? item.name.trim() : "";
+    if (!name) {
+      throw new AppError(`请填写第 ${index + 1} 位随行人员的姓名`, 400);
+    }
+    if (name.length > MAX_COMPANION_NAME_LENGTH) {
+      throw new AppError(
+        `第 ${index + 1} 位随行人员的姓名不能超过 ${MAX_COMPANION_NAME_LENGTH} 字`,
+        400
+      );
+    }
+    const type = item.type ?? "ADULT";
+    if (!isAgeCategory(type)) {
+      throw new AppError(`随行人员 "${name}" 的类型不正确`, 400);
+    }
+    const notes =
+      typeof item.notes === "string" && item.notes.trim()
+        ? item.notes.trim()
+        : null;
+    if (notes && notes.length > MAX_COMPANION_NOTES_LENGTH) {
+      throw new AppError(
+        `随行人员 "${name}" 的备注不能超过 ${MAX_COMPANION_NOTES_LENGTH} 字`,
+        400
+      );
+    }
+    const mealChoiceId =
+      typeof item.mealChoiceId === "string" && item.mealChoiceId
+        ? item.mealChoiceId
+        : null;
+    return { name, type, notes, mealChoiceId, position: index + 1 };
+  });
+
+  if (companions.length > headCount - 1) {
+    throw new AppError(
+      `人数为 ${headCount} 时最多填写 ${headCount - 1} 位随行人员`,
+      400
+    );
+  }
+  return companions;
+};
+
+/**
+ * 导出到 Excel 的随行人员列：每人为"姓名/类型/备注"，多人以"；"分隔
+ */
+export const formatCompanions = (
+  companions: { name: string; type: AgeCategoryValue; notes: string | null }[]
+) =>
+  companions
+    .map((c) =>
+      [c.name, AGE_CATEGORY_LABELS[c.type], c.notes]
+        .filter(Boolean)
+        .join("/")
+    )
+    .join("；");
+
+/**
+ * 解析 Excel 的随行人员列（formatCompanions 的逆过程）
+ * 类型可写中文或英文，省略时为成人
+ */
+export const parseCompanions = (text: string) =>
+  text
+    .split(/[;；]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [name, typeText = "", ...notes] = part
+        .split("/")
+        .map((s) => s.trim());
+      const type = typeText ? parseAgeCategory(typeText) : "ADULT";
+      if (!type) {
+        throw new AppError(`随行人员 "${name}" 的类型"${typeText}"无法识别`, 400);
+      }
+      return { name, type, notes: notes.join("/") || null };
+    });
+
+/**
+ * 一行人中实际出席的人：已确认出席且填写了确认人数时按确认人数，
+ * 依次为宾客本人和靠前的随行人员；其余情况按邀请人数
+ */
+export const attendingParty = <
+  T extends {
+    headCount: number;
+    rsvpStatus: string;
+    confirmedCount: number | null;
+    companions: unknown[];
+  }
+>(
+  guest: T
+): T => {
+  if (guest.rsvpStatus !== "CONFIRMED" || guest.confirmedCount === null) {
+    return guest;
+  }
+  return {
+    ...guest,
+    headCount: guest.confirmedCount,
+    companions: guest.companions.slice(0, guest.confirmedCount - 1),
+  };
+};
+
+// 一行人中各年龄段的人数：宾客本人与登记的随行人员，未登记的随行人员按成人计
+export const partyAgeCounts = (guest: {
+  headCount: number;
+  ageCategory: AgeCategoryValue;
+  companions: { type: AgeCategoryValue }[];
+}) => {
+  const counts: Record<AgeCategoryValue, number> = {
+    ADULT: Math.max(0, guest.headCount - 1 - guest.companions.length),
+    CHILD: 0,
+    INFANT: 0,
+  };
+  counts[guest.ageCategory]++;
+  guest.companions.forEach((c) => counts[c.type]++);
+  return counts;
+};
+
+/**
+ * 一行人中每人是否单独占座（第 0 位为宾客本人，始终占座）
+ * 婴儿随行人员默认坐在大人腿上，项目开启 infantsNeedSeat 时单独占座；
+ * 未登记的随行人员按成人计
+ */
+export const partySeatFlags = (
+  headCount: number,
+  companions: { type: AgeCategoryValue }[],
+  infantsNeedSeat: boolean
+) =>
+  Array.from(
+    { length: headCount },
+    (_, i) => i === 0 || infantsNeedSeat || companions[i - 1]?.type !== "INFANT"
+  );
+
+// 不单独占座的人数，写入 guest.lapCount
+export const countLapSeated = (
+  headCount: number,
+  companions: { type: AgeCategoryValue }[],
+  infantsNeedSeat: boolean
+) =>
+  partySeatFlags(headCount, companions, infantsNeedSeat).filter((f) => !f)
+    .length;
+
+// 计算占用座位数所需的宾客字段
+export const SEAT_COUNT_SELECT = {
+  headCount: true,
+  lapCount: true,
+  rsvpStatus: true,
+  confirmedCount: true,
+} as const;
+
+export interface SeatCountGuest {
+  headCount: number;
+  lapCount: number;
+  rsvpStatus: string;
+  confirmedCount: number | null;
+}
+
+/**
+ * 宾客一行人占用的座位数，容量检查均按此计算
+ * 项目只安排确认出席的宾客（confirmedOnly）时，已确认的宾客按确认人数占座，
+ * 不单独占座的婴儿最多算到确认人数减去宾客本人；已回复不出席的宾客不占座位
+ * （仍留在桌上时也不计入容量），未回复和待定的宾客可能出席，仍按邀请人数计
+ */
+export const seatsTaken = (
+  guest: SeatCountGuest,
+  policy: { confirmedOnly: boolean }
+) => {
+  if (policy.confirmedOnly && guest.rsvpStatus === "DECLINED") {
+    return 0;
+  }
+  if (
+    policy.confirmedOnly &&
+    guest.rsvpStatus === "CONFIRMED" &&
+    guest.confirmedCount !== null
+  ) {
+    return (
+      guest.confirmedCount -
+      Math.min(guest.lapCount, guest.confirmedCount - 1)
+    );
+  }
+  return guest.headCount - guest.lapCount;
+};
+
+/**
+ * 按项目规则实际留座的人（与 seatsTaken 一致）：按确认人数排座时只为确认出席的人数留座，
+ * 依次为宾客本人和靠前的随行人员，其余人与不占座的婴儿一样座号记为 0
+ */
+export const attendingSeatFlags = (
+  guest: SeatCountGuest & { companions: { type: AgeCategoryValue }[] },
+  policy: { infantsNeedSeat: boolean; confirmedOnly: boolean }
+) => {
+  let remaining = seatsTaken(guest, policy);
+  return partySeatFlags(
+    guest.headCount,
+    guest.companions,
+    policy.infantsNeedSeat
+  ).map((needsSeat) => needsSeat && remaining-- > 0);
+};
+
+/**
+ * 按项目规则重新计算宾客不单独占座的人数（guest.lapCount），只写入有变化的宾客
+ * 不传 guestIds 时计算项目的全部宾客
+ */
+export const refreshLapCounts = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  guestIds?: string[]
+) => {
+  const { infantsNeedSeat } = await loadSeatingPolicy(db, projectId);
+  const guests = await db.guest.findMany({
+    where: { projectId, ...(guestIds && { id: { in: guestIds } }) },
+    select: {
+      id: true,
+      headCount: true,
+      lapCount: true,
+      companions: { select: { type: true }, ...companionsInclude },
+    },
+  });
+
+  for (const guest of guests) {
+    const lapCount = countLapSeated(
+      guest.headCount,
+      guest.companions,
+      infantsNeedSeat
+    );
+    if (lapCount === guest.lapCount) continue;
+    await db.guest.update({ where: { id: guest.id }, data: { lapCount } });
+  }
+};
@@ -0,0 +1,369 @@
+// 排座约束一致性检查：找出互相矛盾的约束链和无法整桌安排的同桌组
+import { Prisma } from "@prisma/client";
+import {
+  createTogetherResolver,
+  findTogetherChain,
+  groupTogetherUnits,
+  isTogetherType,
+} from "./constraintGraph";
+import { CONSTRAINT_TYPE_LABELS, ConstraintTypeValue } from "./constraintTypes";
+import {
+  ResolvedGroup,
+  groupTogetherConstraints,
+  loadConstraintGroups,
+  tableLimitOf,
+} from "./constraintGroups";
+import { GuestSeat, seatRuleSatisfied } from "./seatLayout";
+import { SEAT_COUNT_SELECT, seatsTaken } from "./companions";
+import { loadSeatingPolicy } from "./seatingPolicy";
+
+export interface CheckGuest {
+  id: string;
+  name: string;
+  // 按项目规则占用的座位数
+  seats: number;
+}
+
+export interface CheckConstraint {
+  // 尚未保存的新约束没有 ID
+  id: string | null;
+  guest1Id: string;
+  guest2Id: string | null;
+  tableId?: string | null;
+  constraintType: string;
+  // 由 ALL_TOGETHER 分组展开的约束记录所属分组
+  groupName?: string;
+}
+
+export interface ConstraintLink {
+  id: string | null;
+  constraintType: string;
+  guest1: { id: string; name: string };
+  guest2: { id: string; name: string } | null;
+  table: { id: string; name: string } | null;
+  groupName?: string;
+}
+
+export interface ConstraintIssue {
+  type: "contradiction" | "oversized";
+  message: string;
+  guestIds: string[];
+  chain: ConstraintLink[];
+}
+
+/**
+ * 检查约束集合的一致性
+ * - contradiction：两位宾客经 MUST_TOGETHER 链相连，却又设置了 MUST_APART，
+ *   或被指定坐在不同的桌、其中一位不坐另一位必须坐的桌
+ *   或必须同桌的宾客中同属一个分组的人数超过了分组的每桌上限，
+ *   或一位宾客需要与两位以上的宾客相邻就座
+ * - oversized：MUST_TOGETHER 组的总人数超过最大的桌
+ * ALL_TOGETHER 分组按同桌约束参与检查
+ * 传入 proposed / proposedGroup 时只返回与这条新约束或新分组有关的问题
+ */
+export const checkConstraints = (input: {
+  guests: CheckGuest[];
+  tables: Array<{ id: string; name: string }>;
+  constraints: CheckConstraint[];
+  groups?: ResolvedGroup[];
+  maxCapacity: number;
+  proposed?: CheckConstraint;
+  proposedGroup?: ResolvedGroup;
+}): ConstraintIssue[] => {
+  const { guests, tables, maxCapacity, proposed, proposedGroup } = input;
+  const groups = [
+    ...(input.groups || []),
+    ...(proposedGroup ? [proposedGroup] : []),
+  ];
+
+  // 新约束或新分组展开的约束记录，用于筛选相关问题
+  const proposedLinks = new Set<CheckConstraint>(proposed ? [proposed] : []);
+  const derived = groups.flatMap((group) =>
+    groupTogetherConstraints([group]).map((c) => {
+      const link: CheckConstraint = { id: null, ...c };
+      if (group === proposedGroup) proposedLinks.add(link);
+      return link;
+    })
+  );
+  const constraints = [
+    ...input.constraints,
+    ...(proposed ? [proposed] : []),
+    ...derived,
+  ];
+
+  const guestById = new Map(guests.map((g) => [g.id, g] as const));
+  const tableById = new Map(tables.map((t) => [t.id, t] as const));
+  const nameOf = (id: string) => guestById.get(id)?.name || "未知宾客";
+  const tableNameOf = (id: string) => tableById.get(id)?.name || "未知桌位";
+  const toLink = (c: CheckConstraint): ConstraintLink => ({
+    id: c.id,
+    constraintType: c.constraintType,
+    guest1: { id: c.guest1Id, name: nameOf(c.guest1Id) },
+    guest2: c.guest2Id ? { id: c.guest2Id, name: nameOf(c.guest2Id) } : null,
+    table: c.tableId ? { id: c.tableId, name: tableNameOf(c.tableId) } : null,
+    ...(c.groupName && { groupName: c.groupName }),
+  });
+  const describe = (chain: CheckConstraint[]) =>
+    chain
+      .map((c) => {
+        if (c.groupName) {
+          return `${nameOf(c.guest1Id)}、${nameOf(c.guest2Id!)} 同属分组"${c.groupName}"`;
+        }
+        const label =
+          CONSTRAINT_TYPE_LABELS[c.constraintType as ConstraintTypeValue] ||
+          c.constraintType;
+        const target = c.guest2Id
+          ? nameOf(c.guest2Id)
+          : c.tableId
+            ? tableNameOf(c.tableId)
+            : "";
+        return `${nameOf(c.guest1Id)} ${label} ${target}`;
+      })
+      .join("，");
+
+  const resolveGroup = createTogetherResolver(constraints);
+  const issues: Array<
+    ConstraintIssue & { links: CheckConstraint[]; group?: ResolvedGroup }
+  > = [];
+
+  // 同一同桌组内的 MUST_APART
+  constraints
+    .filter((c) => c.constraintType === "MUST_APART" && c.guest2Id)
+    .forEach((apart) => {
+      const guest2Id = apart.guest2Id!;
+      if (resolveGroup(apart.guest1Id) !== resolveGroup(guest2Id)) return;
+      const chain = findTogetherChain(constraints, apart.guest1Id, guest2Id);
+      if (!chain) return;
+      const links = [...chain, apart];
+      issues.push({
+        type: "contradiction",
+        message: `约束互相矛盾：${describe(links)}`,
+        guestIds: [apart.guest1Id, guest2Id],
+        chain: links.map(toLink),
+        links,
+      });
+    });
+
+  // 同一同桌组内指定桌位的约束互相冲突：必须坐在不同的桌，或一人不坐另一人必须坐的桌
+  const mustAt = constraints.filter(
+    (c) => c.constraintType === "MUST_AT_TABLE" && c.tableId
+  );
+  const tableRules = constraints.filter(
+    (c) =>
+      (c.constraintType === "MUST_AT_TABLE" ||
+        c.constraintType === "NEVER_AT_TABLE") &&
+      c.tableId
+  );
+  mustAt.forEach((required) => {
+    tableRules.forEach((other) => {
+      if (other === required) return;
+      const conflicting =
+        other.constraintType === "MUST_AT_TABLE"
+          ? other.tableId !== required.tableId
+          : other.tableId === required.tableId;
+      if (!conflicting) return;
+      // 两条 MUST_AT_TABLE 互相冲突时只报告一次
+      if (
+        other.constraintType === "MUST_AT_TABLE" &&
+        mustAt.indexOf(other) < mustAt.indexOf(required)
+      ) {
+        return;
+      }
+      if (resolveGroup(required.guest1Id) !== resolveGroup(other.guest1Id)) return;
+      const chain =
+        required.guest1Id === other.guest1Id
+          ? []
+          : findTogetherChain(constraints, required.guest1Id, other.guest1Id);
+      if (!chain) return;
+      const links = [required, ...chain, other];
+      issues.push({
+        type: "contradiction",
+        message: `约束互相矛盾：${describe(links)}`,
+        guestIds: Array.from(new Set([required.guest1Id, other.guest1Id])),
+        chain: links.map(toLink),
+        links,
+      });
+    });
+  });
+
+  // 每位宾客左右只有两个座位
+  const neighbours = new Map<string, CheckConstraint[]>();
+  constraints
+    .filter((c) => c.constraintType === "NEXT_TO" && c.guest2Id)
+    .forEach((c) =>
+      [c.guest1Id, c.guest2Id!].forEach((id) => {
+        if (!neighbours.has(id)) neighbours.set(id, []);
+        neighbours.get(id)!.push(c);
+      })
+    );
+  neighbours.forEach((links, guestId) => {
+    if (links.length <= 2) return;
+    issues.push({
+      type: "contradiction",
+      message: `约束互相矛盾：${nameOf(guestId)} 需要与 ${links.length} 位宾客相邻就座，但左右只有两个座位`,
+      guestIds: [guestId],
+      chain: links.map(toLink),
+      links,
+    });
+  });
+
+  const together = constraints.filter((c) => isTogetherType(c.constraintType));
+  const involved = guests.filter((g) =>
+    together.some((c) => c.guest1Id === g.id || c.guest2Id === g.id)
+  );
+  const units = groupTogetherUnits(involved, resolveGroup);
+
+  // 必须同桌的宾客中，同属一个分组的人数超过分组的每桌上限
+  groups.forEach((group) => {
+    const limit = tableLimitOf(group);
+    if (limit === null) return;
+    const groupIds = new Set(group.guestIds);
+    units.forEach(({ members }) => {
+      const inGroup = members.filter((m) => groupIds.has(m.id));
+      if (inGroup.length <= limit) return;
+      const memberIds = new Set(members.map((m) => m.id));
+      const links = together.filter((c) => memberIds.has(c.guest1Id));
+      const names = inGroup.slice(0, 5).map((m) => m.name).join("、");
+      const rule =
+        limit === 1 ? "要求全部分开" : `每桌最多 ${limit} 人`;
+      issues.push({
+        type: "contradiction",
+        message: `约束互相矛盾：分组"${group.name}"${rule}，但 ${names}${inGroup.length > 5 ? " 等" : ""}必须同桌`,
+        guestIds: inGroup.map((m) => m.id),
+        chain: links.map(toLink),
+        links,
+        group,
+      });
+    });
+  });
+
+  // 占用座位总数超过最大桌的同桌组
+  units.forEach(({ members }) => {
+    const seatCount = members.reduce((sum, m) => sum + m.seats, 0);
+    if (members.length < 2 || seatCount <= maxCapacity) return;
+    const memberIds = new Set(members.map((m) => m.id));
+    const links = together.filter((c) => memberIds.has(c.guest1Id));
+    const names = members.slice(0, 5).map((m) => m.name).join("、");
+    issues.push({
+      type: "oversized",
+      message: `${names}${members.length > 5 ? " 等" : ""}必须同桌，共需 ${seatCount} 个座位，超过最大的桌（${maxCapacity} 人）`,
+      guestIds: members.map((m) => m.id),
+      chain: links.map(toLink),
+      links,
+    });
+  });
+
+  return issues
+    .filter(
+      (issue) =>
+        (!proposed && !proposedGroup) ||
+        (!!proposedGroup && issue.group === proposedGroup) ||
+        issue.links.some((link) => proposedLinks.has(link))
+    )
+    .map(({ links: _links, group: _group, ...issue }) => issue);
+};
+
+export type ConstraintStatus = "satisfied" | "violated" | "pending";
+
+/**
+ * 根据宾客当前所在的桌判断约束状态，相关宾客未入座时为 pending
+ * 软约束未达成同样记为 violated
+ * tagmates 返回与该宾客同桌、带某标签的其他宾客人数
+ * seatOf 返回宾客本人的桌位和座号，用于相邻就座和面向舞台
+ */
+export const getConstraintStatus = (
+  constraint: {
+    constraintType: string;
+    guest1Id: string;
+    guest2Id: string | null;
+    tableId: string | null;
+    tag: string | null;
+  },
+  seating: {
+    tableOf: (guestId: string) => string | null;
+    tagmates: (guestId: string, tag: string) => number;
+    seatOf: (guestId: string) => GuestSeat | null;
+  }
+): ConstraintStatus => {
+  const { constraintType, guest1Id, guest2Id, tableId, tag } = constraint;
+  const table1Id = seating.tableOf(guest1Id);
+  if (!table1Id) return "pending";
+
+  if (constraintType === "MUST_AT_TABLE" || constraintType === "NEVER_AT_TABLE") {
+    const atTable = table1Id === tableId;
+    return (constraintType === "MUST_AT_TABLE") === atTable
+      ? "satisfied"
+      : "violated";
+  }
+  if (constraintType === "PREFER_WITH_TAG") {
+    return tag && seating.tagmates(guest1Id, tag) > 0 ? "satisfied" : "violated";
+  }
+  if (constraintType === "FACE_STAGE" || constraintType === "NEXT_TO") {
+    const satisfied = seatRuleSatisfied(constraint, seating.seatOf);
+    if (satisfied === null) return "pending";
+    return satisfied ? "satisfied" : "violated";
+  }
+
+  const table2Id = guest2Id ? seating.tableOf(guest2Id) : null;
+  if (!table2Id) return "pending";
+  const sameTable = table1Id === table2Id;
+  if (constraintType === "MUST_APART" || constraintType === "PREFER_APART") {
+    return sameTable ? "violated" : "satisfied";
+  }
+  return sameTable ? "satisfied" : "violated";
+};
+
+/**
+ * 读取项目的宾客、约束、分组和桌位容量后检查一致性
+ * 项目还没有桌位时按默认每桌座位数判断同桌组是否过大
+ */
+export const checkProjectConstraints = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  proposed?: CheckConstraint,
+  proposedGroup?: ResolvedGroup
+) => {
+  const [guests, constraints, tables, project, groups, policy] =
+    await Promise.all([
+      db.guest.findMany({
+        where: { projectId },
+        select: { id: true, name: true, ...SEAT_COUNT_SELECT },
+      }),
+      db.seatingConstraint.findMany({
+        where: { projectId },
+        select: {
+          id: true,
+          guest1Id: true,
+          guest2Id: true,
+          tableId: true,
+          constraintType: true,
+        },
+      }),
+      db.table.findMany({
+        where: { projectId },
+        select: { id: true, name: true, capacity: true },
+      }),
+      db.project.findUnique({
+        where: { id: projectId },
+        select: { defaultSeatsPerTable: true },
+      }),
+      loadConstraintGroups(db, projectId),
+      loadSeatingPolicy(db, projectId),
+    ]);
+
+  const largestTable = Math.max(0, ...tables.map((t) => t.capacity));
+
+  return checkConstraints({
+    guests: guests.map((g) => ({
+      id: g.id,
+      name: g.name,
+      seats: seatsTaken(g, policy),
+    })),
+    tables,
+    constraints,
+    groups,
+    maxCapacity: largestTable || project?.defaultSeatsPerTable || 10,
+    proposed,
+    proposedGroup,
+  });
+};
@@ -0,0 +1,128 @@
+// 排座约束关系图：处理约束之间的传递关系
+
+export interface PairConstraint {
+  guest1Id: string;
+  // 宾客与桌位、标签的约束没有第二位宾客
+  guest2Id: string | null;
+  constraintType: string;
+}
+
+/**
+ * 要求同桌的约束：MUST_TOGETHER，以及相邻就座（NEXT_TO，必然同桌）
+ */
+export const isTogetherType = (constraintType: string) =>
+  constraintType === "MUST_TOGETHER" || constraintType === "NEXT_TO";
+
+/**
+ * 根据 MUST_TOGETHER / NEXT_TO 约束（含传递关系，A-B、B-C 则 A、B、C 同组）
+ * 返回一个查询函数：guestId -> 所在同桌组的标识
+ * 没有任何 MUST_TOGETHER 约束的宾客自成一组，标识即自身ID
+ */
+export const createTogetherResolver = (constraints: PairConstraint[]) => {
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    // 路径压缩
+    let current = id;
+    while (current !== root) {
+      const next = parent.get(current)!;
+      parent.set(current, root);
+      current = next;
+    }
+    return root;
+  };
+
+  for (const constraint of constraints) {
+    if (!isTogetherType(constraint.constraintType) || !constraint.guest2Id) {
+      continue;
+    }
+    const root1 = find(constraint.guest1Id);
+    const root2 = find(constraint.guest2Id);
+    if (root1 !== root2) {
+      parent.set(root1, root1);
+      parent.set(root2, root1);
+    }
+  }
+
+  return find;
+};
+
+/**
+ * 将宾客按同桌组归并，保持宾客在原列表中首次出现的顺序
+ */
+export const groupTogetherUnits = <T extends { id: string }>(
+  guests: T[],
+  resolveGroup: (guestId: string) => string
+) => {
+  const units = new Map<string, T[]>();
+
+  for (const guest of guests) {
+    const key = resolveGroup(guest.id);
+    if (!units.has(key)) {
+      units.set(key, []);
+    }
+    units.get(key)!.push(guest);
+  }
+
+  return Array.from(units.entries()).map(([groupId, members]) => ({
+    groupId,
+    members,
+  }));
+};
+
+/**
+ * 在 MUST_TOGETHER / NEXT_TO 约束图中查找从 fromId 到 toId 的最短约束链
+ * 找不到时返回 null
+ */
+export const findTogetherChain = <T extends PairConstraint>(
+  constraints: T[],
+  fromId: string,
+  toId: string
+): T[] | null => {
+  const edges = new Map<string, Array<{ next: string; constraint: T }>>();
+  for (const constraint of constraints) {
+    const { guest1Id, guest2Id } = constraint;
+    if (!isTogetherType(constraint.constraintType) || !guest2Id) continue;
+    if (!edges.has(guest1Id)) edges.set(guest1Id, []);
+    if (!edges.has(guest2Id)) edges.set(guest2Id, []);
+    edges.get(guest1Id)!.push({ next: guest2Id, constraint });
+    edges.get(guest2Id)!.push({ next: guest1Id, constraint });
+  }
+
+  // 广度优先搜索，记录到达每位宾客所经过的约束
+  const via = new Map<string, { prev: string; constraint: T } | null>([
+    [fromId, null],
+  ]);
+  const queue = [fromId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toId) break;
+    for (const { next, constraint } of edges.get(current) || []) {
+      if (via.has(next)) continue;
+      via.set(next, { prev: current, constraint });
+      queue.push(next);
+    }
+  }
+
+  if (!via.has(toId)) return null;
+
+  const chain: T[] = [];
+  let step = via.get(toId);
+  while (step) {
+    chain.unshift(step.constraint);
+    step = via.get(step.prev);
+  }
+  return chain;
+};
+
+/**
+ * 取出某一类宾客之间约束的宾客对
+ */
+export const pairsOfType = (constraints: PairConstraint[], type: string) =>
+  constraints
+    .filter((c) => c.constraintType === type && c.guest2Id)
+    .map((c) => [c.guest1Id, c.guest2Id!] as [string, string]);
@@ -0,0 +1,181 @@
+// 分组约束：把一组宾客（指定成员或按标签/关系筛选）的规则展开为排座可用的形式
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+
+export const GROUP_RULES = ["ALL_TOGETHER", "ALL_APART", "MAX_PER_TABLE"] as const;
+
+export type GroupRuleValue = (typeof GROUP_RULES)[number];
+
+export const GROUP_RULE_LABELS: Record<GroupRuleValue, string> = {
+  ALL_TOGETHER: "全部同桌",
+  ALL_APART: "全部分开",
+  MAX_PER_TABLE: "每桌最多",
+};
+
+// 成员已解析的分组（尚未保存的分组没有 ID）
+export interface ResolvedGroup {
+  id: string | null;
+  name: string;
+  rule: string;
+  maxPerTable: number | null;
+  guestIds: string[];
+}
+
+// 由 ALL_TOGETHER 分组展开的同桌约束，groupName 用于说明约束来源
+export interface GroupTogetherConstraint {
+  guest1Id: string;
+  guest2Id: string;
+  constraintType: "MUST_TOGETHER";
+  groupName: string;
+}
+
+export const isGroupRule = (value: unknown): value is GroupRuleValue =>
+  typeof value === "string" &&
+  (GROUP_RULES as readonly string[]).includes(value);
+
+/**
+ * 分组的每桌人数上限：全部分开为 1，每桌最多 K 人为 K，其余没有上限
+ */
+export const tableLimitOf = (group: { rule: string; maxPerTable: number | null }) => {
+  if (group.rule === "ALL_APART") return 1;
+  if (group.rule === "MAX_PER_TABLE") return group.maxPerTable;
+  return null;
+};
+
+/**
+ * 按成员或筛选条件确定分组包含的宾客，保持 guests 的顺序
+ */
+export const resolveGroupMembers = (
+  group: {
+    tag: string | null;
+    relationship: string | null;
+    memberIds: string[];
+  },
+  guests: Array<{ id: string; tags: string[]; relationship: string | null }>
+) => {
+  if (group.tag) {
+    return guests.filter((g) => g.tags.includes(group.tag!)).map((g) => g.id);
+  }
+  if (group.relationship) {
+    return guests
+      .filter((g) => g.relationship === group.relationship)
+      .map((g) => g.id);
+  }
+  const memberIds = new Set(group.memberIds);
+  return guests.filter((g) => memberIds.has(g.id)).map((g) => g.id);
+};
+
+/**
+ * 读取项目的分组约束并解析成员
+ */
+export const loadConstraintGroups = async (
+  db: Prisma.TransactionClient,
+  projectId: string
+): Promise<ResolvedGroup[]> => {
+  const groups = await db.constraintGroup.findMany({
+    where: { projectId },
+    include: { members: { select: { guestId: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (groups.length === 0) return [];
+
+  const guests = await db.guest.findMany({
+    where: { projectId },
+    select: { id: true, tags: true, relationship: true },
+  });
+
+  return groups.map((group) => ({
+    id: group.id,
+    name: group.name,
+    rule: group.rule,
+    maxPerTable: group.maxPerTable,
+    guestIds: resolveGroupMembers(
+      { ...group, memberIds: group.members.map((m) => m.guestId) },
+      guests
+    ),
+  }));
+};
+
+/**
+ * 把 ALL_TOGETHER 分组展开为以首位成员为中心的同桌约束，
+ * 与两两约束一起交给同桌组合并，避免生成 n² 条记录
+ */
+export const groupTogetherConstraints = (
+  groups: ResolvedGroup[]
+): GroupTogetherConstraint[] =>
+  groups
+    .filter((g) => g.rule === "ALL_TOGETHER")
+    .flatMap((g) =>
+      g.guestIds.slice(1).map((guestId) => ({
+        guest1Id: g.guestIds[0],
+        guest2Id: guestId,
+        constraintType: "MUST_TOGETHER" as const,
+        groupName: g.name,
+      }))
+    );
+
+/**
+ * 有每桌人数上限的分组（ALL_APART、MAX_PER_TABLE）
+ */
+export const groupTableLimits = (groups: ResolvedGroup[]) =>
+  groups
+    .map((g) => ({ group: g, limit: tableLimitOf(g) }))
+    .filter(({ limit }) => limit !== null)
+    .map(({ group, limit }) => ({
+      name: group.name,
+      limit: limit!,
+      guestIds: group.guestIds,
+    }));
+
+/**
+ * 在已锁定桌位的事务内检查宾客坐到该桌后，所在分组在该桌的人数是否超过上限
+ * tableGuestIds 为该桌上的其他宾客
+ */
+export const assertGroupLimits = async (
+  tx: Prisma.TransactionClient,
+  guest: { id: string; name: string },
+  table: { projectId: string; name: string },
+  tableGuestIds: string[]
+) => {
+  const groups = await loadConstraintGroups(tx, table.projectId);
+  const seated = new Set(tableGuestIds);
+
+  for (const { name, limit, guestIds } of groupTableLimits(groups)) {
+    if (!guestIds.includes(guest.id)) continue;
+    const count = guestIds.filter((id) => seated.has(id)).length;
+    if (count + 1 > limit) {
+      throw new AppError(
+        limit === 1
+          ? `"${guest.name}" 与 "${table.name}" 上的宾客同属分组"${name}"，需分桌安排`
+          : `分组"${name}"每桌最多 ${limit} 人，"${table.name}" 已有 ${count} 人`,
+        400
+      );
+    }
+  }
+};
+
+/**
+ * 分组约束在当前座位下的状态：
+ * 已入座成员违反规则为 violated，全部入座且满足为 satisfied，否则为 pending
+ */
+export const getGroupStatus = (
+  group: Pick<ResolvedGroup, "rule" | "maxPerTable" | "guestIds">,
+  tableOf: Map<string, string>
+) => {
+  const counts = new Map<string, number>();
+  group.guestIds.forEach((id) => {
+    const tableId = tableOf.get(id);
+    if (tableId) counts.set(tableId, (counts.get(tableId) || 0) + 1);
+  });
+
+  const limit = tableLimitOf(group);
+  const violated =
+    group.rule === "ALL_TOGETHER"
+      ? counts.size > 1
+      : limit !== null &&
+        Array.from(counts.values()).some((count) => count > limit);
+  if (violated) return "violated";
+
+  const seated = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+  return seated === group.guestIds.length ? "satisfied" : "pending";
+};
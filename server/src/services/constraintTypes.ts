@@ -0,0 +1,111 @@
+// 排座约束类型：宾客之间、宾客与桌位、宾客与标签、宾客本人的座位四类，以及软约束的偏好强度
+import { PairConstraint } from "./constraintGraph";
+
+// 完整的约束记录：按类型使用 guest2Id、tableId 或 tag 之一
+export interface ConstraintRecord extends PairConstraint {
+  tableId: string | null;
+  tag: string | null;
+  weight: number | null;
+}
+
+// 宾客之间的约束（guest2Id）
+export const PAIR_CONSTRAINT_TYPES = [
+  "MUST_TOGETHER",
+  "MUST_APART",
+  "PREFER_TOGETHER",
+  "PREFER_APART",
+  "NEXT_TO",
+] as const;
+
+// 宾客与桌位的约束（tableId）
+export const TABLE_CONSTRAINT_TYPES = ["MUST_AT_TABLE", "NEVER_AT_TABLE"] as const;
+
+// 宾客与标签的约束（tag）
+export const TAG_CONSTRAINT_TYPES = ["PREFER_WITH_TAG"] as const;
+
+// 只涉及宾客本人座位的约束（无约束对象）
+export const SELF_CONSTRAINT_TYPES = ["FACE_STAGE"] as const;
+
+export const CONSTRAINT_TYPES = [
+  ...PAIR_CONSTRAINT_TYPES,
+  ...TABLE_CONSTRAINT_TYPES,
+  ...TAG_CONSTRAINT_TYPES,
+  ...SELF_CONSTRAINT_TYPES,
+] as const;
+
+export type ConstraintTypeValue = (typeof CONSTRAINT_TYPES)[number];
+
+// 只影响得分、不限制安排的软约束
+export const SOFT_CONSTRAINT_TYPES: readonly string[] = [
+  "PREFER_TOGETHER",
+  "PREFER_APART",
+  "PREFER_WITH_TAG",
+];
+
+export const CONSTRAINT_TYPE_LABELS: Record<ConstraintTypeValue, string> = {
+  MUST_TOGETHER: "必须同桌",
+  MUST_APART: "不能同桌",
+  PREFER_TOGETHER: "尽量同桌",
+  PREFER_APART: "尽量分开",
+  MUST_AT_TABLE: "必须坐在",
+  NEVER_AT_TABLE: "不坐",
+  PREFER_WITH_TAG: "偏好标签",
+  NEXT_TO: "相邻就座",
+  FACE_STAGE: "面向舞台",
+};
+
+export const MIN_PREFERENCE_WEIGHT = 1;
+export const MAX_PREFERENCE_WEIGHT = 5;
+export const DEFAULT_PREFERENCE_WEIGHT = 3;
+
+// 每一级偏好强度对应的得分，与相同标签的默认权重同一量级
+const PREFERENCE_UNIT = 100;
+
+export const isConstraintType = (value: unknown): value is ConstraintTypeValue =>
+  typeof value === "string" &&
+  (CONSTRAINT_TYPES as readonly string[]).includes(value);
+
+export const isPairConstraintType = (type: string) =>
+  (PAIR_CONSTRAINT_TYPES as readonly string[]).includes(type);
+
+export const isTableConstraintType = (type: string) =>
+  (TABLE_CONSTRAINT_TYPES as readonly string[]).includes(type);
+
+export const isSelfConstraintType = (type: string) =>
+  (SELF_CONSTRAINT_TYPES as readonly string[]).includes(type);
+
+/**
+ * 软约束双方同桌时计入的得分：尽量分开为扣分，其余为加分
+ * 未设置强度时按默认强度计
+ */
+export const preferenceScore = (constraintType: string, weight: number | null) => {
+  const score = (weight ?? DEFAULT_PREFERENCE_WEIGHT) * PREFERENCE_UNIT;
+  return constraintType === "PREFER_APART" ? -score : score;
+};
+
+/**
+ * 根据 MUST_AT_TABLE / NEVER_AT_TABLE 约束返回查询函数：
+ * 宾客坐到某桌会违反的约束类型，不违反时返回 null
+ */
+export const createTableRuleChecker = (
+  constraints: Array<
+    Pick<ConstraintRecord, "guest1Id" | "tableId" | "constraintType">
+  >
+) => {
+  const required = new Map<string, string>();
+  const forbidden = new Set<string>();
+  for (const c of constraints) {
+    if (!c.tableId) continue;
+    if (c.constraintType === "MUST_AT_TABLE") required.set(c.guest1Id, c.tableId);
+    if (c.constraintType === "NEVER_AT_TABLE") {
+      forbidden.add(`${c.guest1Id}:${c.tableId}`);
+    }
+  }
+
+  return (guestId: string, tableId: string) => {
+    const requiredTable = required.get(guestId);
+    if (requiredTable && requiredTable !== tableId) return "MUST_AT_TABLE";
+    if (forbidden.has(`${guestId}:${tableId}`)) return "NEVER_AT_TABLE";
+    return null;
+  };
+};
@@ -0,0 +1,169 @@
+// 编辑锁：成员打开宾客或桌位的编辑表单时加锁，其他成员在锁释放前不能修改该资源
+// 锁只保存在服务进程内存中，需要客户端定期心跳续期；连接断开或超时未续期时自动释放
+import { AppError } from "../middleware/errorHandler";
+
+// 超过该时间未收到心跳的锁视为失效
+export const EDIT_LOCK_TTL_MS = 30 * 1000;
+
+export const EDIT_LOCK_TYPES = ["guest", "table"] as const;
+
+export type EditLockType = (typeof EDIT_LOCK_TYPES)[number];
+
+const TYPE_LABELS: Record<EditLockType, string> = {
+  guest: "宾客",
+  table: "桌位",
+};
+
+export interface EditLock {
+  projectId: string;
+  type: EditLockType;
+  id: string;
+  userId: string;
+  userNickname: string;
+  // 持有锁的连接：同一成员可在多个标签页中编辑，全部连接结束编辑或断开后才释放
+  socketIds: Set<string>;
+  expiresAt: number;
+}
+
+const locks = new Map<string, EditLock>();
+
+const lockKey = (projectId: string, type: string, id: string) =>
+  `${projectId}:${type}:${id}`;
+
+export const isEditLockType = (type: unknown): type is EditLockType =>
+  EDIT_LOCK_TYPES.includes(type as EditLockType);
+
+// 读取未过期的锁，过期的顺带删除
+const activeLock = (key: string, now = Date.now()) => {
+  const lock = locks.get(key);
+  if (lock && lock.expiresAt <= now) {
+    locks.delete(key);
+    return undefined;
+  }
+  return lock;
+};
+
+/**
+ * 加锁或续期：资源未被锁定、或锁属于同一成员（如另一个标签页）时成功，并记下该连接
+ * 被其他成员锁定时返回持有者
+ */
+export const acquireEditLock = (
+  params: Omit<EditLock, "socketIds" | "expiresAt"> & { socketId: string }
+): { ok: true; lock: EditLock } | { ok: false; holder: EditLock } => {
+  const { socketId, ...owner } = params;
+  const key = lockKey(owner.projectId, owner.type, owner.id);
+  const current = activeLock(key);
+  if (current && current.userId !== owner.userId) {
+    return { ok: false, holder: current };
+  }
+
+  const lock = current ?? { ...owner, socketIds: new Set<string>(), expiresAt: 0 };
+  lock.socketIds.add(socketId);
+  lock.expiresAt = Date.now() + EDIT_LOCK_TTL_MS;
+  locks.set(key, lock);
+  return { ok: true, lock };
+};
+
+/**
+ * 心跳续期并记下发送心跳的连接，锁已失效或已被他人取得时返回 false
+ */
+export const refreshEditLock = (
+  projectId: string,
+  type: EditLockType,
+  id: string,
+  userId: string,
+  socketId: string
+) => {
+  const lock = activeLock(lockKey(projectId, type, id));
+  if (!lock || lock.userId !== userId) return false;
+  lock.socketIds.add(socketId);
+  lock.expiresAt = Date.now() + EDIT_LOCK_TTL_MS;
+  return true;
+};
+
+/**
+ * 某个连接结束编辑：该成员没有其他连接仍在编辑时释放锁，返回被释放的锁
+ */
+export const releaseEditLock = (
+  projectId: string,
+  type: EditLockType,
+  id: string,
+  userId: string,
+  socketId: string
+) => {
+  const key = lockKey(projectId, type, id);
+  const lock = activeLock(key);
+  if (!lock || lock.userId !== userId) return null;
+  lock.socketIds.delete(socketId);
+  if (lock.socketIds.size > 0) return null;
+  locks.delete(key);
+  return lock;
+};
+
+/**
+ * 某个连接结束全部编辑（可限定项目），用于断开连接或离开项目；
+ * 返回因没有连接持有而被释放的锁
+ */
+export const releaseSocketLocks = (socketId: string, projectId?: string) => {
+  const released: EditLock[] = [];
+  locks.forEach((lock, key) => {
+    if (projectId && lock.projectId !== projectId) return;
+    if (lock.socketIds.delete(socketId) && lock.socketIds.size === 0) {
+      locks.delete(key);
+      released.push(lock);
+    }
+  });
+  return released;
+};
+
+/**
+ * 清除超时未续期的锁，返回被清除的锁
+ */
+export const sweepExpiredLocks = (now = Date.now()) => {
+  const expired: EditLock[] = [];
+  locks.forEach((lock, key) => {
+    if (lock.expiresAt <= now) {
+      locks.delete(key);
+      expired.push(lock);
+    }
+  });
+  return expired;
+};
+
+/**
+ * 项目当前的全部有效锁，成员加入项目时下发
+ */
+export const getProjectLocks = (projectId: string) => {
+  const now = Date.now();
+  return Array.from(locks.values()).filter(
+    (lock) => lock.projectId === projectId && lock.expiresAt > now
+  );
+};
+
+/**
+ * 读取资源当前的有效锁，未锁定时为 undefined
+ */
+export const findEditLock = (
+  projectId: string,
+  type: EditLockType,
+  id: string
+) => activeLock(lockKey(projectId, type, id));
+
+/**
+ * 资源被其他成员锁定时拒绝修改（423），自己持有的锁或未加锁时放行
+ */
+export const assertNotLockedByOthers = (
+  projectId: string,
+  type: EditLockType,
+  id: string,
+  userId: string
+) => {
+  const lock = activeLock(lockKey(projectId, type, id));
+  if (lock && lock.userId !== userId) {
+    throw new AppError(
+      `${lock.userNickname} 正在编辑该${TYPE_LABELS[type]}，请稍后再试`,
+      423,
+      { lockedBy: { userId: lock.userId, nickname: lock.userNickname } }
+    );
+  }
+};
@@ -0,0 +1,247 @@
+// 成组推荐：为一组宾客（同事、一家人、MUST_TOGETHER 组等）寻找能整组容纳的桌位或相邻两桌
+import {
+  createTogetherResolver,
+  groupTogetherUnits,
+  pairsOfType,
+} from "./constraintGraph";
+import { ConstraintRecord, createTableRuleChecker } from "./constraintTypes";
+import {
+  groupTableLimits,
+  groupTogetherConstraints,
+  ResolvedGroup,
+} from "./constraintGroups";
+import { scorePlacement, SolverGuest } from "./seatingSolver";
+import { SeatingPolicyValues } from "./seatingPolicy";
+
+export interface GroupTable {
+  id: string;
+  name: string;
+  capacity: number;
+  areaId: string | null;
+  pinned: boolean;
+  positionX: number;
+  positionY: number;
+  occupants: SolverGuest[];
+}
+
+export interface GroupSuggestion {
+  type: "single" | "adjacent";
+  tables: Array<{ id: string; name: string; availableSeats: number }>;
+  assignments: Array<{ guestId: string; tableId: string }>;
+  score: number;
+  reasons: string[];
+}
+
+// 平面图上两桌中心距离不超过该值视为相邻（一张 10 人桌连同座位约 210 像素宽）
+const ADJACENT_DISTANCE = 320;
+const MAX_SUGGESTIONS = 5;
+
+// 两桌是否相邻：都摆放过位置时按平面图距离判断，否则按创建顺序相邻
+const isAdjacent = (tables: GroupTable[], i: number, j: number) => {
+  const a = tables[i];
+  const b = tables[j];
+  const placed = (t: GroupTable) => t.positionX !== 0 || t.positionY !== 0;
+  if (placed(a) && placed(b)) {
+    return (
+      Math.hypot(a.positionX - b.positionX, a.positionY - b.positionY) <=
+      ADJACENT_DISTANCE
+    );
+  }
+  return Math.abs(i - j) === 1;
+};
+
+/**
+ * 计算成组推荐：tables 需按创建顺序排列
+ * MUST_TOGETHER 的宾客始终分在同一桌；同组已有宾客入座时只能去那一桌
+ * 指定桌位的约束和分组的每桌人数上限同样不能违反
+ */
+export const suggestGroupSeating = (input: {
+  guests: SolverGuest[];
+  tables: GroupTable[];
+  constraints: ConstraintRecord[];
+  groups?: ResolvedGroup[];
+  policy: SeatingPolicyValues;
+}): GroupSuggestion[] => {
+  const { guests, tables, constraints, policy } = input;
+  const groups = input.groups || [];
+  const resolveGroup = createTogetherResolver([
+    ...constraints,
+    ...groupTogetherConstraints(groups),
+  ]);
+  const tableLimits = groupTableLimits(groups);
+  const units = groupTogetherUnits(guests, resolveGroup)
+    .map(({ groupId, members }) => ({
+      groupId,
+      members,
+      headCount: members.reduce((sum, m) => sum + m.headCount, 0),
+    }))
+    .sort((a, b) => b.headCount - a.headCount);
+
+  const apartPartners = new Map<string, Set<string>>();
+  pairsOfType(constraints, "MUST_APART").forEach(([a, b]) => {
+    if (!apartPartners.has(a)) apartPartners.set(a, new Set());
+    if (!apartPartners.has(b)) apartPartners.set(b, new Set());
+    apartPartners.get(a)!.add(b);
+    apartPartners.get(b)!.add(a);
+  });
+  const tableRuleAt = createTableRuleChecker(constraints);
+
+  // 同组已入座宾客所在的桌位
+  const anchorOf = new Map<string, string>();
+  tables.forEach((table) =>
+    table.occupants.forEach((g) => anchorOf.set(resolveGroup(g.id), table.id))
+  );
+
+  const totalHeadCount = units.reduce((sum, u) => sum + u.headCount, 0);
+
+  // 在若干张桌上尝试安排整组：大单元优先，逐个放入得分最高的可行桌位
+  const tryPlace = (candidates: GroupTable[]) => {
+    const state = candidates.map((table) => {
+      const tagCounts = new Map<string, number>();
+      table.occupants.forEach((g) =>
+        g.tags.forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1))
+      );
+      return {
+        table,
+        seats: table.occupants.reduce((sum, g) => sum + g.headCount, 0),
+        tagCounts,
+        guestIds: new Set(table.occupants.map((g) => g.id)),
+      };
+    });
+
+    const assignments: Array<{ guestId: string; tableId: string }> = [];
+    let score = 0;
+    let areaMatched = 0;
+    const matchedTags = new Set<string>();
+
+    for (const unit of units) {
+      let best = -1;
+      let bestScore = -Infinity;
+      state.forEach((s, i) => {
+        const anchor = anchorOf.get(unit.groupId);
+        if (anchor && anchor !== s.table.id) return;
+        if (s.seats + unit.headCount > s.table.capacity) return;
+        if (unit.members.some((m) => tableRuleAt(m.id, s.table.id))) return;
+        const conflict = unit.members.some((m) =>
+          Array.from(apartPartners.get(m.id) || []).some((p) => s.guestIds.has(p))
+        );
+        if (conflict) return;
+        const overLimit = tableLimits.some(
+          ({ limit, guestIds }) =>
+            guestIds.filter((id) => s.guestIds.has(id)).length +
+              unit.members.filter((m) => guestIds.includes(m.id)).length >
+            limit
+        );
+        if (overLimit) return;
+        const unitScore = unit.members.reduce(
+          (sum, m) =>
+            sum +
+            scorePlacement(policy, m, s.table, {
+              seats: s.seats,
+              tagCount: (tag) => s.tagCounts.get(tag) || 0,
+            }).score,
+          0
+        );
+        if (unitScore > bestScore) {
+          bestScore = unitScore;
+          best = i;
+        }
+      });
+      if (best < 0) return null;
+
+      const s = state[best];
+      for (const m of unit.members) {
+        // 只统计与桌上原有宾客相同的标签
+        m.tags
+          .filter((tag) => s.table.occupants.some((o) => o.tags.includes(tag)))
+          .forEach((tag) => matchedTags.add(tag));
+        if (m.areaId && m.areaId === s.table.areaId) areaMatched++;
+        s.seats += m.headCount;
+        s.guestIds.add(m.id);
+        m.tags.forEach((tag) => s.tagCounts.set(tag, (s.tagCounts.get(tag) || 0) + 1));
+        assignments.push({ guestId: m.id, tableId: s.table.id });
+      }
+      score += bestScore;
+    }
+
+    const usedTables = state.filter((s) =>
+      assignments.some((a) => a.tableId === s.table.id)
+    );
+    return {
+      tables: usedTables.map((s) => ({
+        id: s.table.id,
+        name: s.table.name,
+        availableSeats: s.table.capacity - s.seats,
+      })),
+      assignments,
+      score,
+      areaMatched,
+      matchedTags: Array.from(matchedTags),
+    };
+  };
+
+  const buildReasons = (
+    result: NonNullable<ReturnType<typeof tryPlace>>,
+    type: GroupSuggestion["type"]
+  ) =>
+    [
+      type === "single"
+        ? `全组 ${totalHeadCount} 人可同桌`
+        : `分坐相邻的${result.tables.map((t) => `"${t.name}"`).join("、")}`,
+      result.areaMatched > 0 && `${result.areaMatched} 位宾客与桌位同区域`,
+      result.matchedTags.length > 0 &&
+        `桌上已有相同标签：${result.matchedTags.join("、")}`,
+      `安排后剩余 ${result.tables.reduce((sum, t) => sum + t.availableSeats, 0)} 个座位`,
+    ].filter(Boolean) as string[];
+
+  // 锁定的桌位、以及开启“不同区域不同桌”时与组内宾客区域不同的桌位不参与推荐
+  const usable = tables.filter(
+    (table) =>
+      !table.pinned &&
+      !(
+        policy.neverMixAreas &&
+        table.areaId &&
+        guests.some((g) => g.areaId && g.areaId !== table.areaId)
+      )
+  );
+  const usableIndex = usable.map((t) => tables.indexOf(t));
+
+  const suggestions: GroupSuggestion[] = [];
+
+  usable.forEach((table) => {
+    const result = tryPlace([table]);
+    if (!result) return;
+    suggestions.push({
+      type: "single",
+      tables: result.tables,
+      assignments: result.assignments,
+      score: result.score,
+      reasons: buildReasons(result, "single"),
+    });
+  });
+
+  // 相邻两桌组合：只保留真正用到两桌的方案
+  for (let i = 0; i < usable.length; i++) {
+    for (let j = i + 1; j < usable.length; j++) {
+      if (!isAdjacent(tables, usableIndex[i], usableIndex[j])) continue;
+      const result = tryPlace([usable[i], usable[j]]);
+      if (!result || result.tables.length < 2) continue;
+      suggestions.push({
+        type: "adjacent",
+        tables: result.tables,
+        assignments: result.assignments,
+        score: result.score,
+        reasons: buildReasons(result, "adjacent"),
+      });
+    }
+  }
+
+  // 整组同桌的方案优先，其次才是相邻两桌
+  return suggestions
+    .sort(
+      (a, b) =>
+        (a.type === "single" ? 0 : 1) - (b.type === "single" ? 0 : 1) ||
+        b.score - a.score
+    )
+    .slice(0, MAX_SUGGESTIONS);
+};
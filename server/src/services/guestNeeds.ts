@@ -0,0 +1,152 @@
+// 宾客的饮食与无障碍需求：结构化的需求项、与 Excel 文本互转、无障碍桌判断，以及按桌汇总给餐饮方
+import { AppError } from "../middleware/errorHandler";
+
+export const DIETARY_NEEDS = [
+  "VEGETARIAN",
+  "VEGAN",
+  "HALAL",
+  "NO_PORK",
+  "NO_BEEF",
+  "NO_SEAFOOD",
+  "NO_SPICY",
+  "GLUTEN_FREE",
+] as const;
+
+export type DietaryNeedValue = (typeof DIETARY_NEEDS)[number];
+
+export const DIETARY_NEED_LABELS: Record<DietaryNeedValue, string> = {
+  VEGETARIAN: "素食",
+  VEGAN: "纯素",
+  HALAL: "清真",
+  NO_PORK: "不吃猪肉",
+  NO_BEEF: "不吃牛肉",
+  NO_SEAFOOD: "不吃海鲜",
+  NO_SPICY: "不吃辣",
+  GLUTEN_FREE: "无麸质",
+};
+
+export const ACCESSIBILITY_NEEDS = [
+  "WHEELCHAIR",
+  "LIMITED_MOBILITY",
+  "HEARING",
+  "VISION",
+] as const;
+
+export type AccessibilityNeedValue = (typeof ACCESSIBILITY_NEEDS)[number];
+
+export const ACCESSIBILITY_NEED_LABELS: Record<AccessibilityNeedValue, string> =
+  {
+    WHEELCHAIR: "轮椅",
+    LIMITED_MOBILITY: "行动不便",
+    HEARING: "听力障碍",
+    VISION: "视力障碍",
+  };
+
+// 带有该标签的桌位为无障碍桌，项目开启后轮椅宾客只安排到无障碍桌
+export const ACCESSIBLE_TABLE_TAG = "无障碍";
+
+export const isAccessibleTable = (table: { tags: string[] }) =>
+  table.tags.includes(ACCESSIBLE_TABLE_TAG);
+
+export const needsAccessibleTable = (guest: {
+  accessibilityNeeds: string[];
+}) => guest.accessibilityNeeds.includes("WHEELCHAIR");
+
+/**
+ * 校验请求中的需求列表（英文代码数组），去重后按固定顺序返回
+ */
+const parseNeeds = <T extends string>(
+  values: readonly T[],
+  raw: unknown,
+  message: string
+): T[] => {
+  if (!Array.isArray(raw) || raw.some((v) => !values.includes(v))) {
+    throw new AppError(message, 400);
+  }
+  return values.filter((v) => raw.includes(v));
+};
+
+export const parseDietaryNeeds = (raw: unknown) =>
+  parseNeeds(DIETARY_NEEDS, raw, "饮食需求不正确");
+
+export const parseAccessibilityNeeds = (raw: unknown) =>
+  parseNeeds(ACCESSIBILITY_NEEDS, raw, "无障碍需求不正确");
+
+/**
+ * 解析 Excel 中的需求列：多项以"、"或逗号分隔，可写中文或英文
+ */
+const parseNeedsText = <T extends string>(
+  values: readonly T[],
+  labels: Record<T, string>,
+  text: string,
+  what: string
+): T[] => {
+  const needs = text
+    .split(/[、,，;；]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const need = values.find(
+        (v) => v === part.toUpperCase() || labels[v] === part
+      );
+      if (!need) {
+        throw new AppError(`${what}"${part}"无法识别`, 400);
+      }
+      return need;
+    });
+  return values.filter((v) => needs.includes(v));
+};
+
+export const parseDietaryNeedsText = (text: string) =>
+  parseNeedsText(DIETARY_NEEDS, DIETARY_NEED_LABELS, text, "饮食需求");
+
+export const parseAccessibilityNeedsText = (text: string) =>
+  parseNeedsText(
+    ACCESSIBILITY_NEEDS,
+    ACCESSIBILITY_NEED_LABELS,
+    text,
+    "无障碍需求"
+  );
+
+export const formatDietaryNeeds = (needs: DietaryNeedValue[]) =>
+  needs.map((n) => DIETARY_NEED_LABELS[n]).join("、");
+
+export const formatAccessibilityNeeds = (needs: AccessibilityNeedValue[]) =>
+  needs.map((n) => ACCESSIBILITY_NEED_LABELS[n]).join("、");
+
+// 按桌汇总时读取的宾客字段
+export const GUEST_NEEDS_SELECT = {
+  dietaryNeeds: true,
+  allergies: true,
+  dietaryNotes: true,
+  accessibilityNeeds: true,
+} as const;
+
+export interface TableNeedsSummary {
+  // 各项饮食需求的人数（只含有人需要的项）
+  dietary: Partial<Record<DietaryNeedValue, number>>;
+  // 登记了过敏的人数
+  allergies: number;
+  wheelchairs: number;
+}
+
+/**
+ * 统计一桌的饮食与无障碍需求：结构化需求按宾客本人计，随行人员的忌口见其备注
+ */
+export const summarizeTableNeeds = (
+  guests: Array<{
+    dietaryNeeds: DietaryNeedValue[];
+    allergies: string | null;
+    accessibilityNeeds: AccessibilityNeedValue[];
+  }>
+): TableNeedsSummary => {
+  const summary: TableNeedsSummary = { dietary: {}, allergies: 0, wheelchairs: 0 };
+  for (const guest of guests) {
+    guest.dietaryNeeds.forEach(
+      (need) => (summary.dietary[need] = (summary.dietary[need] || 0) + 1)
+    );
+    if (guest.allergies) summary.allergies++;
+    if (needsAccessibleTable(guest)) summary.wheelchairs++;
+  }
+  return summary;
+};
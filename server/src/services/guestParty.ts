@@ -0,0 +1,110 @@
+// 宾客一行人的变更：宾客管理的编辑和宾客自助回复出席共用
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { lockTables } from "./seatingTx";
+import { arrangeTableSeats } from "./seatLayout";
+import { loadSeatingPolicy } from "./seatingPolicy";
+import { RsvpState } from "./rsvp";
+import {
+  AgeCategoryValue,
+  CompanionInput,
+  countLapSeated,
+  SEAT_COUNT_SELECT,
+  seatsTaken,
+} from "./companions";
+
+/**
+ * 在事务内更新宾客的人数、随行人员（companions 为 null 时保留已登记的随行人员）和出席回复，并重算不占座的人数
+ * 已入座的宾客占用座位数变化时在锁定的桌内核对座位并调整座号；
+ * 坐不下时默认拒绝，unseatIfFull 时撤下座位改为待安排（宾客自助回复不因座位不足失败）
+ */
+export const updateGuestParty = async (
+  tx: Prisma.TransactionClient,
+  guest: {
+    id: string;
+    projectId: string;
+    headCount: number;
+    lapCount: number;
+    rsvpStatus: string;
+    confirmedCount: number | null;
+    companions: { type: AgeCategoryValue }[];
+  },
+  party: {
+    headCount: number;
+    companions: CompanionInput[] | null;
+    rsvp: RsvpState;
+  },
+  options: { unseatIfFull?: boolean } = {}
+) => {
+  const { headCount, companions, rsvp } = party;
+
+  // 只减少人数时不能少于已登记的随行人员
+  if (!companions && guest.companions.length > headCount - 1) {
+    throw new AppError(
+      `已登记 ${guest.companions.length} 位随行人员，请先删除多余的随行人员再减少人数`,
+      400
+    );
+  }
+
+  const assignment = await tx.seatingAssignment.findUnique({
+    where: { guestId: guest.id },
+  });
+  const policy = await loadSeatingPolicy(tx, guest.projectId);
+  const lapCount = countLapSeated(
+    headCount,
+    companions ?? guest.companions,
+    policy.infantsNeedSeat
+  );
+  const seatsNeeded = seatsTaken({ ...rsvp, headCount, lapCount }, policy);
+  const reseat =
+    !!assignment &&
+    (headCount !== guest.headCount ||
+      companions !== null ||
+      seatsNeeded !== seatsTaken(guest, policy));
+  let unseatedFrom: string | null = null;
+
+  if (reseat) {
+    await lockTables(tx, [assignment.tableId]);
+    const table = await tx.table.findUniqueOrThrow({
+      where: { id: assignment.tableId },
+      include: {
+        assignments: {
+          where: { guestId: { not: guest.id } },
+          include: {
+            guest: { select: SEAT_COUNT_SELECT },
+          },
+        },
+      },
+    });
+    const occupied = table.assignments.reduce(
+      (sum, a) => sum + seatsTaken(a.guest, policy),
+      0
+    );
+    if (occupied + seatsNeeded > table.capacity) {
+      if (!options.unseatIfFull) {
+        throw new AppError(
+          `"${table.name}" 剩余 ${table.capacity - occupied} 个座位，需要 ${seatsNeeded} 个座位`,
+          400
+        );
+      }
+      await tx.seatingAssignment.delete({ where: { id: assignment.id } });
+      unseatedFrom = table.name;
+    }
+  }
+
+  await tx.guest.update({
+    where: { id: guest.id },
+    data: { headCount, lapCount, ...rsvp },
+  });
+  if (companions) {
+    await tx.guestCompanion.deleteMany({ where: { guestId: guest.id } });
+    await tx.guestCompanion.createMany({
+      data: companions.map((c) => ({ ...c, guestId: guest.id })),
+    });
+  }
+  if (reseat) {
+    await arrangeTableSeats(tx, [assignment.tableId]);
+  }
+  // 撤下座位时返回原桌名
+  return { unseatedFrom };
+};
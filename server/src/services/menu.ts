@@ -0,0 +1,153 @@
+// 项目菜单：菜品选项（成人餐/儿童餐与单价），以及宾客一行人中每人实际用餐的菜品
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { AgeCategoryValue, attendingParty } from "./companions";
+
+export const MEAL_KINDS = ["ADULT", "CHILD"] as const;
+
+export type MealKindValue = (typeof MEAL_KINDS)[number];
+
+export const MEAL_KIND_LABELS: Record<MealKindValue, string> = {
+  ADULT: "成人餐",
+  CHILD: "儿童餐",
+};
+
+export interface MenuOptionInput {
+  id?: string;
+  name: string;
+  kind: MealKindValue;
+  price: number;
+  description: string | null;
+}
+
+// 菜单的菜品数量与单价上限（元/位）
+const MAX_MENU_OPTIONS = 30;
+const MAX_PRICE = 100000;
+
+// 按菜单顺序读取
+export const loadMenu = (db: Prisma.TransactionClient, projectId: string) =>
+  db.menuOption.findMany({
+    where: { projectId },
+    orderBy: { position: "asc" },
+  });
+
+export type MenuOptionRecord = Awaited<ReturnType<typeof loadMenu>>[number];
+
+/**
+ * 校验请求中的菜单（整体替换），按提交顺序排列
+ */
+export const parseMenuInput = (raw: unknown): MenuOptionInput[] => {
+  if (!Array.isArray(raw)) {
+    throw new AppError("菜单格式不正确", 400);
+  }
+  if (raw.length > MAX_MENU_OPTIONS) {
+    throw new AppError(`菜单最多 ${MAX_MENU_OPTIONS} 道菜品`, 400);
+  }
+
+  const names = new Set<string>();
+  return raw.map((item, index) => {
+    const name = typeof item?.name === "string" ? item.name.trim() : "";
+    if (!name) {
+      throw new AppError(`请填写第 ${index + 1} 道菜品的名称`, 400);
+    }
+    if (names.has(name)) {
+      throw new AppError(`菜品 "${name}" 重复`, 400);
+    }
+    names.add(name);
+
+    const kind = item.kind ?? "ADULT";
+    if (!MEAL_KINDS.includes(kind)) {
+      throw new AppError(`菜品 "${name}" 的类型不正确`, 400);
+    }
+    const price = Number(item.price ?? 0);
+    if (!Number.isInteger(price) || price < 0 || price > MAX_PRICE) {
+      throw new AppError(`菜品 "${name}" 的单价必须是 0 到 ${MAX_PRICE} 之间的整数`, 400);
+    }
+    const description =
+      typeof item.description === "string" && item.description.trim()
+        ? item.description.trim()
+        : null;
+
+    return {
+      ...(typeof item.id === "string" && { id: item.id }),
+      name,
+      kind,
+      price,
+      description,
+    };
+  });
+};
+
+/**
+ * 检查所选菜品都属于该项目的菜单
+ */
+export const assertMenuChoices = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  choiceIds: Array<string | null | undefined>
+) => {
+  const ids = Array.from(new Set(choiceIds.filter((id): id is string => !!id)));
+  if (ids.length === 0) return;
+
+  const count = await db.menuOption.count({
+    where: { projectId, id: { in: ids } },
+  });
+  if (count !== ids.length) {
+    throw new AppError("所选菜品不在项目菜单中", 400);
+  }
+};
+
+/**
+ * 未选择菜品时的默认菜品：成人为菜单中第一道成人餐，儿童为第一道儿童餐（没有时同成人）；
+ * 婴儿默认不需用餐
+ */
+export const defaultMealFor = (
+  menu: MenuOptionRecord[],
+  age: AgeCategoryValue
+) => {
+  if (age === "INFANT") return null;
+  const adult = menu.find((o) => o.kind === "ADULT") ?? null;
+  return age === "CHILD" ? (menu.find((o) => o.kind === "CHILD") ?? adult) : adult;
+};
+
+// 一行人中某人用餐的情况：菜品、未选（需用餐但菜单中没有可用的菜品）或不需用餐
+export type PersonMeal =
+  | { status: "meal"; option: MenuOptionRecord }
+  | { status: "unselected" }
+  | { status: "none" };
+
+/**
+ * 宾客一行人中每人用餐的菜品：宾客本人、登记的随行人员各按自己的选择，
+ * 未登记的随行人员按成人、随宾客本人的选择
+ * 已确认出席时只计确认人数（见 attendingParty），其余情况按邀请人数
+ */
+export const resolvePartyMeals = (
+  party: {
+    headCount: number;
+    ageCategory: AgeCategoryValue;
+    rsvpStatus: string;
+    confirmedCount: number | null;
+    mealChoiceId: string | null;
+    companions: { type: AgeCategoryValue; mealChoiceId: string | null }[];
+  },
+  menu: MenuOptionRecord[]
+): PersonMeal[] => {
+  const guest = attendingParty(party);
+  const byId = new Map(menu.map((o) => [o.id, o] as const));
+  const mealOf = (age: AgeCategoryValue, choiceId: string | null): PersonMeal => {
+    const option = (choiceId && byId.get(choiceId)) || defaultMealFor(menu, age);
+    if (option) return { status: "meal", option };
+    return age === "INFANT" ? { status: "none" } : { status: "unselected" };
+  };
+
+  const guestChoice = guest.mealChoiceId && byId.get(guest.mealChoiceId);
+  const unregistered = Math.max(0, guest.headCount - 1 - guest.companions.length);
+
+  return [
+    mealOf(guest.ageCategory, guest.mealChoiceId),
+    ...guest.companions.map((c) => mealOf(c.type, c.mealChoiceId)),
+    ...Array.from({ length: unregistered }, () =>
+      mealOf("ADULT", guestChoice && guestChoice.kind === "ADULT" ? guestChoice.id : null)
+    ),
+  ];
+};
@@ -0,0 +1,95 @@
+// 宾客出席回复（RSVP）：状态、确认出席人数、回复时间与宾客自助回复链接
+import crypto from "crypto";
+import { AppError } from "../middleware/errorHandler";
+
+export const RSVP_STATUSES = [
+  "INVITED",
+  "CONFIRMED",
+  "DECLINED",
+  "TENTATIVE",
+] as const;
+
+export type RsvpStatusValue = (typeof RSVP_STATUSES)[number];
+
+export const RSVP_STATUS_LABELS: Record<RsvpStatusValue, string> = {
+  INVITED: "未回复",
+  CONFIRMED: "确认出席",
+  DECLINED: "不出席",
+  TENTATIVE: "待定",
+};
+
+export const isRsvpStatus = (value: unknown): value is RsvpStatusValue =>
+  RSVP_STATUSES.includes(value as RsvpStatusValue);
+
+// Excel 中的出席状态可写中文或英文
+export const parseRsvpStatus = (text: string) =>
+  RSVP_STATUSES.find(
+    (s) => s === text.toUpperCase() || RSVP_STATUS_LABELS[s] === text
+  ) ?? null;
+
+export interface RsvpState {
+  rsvpStatus: RsvpStatusValue;
+  confirmedCount: number | null;
+  respondedAt: Date | null;
+}
+
+/**
+ * 校验并合并出席回复，返回要写入的字段
+ * 确认出席时人数默认为邀请人数，且不能超过邀请人数；不出席和未回复时不记录人数
+ * 状态或人数变化时更新回复时间，改回未回复时清空
+ */
+export const resolveRsvp = (
+  input: { rsvpStatus?: unknown; confirmedCount?: unknown },
+  headCount: number,
+  current?: RsvpState
+): RsvpState => {
+  const rsvpStatus = input.rsvpStatus ?? current?.rsvpStatus ?? "INVITED";
+  if (!isRsvpStatus(rsvpStatus)) {
+    throw new AppError("出席状态不正确", 400);
+  }
+
+  let confirmedCount: number | null = null;
+  if (rsvpStatus === "CONFIRMED" || rsvpStatus === "TENTATIVE") {
+    const raw =
+      input.confirmedCount !== undefined
+        ? input.confirmedCount
+        : current?.confirmedCount;
+    confirmedCount =
+      raw === null || raw === undefined || raw === ""
+        ? rsvpStatus === "CONFIRMED"
+          ? headCount
+          : null
+        : Number(raw);
+    if (
+      confirmedCount !== null &&
+      (!Number.isInteger(confirmedCount) ||
+        confirmedCount < 1 ||
+        confirmedCount > headCount)
+    ) {
+      throw new AppError(`出席人数必须是 1 到 ${headCount} 之间的整数`, 400);
+    }
+  }
+
+  const changed =
+    !current ||
+    current.rsvpStatus !== rsvpStatus ||
+    current.confirmedCount !== confirmedCount;
+  const respondedAt =
+    rsvpStatus === "INVITED"
+      ? null
+      : changed
+        ? new Date()
+        : current!.respondedAt;
+
+  return { rsvpStatus, confirmedCount, respondedAt };
+};
+
+// 自助回复链接默认有效期（天）与上限
+export const RSVP_LINK_DEFAULT_DAYS = 30;
+export const RSVP_LINK_MAX_DAYS = 365;
+
+// 令牌不可猜测，宾客凭链接无需登录即可回复
+export const createRsvpToken = () => crypto.randomBytes(32).toString("hex");
+
+export const rsvpLinkOf = (token: string) =>
+  `${process.env.CLIENT_URL}/rsvp/${token}`;
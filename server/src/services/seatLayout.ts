@@ -0,0 +1,345 @@
+// 桌内座位：座号分配、相邻与面向舞台的判断
+// 座号从 1 起，自桌子正上方（靠近舞台一侧）顺时针编号，与平面图的座位排列一致
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import {
+  attendingSeatFlags,
+  companionsInclude,
+  SEAT_COUNT_SELECT,
+} from "./companions";
+import { loadSeatingPolicy } from "./seatingPolicy";
+
+export interface SeatRules {
+  // 需坐在面向舞台一侧的宾客
+  faceStage: Set<string>;
+  // 需相邻就座的宾客：guestId -> 相邻对象
+  nextTo: Map<string, string[]>;
+}
+
+// 宾客本人所在的桌和座号
+export interface GuestSeat {
+  tableId: string;
+  seat: number;
+  capacity: number;
+}
+
+export interface SeatedGuest {
+  guestId: string;
+  // 每人是否单独占座（第 0 位为宾客本人），不占座的婴儿座号记为 0
+  seatFlags: boolean[];
+  seats: number[];
+}
+
+/**
+ * 两个座位在圆桌上是否相邻
+ */
+export const areSeatsAdjacent = (a: number, b: number, capacity: number) => {
+  if (a === b || capacity < 2) return false;
+  const diff = Math.abs(a - b);
+  return diff === 1 || diff === capacity - 1;
+};
+
+/**
+ * 座位是否在面向舞台的一侧：舞台在桌子上方，
+ * 坐在下半圈的宾客不用转身即可看到舞台
+ */
+export const facesStage = (seat: number, capacity: number) => {
+  const index = seat - 1;
+  return index > capacity / 4 && index < (capacity * 3) / 4;
+};
+
+/**
+ * 根据 NEXT_TO / FACE_STAGE 约束整理座位规则
+ */
+export const buildSeatRules = (
+  constraints: Array<{
+    constraintType: string;
+    guest1Id: string;
+    guest2Id: string | null;
+  }>
+): SeatRules => {
+  const faceStage = new Set<string>();
+  const nextTo = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    if (!nextTo.has(a)) nextTo.set(a, []);
+    nextTo.get(a)!.push(b);
+  };
+  for (const c of constraints) {
+    if (c.constraintType === "FACE_STAGE") faceStage.add(c.guest1Id);
+    if (c.constraintType === "NEXT_TO" && c.guest2Id) {
+      link(c.guest1Id, c.guest2Id);
+      link(c.guest2Id, c.guest1Id);
+    }
+  }
+  return { faceStage, nextTo };
+};
+
+/**
+ * 为一位宾客挑选 count 个空座位，seats[0] 为宾客本人
+ * 优先整段相连的座位；本人的座位尽量满足面向舞台、与相邻对象挨着
+ */
+const pickSeats = (
+  guestId: string,
+  count: number,
+  capacity: number,
+  taken: Map<number, string>,
+  rules: SeatRules
+) => {
+  const free = [];
+  for (let seat = 1; seat <= capacity; seat++) {
+    if (!taken.has(seat)) free.push(seat);
+  }
+  if (count <= 0 || free.length === 0) return [];
+
+  const partners = rules.nextTo.get(guestId) || [];
+  const scoreOf = (own: number) => {
+    let score = 0;
+    if (rules.faceStage.has(guestId) && facesStage(own, capacity)) score += 2;
+    for (let seat = 1; seat <= capacity; seat++) {
+      const owner = taken.get(seat);
+      if (
+        owner &&
+        partners.includes(owner) &&
+        areSeatsAdjacent(seat, own, capacity)
+      ) {
+        score += 2;
+      }
+    }
+    return score;
+  };
+  const seatAt = (seat: number) => ((seat - 1 + capacity) % capacity) + 1;
+
+  // 整段相连的座位，本人可坐在段首或段尾
+  let best: number[] | null = null;
+  let bestScore = -1;
+  for (const start of free) {
+    const block = Array.from({ length: count }, (_, i) => seatAt(start + i));
+    if (block.some((seat) => taken.has(seat))) continue;
+    for (const seats of [block, [...block].reverse()]) {
+      const score = scoreOf(seats[0]);
+      if (score > bestScore) {
+        best = seats;
+        bestScore = score;
+      }
+    }
+  }
+  if (best) return best;
+
+  // 没有足够的连续空座时，本人选得分最高的座位，随行人员依次坐最近的空座
+  const own = free.reduce((a, b) => (scoreOf(b) > scoreOf(a) ? b : a));
+  const distance = (seat: number) => {
+    const diff = Math.abs(seat - own);
+    return Math.min(diff, capacity - diff);
+  };
+  const rest = free
+    .filter((seat) => seat !== own)
+    .sort((a, b) => distance(a) - distance(b) || a - b);
+  return [own, ...rest].slice(0, count);
+};
+
+/**
+ * 整理一桌的座号：每人保留有效的已有座号（在容量内、不与他人重复），
+ * 缺少座号的人（新入座、人数增加）依次分配空座，人数减少时去掉多余座号
+ * 返回 guestId -> 座号（与 seatFlags 一一对应，不占座的人为 0）
+ */
+export const fitSeats = (
+  capacity: number,
+  guests: SeatedGuest[],
+  rules: SeatRules
+) => {
+  const taken = new Map<number, string>();
+  const result = new Map<string, number[]>();
+
+  for (const guest of guests) {
+    const kept = guest.seatFlags.map((needsSeat, i) => {
+      const seat = guest.seats[i];
+      if (!needsSeat || !(seat >= 1 && seat <= capacity) || taken.has(seat)) {
+        return 0;
+      }
+      taken.set(seat, guest.guestId);
+      return seat;
+    });
+    result.set(guest.guestId, kept);
+  }
+
+  for (const guest of guests) {
+    const seats = result.get(guest.guestId)!;
+    const missing = guest.seatFlags.flatMap((needsSeat, i) =>
+      needsSeat && seats[i] === 0 ? [i] : []
+    );
+    if (missing.length === 0) continue;
+    const added = pickSeats(
+      guest.guestId,
+      missing.length,
+      capacity,
+      taken,
+      // 本人已有座位时只为随行人员补座，不再考虑本人的座位规则
+      seats[0] > 0 ? { faceStage: new Set(), nextTo: new Map() } : rules
+    );
+    added.forEach((seat, j) => {
+      taken.set(seat, guest.guestId);
+      seats[missing[j]] = seat;
+    });
+  }
+
+  return result;
+};
+
+/**
+ * 宾客的座位规则是否满足：相关宾客未入座时返回 null
+ * seatOf 返回宾客本人的桌位和座号
+ */
+export const seatRuleSatisfied = (
+  constraint: {
+    constraintType: string;
+    guest1Id: string;
+    guest2Id: string | null;
+  },
+  seatOf: (guestId: string) => GuestSeat | null
+) => {
+  const own = seatOf(constraint.guest1Id);
+  if (!own) return null;
+  if (constraint.constraintType === "FACE_STAGE") {
+    return facesStage(own.seat, own.capacity);
+  }
+  const other = constraint.guest2Id ? seatOf(constraint.guest2Id) : null;
+  if (!other) return null;
+  return (
+    own.tableId === other.tableId &&
+    areSeatsAdjacent(own.seat, other.seat, own.capacity)
+  );
+};
+
+/**
+ * 在已锁定桌位的事务内整理这些桌的座号，只写入有变化的座位记录
+ * 按入座先后处理，先入座的宾客保留原座位
+ */
+export const arrangeTableSeats = async (
+  tx: Prisma.TransactionClient,
+  tableIds: string[]
+) => {
+  const ids = Array.from(new Set(tableIds));
+  if (ids.length === 0) return;
+
+  const tables = await tx.table.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      projectId: true,
+      capacity: true,
+      assignments: {
+        select: {
+          id: true,
+          guestId: true,
+          seats: true,
+          guest: {
+            select: {
+              ...SEAT_COUNT_SELECT,
+              companions: { select: { type: true }, ...companionsInclude },
+            },
+          },
+        },
+        orderBy: { assignedAt: "asc" },
+      },
+    },
+  });
+  if (tables.length === 0) return;
+  const policy = await loadSeatingPolicy(tx, tables[0].projectId);
+  const guestIds = tables.flatMap((t) => t.assignments.map((a) => a.guestId));
+  const rules = buildSeatRules(
+    await tx.seatingConstraint.findMany({
+      where: {
+        constraintType: { in: ["NEXT_TO", "FACE_STAGE"] },
+        OR: [{ guest1Id: { in: guestIds } }, { guest2Id: { in: guestIds } }],
+      },
+      select: { constraintType: true, guest1Id: true, guest2Id: true },
+    })
+  );
+
+  for (const table of tables) {
+    const seats = fitSeats(
+      table.capacity,
+      table.assignments.map((a) => ({
+        guestId: a.guestId,
+        seatFlags: attendingSeatFlags(a.guest, policy),
+        seats: a.seats,
+      })),
+      rules
+    );
+    for (const a of table.assignments) {
+      const next = seats.get(a.guestId)!;
+      if (next.join(",") === a.seats.join(",")) continue;
+      await tx.seatingAssignment.update({
+        where: { id: a.id },
+        data: { seats: next },
+      });
+    }
+  }
+};
+
+/**
+ * 读取与这些宾客有关的 NEXT_TO / FACE_STAGE 约束当前是否满足
+ * 用于手动调整座位前后对比
+ */
+export const loadSeatRuleStates = async (
+  tx: Prisma.TransactionClient,
+  guestIds: string[]
+) => {
+  const constraints = await tx.seatingConstraint.findMany({
+    where: {
+      constraintType: { in: ["NEXT_TO", "FACE_STAGE"] },
+      OR: [{ guest1Id: { in: guestIds } }, { guest2Id: { in: guestIds } }],
+    },
+    include: {
+      guest1: { select: { name: true } },
+      guest2: { select: { name: true } },
+    },
+  });
+  const involved = constraints.flatMap((c) =>
+    c.guest2Id ? [c.guest1Id, c.guest2Id] : [c.guest1Id]
+  );
+  const assignments = await tx.seatingAssignment.findMany({
+    where: { guestId: { in: involved } },
+    select: {
+      guestId: true,
+      tableId: true,
+      seats: true,
+      table: { select: { capacity: true } },
+    },
+  });
+  const seatById = new Map(
+    assignments
+      .filter((a) => a.seats[0] > 0)
+      .map((a) => [
+        a.guestId,
+        { tableId: a.tableId, seat: a.seats[0], capacity: a.table.capacity },
+      ])
+  );
+
+  return constraints.map((c) => ({
+    id: c.id,
+    message:
+      c.constraintType === "FACE_STAGE"
+        ? `"${c.guest1.name}" 需要坐在面向舞台的一侧`
+        : `"${c.guest1.name}" 与 "${c.guest2?.name}" 需要相邻就座`,
+    satisfied: seatRuleSatisfied(c, (id) => seatById.get(id) || null),
+  }));
+};
+
+/**
+ * 手动调整座位后，原本满足的座位约束不能变为不满足
+ * 调整前已不满足的约束不阻止调整，便于逐步挪到位
+ */
+export const assertSeatRulesKept = (
+  before: Awaited<ReturnType<typeof loadSeatRuleStates>>,
+  after: Awaited<ReturnType<typeof loadSeatRuleStates>>
+) => {
+  const broken = after.find(
+    (rule) =>
+      rule.satisfied === false &&
+      before.some((b) => b.id === rule.id && b.satisfied === true)
+  );
+  if (broken) {
+    throw new AppError(broken.message, 400);
+  }
+};
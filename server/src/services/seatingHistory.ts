@@ -0,0 +1,397 @@
+// 座位操作历史：按成员记录安排、移出、换桌、自动排座和桌位修改前后的状态，支持撤销与重做
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { assertSeatingPlan } from "./seatingPlan";
+import { arrangeTableSeats } from "./seatLayout";
+import { SEAT_COUNT_SELECT, seatsTaken } from "./companions";
+import { loadSeatingPolicy } from "./seatingPolicy";
+import { logActivity } from "./activityLog";
+
+// 每位成员在每个项目保留的操作条数
+const MAX_HISTORY = 50;
+
+// 可撤销的桌位字段，拖动位置不记录
+const TABLE_HISTORY_SELECT = {
+  name: true,
+  capacity: true,
+  tableType: true,
+  kind: true,
+  tags: true,
+  notes: true,
+  areaId: true,
+  pinned: true,
+} as const;
+
+type TableFields = Prisma.TableGetPayload<{
+  select: typeof TABLE_HISTORY_SELECT;
+}>;
+
+// 宾客的座位状态，未安排座位时为 null
+interface SeatState {
+  tableId: string;
+  seats: number[];
+}
+
+interface GuestChange {
+  guestId: string;
+  guestName: string;
+  before: SeatState | null;
+  after: SeatState | null;
+}
+
+interface TableChange {
+  tableId: string;
+  tableName: string;
+  before: Partial<TableFields>;
+  after: Partial<TableFields>;
+}
+
+interface SeatingChanges {
+  guests: GuestChange[];
+  tables: TableChange[];
+}
+
+export type HistoryDirection = "undo" | "redo";
+
+const DIRECTION_LABELS: Record<HistoryDirection, string> = {
+  undo: "撤销",
+  redo: "重做",
+};
+
+const sameState = (a: SeatState | null, b: SeatState | null) =>
+  a === null || b === null
+    ? a === b
+    : a.tableId === b.tableId && a.seats.join(",") === b.seats.join(",");
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 读取宾客当前的座位状态，操作前调用，作为 recordSeatingOperation 的 guests
+ */
+export const captureSeatStates = async (
+  db: Prisma.TransactionClient,
+  guestIds: string[]
+) => {
+  const guests = await db.guest.findMany({
+    where: { id: { in: guestIds } },
+    select: {
+      id: true,
+      name: true,
+      assignment: { select: { tableId: true, seats: true } },
+    },
+  });
+  return new Map(
+    guests.map((g) => [
+      g.id,
+      { name: g.name, state: g.assignment as SeatState | null },
+    ])
+  );
+};
+
+export type SeatSnapshot = Awaited<ReturnType<typeof captureSeatStates>>;
+
+/**
+ * 读取桌位当前的可撤销字段，修改桌位前调用
+ */
+export const captureTableState = async (
+  db: Prisma.TransactionClient,
+  tableId: string
+) => {
+  return db.table.findUniqueOrThrow({
+    where: { id: tableId },
+    select: { id: true, ...TABLE_HISTORY_SELECT },
+  });
+};
+
+/**
+ * 在写入座位的事务末尾记录一条操作：与操作前的状态比较，只保存有变化的宾客和桌位字段
+ * 新操作会清空该成员的重做记录，并只保留最近 MAX_HISTORY 条
+ */
+export const recordSeatingOperation = async (
+  tx: Prisma.TransactionClient,
+  params: {
+    projectId: string;
+    userId: string;
+    action: string;
+    summary: string;
+    guests?: SeatSnapshot;
+    table?: Awaited<ReturnType<typeof captureTableState>>;
+  }
+) => {
+  const { projectId, userId, action, summary } = params;
+  const changes: SeatingChanges = { guests: [], tables: [] };
+
+  if (params.guests && params.guests.size > 0) {
+    const after = await captureSeatStates(tx, Array.from(params.guests.keys()));
+    params.guests.forEach(({ name, state }, guestId) => {
+      const current = after.get(guestId)?.state ?? null;
+      if (!sameState(state, current)) {
+        changes.guests.push({
+          guestId,
+          guestName: name,
+          before: state,
+          after: current,
+        });
+      }
+    });
+  }
+
+  if (params.table) {
+    const { id, ...before } = params.table;
+    const after = await captureTableState(tx, id);
+    const keys = (Object.keys(before) as (keyof TableFields)[]).filter(
+      (key) => !sameValue(before[key], after[key])
+    );
+    if (keys.length > 0) {
+      changes.tables.push({
+        tableId: id,
+        tableName: after.name,
+        before: Object.fromEntries(keys.map((key) => [key, before[key]])),
+        after: Object.fromEntries(keys.map((key) => [key, after[key]])),
+      });
+    }
+  }
+
+  if (changes.guests.length === 0 && changes.tables.length === 0) return;
+
+  await tx.seatingOperation.deleteMany({
+    where: { projectId, userId, undone: true },
+  });
+  await tx.seatingOperation.create({
+    data: {
+      projectId,
+      userId,
+      action,
+      summary,
+      changes: changes as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  const stale = await tx.seatingOperation.findMany({
+    where: { projectId, userId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    skip: MAX_HISTORY,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await tx.seatingOperation.deleteMany({
+      where: { id: { in: stale.map((op) => op.id) } },
+    });
+  }
+};
+
+// 下一条可撤销的操作是最新一条未撤销的，可重做的是最早一条已撤销的
+const nextOperation = (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  userId: string,
+  direction: HistoryDirection
+) => {
+  const order = direction === "undo" ? "desc" : "asc";
+  return db.seatingOperation.findFirst({
+    where: { projectId, userId, undone: direction === "redo" },
+    orderBy: [{ createdAt: order }, { id: order }],
+  });
+};
+
+/**
+ * 成员当前可撤销和可重做的操作
+ */
+export const getSeatingHistory = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  userId: string
+) => {
+  const [undo, redo, undoCount, redoCount] = await Promise.all([
+    nextOperation(db, projectId, userId, "undo"),
+    nextOperation(db, projectId, userId, "redo"),
+    db.seatingOperation.count({ where: { projectId, userId, undone: false } }),
+    db.seatingOperation.count({ where: { projectId, userId, undone: true } }),
+  ]);
+  const pick = (op: typeof undo) =>
+    op && {
+      id: op.id,
+      action: op.action,
+      summary: op.summary,
+      createdAt: op.createdAt,
+    };
+  return { undo: pick(undo), redo: pick(redo), undoCount, redoCount };
+};
+
+/**
+ * 撤销或重做成员的上一条操作（调用方需先锁定项目桌位）
+ * 只有涉及的宾客和桌位仍是操作后（重做时为撤销后）的状态才能执行，否则返回 409；
+ * 恢复的座位还要满足容量、锁定和硬约束，同桌调整的原座号已被他人占用时同样视为冲突
+ */
+export const applySeatingHistory = async (
+  tx: Prisma.TransactionClient,
+  params: { projectId: string; userId: string; direction: HistoryDirection }
+) => {
+  const { projectId, userId, direction } = params;
+  const verb = DIRECTION_LABELS[direction];
+
+  const operation = await nextOperation(tx, projectId, userId, direction);
+  if (!operation) {
+    throw new AppError(`没有可${verb}的操作`, 400);
+  }
+  const policy = await loadSeatingPolicy(tx, projectId);
+
+  const changes = operation.changes as unknown as SeatingChanges;
+  const from = direction === "undo" ? "after" : "before";
+  const to = direction === "undo" ? "before" : "after";
+  const conflict = (reason: string) =>
+    new AppError(`无法${verb}"${operation.summary}"：${reason}`, 409);
+
+  // 桌位字段：仍是操作后的值才能恢复，容量不能少于当前占用
+  for (const change of changes.tables) {
+    const table = await tx.table.findFirst({
+      where: { id: change.tableId, projectId },
+      include: {
+        assignments: {
+          include: { guest: { select: SEAT_COUNT_SELECT } },
+        },
+      },
+    });
+    if (!table) {
+      throw conflict(`桌位"${change.tableName}"已被删除`);
+    }
+    const fields = Object.keys(change[from]) as (keyof TableFields)[];
+    if (fields.some((key) => !sameValue(table[key], change[from][key]))) {
+      throw conflict(`桌位"${table.name}"已被再次修改`);
+    }
+
+    const target = change[to];
+    const occupied = table.assignments.reduce(
+      (sum, a) => sum + seatsTaken(a.guest, policy),
+      0
+    );
+    if (target.capacity !== undefined && target.capacity < occupied) {
+      throw conflict(`"${table.name}"已坐满 ${occupied} 个座位`);
+    }
+    if (target.areaId) {
+      const area = await tx.area.findFirst({
+        where: { id: target.areaId, projectId },
+      });
+      if (!area) {
+        throw conflict("原区域已被删除");
+      }
+    }
+
+    await tx.table.update({
+      where: { id: change.tableId },
+      data: target as Prisma.TableUncheckedUpdateInput,
+    });
+  }
+
+  // 宾客座位：仍坐在操作后的桌才能恢复
+  const current = await captureSeatStates(
+    tx,
+    changes.guests.map((c) => c.guestId)
+  );
+  for (const change of changes.guests) {
+    const guest = current.get(change.guestId);
+    if (!guest) {
+      throw conflict(`宾客"${change.guestName}"已被删除`);
+    }
+    if (guest.state?.tableId !== change[from]?.tableId) {
+      throw conflict(`"${guest.name}"的座位已被调整`);
+    }
+  }
+
+  // 换桌、入座和移出按排座方案核对容量、锁定和硬约束
+  const moves = changes.guests
+    .filter((c) => c[from]?.tableId !== c[to]?.tableId)
+    .map((c) => ({ guestId: c.guestId, tableId: c[to]?.tableId ?? null }));
+  if (moves.length > 0) {
+    try {
+      await assertSeatingPlan(tx, projectId, moves);
+    } catch (error) {
+      if (error instanceof AppError) throw conflict(error.message);
+      throw error;
+    }
+  }
+
+  // 同桌调整座号时原座号不能已被本次操作之外的宾客占用；
+  // 换桌恢复的宾客原座号被占用时改为重新分配
+  const involved = new Set(changes.guests.map((c) => c.guestId));
+  const targetTableIds = Array.from(
+    new Set(changes.guests.flatMap((c) => (c[to] ? [c[to]!.tableId] : [])))
+  );
+  const others = await tx.seatingAssignment.findMany({
+    where: {
+      tableId: { in: targetTableIds },
+      guestId: { notIn: Array.from(involved) },
+    },
+    include: {
+      guest: { select: { name: true } },
+      table: { select: { name: true } },
+    },
+  });
+  const seatsOf = (change: GuestChange) => {
+    const state = change[to]!;
+    const occupant = others.find(
+      (a) =>
+        a.tableId === state.tableId &&
+        a.seats.some((seat) => seat > 0 && state.seats.includes(seat))
+    );
+    if (!occupant) return state.seats;
+    if (change[from]?.tableId !== state.tableId) return [];
+    throw conflict(
+      `"${occupant.table.name}"上"${change.guestName}"原来的座位已有"${occupant.guest.name}"`
+    );
+  };
+  const targetSeats = new Map(
+    changes.guests.flatMap((c) =>
+      c[to] ? [[c.guestId, seatsOf(c)] as const] : []
+    )
+  );
+
+  for (const change of changes.guests) {
+    const state = change[to];
+    if (!state) {
+      await tx.seatingAssignment.delete({ where: { guestId: change.guestId } });
+    } else {
+      await tx.seatingAssignment.upsert({
+        where: { guestId: change.guestId },
+        update: {
+          tableId: state.tableId,
+          seats: targetSeats.get(change.guestId),
+          assignedById: userId,
+        },
+        create: {
+          guestId: change.guestId,
+          tableId: state.tableId,
+          seats: targetSeats.get(change.guestId),
+          assignedById: userId,
+        },
+      });
+    }
+  }
+  // 补齐恢复后缺失或超出容量的座号
+  const tableIds = Array.from(
+    new Set([
+      ...changes.tables.map((c) => c.tableId),
+      ...changes.guests.flatMap((c) =>
+        [c.before?.tableId, c.after?.tableId].filter((id): id is string => !!id)
+      ),
+    ])
+  );
+  await arrangeTableSeats(tx, tableIds);
+
+  await tx.seatingOperation.update({
+    where: { id: operation.id },
+    data: { undone: direction === "undo" },
+  });
+
+  await logActivity(tx, {
+    projectId,
+    userId,
+    action: direction === "undo" ? "UNDO_SEATING" : "REDO_SEATING",
+    targetType: "seating",
+    targetId: operation.id,
+    details: { summary: operation.summary, operation: operation.action },
+  });
+
+  return { operation, tableIds };
+};
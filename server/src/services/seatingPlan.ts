@@ -0,0 +1,386 @@
+// 排座方案的版本指纹：预览生成时记录，提交时比对以发现期间的并发修改
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { createTogetherResolver, pairsOfType } from "./constraintGraph";
+import { createTableRuleChecker } from "./constraintTypes";
+import {
+  groupTableLimits,
+  groupTogetherConstraints,
+  loadConstraintGroups,
+} from "./constraintGroups";
+import { arrangeTableSeats } from "./seatLayout";
+import { SEAT_COUNT_SELECT, seatsTaken } from "./companions";
+import { loadSeatingPolicy } from "./seatingPolicy";
+import {
+  SOLVER_GUEST_SELECT,
+  sortGuestsForSeating,
+  toSolverGuest,
+} from "./seatingSolver";
+
+// 核对座位安排时需要读取的硬约束
+const HARD_CONSTRAINT_TYPES = [
+  "MUST_TOGETHER",
+  "NEXT_TO",
+  "MUST_APART",
+  "MUST_AT_TABLE",
+  "NEVER_AT_TABLE",
+] as const;
+
+/**
+ * 根据项目当前宾客占用的座位数（随人数、出席回复和排座策略变化）、座位安排、桌位容量、锁定状态、约束和分组约束计算指纹
+ * 任何一项变化都会导致指纹不同
+ */
+export const computeSeatingFingerprint = async (
+  db: Prisma.TransactionClient,
+  projectId: string
+) => {
+  const [guests, tables, constraints, groups, policy] = await Promise.all([
+    db.guest.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        ...SEAT_COUNT_SELECT,
+        assignment: { select: { tableId: true, pinned: true } },
+      },
+      orderBy: { id: "asc" },
+    }),
+    db.table.findMany({
+      where: { projectId },
+      select: { id: true, capacity: true, pinned: true },
+      orderBy: { id: "asc" },
+    }),
+    db.seatingConstraint.findMany({
+      where: { projectId },
+      select: { id: true },
+      orderBy: { id: "asc" },
+    }),
+    db.constraintGroup.findMany({
+      where: { projectId },
+      select: { id: true },
+      orderBy: { id: "asc" },
+    }),
+    loadSeatingPolicy(db, projectId),
+  ]);
+
+  const hash = crypto.createHash("sha256");
+  guests.forEach((g) =>
+    hash.update(
+      `g:${g.id}:${seatsTaken(g, policy)}:${g.assignment?.tableId || ""}:${
+        g.assignment?.pinned ? 1 : 0
+      };`
+    )
+  );
+  tables.forEach((t) =>
+    hash.update(`t:${t.id}:${t.capacity}:${t.pinned ? 1 : 0};`)
+  );
+  constraints.forEach((c) => hash.update(`c:${c.id};`));
+  groups.forEach((g) => hash.update(`cg:${g.id};`));
+  return hash.digest("hex");
+};
+
+/**
+ * 核对一组座位调整能否写入（调用方需先锁定项目桌位）：tableId 为 null 表示撤下座位
+ * 检查锁定状态、容量、MUST_APART、同桌约束、指定桌位约束和分组的每桌人数上限，返回涉及的宾客
+ */
+export const assertSeatingPlan = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  assignments: { guestId: string; tableId: string | null }[]
+) => {
+  const guestIds = assignments.map((a) => a.guestId);
+  const [guests, tables, hardConstraints, policy, groups] = await Promise.all([
+    tx.guest.findMany({
+      where: { id: { in: guestIds }, projectId },
+      select: {
+        id: true,
+        ...SEAT_COUNT_SELECT,
+        assignment: { select: { tableId: true, pinned: true } },
+      },
+    }),
+    tx.table.findMany({
+      where: { projectId },
+      include: {
+        assignments: {
+          include: {
+            guest: { select: { id: true, ...SEAT_COUNT_SELECT } },
+          },
+        },
+      },
+    }),
+    tx.seatingConstraint.findMany({
+      where: { projectId, constraintType: { in: [...HARD_CONSTRAINT_TYPES] } },
+    }),
+    loadSeatingPolicy(tx, projectId),
+    loadConstraintGroups(tx, projectId),
+  ]);
+
+  const tableById = new Map(tables.map((t) => [t.id, t] as const));
+  if (
+    guests.length !== new Set(guestIds).size ||
+    guests.length !== assignments.length ||
+    assignments.some((a) => a.tableId !== null && !tableById.has(a.tableId))
+  ) {
+    throw new AppError("排座方案与项目数据不一致", 400);
+  }
+
+  const touchesPinned =
+    guests.some(
+      (g) =>
+        g.assignment &&
+        (g.assignment.pinned || tableById.get(g.assignment.tableId)!.pinned)
+    ) ||
+    assignments.some((a) => a.tableId && tableById.get(a.tableId)!.pinned);
+  if (touchesPinned) {
+    throw new AppError("排座方案涉及已锁定的座位或桌位", 400);
+  }
+
+  // 合并现有安排与方案，逐桌核对占用的座位数
+  const seatCountOf = new Map(
+    guests.map((g) => [g.id, seatsTaken(g, policy)] as const)
+  );
+  const tableOf = new Map<string, string>();
+  tables.forEach((t) =>
+    t.assignments.forEach((a) => {
+      tableOf.set(a.guest.id, t.id);
+      seatCountOf.set(a.guest.id, seatsTaken(a.guest, policy));
+    })
+  );
+  assignments.forEach((a) =>
+    a.tableId ? tableOf.set(a.guestId, a.tableId) : tableOf.delete(a.guestId)
+  );
+
+  const occupied = new Map<string, number>();
+  tableOf.forEach((tableId, guestId) =>
+    occupied.set(
+      tableId,
+      (occupied.get(tableId) || 0) + seatCountOf.get(guestId)!
+    )
+  );
+  const overfull = tables.find((t) => (occupied.get(t.id) || 0) > t.capacity);
+  if (overfull) {
+    throw new AppError(`"${overfull.name}" 座位不足，无法应用排座方案`, 400);
+  }
+
+  const violated = pairsOfType(hardConstraints, "MUST_APART").some(
+    ([a, b]) => tableOf.has(a) && tableOf.get(a) === tableOf.get(b)
+  );
+  if (violated) {
+    throw new AppError("排座方案违反了不能同桌的约束", 400);
+  }
+
+  // 同桌组（MUST_TOGETHER、NEXT_TO 与"全部同桌"分组）中本次方案安排入座的宾客，
+  // 须与同组已入座的其他宾客在同一桌；同组尚未入座的宾客不影响
+  const groupOf = createTogetherResolver([
+    ...hardConstraints,
+    ...groupTogetherConstraints(groups),
+  ]);
+  const tableOfGroup = new Map<string, Set<string>>();
+  tableOf.forEach((tableId, guestId) => {
+    const group = groupOf(guestId);
+    if (!tableOfGroup.has(group)) tableOfGroup.set(group, new Set());
+    tableOfGroup.get(group)!.add(tableId);
+  });
+  const split = assignments.some(
+    (a) => a.tableId && tableOfGroup.get(groupOf(a.guestId))!.size > 1
+  );
+  if (split) {
+    throw new AppError("排座方案违反了必须同桌的约束", 400);
+  }
+
+  // 指定桌位的约束只核对本次方案安排的宾客
+  const tableRuleAt = createTableRuleChecker(hardConstraints);
+  if (assignments.some((a) => a.tableId && tableRuleAt(a.guestId, a.tableId))) {
+    throw new AppError("排座方案违反了指定桌位的约束", 400);
+  }
+
+  // 分组人数上限只核对本次方案有宾客入座的桌
+  const targetTables = new Set(assignments.map((a) => a.tableId));
+  const limits = groupTableLimits(groups);
+  const overLimit = limits.find(({ limit, guestIds }) => {
+    const counts = new Map<string, number>();
+    guestIds.forEach((id) => {
+      const tableId = tableOf.get(id);
+      if (tableId && targetTables.has(tableId)) {
+        counts.set(tableId, (counts.get(tableId) || 0) + 1);
+      }
+    });
+    return Array.from(counts.values()).some((count) => count > limit);
+  });
+  if (overLimit) {
+    throw new AppError(
+      `排座方案违反了分组"${overLimit.name}"每桌最多 ${overLimit.limit} 人的约束`,
+      400
+    );
+  }
+
+  return guests;
+};
+
+/**
+ * 整体替换座位安排（切换方案、恢复快照）时筛选能写入的座位（调用方需先锁定项目桌位，并删除要替换的座位）：
+ * 项目中保留的座位视为已入座；锁定的座位和锁定桌位上的座位先入座，其余按排座顺序逐个入座
+ * 桌位不存在、锁定桌位上已有保留的宾客、坐不下，或违反 MUST_APART、同桌约束、指定桌位约束、
+ * 分组每桌人数上限的宾客跳过
+ */
+export const fitSeatingLayout = async <
+  T extends { guestId: string; tableId: string | null; pinned: boolean },
+>(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  seats: T[]
+) => {
+  const [guests, tables, kept, hardConstraints, policy, groups] =
+    await Promise.all([
+      tx.guest.findMany({ where: { projectId }, select: SOLVER_GUEST_SELECT }),
+      tx.table.findMany({
+        where: { projectId },
+        select: { id: true, capacity: true, pinned: true },
+      }),
+      tx.seatingAssignment.findMany({
+        where: { table: { projectId } },
+        select: { guestId: true, tableId: true },
+      }),
+      tx.seatingConstraint.findMany({
+        where: { projectId, constraintType: { in: [...HARD_CONSTRAINT_TYPES] } },
+      }),
+      loadSeatingPolicy(tx, projectId),
+      loadConstraintGroups(tx, projectId),
+    ]);
+
+  const guestById = new Map(
+    guests.map((g) => [g.id, toSolverGuest(g, policy)] as const)
+  );
+  const tableById = new Map(tables.map((t) => [t.id, t] as const));
+  const rank = new Map(
+    sortGuestsForSeating(Array.from(guestById.values())).map(
+      (g, i) => [g.id, i] as const
+    )
+  );
+  const locked = (s: T) =>
+    s.pinned || (!!s.tableId && !!tableById.get(s.tableId)?.pinned);
+  const ordered = seats
+    .filter((s) => guestById.has(s.guestId))
+    .sort(
+      (a, b) =>
+        Number(locked(b)) - Number(locked(a)) ||
+        rank.get(a.guestId)! - rank.get(b.guestId)!
+    );
+
+  const apartOf = new Map<string, string[]>();
+  pairsOfType(hardConstraints, "MUST_APART").forEach(([a, b]) => {
+    apartOf.set(a, [...(apartOf.get(a) || []), b]);
+    apartOf.set(b, [...(apartOf.get(b) || []), a]);
+  });
+  const groupOf = createTogetherResolver([
+    ...hardConstraints,
+    ...groupTogetherConstraints(groups),
+  ]);
+  const tableRuleAt = createTableRuleChecker(hardConstraints);
+  const limits = groupTableLimits(groups);
+
+  const tableOf = new Map<string, string>();
+  const tableOfGroup = new Map<string, string>();
+  const occupied = new Map<string, number>();
+  const seat = (guestId: string, tableId: string) => {
+    tableOf.set(guestId, tableId);
+    tableOfGroup.set(groupOf(guestId), tableId);
+    occupied.set(
+      tableId,
+      (occupied.get(tableId) || 0) + guestById.get(guestId)!.headCount
+    );
+  };
+  kept.forEach((a) => seat(a.guestId, a.tableId));
+  const closed = new Set(
+    kept.filter((a) => tableById.get(a.tableId)!.pinned).map((a) => a.tableId)
+  );
+
+  const fits = (guestId: string, tableId: string) => {
+    const table = tableById.get(tableId);
+    if (!table || closed.has(tableId) || tableOf.has(guestId)) return false;
+    const used = (occupied.get(tableId) || 0) + guestById.get(guestId)!.headCount;
+    if (used > table.capacity) return false;
+    if ((apartOf.get(guestId) || []).some((id) => tableOf.get(id) === tableId)) {
+      return false;
+    }
+    const groupTable = tableOfGroup.get(groupOf(guestId));
+    if (groupTable && groupTable !== tableId) return false;
+    if (tableRuleAt(guestId, tableId)) return false;
+    return limits.every(
+      ({ limit, guestIds }) =>
+        !guestIds.includes(guestId) ||
+        guestIds.filter((id) => tableOf.get(id) === tableId).length < limit
+    );
+  };
+
+  const placed: (T & { tableId: string })[] = [];
+  const skipped = seats.filter((s) => !guestById.has(s.guestId));
+  ordered.forEach((s) => {
+    if (s.tableId && fits(s.guestId, s.tableId)) {
+      seat(s.guestId, s.tableId);
+      placed.push({ ...s, tableId: s.tableId });
+    } else {
+      skipped.push(s);
+    }
+  });
+
+  return { placed, skipped };
+};
+
+/**
+ * 在事务内写入一组座位调整（调用方需先锁定项目桌位，并自行记录活动日志）
+ * 指纹不一致说明生成方案后数据被改动过；写入前再按 assertSeatingPlan 核对
+ */
+export const applySeatingPlan = async (
+  tx: Prisma.TransactionClient,
+  params: {
+    projectId: string;
+    userId: string;
+    fingerprint: string;
+    assignments: { guestId: string; tableId: string | null }[];
+  }
+) => {
+  const { projectId, userId, fingerprint, assignments } = params;
+
+  const currentFingerprint = await computeSeatingFingerprint(tx, projectId);
+  if (currentFingerprint !== fingerprint) {
+    throw new AppError("排座期间座位安排已被其他成员修改，请重新排座", 409);
+  }
+
+  const guests = await assertSeatingPlan(tx, projectId, assignments);
+
+  const seated = new Set(
+    guests.filter((g) => g.assignment).map((g) => g.id)
+  );
+  const removals = assignments.filter((a) => !a.tableId).map((a) => a.guestId);
+  const moves = assignments.filter((a) => a.tableId && seated.has(a.guestId));
+  const creations = assignments.filter(
+    (a) => a.tableId && !seated.has(a.guestId)
+  );
+
+  if (removals.length > 0) {
+    await tx.seatingAssignment.deleteMany({
+      where: { guestId: { in: removals } },
+    });
+  }
+  for (const move of moves) {
+    await tx.seatingAssignment.update({
+      where: { guestId: move.guestId },
+      data: { tableId: move.tableId!, seats: [], assignedById: userId },
+    });
+  }
+  if (creations.length > 0) {
+    await tx.seatingAssignment.createMany({
+      data: creations.map((a) => ({
+        guestId: a.guestId,
+        tableId: a.tableId!,
+        assignedById: userId,
+      })),
+    });
+  }
+  // 换桌和新入座的宾客在目标桌分配座号
+  await arrangeTableSeats(
+    tx,
+    assignments.flatMap((a) => (a.tableId ? [a.tableId] : []))
+  );
+};
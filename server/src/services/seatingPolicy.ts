@@ -0,0 +1,106 @@
+// 项目排座策略：推荐座位和自动排座共用同一套权重与开关
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+
+export interface SeatingPolicyValues {
+  areaMatchWeight: number;
+  areaMismatchWeight: number;
+  tagMatchWeight: number;
+  tagGroupBonus: number;
+  exactFillWeight: number;
+  nearFillWeight: number;
+  newTableAreaBonus: number;
+  newTablePenalty: number;
+  neverMixAreas: boolean;
+  preferFillingTables: boolean;
+  // 儿童与婴儿：婴儿随行人员是否单独占座、儿童宾客是否只坐儿童桌
+  infantsNeedSeat: boolean;
+  childrenToKidsTables: boolean;
+  // 自动排座只安排确认出席的宾客（不出席的宾客始终不安排）
+  confirmedOnly: boolean;
+  // 轮椅宾客只坐带"无障碍"标签的桌
+  wheelchairToAccessibleTables: boolean;
+}
+
+// 与数据库默认值一致，项目未保存过策略时使用
+export const DEFAULT_SEATING_POLICY: SeatingPolicyValues = {
+  areaMatchWeight: 500,
+  areaMismatchWeight: -300,
+  tagMatchWeight: 100,
+  tagGroupBonus: 150,
+  exactFillWeight: 30,
+  nearFillWeight: 20,
+  newTableAreaBonus: 50,
+  newTablePenalty: -100,
+  neverMixAreas: false,
+  preferFillingTables: true,
+  infantsNeedSeat: false,
+  childrenToKidsTables: false,
+  confirmedOnly: false,
+  wheelchairToAccessibleTables: false,
+};
+
+const WEIGHT_FIELDS = [
+  "areaMatchWeight",
+  "areaMismatchWeight",
+  "tagMatchWeight",
+  "tagGroupBonus",
+  "exactFillWeight",
+  "nearFillWeight",
+  "newTableAreaBonus",
+  "newTablePenalty",
+] as const;
+
+const TOGGLE_FIELDS = [
+  "neverMixAreas",
+  "preferFillingTables",
+  "infantsNeedSeat",
+  "childrenToKidsTables",
+  "confirmedOnly",
+  "wheelchairToAccessibleTables",
+] as const;
+
+// 权重绝对值上限，避免软目标压过硬约束的惩罚
+const MAX_WEIGHT = 5000;
+
+/**
+ * 读取项目的排座策略，未保存过时返回默认值
+ */
+export const loadSeatingPolicy = async (
+  db: Prisma.TransactionClient,
+  projectId: string
+): Promise<SeatingPolicyValues> => {
+  const policy = await db.seatingPolicy.findUnique({ where: { projectId } });
+  if (!policy) return { ...DEFAULT_SEATING_POLICY };
+
+  const values = { ...DEFAULT_SEATING_POLICY };
+  WEIGHT_FIELDS.forEach((field) => (values[field] = policy[field]));
+  TOGGLE_FIELDS.forEach((field) => (values[field] = policy[field]));
+  return values;
+};
+
+/**
+ * 校验并提取请求中的策略字段，只返回提交了的字段
+ */
+export const parseSeatingPolicyInput = (body: any) => {
+  const data: Partial<SeatingPolicyValues> = {};
+
+  for (const field of WEIGHT_FIELDS) {
+    if (body[field] === undefined) continue;
+    const value = Number(body[field]);
+    if (!Number.isInteger(value) || Math.abs(value) > MAX_WEIGHT) {
+      throw new AppError(`权重必须是 -${MAX_WEIGHT} 到 ${MAX_WEIGHT} 之间的整数`, 400);
+    }
+    data[field] = value;
+  }
+
+  for (const field of TOGGLE_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== "boolean") {
+      throw new AppError("开关参数必须是布尔值", 400);
+    }
+    data[field] = body[field];
+  }
+
+  return data;
+};
@@ -0,0 +1,351 @@
+// 排座方案（假设分支）：同一项目在共用的宾客和桌位上保存多套座位安排，可切换、对比得分并定稿
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { arrangeTableSeats } from "./seatLayout";
+import { seatsTaken } from "./companions";
+import { isAccessibleTable } from "./guestNeeds";
+import { loadSeatingPolicy } from "./seatingPolicy";
+import { loadConstraintGroups } from "./constraintGroups";
+import { fitSeatingLayout } from "./seatingPlan";
+import {
+  buildSeatingProblem,
+  countHardViolations,
+  evaluateLayout,
+  SOLVER_GUEST_SELECT,
+  SolverGuest,
+  sortGuestsForSeating,
+  toSolverGuest,
+} from "./seatingSolver";
+
+// 方案名称的长度上限
+export const MAX_SCENARIO_NAME_LENGTH = 30;
+
+// 首次创建方案时，项目现有的座位安排保存为该方案
+export const DEFAULT_SCENARIO_NAME = "主方案";
+
+interface ScenarioSeat {
+  guestId: string;
+  // 非当前方案中所在的桌位被删除后为 null
+  tableId: string | null;
+  seats: number[];
+  pinned: boolean;
+}
+
+/**
+ * 读取项目的当前方案；还没有方案时把现有座位安排登记为"主方案"
+ */
+export const ensureActiveScenario = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  userId: string
+) => {
+  const active = await tx.seatingScenario.findFirst({
+    where: { projectId, active: true },
+  });
+  if (active) return active;
+
+  return tx.seatingScenario.create({
+    data: {
+      projectId,
+      createdById: userId,
+      name: DEFAULT_SCENARIO_NAME,
+      active: true,
+    },
+  });
+};
+
+/**
+ * 读取项目中的方案，不存在时返回 404
+ */
+export const findScenario = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  scenarioId: string
+) => {
+  const scenario = await db.seatingScenario.findFirst({
+    where: { id: scenarioId, projectId },
+  });
+  if (!scenario) {
+    throw new AppError("方案不存在", 404);
+  }
+  return scenario;
+};
+
+/**
+ * 方案的座位安排：当前方案读项目的座位表，其余方案读各自保存的座位
+ */
+const loadScenarioSeats = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  scenario: { id: string; active: boolean }
+): Promise<ScenarioSeat[]> => {
+  const select = { guestId: true, tableId: true, seats: true, pinned: true };
+  return scenario.active
+    ? db.seatingAssignment.findMany({
+        where: { table: { projectId } },
+        select,
+      })
+    : db.scenarioAssignment.findMany({
+        where: { scenarioId: scenario.id },
+        select,
+      });
+};
+
+/**
+ * 新建方案：复制某个方案（默认当前方案）的座位，或从空白开始
+ */
+export const createScenario = async (
+  tx: Prisma.TransactionClient,
+  params: {
+    projectId: string;
+    userId: string;
+    name: string;
+    description?: string | null;
+    // 复制来源方案 ID，null 表示空白方案
+    copyFromId?: string | null;
+  }
+) => {
+  const { projectId, userId, name, description } = params;
+  const active = await ensureActiveScenario(tx, projectId, userId);
+
+  const duplicate = await tx.seatingScenario.findUnique({
+    where: { projectId_name: { projectId, name } },
+  });
+  if (duplicate) {
+    throw new AppError(`方案"${name}"已存在`, 400);
+  }
+
+  const source =
+    params.copyFromId === null
+      ? null
+      : params.copyFromId
+        ? await findScenario(tx, projectId, params.copyFromId)
+        : active;
+  const seats = source ? await loadScenarioSeats(tx, projectId, source) : [];
+
+  const scenario = await tx.seatingScenario.create({
+    data: {
+      projectId,
+      createdById: userId,
+      name,
+      description: description || null,
+    },
+  });
+  if (seats.length > 0) {
+    await tx.scenarioAssignment.createMany({
+      data: seats.map((s) => ({ ...s, scenarioId: scenario.id })),
+    });
+  }
+
+  return { scenario, source, seatedGuestCount: seats.length };
+};
+
+/**
+ * 切换当前方案（调用方需先锁定项目桌位）：
+ * 现有座位存回原方案，再把目标方案的座位经 fitSeatingLayout 筛选后写入项目座位表
+ * 坐不下、所在桌位已被删除或已锁定、违反硬约束或分组上限的宾客留在待安排列表；
+ * 座位操作的撤销记录随之清空
+ */
+export const activateScenario = async (
+  tx: Prisma.TransactionClient,
+  params: { projectId: string; userId: string; scenarioId: string }
+) => {
+  const { projectId, userId, scenarioId } = params;
+  const previous = await ensureActiveScenario(tx, projectId, userId);
+  const scenario = await findScenario(tx, projectId, scenarioId);
+  if (scenario.active) {
+    throw new AppError(`"${scenario.name}"已是当前方案`, 400);
+  }
+
+  // 现有座位存回原方案
+  const live = await loadScenarioSeats(tx, projectId, previous);
+  await tx.scenarioAssignment.deleteMany({
+    where: { scenarioId: previous.id },
+  });
+  if (live.length > 0) {
+    await tx.scenarioAssignment.createMany({
+      data: live.map((s) => ({ ...s, scenarioId: previous.id })),
+    });
+  }
+
+  // 锁定桌位上的宾客保持不动，其余座位换成目标方案的座位
+  await tx.seatingAssignment.deleteMany({
+    where: { table: { projectId, pinned: false } },
+  });
+  const [target, kept, guests, tables] = await Promise.all([
+    loadScenarioSeats(tx, projectId, scenario),
+    tx.seatingAssignment.findMany({
+      where: { table: { projectId } },
+      select: { guestId: true },
+    }),
+    tx.guest.findMany({
+      where: { projectId },
+      select: { id: true, name: true },
+    }),
+    tx.table.findMany({
+      where: { projectId },
+      select: { id: true },
+    }),
+  ]);
+  const keptIds = new Set(kept.map((a) => a.guestId));
+  const { placed, skipped } = await fitSeatingLayout(
+    tx,
+    projectId,
+    target.filter((s) => !keptIds.has(s.guestId))
+  );
+  const nameOf = new Map(guests.map((g) => [g.id, g.name] as const));
+  const creations = placed.map((s) => ({ ...s, assignedById: userId }));
+
+  if (creations.length > 0) {
+    await tx.seatingAssignment.createMany({ data: creations });
+  }
+  await tx.scenarioAssignment.deleteMany({ where: { scenarioId } });
+  await tx.seatingScenario.update({
+    where: { id: previous.id },
+    data: { active: false },
+  });
+  await tx.seatingScenario.update({
+    where: { id: scenarioId },
+    data: { active: true },
+  });
+
+  // 人数变化后原座号可能不再适用，按当前人数补齐
+  await arrangeTableSeats(
+    tx,
+    tables.map((t) => t.id)
+  );
+  // 撤销记录基于切换前的座位，切换后不再适用
+  await tx.seatingOperation.deleteMany({ where: { projectId } });
+
+  return {
+    scenario,
+    previous,
+    placed: creations.length,
+    skipped: skipped.map((s) => nameOf.get(s.guestId)!),
+  };
+};
+
+/**
+ * 把方案定为最终方案（调用方需先锁定项目桌位）：不是当前方案时先切换过去，
+ * 使座位表、导出和打印都以定稿方案为准
+ */
+export const promoteScenario = async (
+  tx: Prisma.TransactionClient,
+  params: { projectId: string; userId: string; scenarioId: string }
+) => {
+  const { projectId, scenarioId } = params;
+  const scenario = await findScenario(tx, projectId, scenarioId);
+  const switched = scenario.active ? null : await activateScenario(tx, params);
+
+  await tx.seatingScenario.updateMany({
+    where: { projectId, final: true },
+    data: { final: false },
+  });
+  await tx.seatingScenario.update({
+    where: { id: scenarioId },
+    data: { final: true },
+  });
+
+  return { scenario, switched };
+};
+
+/**
+ * 项目全部方案的统计和得分，得分与自动排座使用同一评分规则
+ * 未安排的宾客按排座策略计入（不出席的不计，只安排确认出席时只计确认出席的）
+ */
+export const scoreScenarios = async (
+  db: Prisma.TransactionClient,
+  projectId: string
+) => {
+  const scenarios = await db.seatingScenario.findMany({
+    where: { projectId },
+    include: { createdBy: { select: { id: true, nickname: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (scenarios.length === 0) return [];
+
+  const [policy, groups, constraints, guests, tables] = await Promise.all([
+    loadSeatingPolicy(db, projectId),
+    loadConstraintGroups(db, projectId),
+    db.seatingConstraint.findMany({ where: { projectId } }),
+    db.guest.findMany({
+      where: { projectId },
+      select: SOLVER_GUEST_SELECT,
+    }),
+    db.table.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+  const guestById = new Map(guests.map((g) => [g.id, g] as const));
+
+  return Promise.all(
+    scenarios.map(async (scenario) => {
+      // 所在桌位已删除的宾客按未安排计
+      const seats = (await loadScenarioSeats(db, projectId, scenario)).flatMap(
+        ({ tableId, ...s }) => (tableId ? [{ ...s, tableId }] : [])
+      );
+
+      // 方案中已入座的宾客作为各桌的固定宾客，其余待安排宾客不入座，整体打分
+      const occupants = new Map<string, SolverGuest[]>();
+      seats.forEach((s) => {
+        if (!occupants.has(s.tableId)) occupants.set(s.tableId, []);
+        occupants
+          .get(s.tableId)!
+          .push(toSolverGuest(guestById.get(s.guestId)!, policy));
+      });
+      const seated = new Set(seats.map((s) => s.guestId));
+      const waiting = guests.filter(
+        (g) =>
+          !seated.has(g.id) &&
+          (policy.confirmedOnly
+            ? g.rsvpStatus === "CONFIRMED"
+            : g.rsvpStatus !== "DECLINED")
+      );
+
+      const problem = buildSeatingProblem({
+        guests: sortGuestsForSeating(
+          waiting.map((g) => toSolverGuest(g, policy))
+        ),
+        tables: tables.map((table) => ({
+          id: table.id,
+          name: table.name,
+          capacity: table.capacity,
+          areaId: table.areaId,
+          occupants: occupants.get(table.id) || [],
+          locked: table.pinned,
+          kids: table.kind === "KIDS",
+          accessible: isAccessibleTable(table),
+        })),
+        constraints,
+        groups,
+        policy,
+      });
+      const { score, breakdown } = evaluateLayout(
+        problem,
+        problem.units.map(() => -1)
+      );
+
+      return {
+        id: scenario.id,
+        name: scenario.name,
+        description: scenario.description,
+        active: scenario.active,
+        final: scenario.final,
+        createdAt: scenario.createdAt,
+        updatedAt: scenario.updatedAt,
+        createdBy: scenario.createdBy,
+        seatedGuestCount: seats.length,
+        seatedSeatCount: seats.reduce(
+          (sum, s) => sum + seatsTaken(guestById.get(s.guestId)!, policy),
+          0
+        ),
+        unassignedGuestCount: waiting.length,
+        usedTableCount: occupants.size,
+        score: Math.round(score),
+        hardViolations: countHardViolations(breakdown),
+        breakdown,
+      };
+    })
+  );
+};
@@ -0,0 +1,376 @@
+// 座位方案快照：保存、对比与恢复项目的桌位布局和座位安排
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { arrangeTableSeats } from "./seatLayout";
+import { fitSeatingLayout } from "./seatingPlan";
+
+// 每个项目保留的自动快照数，手动保存的快照不限
+const MAX_AUTO_SNAPSHOTS = 20;
+
+// 快照名称的长度上限
+export const MAX_SNAPSHOT_NAME_LENGTH = 50;
+
+const SNAPSHOT_TABLE_SELECT = {
+  id: true,
+  name: true,
+  capacity: true,
+  positionX: true,
+  positionY: true,
+  tableType: true,
+  kind: true,
+  tags: true,
+  notes: true,
+  areaId: true,
+  pinned: true,
+} as const;
+
+type SnapshotTable = Prisma.TableGetPayload<{
+  select: typeof SNAPSHOT_TABLE_SELECT;
+}>;
+
+interface SnapshotAssignment {
+  guestId: string;
+  guestName: string;
+  tableId: string;
+  seats: number[];
+  pinned: boolean;
+}
+
+export interface SnapshotData {
+  tables: SnapshotTable[];
+  assignments: SnapshotAssignment[];
+}
+
+// 对比时关注的桌位字段
+const TABLE_DIFF_FIELDS = [
+  "name",
+  "capacity",
+  "positionX",
+  "positionY",
+  "tableType",
+  "kind",
+  "tags",
+  "notes",
+  "areaId",
+  "pinned",
+] as const;
+
+/**
+ * 读取项目当前的桌位和座位安排
+ */
+export const captureSnapshotData = async (
+  db: Prisma.TransactionClient,
+  projectId: string
+): Promise<SnapshotData> => {
+  const [tables, assignments] = await Promise.all([
+    db.table.findMany({
+      where: { projectId },
+      select: SNAPSHOT_TABLE_SELECT,
+      orderBy: { createdAt: "asc" },
+    }),
+    db.seatingAssignment.findMany({
+      where: { table: { projectId } },
+      include: { guest: { select: { name: true } } },
+      orderBy: { assignedAt: "asc" },
+    }),
+  ]);
+
+  return {
+    tables,
+    assignments: assignments.map((a) => ({
+      guestId: a.guestId,
+      guestName: a.guest.name,
+      tableId: a.tableId,
+      seats: a.seats,
+      pinned: a.pinned,
+    })),
+  };
+};
+
+/**
+ * 保存当前方案为快照；自动快照只保留最近 MAX_AUTO_SNAPSHOTS 个
+ */
+export const createSnapshot = async (
+  db: Prisma.TransactionClient,
+  params: {
+    projectId: string;
+    userId: string;
+    name: string;
+    description?: string | null;
+    auto?: boolean;
+  }
+) => {
+  const { projectId, userId, name, description, auto = false } = params;
+  const data = await captureSnapshotData(db, projectId);
+
+  const snapshot = await db.seatingSnapshot.create({
+    data: {
+      projectId,
+      createdById: userId,
+      name,
+      description: description || null,
+      auto,
+      data: data as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  if (auto) {
+    const stale = await db.seatingSnapshot.findMany({
+      where: { projectId, auto: true },
+      orderBy: { createdAt: "desc" },
+      skip: MAX_AUTO_SNAPSHOTS,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await db.seatingSnapshot.deleteMany({
+        where: { id: { in: stale.map((s) => s.id) } },
+      });
+    }
+  }
+
+  return snapshot;
+};
+
+/**
+ * 汇总快照的桌数和已入座人数，用于列表展示
+ */
+export const summarizeSnapshot = (data: SnapshotData) => ({
+  tableCount: data.tables.length,
+  seatedGuestCount: data.assignments.length,
+});
+
+/**
+ * 把 a 中的宾客对应到 b：优先按 ID，宾客被删除后重新导入时按唯一的姓名匹配
+ */
+const matchGuests = (
+  a: { guestId: string; guestName: string }[],
+  b: { id: string; name: string }[]
+) => {
+  const byId = new Map(b.map((g) => [g.id, g.id] as const));
+  const nameCount = new Map<string, number>();
+  b.forEach((g) => nameCount.set(g.name, (nameCount.get(g.name) || 0) + 1));
+  const byName = new Map(
+    b.filter((g) => nameCount.get(g.name) === 1).map((g) => [g.name, g.id])
+  );
+
+  return new Map(
+    a.flatMap((g) => {
+      const id = byId.get(g.guestId) ?? byName.get(g.guestName);
+      return id ? [[g.guestId, id] as const] : [];
+    })
+  );
+};
+
+/**
+ * 对比两份方案：新增/删除/修改的桌位，以及换桌、新入座和移出的宾客
+ */
+export const diffSnapshots = (from: SnapshotData, to: SnapshotData) => {
+  const fromTables = new Map(from.tables.map((t) => [t.id, t] as const));
+  const toTables = new Map(to.tables.map((t) => [t.id, t] as const));
+
+  const tablesAdded = to.tables
+    .filter((t) => !fromTables.has(t.id))
+    .map((t) => ({ id: t.id, name: t.name }));
+  const tablesRemoved = from.tables
+    .filter((t) => !toTables.has(t.id))
+    .map((t) => ({ id: t.id, name: t.name }));
+  const tablesChanged = to.tables.flatMap((t) => {
+    const before = fromTables.get(t.id);
+    if (!before) return [];
+    const fields = TABLE_DIFF_FIELDS.filter(
+      (key) => JSON.stringify(before[key]) !== JSON.stringify(t[key])
+    );
+    return fields.length > 0
+      ? [{ id: t.id, name: t.name, previousName: before.name, fields }]
+      : [];
+  });
+
+  // 宾客按 ID（或唯一姓名）对应后比较所在桌
+  const toGuests = to.assignments.map((a) => ({
+    id: a.guestId,
+    name: a.guestName,
+  }));
+  const matched = matchGuests(from.assignments, toGuests);
+  const toByGuest = new Map(to.assignments.map((a) => [a.guestId, a] as const));
+  const tableName = (tables: Map<string, SnapshotTable>, id?: string) =>
+    id ? (tables.get(id)?.name ?? null) : null;
+
+  const moved: {
+    guestId: string;
+    guestName: string;
+    fromTable: string | null;
+    toTable: string | null;
+  }[] = [];
+  const seenInTo = new Set<string>();
+  from.assignments.forEach((a) => {
+    const target = toByGuest.get(matched.get(a.guestId) || "");
+    if (target) seenInTo.add(target.guestId);
+    if (target?.tableId === a.tableId) return;
+    moved.push({
+      guestId: target?.guestId ?? a.guestId,
+      guestName: a.guestName,
+      fromTable: tableName(fromTables, a.tableId),
+      toTable: tableName(toTables, target?.tableId),
+    });
+  });
+  to.assignments
+    .filter((a) => !seenInTo.has(a.guestId))
+    .forEach((a) =>
+      moved.push({
+        guestId: a.guestId,
+        guestName: a.guestName,
+        fromTable: null,
+        toTable: tableName(toTables, a.tableId),
+      })
+    );
+
+  return { tablesAdded, tablesRemoved, tablesChanged, moved };
+};
+
+/**
+ * 检查要删除的桌位没有被其他方案的座位或桌位约束（指定桌/避开桌）引用，
+ * 有引用时拒绝（409）并列出涉及的桌位、方案和约束数量
+ */
+const assertTablesUnreferenced = async (
+  tx: Prisma.TransactionClient,
+  tables: { id: string; name: string }[]
+) => {
+  if (tables.length === 0) return;
+  const tableIds = tables.map((t) => t.id);
+  const [scenarioSeats, constraints] = await Promise.all([
+    tx.scenarioAssignment.findMany({
+      where: { tableId: { in: tableIds } },
+      select: { tableId: true, scenario: { select: { name: true } } },
+    }),
+    tx.seatingConstraint.groupBy({
+      by: ["tableId"],
+      where: { tableId: { in: tableIds } },
+      _count: true,
+    }),
+  ]);
+
+  const conflicts = tables.flatMap((table) => {
+    const scenarios = Array.from(
+      new Set(
+        scenarioSeats
+          .filter((s) => s.tableId === table.id)
+          .map((s) => s.scenario.name)
+      )
+    );
+    const constraintCount =
+      constraints.find((c) => c.tableId === table.id)?._count ?? 0;
+    return scenarios.length > 0 || constraintCount > 0
+      ? [{ id: table.id, name: table.name, scenarios, constraintCount }]
+      : [];
+  });
+  if (conflicts.length > 0) {
+    throw new AppError(
+      `快照之后新增的桌位 ${conflicts
+        .map((t) => `"${t.name}"`)
+        .join("、")} 仍被其他方案的座位或桌位约束使用，请先移除后再恢复`,
+      409,
+      { tables: conflicts }
+    );
+  }
+};
+
+/**
+ * 在事务内把项目恢复为快照中的方案（调用方需先锁定项目桌位）：
+ * 还原桌位字段和位置，重建之后被删除的桌位，删除快照之后新增的桌位，再按快照重新安排座位
+ * 快照之后被删除的宾客跳过；其余座位经 fitSeatingLayout 筛选，坐不下或违反硬约束、分组上限的宾客留在待安排列表
+ * 要删除的桌位仍被其他方案的座位或桌位约束引用时拒绝恢复（409），避免连带删除这些数据
+ */
+export const restoreSnapshot = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  data: SnapshotData,
+  userId: string
+) => {
+  const [tables, areas, guests] = await Promise.all([
+    tx.table.findMany({
+      where: { projectId },
+      select: { id: true, name: true },
+    }),
+    tx.area.findMany({ where: { projectId }, select: { id: true } }),
+    tx.guest.findMany({
+      where: { projectId },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const existing = new Set(tables.map((t) => t.id));
+  const areaIds = new Set(areas.map((a) => a.id));
+  const kept = new Set(data.tables.map((t) => t.id));
+
+  // 快照之后新增的桌位连同其座位一起删除
+  const removedTables = tables.filter((t) => !kept.has(t.id));
+  await assertTablesUnreferenced(tx, removedTables);
+  const removed = removedTables.map((t) => t.id);
+  if (removed.length > 0) {
+    await tx.table.deleteMany({ where: { id: { in: removed } } });
+  }
+  await tx.seatingAssignment.deleteMany({ where: { table: { projectId } } });
+
+  let recreated = 0;
+  for (const { id, ...fields } of data.tables) {
+    // 区域已删除的桌位不再归属区域
+    const table = {
+      ...fields,
+      areaId:
+        fields.areaId && areaIds.has(fields.areaId) ? fields.areaId : null,
+    };
+    if (existing.has(id)) {
+      await tx.table.update({ where: { id }, data: table });
+    } else {
+      await tx.table.create({ data: { id, projectId, ...table } });
+      recreated++;
+    }
+  }
+
+  // 快照中的宾客对应到现有宾客，锁定的座位优先，其余按排座顺序入座
+  const matched = matchGuests(data.assignments, guests);
+  const seats = data.assignments.flatMap((a) => {
+    const guestId = matched.get(a.guestId);
+    return guestId ? [{ ...a, guestId }] : [];
+  });
+  const { placed, skipped } = await fitSeatingLayout(tx, projectId, seats);
+  const creations = placed.map(({ guestName, ...s }) => ({
+    ...s,
+    assignedById: userId,
+  }));
+
+  if (creations.length > 0) {
+    await tx.seatingAssignment.createMany({ data: creations });
+  }
+  // 人数变化后原座号可能不再适用，按当前人数补齐
+  await arrangeTableSeats(
+    tx,
+    data.tables.map((t) => t.id)
+  );
+
+  return {
+    restored: creations.length,
+    skipped: [
+      ...data.assignments.filter((a) => !matched.has(a.guestId)),
+      ...skipped,
+    ].map((a) => a.guestName),
+    tablesRemoved: removed.length,
+    tablesRecreated: recreated,
+  };
+};
+
+/**
+ * 读取项目中的快照，不存在时返回 404
+ */
+export const findSnapshot = async (
+  db: Prisma.TransactionClient,
+  projectId: string,
+  snapshotId: string
+) => {
+  const snapshot = await db.seatingSnapshot.findFirst({
+    where: { id: snapshotId, projectId },
+  });
+  if (!snapshot) {
+    throw new AppError("快照不存在", 404);
+  }
+  return { ...snapshot, data: snapshot.data as unknown as SnapshotData };
+};
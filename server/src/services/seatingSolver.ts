@@ -0,0 +1,1416 @@
+// 自动排座求解器：贪心生成初始方案，再用带重启的模拟退火对整体方案做全局优化
+import {
+  createTogetherResolver,
+  groupTogetherUnits,
+  pairsOfType,
+} from "./constraintGraph";
+import {
+  ConstraintRecord,
+  createTableRuleChecker,
+  isTableConstraintType,
+  preferenceScore,
+} from "./constraintTypes";
+import {
+  groupTableLimits,
+  groupTogetherConstraints,
+  ResolvedGroup,
+} from "./constraintGroups";
+import { DEFAULT_SEATING_POLICY, SeatingPolicyValues } from "./seatingPolicy";
+import { SEAT_COUNT_SELECT, SeatCountGuest, seatsTaken } from "./companions";
+import { AccessibilityNeedValue, needsAccessibleTable } from "./guestNeeds";
+
+export interface SolverGuest {
+  id: string;
+  name: string;
+  // 占用的座位数（不单独占座的婴儿不计）
+  headCount: number;
+  tags: string[];
+  areaId: string | null;
+  // 儿童或婴儿宾客，项目开启儿童坐儿童桌时只安排到儿童桌
+  child?: boolean;
+  // 轮椅宾客，项目开启后只安排到无障碍桌
+  wheelchair?: boolean;
+}
+
+export interface SolverTable {
+  id: string;
+  name: string;
+  capacity: number;
+  areaId: string | null;
+  // 已入座、本次不参与调整的宾客
+  occupants: SolverGuest[];
+  // 锁定的桌位不再安排新宾客
+  locked?: boolean;
+  // 儿童桌
+  kids?: boolean;
+  // 无障碍桌（带"无障碍"标签）
+  accessible?: boolean;
+}
+
+// 从数据库读取求解所需的宾客字段
+export const SOLVER_GUEST_SELECT = {
+  id: true,
+  name: true,
+  ...SEAT_COUNT_SELECT,
+  ageCategory: true,
+  accessibilityNeeds: true,
+  tags: true,
+  areaId: true,
+} as const;
+
+/**
+ * 数据库中的宾客转为求解器宾客：容量按项目规则下占用的座位数计算
+ */
+export const toSolverGuest = (
+  guest: SeatCountGuest & {
+    id: string;
+    name: string;
+    ageCategory: string;
+    accessibilityNeeds: AccessibilityNeedValue[];
+    tags: string[];
+    areaId: string | null;
+  },
+  policy: { confirmedOnly: boolean }
+): SolverGuest => ({
+  id: guest.id,
+  name: guest.name,
+  headCount: seatsTaken(guest, policy),
+  tags: guest.tags,
+  areaId: guest.areaId,
+  child: guest.ageCategory !== "ADULT",
+  wheelchair: needsAccessibleTable(guest),
+});
+
+export interface SolverUnit {
+  groupId: string;
+  members: SolverGuest[];
+  headCount: number;
+  // 同组已有宾客入座时，只能安排到该桌
+  fixedTableId: string | null;
+  // 预检查发现无法安排的原因（如组内约束矛盾）
+  blockedReason?: string;
+  // 重新优化时单元当前所在桌位，离开该桌计为一次移动
+  currentTableId?: string | null;
+}
+
+export interface SeatingProblem {
+  tables: SolverTable[];
+  units: SolverUnit[];
+  apartPairs: Array<[string, string]>;
+  togetherPairs: Array<[string, string]>;
+  // 指定桌位（MUST_AT_TABLE / NEVER_AT_TABLE）
+  tableRules: Array<{ guest1Id: string; tableId: string; constraintType: string }>;
+  // 软约束：宾客对同桌时计入的得分，以及宾客希望同桌的标签
+  preferPairs: Array<{ guest1Id: string; guest2Id: string; score: number }>;
+  tagPreferences: Array<{ guestId: string; tag: string; score: number }>;
+  // 分组约束的每桌人数上限（全部分开即每桌 1 人）
+  tableLimits: Array<{ name: string; limit: number; guestIds: string[] }>;
+  policy: SeatingPolicyValues;
+}
+
+export interface ScoreBreakdown {
+  area: number;
+  tagCohesion: number;
+  fill: number;
+  unassigned: number;
+  capacity: number;
+  mustApart: number;
+  mustTogether: number;
+  tableRule: number;
+  groupLimit: number;
+  preference: number;
+  moves: number;
+}
+
+export interface LayoutEvaluation {
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface TableOption {
+  tableId: string;
+  tableName: string;
+  score: number;
+  components: {
+    area: number;
+    tags: number;
+    fill: number;
+    newTable: number;
+    preference: number;
+  };
+  matchingTags: string[];
+}
+
+export interface TableRejection {
+  tableId: string;
+  tableName: string;
+  reason:
+    | "locked"
+    | "area"
+    | "tableRule"
+    | "together"
+    | "capacity"
+    | "mustApart"
+    | "groupLimit"
+    | "kidsTable"
+    | "accessible";
+  detail: string;
+}
+
+// 单元安排结果的解释：所选桌位的得分构成、次优桌位，以及未安排时各桌的拒绝原因
+export interface PlacementExplanation {
+  chosen: TableOption | null;
+  runnerUps: TableOption[];
+  rejections: TableRejection[];
+}
+
+export interface UnitOutcome {
+  unit: SolverUnit;
+  table: SolverTable | null;
+  error?: string;
+  explanation: PlacementExplanation;
+}
+
+export interface SolveOptions {
+  strategy?: "greedy" | "optimize";
+  timeBudgetMs?: number;
+  seed?: number;
+}
+
+export interface SolveResult {
+  strategy: "greedy" | "optimize";
+  outcomes: UnitOutcome[];
+  evaluation: LayoutEvaluation;
+  // 求解前的方案（重新优化时即当前布局）
+  initial: LayoutEvaluation;
+  greedy: LayoutEvaluation;
+  iterations: number;
+}
+
+// 整体方案中不随项目策略变化的权重（硬约束违反按极大惩罚计），
+// 区域、标签、坐满等软目标权重来自项目的排座策略
+const WEIGHTS = {
+  unassignedSeat: -1000,
+  // 重新优化时每移动一个单元的代价，避免为微小提升大量换桌
+  moveUnit: -80,
+  hardViolation: -100000,
+};
+
+export const DEFAULT_TIME_BUDGET_MS = 2000;
+export const MAX_TIME_BUDGET_MS = 10000;
+const MIN_TIME_BUDGET_MS = 100;
+const RESTARTS = 3;
+// 优化过程中每隔该时间让出事件循环，避免阻塞其他请求和 Socket 心跳
+const YIELD_INTERVAL_MS = 20;
+const START_TEMPERATURE = 300;
+const END_TEMPERATURE = 1;
+
+/**
+ * 把优化时长限制在允许范围内，未提供或不是有效数字时取默认值
+ */
+export const clampTimeBudget = (timeBudgetMs?: number) =>
+  timeBudgetMs === undefined || !Number.isFinite(timeBudgetMs)
+    ? DEFAULT_TIME_BUDGET_MS
+    : Math.min(MAX_TIME_BUDGET_MS, Math.max(MIN_TIME_BUDGET_MS, timeBudgetMs));
+
+/**
+ * 排座顺序：先按区域分组（人数多的区域优先），区域内按首个标签分组（人数多的标签优先），
+ * 组内按人数降序；没有区域的宾客排在最后
+ */
+export const sortGuestsForSeating = <T extends SolverGuest>(guests: T[]) => {
+  const totalHeadCount = (list: T[]) =>
+    list.reduce((sum, g) => sum + g.headCount, 0);
+
+  const sortByTag = (list: T[]) => {
+    const tagGroups = new Map<string, T[]>();
+    const noTagGuests: T[] = [];
+
+    for (const guest of list) {
+      if (guest.tags.length === 0) {
+        noTagGuests.push(guest);
+      } else {
+        const primaryTag = guest.tags[0];
+        if (!tagGroups.has(primaryTag)) {
+          tagGroups.set(primaryTag, []);
+        }
+        tagGroups.get(primaryTag)!.push(guest);
+      }
+    }
+
+    const sorted: T[] = [];
+    // 先添加有标签的（按人数降序），再添加无标签的
+    Array.from(tagGroups.values())
+      .sort((a, b) => totalHeadCount(b) - totalHeadCount(a))
+      .forEach((tagGuests) => {
+        sorted.push(...[...tagGuests].sort((a, b) => b.headCount - a.headCount));
+      });
+    sorted.push(...noTagGuests.sort((a, b) => b.headCount - a.headCount));
+    return sorted;
+  };
+
+  // 按区域分组
+  const areaGroups = new Map<string | null, T[]>();
+  for (const guest of guests) {
+    const areaKey = guest.areaId || null;
+    if (!areaGroups.has(areaKey)) {
+      areaGroups.set(areaKey, []);
+    }
+    areaGroups.get(areaKey)!.push(guest);
+  }
+
+  const sortedGuests: T[] = [];
+  Array.from(areaGroups.entries())
+    .filter(([areaId]) => areaId !== null)
+    .sort((a, b) => totalHeadCount(b[1]) - totalHeadCount(a[1]))
+    .forEach(([, areaGuests]) => sortedGuests.push(...sortByTag(areaGuests)));
+
+  sortedGuests.push(...sortByTag(areaGroups.get(null) || []));
+  return sortedGuests;
+};
+
+/**
+ * 由待安排宾客（已排序）、桌位及现有约束构建排座问题
+ * MUST_TOGETHER 和全部同桌的分组连起来的宾客合并为一个同桌单元，软约束只计入得分
+ */
+export const buildSeatingProblem = (input: {
+  guests: SolverGuest[];
+  tables: SolverTable[];
+  constraints: ConstraintRecord[];
+  groups?: ResolvedGroup[];
+  // 重新优化：待调整宾客当前所在桌位 guestId -> tableId
+  currentTables?: Map<string, string>;
+  policy?: SeatingPolicyValues;
+}): SeatingProblem => {
+  const { guests, tables, constraints, currentTables } = input;
+  const policy = input.policy || DEFAULT_SEATING_POLICY;
+  const groups = input.groups || [];
+  const together = [...constraints, ...groupTogetherConstraints(groups)];
+  const resolveGroup = createTogetherResolver(together);
+
+  const apartPairs = pairsOfType(constraints, "MUST_APART");
+  const togetherPairs = [
+    ...pairsOfType(together, "MUST_TOGETHER"),
+    ...pairsOfType(constraints, "NEXT_TO"),
+  ];
+  const tableLimits = groupTableLimits(groups);
+  const tableRules = constraints
+    .filter((c) => isTableConstraintType(c.constraintType) && c.tableId)
+    .map((c) => ({
+      guest1Id: c.guest1Id,
+      tableId: c.tableId!,
+      constraintType: c.constraintType,
+    }));
+  const preferPairs = constraints
+    .filter(
+      (c) =>
+        (c.constraintType === "PREFER_TOGETHER" ||
+          c.constraintType === "PREFER_APART") &&
+        c.guest2Id
+    )
+    .map((c) => ({
+      guest1Id: c.guest1Id,
+      guest2Id: c.guest2Id!,
+      score: preferenceScore(c.constraintType, c.weight),
+    }));
+  const tagPreferences = constraints
+    .filter((c) => c.constraintType === "PREFER_WITH_TAG" && c.tag)
+    .map((c) => ({
+      guestId: c.guest1Id,
+      tag: c.tag!,
+      score: preferenceScore(c.constraintType, c.weight),
+    }));
+
+  const units = groupTogetherUnits(guests, resolveGroup).map(
+    ({ groupId, members }): SolverUnit => {
+      const unit: SolverUnit = {
+        groupId,
+        members,
+        headCount: members.reduce((sum, m) => sum + m.headCount, 0),
+        fixedTableId: null,
+      };
+
+      if (currentTables) {
+        // 组员分坐在不同桌时视为没有当前桌位，任何安排都算移动
+        const current = new Set(members.map((m) => currentTables.get(m.id)));
+        const [tableId] = Array.from(current);
+        unit.currentTableId = current.size === 1 && tableId ? tableId : null;
+      }
+
+      const memberIds = new Set(members.map((m) => m.id));
+      if (apartPairs.some(([a, b]) => memberIds.has(a) && memberIds.has(b))) {
+        unit.blockedReason = "同组宾客之间设置了不能同桌，约束互相矛盾";
+        return unit;
+      }
+      const requiredTables = new Set(
+        tableRules
+          .filter(
+            (r) => r.constraintType === "MUST_AT_TABLE" && memberIds.has(r.guest1Id)
+          )
+          .map((r) => r.tableId)
+      );
+      if (requiredTables.size > 1) {
+        unit.blockedReason = "同组宾客被指定坐在不同的桌，约束互相矛盾";
+        return unit;
+      }
+      const exceeded = tableLimits.find(
+        (l) => l.guestIds.filter((id) => memberIds.has(id)).length > l.limit
+      );
+      if (exceeded) {
+        unit.blockedReason = `同组宾客中有多位属于分组"${exceeded.name}"（每桌最多 ${exceeded.limit} 人），约束互相矛盾`;
+        return unit;
+      }
+
+      // 同组中已有宾客入座时，其余成员只能去那一桌
+      const anchorTables = tables.filter((table) =>
+        table.occupants.some((g) => resolveGroup(g.id) === groupId)
+      );
+      if (anchorTables.length > 1) {
+        unit.blockedReason = `同组宾客已被分别安排在${anchorTables
+          .map((t) => `"${t.name}"`)
+          .join("、")}，无法同桌`;
+      } else if (anchorTables.length === 1) {
+        unit.fixedTableId = anchorTables[0].id;
+      }
+      return unit;
+    }
+  );
+
+  return {
+    tables,
+    units,
+    apartPairs,
+    togetherPairs,
+    tableRules,
+    preferPairs,
+    tagPreferences,
+    tableLimits,
+    policy,
+  };
+};
+
+const areaScore = (
+  policy: SeatingPolicyValues,
+  guestAreaId: string | null,
+  tableAreaId: string | null
+) => {
+  if (!guestAreaId || !tableAreaId) return 0;
+  return guestAreaId === tableAreaId
+    ? policy.areaMatchWeight
+    : policy.areaMismatchWeight;
+};
+
+// 不偏好坐满时不计坐满得分
+const fillScore = (policy: SeatingPolicyValues, seats: number, capacity: number) => {
+  if (seats === 0 || !policy.preferFillingTables) return 0;
+  const remaining = capacity - seats;
+  if (remaining === 0) return policy.exactFillWeight;
+  if (remaining > 0 && remaining <= 2) return policy.nearFillWeight;
+  return 0;
+};
+
+// 开启“不同区域不同桌”时，区域不同的宾客不能安排到该桌
+const violatesAreaPolicy = (
+  policy: SeatingPolicyValues,
+  guestAreaId: string | null,
+  tableAreaId: string | null
+) =>
+  policy.neverMixAreas &&
+  !!guestAreaId &&
+  !!tableAreaId &&
+  guestAreaId !== tableAreaId;
+
+export interface PlacementScore {
+  score: number;
+  area: number;
+  tags: number;
+  fill: number;
+  newTable: number;
+  matchingTags: string[];
+}
+
+/**
+ * 单个宾客（或同桌单元）放入某桌的即时得分，推荐座位和贪心排座共用
+ * tagCount 返回该桌已有宾客中带某标签的人数
+ */
+export const scorePlacement = (
+  policy: SeatingPolicyValues,
+  candidate: { areaId: string | null; tags: string[]; headCount: number },
+  table: { areaId: string | null; capacity: number },
+  occupancy: { seats: number; tagCount: (tag: string) => number }
+): PlacementScore => {
+  const { areaId } = candidate;
+  const isEmpty = occupancy.seats === 0;
+  const result: PlacementScore = {
+    score: 0,
+    area: 0,
+    tags: 0,
+    fill: 0,
+    newTable: 0,
+    matchingTags: [],
+  };
+
+  // 1. 区域匹配得分（权重最高）
+  const areaMatched = !!areaId && !!table.areaId && areaId === table.areaId;
+  result.area = areaScore(policy, areaId, table.areaId);
+
+  // 2. 标签匹配得分，桌上已有相同标签的宾客时额外加分
+  result.matchingTags = Array.from(new Set(candidate.tags)).filter(
+    (tag) => occupancy.tagCount(tag) > 0
+  );
+  result.tags = result.matchingTags.length * policy.tagMatchWeight;
+  if (result.matchingTags.length > 0 && !isEmpty) {
+    result.tags += policy.tagGroupBonus;
+  }
+
+  // 3. 空间利用率得分（优先选择刚好能坐下的桌位）
+  if (policy.preferFillingTables) {
+    const remainingAfter = table.capacity - occupancy.seats - candidate.headCount;
+    if (remainingAfter === 0) {
+      result.fill = policy.exactFillWeight;
+    } else if (remainingAfter <= 2) {
+      result.fill = policy.nearFillWeight;
+    }
+
+    // 4. 空桌处理：区域匹配可以开新桌，避免过早开不匹配的桌
+    if (isEmpty) {
+      if (areaMatched) {
+        result.newTable = policy.newTableAreaBonus;
+      } else if (areaId || table.areaId) {
+        result.newTable = policy.newTablePenalty;
+      }
+    }
+  }
+
+  result.score = result.area + result.tags + result.fill + result.newTable;
+  return result;
+};
+
+/**
+ * 对完整方案打分：placement[i] 为第 i 个单元所在桌位下标，-1 表示未安排
+ */
+export const evaluateLayout = (
+  problem: SeatingProblem,
+  placement: number[]
+): LayoutEvaluation => {
+  const breakdown: ScoreBreakdown = {
+    area: 0,
+    tagCohesion: 0,
+    fill: 0,
+    unassigned: 0,
+    capacity: 0,
+    mustApart: 0,
+    mustTogether: 0,
+    tableRule: 0,
+    groupLimit: 0,
+    preference: 0,
+    moves: 0,
+  };
+
+  const tableRuleAt = createTableRuleChecker(problem.tableRules);
+  const tagPreferencesOf = new Map<string, Array<{ tag: string; score: number }>>();
+  problem.tagPreferences.forEach(({ guestId, ...pref }) => {
+    if (!tagPreferencesOf.has(guestId)) tagPreferencesOf.set(guestId, []);
+    tagPreferencesOf.get(guestId)!.push(pref);
+  });
+
+  const tableGuests = problem.tables.map((t) => [...t.occupants]);
+  problem.units.forEach((unit, i) => {
+    if (placement[i] >= 0) {
+      tableGuests[placement[i]].push(...unit.members);
+    } else {
+      breakdown.unassigned += WEIGHTS.unassignedSeat * unit.headCount;
+    }
+    if (
+      unit.currentTableId &&
+      problem.tables[placement[i]]?.id !== unit.currentTableId
+    ) {
+      breakdown.moves += WEIGHTS.moveUnit;
+    }
+  });
+
+  const guestTable = new Map<string, number>();
+  problem.tables.forEach((table, t) => {
+    const guests = tableGuests[t];
+    guests.forEach((g) => guestTable.set(g.id, t));
+
+    const seats = guests.reduce((sum, g) => sum + g.headCount, 0);
+    breakdown.fill += fillScore(problem.policy, seats, table.capacity);
+    if (seats > table.capacity) {
+      breakdown.capacity += WEIGHTS.hardViolation * (seats - table.capacity);
+    }
+
+    const tagCounts = new Map<string, number>();
+    for (const guest of guests) {
+      breakdown.area += areaScore(problem.policy, guest.areaId, table.areaId);
+      guest.tags.forEach((tag) =>
+        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)
+      );
+      if (tableRuleAt(guest.id, table.id)) {
+        breakdown.tableRule += WEIGHTS.hardViolation;
+      }
+    }
+    tagCounts.forEach((count) => {
+      breakdown.tagCohesion +=
+        Math.max(0, count - 1) * problem.policy.tagMatchWeight;
+    });
+
+    // 桌上有其他带该标签的宾客时标签偏好满足
+    for (const guest of guests) {
+      for (const { tag, score } of tagPreferencesOf.get(guest.id) || []) {
+        const others = (tagCounts.get(tag) || 0) - (guest.tags.includes(tag) ? 1 : 0);
+        if (others > 0) breakdown.preference += score;
+      }
+    }
+  });
+
+  for (const [a, b] of problem.apartPairs) {
+    const ta = guestTable.get(a);
+    if (ta !== undefined && ta === guestTable.get(b)) {
+      breakdown.mustApart += WEIGHTS.hardViolation;
+    }
+  }
+  for (const [a, b] of problem.togetherPairs) {
+    const ta = guestTable.get(a);
+    const tb = guestTable.get(b);
+    if (ta !== undefined && tb !== undefined && ta !== tb) {
+      breakdown.mustTogether += WEIGHTS.hardViolation;
+    }
+  }
+  for (const { guest1Id, guest2Id, score } of problem.preferPairs) {
+    const ta = guestTable.get(guest1Id);
+    if (ta !== undefined && ta === guestTable.get(guest2Id)) {
+      breakdown.preference += score;
+    }
+  }
+  for (const { limit, guestIds } of problem.tableLimits) {
+    const counts = problem.tables.map(() => 0);
+    guestIds.forEach((id) => {
+      const t = guestTable.get(id);
+      if (t !== undefined) counts[t]++;
+    });
+    counts.forEach((count) => {
+      if (count > limit) {
+        breakdown.groupLimit += WEIGHTS.hardViolation * (count - limit);
+      }
+    });
+  }
+
+  const score = Object.values(breakdown).reduce((sum, v) => sum + v, 0);
+  return { score, breakdown };
+};
+
+/**
+ * 评分明细中违反硬约束（超员、必须分开/同桌、指定桌位、分组上限）的次数
+ */
+export const countHardViolations = (breakdown: ScoreBreakdown) =>
+  (breakdown.capacity +
+    breakdown.mustApart +
+    breakdown.mustTogether +
+    breakdown.tableRule +
+    breakdown.groupLimit) /
+  WEIGHTS.hardViolation;
+
+/**
+ * 可增量更新的方案状态，用于贪心和局部搜索
+ * total 只包含软目标（区域、标签、坐满、偏好、未安排），所有操作都保持硬约束成立
+ */
+const createSearchState = (problem: SeatingProblem, initial: number[]) => {
+  const { tables, units, policy } = problem;
+
+  const apartPartners = new Map<string, string[]>();
+  for (const [a, b] of problem.apartPairs) {
+    if (!apartPartners.has(a)) apartPartners.set(a, []);
+    if (!apartPartners.has(b)) apartPartners.set(b, []);
+    apartPartners.get(a)!.push(b);
+    apartPartners.get(b)!.push(a);
+  }
+
+  const preferPartners = new Map<string, Array<[string, number]>>();
+  for (const { guest1Id, guest2Id, score } of problem.preferPairs) {
+    if (!preferPartners.has(guest1Id)) preferPartners.set(guest1Id, []);
+    if (!preferPartners.has(guest2Id)) preferPartners.set(guest2Id, []);
+    preferPartners.get(guest1Id)!.push([guest2Id, score]);
+    preferPartners.get(guest2Id)!.push([guest1Id, score]);
+  }
+
+  // 标签偏好：own 表示宾客自己也带该标签，统计同桌人数时要排除自己
+  const guestTags = new Map<string, string[]>();
+  tables.forEach((t) => t.occupants.forEach((g) => guestTags.set(g.id, g.tags)));
+  units.forEach((unit) => unit.members.forEach((m) => guestTags.set(m.id, m.tags)));
+  const tagPreferencesOf = new Map<
+    string,
+    Array<{ tag: string; score: number; own: boolean }>
+  >();
+  for (const { guestId, tag, score } of problem.tagPreferences) {
+    if (!guestTags.has(guestId)) continue;
+    if (!tagPreferencesOf.has(guestId)) tagPreferencesOf.set(guestId, []);
+    tagPreferencesOf
+      .get(guestId)!
+      .push({ tag, score, own: guestTags.get(guestId)!.includes(tag) });
+  }
+
+  const seats = tables.map((t) =>
+    t.occupants.reduce((sum, g) => sum + g.headCount, 0)
+  );
+  const tagCounts = tables.map((t) => {
+    const counts = new Map<string, number>();
+    t.occupants.forEach((g) =>
+      g.tags.forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1))
+    );
+    return counts;
+  });
+  const guestTable = new Map<string, number>();
+  tables.forEach((t, i) => t.occupants.forEach((g) => guestTable.set(g.id, i)));
+  // 各桌上有标签偏好的宾客
+  const preferringGuests = tables.map(
+    (t) =>
+      new Set(
+        t.occupants.filter((g) => tagPreferencesOf.has(g.id)).map((g) => g.id)
+      )
+  );
+
+  // 单元放在各桌的固定得分（区域 + 移动代价）与未安排时的得分
+  const unitFit = units.map((unit) =>
+    tables.map(
+      (table) =>
+        unit.members.reduce(
+          (sum, m) => sum + areaScore(policy, m.areaId, table.areaId),
+          0
+        ) +
+        (unit.currentTableId && unit.currentTableId !== table.id
+          ? WEIGHTS.moveUnit
+          : 0)
+    )
+  );
+  const unplacedScore = units.map(
+    (unit) =>
+      WEIGHTS.unassignedSeat * unit.headCount +
+      (unit.currentTableId ? WEIGHTS.moveUnit : 0)
+  );
+  const areaBlocked = units.map((unit) =>
+    tables.map((table) =>
+      unit.members.some((m) => violatesAreaPolicy(policy, m.areaId, table.areaId))
+    )
+  );
+  // 开启儿童坐儿童桌且项目有儿童桌时：全是儿童的单元只坐儿童桌，其余单元不坐儿童桌
+  const routeKids = policy.childrenToKidsTables && tables.some((t) => t.kids);
+  const kidsBlocked = units.map((unit) => {
+    const childUnit = unit.members.every((m) => m.child);
+    return tables.map((table) => routeKids && childUnit !== !!table.kids);
+  });
+  // 开启轮椅宾客坐无障碍桌且项目有无障碍桌时：有轮椅宾客的单元只坐无障碍桌
+  const routeWheelchairs =
+    policy.wheelchairToAccessibleTables && tables.some((t) => t.accessible);
+  const accessBlocked = units.map((unit) => {
+    const wheelchairUnit = unit.members.some((m) => m.wheelchair);
+    return tables.map(
+      (table) => routeWheelchairs && wheelchairUnit && !table.accessible
+    );
+  });
+  // 分组人数上限：各分组在各桌已有的人数，以及各单元在各分组中的人数
+  const limitsOf = new Map<string, number[]>();
+  problem.tableLimits.forEach((l, i) =>
+    l.guestIds.forEach((id) => {
+      if (!limitsOf.has(id)) limitsOf.set(id, []);
+      limitsOf.get(id)!.push(i);
+    })
+  );
+  const limitCounts = problem.tableLimits.map(() => tables.map(() => 0));
+  tables.forEach((table, t) =>
+    table.occupants.forEach((g) =>
+      (limitsOf.get(g.id) || []).forEach((l) => limitCounts[l][t]++)
+    )
+  );
+  const unitLimits = units.map((unit) => {
+    const counts = new Map<number, number>();
+    unit.members.forEach((m) =>
+      (limitsOf.get(m.id) || []).forEach((l) => counts.set(l, (counts.get(l) || 0) + 1))
+    );
+    return Array.from(counts);
+  });
+
+  const tableRuleAt = createTableRuleChecker(problem.tableRules);
+  const ruleBlocked = units.map((unit) =>
+    tables.map((table) => unit.members.some((m) => !!tableRuleAt(m.id, table.id)))
+  );
+  const fixedIndex = units.map((unit) =>
+    unit.fixedTableId ? tables.findIndex((t) => t.id === unit.fixedTableId) : -1
+  );
+
+  // 某桌上已满足的标签偏好得分
+  const tagPreferenceScore = (t: number) => {
+    let score = 0;
+    preferringGuests[t].forEach((guestId) => {
+      for (const pref of tagPreferencesOf.get(guestId)!) {
+        if ((tagCounts[t].get(pref.tag) || 0) - (pref.own ? 1 : 0) > 0) {
+          score += pref.score;
+        }
+      }
+    });
+    return score;
+  };
+
+  const place = units.map(() => -1);
+  const tableUnits = tables.map(() => new Set<number>());
+  let total = 0;
+
+  tables.forEach((table, t) => {
+    total += fillScore(policy, seats[t], table.capacity);
+    table.occupants.forEach(
+      (g) => (total += areaScore(policy, g.areaId, table.areaId))
+    );
+    tagCounts[t].forEach(
+      (count) => (total += Math.max(0, count - 1) * policy.tagMatchWeight)
+    );
+    total += tagPreferenceScore(t);
+  });
+  for (const { guest1Id, guest2Id, score } of problem.preferPairs) {
+    const t = guestTable.get(guest1Id);
+    if (t !== undefined && t === guestTable.get(guest2Id)) total += score;
+  }
+  unplacedScore.forEach((score) => (total += score));
+
+  const canPlace = (u: number, t: number) => {
+    const unit = units[u];
+    if (unit.blockedReason) return false;
+    if (tables[t].locked) return false;
+    if (areaBlocked[u][t]) return false;
+    if (kidsBlocked[u][t]) return false;
+    if (accessBlocked[u][t]) return false;
+    if (ruleBlocked[u][t]) return false;
+    if (fixedIndex[u] >= 0 && fixedIndex[u] !== t) return false;
+    if (seats[t] + unit.headCount > tables[t].capacity) return false;
+    if (
+      unit.members.some((m) =>
+        (apartPartners.get(m.id) || []).some((p) => guestTable.get(p) === t)
+      )
+    ) {
+      return false;
+    }
+    return !unitLimits[u].some(
+      ([l, count]) => limitCounts[l][t] + count > problem.tableLimits[l].limit
+    );
+  };
+
+  // 将单元放入/移出桌位，返回目标函数变化量（不做可行性检查）
+  const add = (u: number, t: number) => {
+    const unit = units[u];
+    let delta = unitFit[u][t] - unplacedScore[u];
+    delta -= fillScore(policy, seats[t], tables[t].capacity);
+    delta -= tagPreferenceScore(t);
+    seats[t] += unit.headCount;
+    delta += fillScore(policy, seats[t], tables[t].capacity);
+    for (const member of unit.members) {
+      for (const tag of member.tags) {
+        const count = tagCounts[t].get(tag) || 0;
+        if (count >= 1) delta += policy.tagMatchWeight;
+        tagCounts[t].set(tag, count + 1);
+      }
+      for (const [partner, score] of preferPartners.get(member.id) || []) {
+        if (guestTable.get(partner) === t) delta += score;
+      }
+      guestTable.set(member.id, t);
+      if (tagPreferencesOf.has(member.id)) preferringGuests[t].add(member.id);
+    }
+    delta += tagPreferenceScore(t);
+    unitLimits[u].forEach(([l, count]) => (limitCounts[l][t] += count));
+    place[u] = t;
+    tableUnits[t].add(u);
+    total += delta;
+    return delta;
+  };
+
+  const remove = (u: number) => {
+    const t = place[u];
+    const unit = units[u];
+    let delta = -unitFit[u][t] + unplacedScore[u];
+    delta -= fillScore(policy, seats[t], tables[t].capacity);
+    delta -= tagPreferenceScore(t);
+    seats[t] -= unit.headCount;
+    delta += fillScore(policy, seats[t], tables[t].capacity);
+    for (const member of unit.members) {
+      for (const tag of member.tags) {
+        const count = tagCounts[t].get(tag)!;
+        if (count >= 2) delta -= policy.tagMatchWeight;
+        tagCounts[t].set(tag, count - 1);
+      }
+      guestTable.delete(member.id);
+      for (const [partner, score] of preferPartners.get(member.id) || []) {
+        if (guestTable.get(partner) === t) delta -= score;
+      }
+      preferringGuests[t].delete(member.id);
+    }
+    delta += tagPreferenceScore(t);
+    unitLimits[u].forEach(([l, count]) => (limitCounts[l][t] -= count));
+    place[u] = -1;
+    tableUnits[t].delete(u);
+    total += delta;
+    return delta;
+  };
+
+  // 单元放入某桌（当前不在该桌）时软约束带来的得分，用于贪心和排座说明
+  const preferenceAt = (u: number, t: number) => {
+    const unit = units[u];
+    const unitTags = new Map<string, number>();
+    unit.members.forEach((m) =>
+      m.tags.forEach((tag) => unitTags.set(tag, (unitTags.get(tag) || 0) + 1))
+    );
+    let score = 0;
+    for (const member of unit.members) {
+      for (const [partner, partnerScore] of preferPartners.get(member.id) || []) {
+        if (guestTable.get(partner) === t) score += partnerScore;
+      }
+      for (const pref of tagPreferencesOf.get(member.id) || []) {
+        const others =
+          (tagCounts[t].get(pref.tag) || 0) +
+          (unitTags.get(pref.tag) || 0) -
+          (pref.own ? 1 : 0);
+        if (others > 0) score += pref.score;
+      }
+    }
+    // 桌上原本未满足的标签偏好因该单元加入而满足
+    preferringGuests[t].forEach((guestId) => {
+      for (const pref of tagPreferencesOf.get(guestId)!) {
+        const others = (tagCounts[t].get(pref.tag) || 0) - (pref.own ? 1 : 0);
+        if (others === 0 && unitTags.has(pref.tag)) score += pref.score;
+      }
+    });
+    return score;
+  };
+
+  initial.forEach((t, u) => {
+    if (t >= 0) add(u, t);
+  });
+
+  return {
+    place,
+    seats,
+    tagCounts,
+    guestTable,
+    apartPartners,
+    tableUnits,
+    fixedIndex,
+    areaBlocked,
+    kidsBlocked,
+    accessBlocked,
+    ruleBlocked,
+    tableRuleAt,
+    limitCounts,
+    unitLimits,
+    canPlace,
+    preferenceAt,
+    add,
+    remove,
+    get total() {
+      return total;
+    },
+  };
+};
+
+type SearchState = ReturnType<typeof createSearchState>;
+
+// 贪心打分：单元放入某桌的即时得分
+const scoreUnitAtTable = (state: SearchState, problem: SeatingProblem, u: number, t: number) => {
+  const unit = problem.units[u];
+  return scorePlacement(
+    problem.policy,
+    {
+      areaId: unit.members[0].areaId,
+      tags: unit.members.flatMap((m) => m.tags),
+      headCount: unit.headCount,
+    },
+    problem.tables[t],
+    {
+      seats: state.seats[t],
+      tagCount: (tag) => state.tagCounts[t].get(tag) || 0,
+    }
+  ).score + state.preferenceAt(u, t);
+};
+
+/**
+ * 贪心排座：按单元顺序逐个放入当前得分最高的桌位，initial 中已有位置的单元保持不动
+ */
+export const greedyAssign = (problem: SeatingProblem, initial?: number[]) => {
+  const state = createSearchState(
+    problem,
+    initial || problem.units.map(() => -1)
+  );
+
+  problem.units.forEach((_, u) => {
+    if (state.place[u] >= 0) return;
+    let bestTable = -1;
+    let bestScore = -Infinity;
+    problem.tables.forEach((_, t) => {
+      if (!state.canPlace(u, t)) return;
+      const score = scoreUnitAtTable(state, problem, u, t);
+      if (score > bestScore) {
+        bestScore = score;
+        bestTable = t;
+      }
+    });
+    if (bestTable >= 0) state.add(u, bestTable);
+  });
+
+  return [...state.place];
+};
+
+// 可复现的伪随机数（mulberry32）
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 让出事件循环，待已排队的 I/O 回调执行后继续
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * 模拟退火：在保持硬约束成立的前提下，通过移动、交换、挤占三种邻域操作
+ * 优化整体得分；时间预算平均分给多轮，每轮从当前最优解扰动后重新升温
+ * 搜索分片执行，期间定期让出事件循环
+ */
+export const optimizeLayout = async (
+  problem: SeatingProblem,
+  initial: number[],
+  options: { timeBudgetMs: number; seed: number }
+) => {
+  const random = createRandom(options.seed);
+  const pick = <T>(list: T[]) => list[Math.floor(random() * list.length)];
+  const tableCount = problem.tables.length;
+  const movable = problem.units
+    .map((unit, u) => (unit.blockedReason ? -1 : u))
+    .filter((u) => u >= 0);
+
+  let bestPlace = [...initial];
+  let iterations = 0;
+  if (movable.length === 0 || tableCount === 0) {
+    return { placement: bestPlace, iterations };
+  }
+
+  let bestScore = createSearchState(problem, initial).total;
+  const startedAt = Date.now();
+  const segment = options.timeBudgetMs / RESTARTS;
+
+  for (let round = 0; round < RESTARTS; round++) {
+    const state = createSearchState(problem, bestPlace);
+    const journal: Array<[number, number]> = [];
+
+    // 把单元挪到目标桌位（-1 为撤下），记录原位置以便撤销
+    const shift = (u: number, t: number) => {
+      journal.push([u, state.place[u]]);
+      let delta = 0;
+      if (state.place[u] >= 0) delta += state.remove(u);
+      if (t >= 0) delta += state.add(u, t);
+      return delta;
+    };
+    const rollback = () => {
+      while (journal.length > 0) {
+        const [u, t] = journal.pop()!;
+        if (state.place[u] >= 0) state.remove(u);
+        if (t >= 0) state.add(u, t);
+      }
+    };
+    const targetTable = (u: number) =>
+      state.fixedIndex[u] >= 0
+        ? state.fixedIndex[u]
+        : Math.floor(random() * tableCount);
+
+    // 移动：把一个单元换到另一桌（或撤下）
+    const relocate = () => {
+      const u = pick(movable);
+      const t = random() < 0.05 ? -1 : targetTable(u);
+      if (t === state.place[u]) return null;
+      let delta = shift(u, -1);
+      if (t >= 0) {
+        if (!state.canPlace(u, t)) return null;
+        delta += shift(u, t);
+      }
+      return delta;
+    };
+
+    // 交换：两个不同桌的单元互换桌位
+    const swap = () => {
+      const u = pick(movable);
+      const v = pick(movable);
+      const a = state.place[u];
+      const b = state.place[v];
+      if (u === v || a < 0 || b < 0 || a === b) return null;
+      let delta = shift(u, -1) + shift(v, -1);
+      if (!state.canPlace(u, b)) return null;
+      delta += shift(u, b);
+      if (!state.canPlace(v, a)) return null;
+      return delta + shift(v, a);
+    };
+
+    // 挤占：把未安排的单元放进某桌，必要时把桌上的单元撤下
+    const eject = () => {
+      const unplaced = movable.filter((u) => state.place[u] < 0);
+      if (unplaced.length === 0) return relocate();
+      const u = pick(unplaced);
+      const t = targetTable(u);
+      let delta = 0;
+      for (let attempt = 0; attempt < 3 && !state.canPlace(u, t); attempt++) {
+        const occupants = Array.from(state.tableUnits[t]);
+        if (occupants.length === 0) break;
+        delta += shift(pick(occupants), -1);
+      }
+      if (!state.canPlace(u, t)) return null;
+      return delta + shift(u, t);
+    };
+
+    if (round > 0) {
+      // 扰动：随机挪动约一成单元，跳出局部最优
+      const kicks = Math.max(1, Math.ceil(movable.length * 0.1));
+      for (let k = 0; k < kicks; k++) {
+        if (relocate() === null) rollback();
+        journal.length = 0;
+      }
+    }
+
+    const roundEnd = startedAt + segment * (round + 1);
+    let temperature = START_TEMPERATURE;
+    let now = Date.now();
+    const roundStart = now;
+    let yieldedAt = now;
+
+    while (now < roundEnd) {
+      iterations++;
+      const r = random();
+      const delta = r < 0.5 ? relocate() : r < 0.8 ? swap() : eject();
+
+      if (
+        delta === null ||
+        (delta < 0 && random() >= Math.exp(delta / temperature))
+      ) {
+        rollback();
+      } else if (state.total > bestScore) {
+        bestScore = state.total;
+        bestPlace = [...state.place];
+      }
+      journal.length = 0;
+
+      if (iterations % 128 === 0) {
+        now = Date.now();
+        const progress = Math.min(1, (now - roundStart) / Math.max(1, roundEnd - roundStart));
+        temperature =
+          START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, progress);
+        if (now - yieldedAt >= YIELD_INTERVAL_MS) {
+          await yieldToEventLoop();
+          now = Date.now();
+          yieldedAt = now;
+        }
+      }
+    }
+  }
+
+  return { placement: bestPlace, iterations };
+};
+
+// 找出单元未能安排的原因
+const diagnoseUnit = (problem: SeatingProblem, state: SearchState, u: number) => {
+  const unit = problem.units[u];
+  if (unit.blockedReason) return unit.blockedReason;
+
+  const isGroup = unit.members.length > 1;
+  if (state.fixedIndex[u] >= 0) {
+    const t = state.fixedIndex[u];
+    const table = problem.tables[t];
+    if (table.locked) {
+      return `需与同组宾客坐在"${table.name}"，但该桌已锁定`;
+    }
+    if (state.areaBlocked[u][t]) {
+      return `需与同组宾客坐在"${table.name}"，但该桌属于其他区域`;
+    }
+    if (state.kidsBlocked[u][t]) {
+      return `需与同组宾客坐在"${table.name}"，但项目设置了儿童坐儿童桌`;
+    }
+    if (state.accessBlocked[u][t]) {
+      return `需与同组宾客坐在"${table.name}"，但该桌不是无障碍桌`;
+    }
+    if (state.ruleBlocked[u][t]) {
+      return `需与同组宾客坐在"${table.name}"，但与指定桌位的约束冲突`;
+    }
+    return state.seats[t] + unit.headCount > table.capacity
+      ? `需与同组宾客坐在"${table.name}"，但该桌剩余座位不足 ${unit.headCount} 个`
+      : `需与同组宾客坐在"${table.name}"，但该桌有设置了不能同桌的宾客或同分组人数已满`;
+  }
+
+  let capacityRejected = 0;
+  let conflictRejected = 0;
+  let areaRejected = 0;
+  let kidsRejected = 0;
+  let accessRejected = 0;
+  let ruleRejected = 0;
+  problem.tables.forEach((table, t) => {
+    if (state.areaBlocked[u][t]) {
+      areaRejected++;
+    } else if (state.kidsBlocked[u][t]) {
+      kidsRejected++;
+    } else if (state.accessBlocked[u][t]) {
+      accessRejected++;
+    } else if (state.ruleBlocked[u][t]) {
+      ruleRejected++;
+    } else if (table.locked || state.seats[t] + unit.headCount > table.capacity) {
+      capacityRejected++;
+    } else if (!state.canPlace(u, t)) {
+      conflictRejected++;
+    }
+  });
+
+  if (areaRejected === problem.tables.length) {
+    return "项目设置了不同区域不同桌，没有同区域或未分区的桌位";
+  }
+  if (kidsRejected > 0 && areaRejected + kidsRejected === problem.tables.length) {
+    return unit.members.every((m) => m.child)
+      ? "项目设置了儿童坐儿童桌，没有可安排的儿童桌"
+      : "项目设置了儿童坐儿童桌，没有可安排的普通桌";
+  }
+  if (
+    accessRejected > 0 &&
+    areaRejected + kidsRejected + accessRejected === problem.tables.length
+  ) {
+    return "项目设置了轮椅宾客坐无障碍桌，没有可安排的无障碍桌";
+  }
+  if (
+    ruleRejected > 0 &&
+    areaRejected + kidsRejected + accessRejected + ruleRejected ===
+      problem.tables.length
+  ) {
+    return "受指定桌位的约束限制，没有可安排的桌位";
+  }
+  // 被指定坐在某一桌时，说明该桌为什么不能安排
+  if (ruleRejected === problem.tables.length - 1) {
+    const t = state.ruleBlocked[u].indexOf(false);
+    const table = problem.tables[t];
+    if (table.locked) return `被指定坐在"${table.name}"，但该桌已锁定`;
+    return state.seats[t] + unit.headCount > table.capacity
+      ? `被指定坐在"${table.name}"，但该桌剩余座位不足 ${unit.headCount} 个`
+      : `被指定坐在"${table.name}"，但该桌有设置了不能同桌的宾客或同分组人数已满`;
+  }
+  if (!isGroup) return "没有合适的桌位";
+  if (conflictRejected === 0) {
+    return `同组共需 ${unit.headCount} 个座位，没有剩余座位足够的桌位`;
+  }
+  if (capacityRejected === 0) {
+    return "所有桌位都有与同组宾客设置了不能同桌的宾客或同分组人数已满";
+  }
+  return `同组共需 ${unit.headCount} 个座位，座位足够的桌位上都有设置了不能同桌的宾客或同分组人数已满`;
+};
+
+// 单元不能放入某桌的原因，可以放入时返回 null（判断顺序与 canPlace 一致）
+const rejectionAt = (
+  problem: SeatingProblem,
+  state: SearchState,
+  guestNames: Map<string, string>,
+  u: number,
+  t: number
+): TableRejection | null => {
+  const unit = problem.units[u];
+  const table = problem.tables[t];
+  const reject = (reason: TableRejection["reason"], detail: string) => ({
+    tableId: table.id,
+    tableName: table.name,
+    reason,
+    detail,
+  });
+
+  if (table.locked) return reject("locked", "该桌已锁定");
+  if (state.areaBlocked[u][t]) {
+    return reject("area", "该桌属于其他区域，项目设置了不同区域不同桌");
+  }
+  if (state.kidsBlocked[u][t]) {
+    return reject(
+      "kidsTable",
+      table.kids
+        ? "项目设置了儿童坐儿童桌，成人不安排到儿童桌"
+        : "项目设置了儿童坐儿童桌"
+    );
+  }
+  if (state.accessBlocked[u][t]) {
+    return reject("accessible", "项目设置了轮椅宾客坐无障碍桌，该桌不是无障碍桌");
+  }
+  for (const member of unit.members) {
+    const rule = state.tableRuleAt(member.id, table.id);
+    if (rule === "MUST_AT_TABLE") {
+      return reject("tableRule", `"${member.name}" 被指定坐在其他桌`);
+    }
+    if (rule === "NEVER_AT_TABLE") {
+      return reject("tableRule", `"${member.name}" 设置了不坐这一桌`);
+    }
+  }
+  if (state.fixedIndex[u] >= 0 && state.fixedIndex[u] !== t) {
+    const anchor = problem.tables[state.fixedIndex[u]];
+    return reject("together", `需与同组宾客坐在"${anchor.name}"`);
+  }
+  const remaining = table.capacity - state.seats[t];
+  if (unit.headCount > remaining) {
+    return reject(
+      "capacity",
+      `剩余 ${Math.max(0, remaining)} 个座位，需要 ${unit.headCount} 个`
+    );
+  }
+  for (const member of unit.members) {
+    const partner = (state.apartPartners.get(member.id) || []).find(
+      (p) => state.guestTable.get(p) === t
+    );
+    if (partner) {
+      return reject(
+        "mustApart",
+        `"${member.name}" 与 "${guestNames.get(partner)}" 设置了不能同桌`
+      );
+    }
+  }
+  for (const [l, count] of state.unitLimits[u]) {
+    const { name, limit } = problem.tableLimits[l];
+    if (state.limitCounts[l][t] + count > limit) {
+      return reject(
+        "groupLimit",
+        `分组"${name}"每桌最多 ${limit} 人，该桌已有 ${state.limitCounts[l][t]} 人`
+      );
+    }
+  }
+  return null;
+};
+
+// 在其余单元保持不动的前提下，逐桌评估该单元的去向
+const explainUnit = (
+  problem: SeatingProblem,
+  state: SearchState,
+  guestNames: Map<string, string>,
+  u: number
+): PlacementExplanation => {
+  const unit = problem.units[u];
+  if (unit.blockedReason) {
+    return { chosen: null, runnerUps: [], rejections: [] };
+  }
+
+  const current = state.place[u];
+  if (current >= 0) state.remove(u);
+
+  const options: TableOption[] = [];
+  const rejections: TableRejection[] = [];
+  problem.tables.forEach((table, t) => {
+    const rejection = rejectionAt(problem, state, guestNames, u, t);
+    if (rejection) {
+      rejections.push(rejection);
+      return;
+    }
+    const { score, matchingTags, ...placement } = scorePlacement(
+      problem.policy,
+      {
+        areaId: unit.members[0].areaId,
+        tags: unit.members.flatMap((m) => m.tags),
+        headCount: unit.headCount,
+      },
+      table,
+      {
+        seats: state.seats[t],
+        tagCount: (tag) => state.tagCounts[t].get(tag) || 0,
+      }
+    );
+    const preference = state.preferenceAt(u, t);
+    options.push({
+      tableId: table.id,
+      tableName: table.name,
+      score: score + preference,
+      components: { ...placement, preference },
+      matchingTags,
+    });
+  });
+
+  if (current >= 0) state.add(u, current);
+
+  const chosenId = current >= 0 ? problem.tables[current].id : null;
+  return {
+    chosen: options.find((o) => o.tableId === chosenId) || null,
+    runnerUps: options
+      .filter((o) => o.tableId !== chosenId)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3),
+    // 已安排的单元只需要说明为什么选这一桌，拒绝原因只对未安排的单元返回
+    rejections: current >= 0 ? [] : rejections,
+  };
+};
+
+/**
+ * 单元当前所在桌位对应的方案；当前位置已违反硬约束（如后加的不能同桌）的单元
+ * 视为未安排，交给后续步骤重新安排
+ */
+const currentPlacement = (problem: SeatingProblem) => {
+  const state = createSearchState(
+    problem,
+    problem.units.map(() => -1)
+  );
+  problem.units.forEach((unit, u) => {
+    if (!unit.currentTableId) return;
+    const t = problem.tables.findIndex((t) => t.id === unit.currentTableId);
+    if (t >= 0 && state.canPlace(u, t)) state.add(u, t);
+  });
+  return [...state.place];
+};
+
+/**
+ * 求解排座问题：先贪心得到初解（同时作为对比基准），
+ * strategy 为 optimize（默认）时再在时间预算内做全局优化；
+ * 重新优化时以当前布局为起点，贪心只补排尚未入座的单元
+ */
+export const solveSeating = async (
+  problem: SeatingProblem,
+  options: SolveOptions = {}
+): Promise<SolveResult> => {
+  const strategy = options.strategy === "greedy" ? "greedy" : "optimize";
+  const timeBudgetMs = clampTimeBudget(options.timeBudgetMs);
+
+  const startPlacement = currentPlacement(problem);
+  const greedyPlacement = greedyAssign(problem, startPlacement);
+  const greedy = evaluateLayout(problem, greedyPlacement);
+
+  let placement = greedyPlacement;
+  let iterations = 0;
+  if (strategy === "optimize") {
+    const optimized = await optimizeLayout(problem, greedyPlacement, {
+      timeBudgetMs,
+      seed: options.seed ?? Date.now(),
+    });
+    placement = optimized.placement;
+    iterations = optimized.iterations;
+  }
+
+  const finalState = createSearchState(problem, placement);
+  const guestNames = new Map<string, string>();
+  problem.tables.forEach((t) =>
+    t.occupants.forEach((g) => guestNames.set(g.id, g.name))
+  );
+  problem.units.forEach((unit) =>
+    unit.members.forEach((m) => guestNames.set(m.id, m.name))
+  );
+
+  const outcomes = problem.units.map((unit, u): UnitOutcome => {
+    const t = placement[u];
+    const explanation = explainUnit(problem, finalState, guestNames, u);
+    if (t >= 0) {
+      return { unit, table: problem.tables[t], explanation };
+    }
+    return {
+      unit,
+      table: null,
+      error: diagnoseUnit(problem, finalState, u),
+      explanation,
+    };
+  });
+
+  return {
+    strategy,
+    outcomes,
+    evaluation: evaluateLayout(problem, placement),
+    initial: evaluateLayout(problem, startPlacement),
+    greedy,
+    iterations,
+  };
+};
@@ -0,0 +1,162 @@
+// 座位写操作的事务封装：先锁定桌位行再检查容量和约束，
+// 保证多人同时拖拽或与自动排座交错时检查结果在提交时依然成立
+import { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { assertGroupLimits } from "./constraintGroups";
+import { SEAT_COUNT_SELECT, SeatCountGuest, seatsTaken } from "./companions";
+import { loadSeatingPolicy } from "./seatingPolicy";
+
+// 死锁或写冲突时的最大重试次数
+const MAX_ATTEMPTS = 3;
+
+/**
+ * 执行座位写事务
+ * 数据库检测到死锁/写冲突（P2034）时自动重试；
+ * 同一宾客被并发安排（座位表 guestId 唯一约束冲突，P2002）时返回 409
+ */
+export const runSeatingTransaction = async <T>(
+  prisma: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // 自动排座的提交可能涉及上百条记录，放宽默认 5 秒的事务超时
+      return await prisma.$transaction(fn, { maxWait: 5000, timeout: 15000 });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === "P2034" && attempt < MAX_ATTEMPTS) {
+          continue;
+        }
+        if (error.code === "P2034" || error.code === "P2002") {
+          throw new AppError("座位安排已被其他成员修改，请刷新后重试", 409);
+        }
+      }
+      throw error;
+    }
+  }
+};
+
+/**
+ * 对桌位加行锁（SELECT ... FOR UPDATE），直到事务结束
+ * 按 ID 排序加锁，避免两个事务交叉锁定多张桌导致死锁
+ */
+export const lockTables = async (
+  tx: Prisma.TransactionClient,
+  tableIds: string[]
+) => {
+  const ids = Array.from(new Set(tableIds)).sort();
+  if (ids.length === 0) return;
+
+  await tx.$queryRaw`SELECT id FROM tables WHERE id IN (${Prisma.join(
+    ids
+  )}) ORDER BY id FOR UPDATE`;
+};
+
+/**
+ * 锁定项目的全部桌位，用于自动排座等批量写入
+ */
+export const lockProjectTables = async (
+  tx: Prisma.TransactionClient,
+  projectId: string
+) => {
+  await tx.$queryRaw`SELECT id FROM tables WHERE project_id = ${projectId} ORDER BY id FOR UPDATE`;
+};
+
+/**
+ * 在已锁定桌位的事务内检查宾客能否坐到该桌：
+ * 桌位锁定状态、指定桌位约束、容量、MUST_APART 约束与分组的每桌人数上限
+ * 宾客已在该桌时不重复计算其人数
+ */
+export const assertGuestFitsTable = async (
+  tx: Prisma.TransactionClient,
+  guest: SeatCountGuest & { id: string; name: string },
+  tableId: string,
+  tableLabel = "该桌"
+) => {
+  const table = await tx.table.findUnique({
+    where: { id: tableId },
+    include: {
+      assignments: {
+        include: {
+          guest: { select: { id: true, ...SEAT_COUNT_SELECT } },
+        },
+      },
+    },
+  });
+
+  if (!table) {
+    throw new AppError("桌位不存在", 404);
+  }
+
+  if (table.pinned) {
+    throw new AppError(`"${table.name}" 已锁定，请先解锁再调整`, 400);
+  }
+
+  // 检查指定桌位的约束：必须坐在其他桌，或设置了不坐这一桌
+  const tableRule = await tx.seatingConstraint.findFirst({
+    where: {
+      guest1Id: guest.id,
+      OR: [
+        { constraintType: "MUST_AT_TABLE", tableId: { not: tableId } },
+        { constraintType: "NEVER_AT_TABLE", tableId },
+      ],
+    },
+    include: { table: { select: { name: true } } },
+  });
+
+  if (tableRule) {
+    throw new AppError(
+      tableRule.constraintType === "MUST_AT_TABLE"
+        ? `"${guest.name}" 必须坐在 "${tableRule.table?.name}"`
+        : `"${guest.name}" 设置了不坐 "${table.name}"`,
+      400
+    );
+  }
+
+  const others = table.assignments.filter((a) => a.guest.id !== guest.id);
+
+  // 检查座位是否足够（按项目规则下占用的座位数，不单独占座的婴儿不计）
+  const policy = await loadSeatingPolicy(tx, table.projectId);
+  const currentOccupied = others.reduce(
+    (sum, a) => sum + seatsTaken(a.guest, policy),
+    0
+  );
+  const seatsNeeded = seatsTaken(guest, policy);
+  if (currentOccupied + seatsNeeded > table.capacity) {
+    throw new AppError(
+      `${tableLabel}剩余 ${table.capacity - currentOccupied} 个座位，需要 ${seatsNeeded} 个座位`,
+      400
+    );
+  }
+
+  // 检查不能同桌的人是否已在该桌
+  const tableGuestIds = others.map((a) => a.guest.id);
+  const conflict = await tx.seatingConstraint.findFirst({
+    where: {
+      constraintType: "MUST_APART",
+      OR: [
+        { guest1Id: guest.id, guest2Id: { in: tableGuestIds } },
+        { guest2Id: guest.id, guest1Id: { in: tableGuestIds } },
+      ],
+    },
+    include: {
+      guest1: { select: { name: true } },
+      guest2: { select: { name: true } },
+    },
+  });
+
+  if (conflict) {
+    const otherGuestName =
+      conflict.guest1Id === guest.id
+        ? conflict.guest2?.name
+        : conflict.guest1.name;
+    throw new AppError(
+      `"${guest.name}" 与 "${otherGuestName}" 设置了不能同桌`,
+      400
+    );
+  }
+
+  await assertGroupLimits(tx, guest, table, tableGuestIds);
+
+  return table;
+};
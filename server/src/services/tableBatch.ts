@@ -0,0 +1,61 @@
+// 批量创建桌位：手动批量创建和桌数规划的一键创建共用
+import { Prisma, TableKind } from "@prisma/client";
+
+// 平面图上每行摆放的桌数与桌间距
+const TABLES_PER_ROW = 5;
+const TABLE_SPACING = 150;
+
+export interface TableBatchParams {
+  projectId: string;
+  count: number;
+  capacity: number;
+  namePrefix?: string;
+  areaId?: string | null;
+  kind?: TableKind;
+  tags?: string[];
+  startNumber?: number;
+  // 已有桌位数，新桌接在其后依次摆放
+  positionOffset?: number;
+}
+
+/**
+ * 按编号批量创建桌位，名称默认为“第X桌”，在平面图上按网格依次摆放
+ */
+export const createTableBatch = async (
+  db: Prisma.TransactionClient,
+  params: TableBatchParams
+) => {
+  const {
+    projectId,
+    count,
+    capacity,
+    namePrefix,
+    areaId,
+    kind,
+    tags,
+    startNumber = 1,
+    positionOffset = 0,
+  } = params;
+
+  const tables = [];
+  for (let i = 0; i < count; i++) {
+    const tableNumber = startNumber + i;
+    const slot = positionOffset + i;
+    tables.push({
+      projectId,
+      name: namePrefix ? `${namePrefix}${tableNumber}` : `第${tableNumber}桌`,
+      capacity,
+      positionX: (slot % TABLES_PER_ROW) * TABLE_SPACING,
+      positionY: Math.floor(slot / TABLES_PER_ROW) * TABLE_SPACING,
+      areaId,
+      kind,
+      tags,
+    });
+  }
+
+  await db.table.createMany({
+    data: tables,
+  });
+
+  return tables.length;
+};
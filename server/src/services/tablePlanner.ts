@@ -0,0 +1,242 @@
+// 桌数规划：按区域统计待安排人数，结合 MUST_TOGETHER 组与标签分组估算需要的桌型和桌数
+import { createTogetherResolver, groupTogetherUnits, PairConstraint } from "./constraintGraph";
+import { SolverGuest } from "./seatingSolver";
+
+// 单桌座位数上限，与创建桌位时的限制一致
+export const MAX_TABLE_CAPACITY = 20;
+export const MIN_TABLE_CAPACITY = 4;
+
+export interface PlannerArea {
+  id: string;
+  name: string;
+}
+
+export interface PlannerTable {
+  capacity: number;
+  areaId: string | null;
+  occupiedSeats: number;
+  pinned: boolean;
+}
+
+export interface TablePlanItem {
+  areaId: string | null;
+  areaName: string;
+  capacity: number;
+  count: number;
+  // 主桌：为放下人数超过标准桌的同桌组而加大的桌型
+  kind: "standard" | "head";
+}
+
+export interface AreaPlan {
+  areaId: string | null;
+  areaName: string;
+  headCount: number;
+  tags: Array<{ tag: string; headCount: number }>;
+  largestGroup: number;
+  existingFreeSeats: number;
+  items: TablePlanItem[];
+  // 新桌的座位数与其中预计坐满的座位数
+  seats: number;
+  usedSeats: number;
+  fillRate: number;
+}
+
+export interface TablePlan {
+  capacity: number;
+  largeCapacity: number;
+  headCount: number;
+  existingFreeSeats: number;
+  areas: AreaPlan[];
+  items: TablePlanItem[];
+  summary: string;
+  totalTables: number;
+  totalSeats: number;
+  leftoverSeats: number;
+  fillRate: number;
+  warnings: string[];
+}
+
+const UNZONED = "未分区";
+
+const toRate = (used: number, seats: number) =>
+  seats > 0 ? Math.round((used / seats) * 1000) / 10 : 0;
+
+/**
+ * 首次适应递减装箱：同一主标签的单元排在一起，尽量同桌
+ * 返回每张桌的已用座位数
+ */
+const packUnits = (
+  units: Array<{ headCount: number; tag: string }>,
+  capacity: number
+) => {
+  const sorted = [...units].sort(
+    (a, b) => a.tag.localeCompare(b.tag) || b.headCount - a.headCount
+  );
+  const bins: number[] = [];
+  for (const unit of sorted) {
+    const index = bins.findIndex((used) => used + unit.headCount <= capacity);
+    if (index >= 0) {
+      bins[index] += unit.headCount;
+    } else {
+      bins.push(unit.headCount);
+    }
+  }
+  return bins;
+};
+
+/**
+ * 计算桌数规划：只针对未入座的宾客，先扣除同区域已有桌位的空位
+ * 超过标准桌人数的同桌组安排加大的主桌；超过单桌上限的组给出提示
+ */
+export const planTables = (input: {
+  guests: SolverGuest[];
+  tables: PlannerTable[];
+  areas: PlannerArea[];
+  constraints: PairConstraint[];
+  capacity: number;
+  largeCapacity: number;
+}): TablePlan => {
+  const { guests, tables, areas, constraints, capacity, largeCapacity } = input;
+  const resolveGroup = createTogetherResolver(constraints);
+  const areaName = (areaId: string | null) =>
+    areas.find((a) => a.id === areaId)?.name || UNZONED;
+
+  const warnings: string[] = [];
+  const areaPlans: AreaPlan[] = [];
+
+  const areaIds = Array.from(new Set(guests.map((g) => g.areaId)));
+  for (const areaId of areaIds) {
+    const areaGuests = guests.filter((g) => g.areaId === areaId);
+    const headCount = areaGuests.reduce((sum, g) => sum + g.headCount, 0);
+
+    const tagTotals = new Map<string, number>();
+    areaGuests.forEach((g) => {
+      const tag = g.tags[0] || "无标签";
+      tagTotals.set(tag, (tagTotals.get(tag) || 0) + g.headCount);
+    });
+
+    const units = groupTogetherUnits(areaGuests, resolveGroup).map((u) => ({
+      headCount: u.members.reduce((sum, m) => sum + m.headCount, 0),
+      tag: u.members[0].tags[0] || "",
+      names: u.members.map((m) => m.name),
+    }));
+
+    // 已有桌位的空位先按单元装入（同桌组放不下的桌跳过）
+    const freeSeats = tables
+      .filter((t) => !t.pinned && t.areaId === areaId)
+      .map((t) => t.capacity - t.occupiedSeats)
+      .filter((free) => free > 0)
+      .sort((a, b) => b - a);
+    const existingFreeSeats = freeSeats.reduce((sum, free) => sum + free, 0);
+
+    const remaining: typeof units = [];
+    [...units]
+      .sort((a, b) => b.headCount - a.headCount)
+      .forEach((unit) => {
+        const index = freeSeats.findIndex((free) => free >= unit.headCount);
+        if (index >= 0) {
+          freeSeats[index] -= unit.headCount;
+        } else {
+          remaining.push(unit);
+        }
+      });
+
+    const items: TablePlanItem[] = [];
+    const name = areaName(areaId);
+
+    // 标准桌放不下的同桌组
+    const oversized = remaining.filter((u) => u.headCount > capacity);
+    const headTables = oversized.filter((u) => u.headCount <= largeCapacity);
+    oversized
+      .filter((u) => u.headCount > largeCapacity)
+      .forEach((u) =>
+        warnings.push(
+          `${name}：${u.names.slice(0, 3).join("、")}${
+            u.names.length > 3 ? " 等" : ""
+          }必须同桌共 ${u.headCount} 人，超过 ${largeCapacity} 人桌，需拆分约束或单独安排`
+        )
+      );
+    if (headTables.length > 0) {
+      items.push({
+        areaId,
+        areaName: name,
+        capacity: largeCapacity,
+        count: headTables.length,
+        kind: "head",
+      });
+    }
+
+    const bins = packUnits(
+      remaining.filter((u) => u.headCount <= capacity),
+      capacity
+    );
+    if (bins.length > 0) {
+      items.push({
+        areaId,
+        areaName: name,
+        capacity,
+        count: bins.length,
+        kind: "standard",
+      });
+    }
+
+    const seats = items.reduce((sum, i) => sum + i.capacity * i.count, 0);
+    const usedSeats =
+      bins.reduce((sum, used) => sum + used, 0) +
+      headTables.reduce((sum, u) => sum + u.headCount, 0);
+
+    areaPlans.push({
+      areaId,
+      areaName: name,
+      headCount,
+      tags: Array.from(tagTotals.entries())
+        .map(([tag, count]) => ({ tag, headCount: count }))
+        .sort((a, b) => b.headCount - a.headCount),
+      largestGroup: Math.max(0, ...units.map((u) => u.headCount)),
+      existingFreeSeats,
+      items,
+      seats,
+      usedSeats,
+      fillRate: toRate(usedSeats, seats),
+    });
+  }
+
+  areaPlans.sort((a, b) => b.headCount - a.headCount);
+
+  // 汇总桌型，例如“14×10 + 2×12”
+  const bySize = new Map<number, number>();
+  areaPlans
+    .flatMap((a) => a.items)
+    .forEach((i) =>
+      bySize.set(i.capacity, (bySize.get(i.capacity) || 0) + i.count)
+    );
+  const summary = Array.from(bySize.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([size, count]) => `${count}×${size}`)
+    .join(" + ");
+
+  const items = areaPlans.flatMap((a) => a.items);
+  const totalTables = items.reduce((sum, i) => sum + i.count, 0);
+  const totalSeats = items.reduce((sum, i) => sum + i.capacity * i.count, 0);
+  const headCount = guests.reduce((sum, g) => sum + g.headCount, 0);
+  const existingFreeSeats = areaPlans.reduce(
+    (sum, a) => sum + a.existingFreeSeats,
+    0
+  );
+  const usedSeats = areaPlans.reduce((sum, a) => sum + a.usedSeats, 0);
+
+  return {
+    capacity,
+    largeCapacity,
+    headCount,
+    existingFreeSeats,
+    areas: areaPlans,
+    items,
+    summary,
+    totalTables,
+    totalSeats,
+    leftoverSeats: totalSeats - usedSeats,
+    fillRate: toRate(usedSeats, totalSeats),
+    warnings,
+  };
+};
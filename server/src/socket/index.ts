@@ -1,6 +1,16 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import {
+  acquireEditLock,
+  EditLock,
+  getProjectLocks,
+  isEditLockType,
+  refreshEditLock,
+  releaseEditLock,
+  releaseSocketLocks,
+  sweepExpiredLocks,
+} from '../services/editLocks';
 
 const prisma = new PrismaClient();
 
@@ -9,7 +19,29 @@ interface AuthenticatedSocket extends Socket {
   userNickname?: string;
 }
 
+// 检查超时编辑锁的间隔
+const LOCK_SWEEP_INTERVAL_MS = 10 * 1000;
+
+interface EditingPayload {
+  projectId: string;
+  type: string;
+  id: string;
+}
+
 export const setupSocketIO = (io: Server) => {
+  // 通知项目成员编辑锁已释放
+  const broadcastUnlocked = (released: EditLock[]) => {
+    released.forEach((lock) => {
+      io.to(`project:${lock.projectId}`).emit('editing:unlocked', {
+        type: lock.type,
+        id: lock.id,
+      });
+    });
+  };
+
+  // 客户端停止心跳（如网络中断但连接未及时断开）的锁到期后释放
+  setInterval(() => broadcastUnlocked(sweepExpiredLocks()), LOCK_SWEEP_INTERVAL_MS).unref();
+
   // 认证中间件
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
@@ -85,6 +117,14 @@ export const setupSocketIO = (io: Server) => {
         
         // 发送当前在线成员列表给新加入的用户
         socket.emit('members:list', onlineMembers);
+
+        // 发送项目当前的编辑锁
+        socket.emit('editing:locks', getProjectLocks(projectId).map(lock => ({
+          type: lock.type,
+          id: lock.id,
+          userId: lock.userId,
+          userNickname: lock.userNickname,
+        })));
         
         // 通知其他成员有人上线
         socket.to(roomName).emit('member:online', {
@@ -102,6 +142,7 @@ export const setupSocketIO = (io: Server) => {
     // 离开项目房间
     socket.on('leave:project', (projectId: string) => {
       socket.leave(`project:${projectId}`);
+      broadcastUnlocked(releaseSocketLocks(socket.id, projectId));
       
       // 通知其他成员有人离线
       socket.to(`project:${projectId}`).emit('member:offline', {
@@ -112,22 +153,67 @@ export const setupSocketIO = (io: Server) => {
       console.log(`${socket.userNickname} 离开项目: ${projectId}`);
     });
 
-    // 开始编辑某个资源（锁定）
-    socket.on('editing:start', (data: { projectId: string; type: string; id: string }) => {
+    // 开始编辑某个资源（锁定），通过回调告知是否加锁成功；已被他人锁定时返回持有者
+    socket.on('editing:start', async (data: EditingPayload, ack?: (result: unknown) => void) => {
+      const reply = typeof ack === 'function' ? ack : () => {};
+      if (!socket.rooms.has(`project:${data?.projectId}`) || !isEditLockType(data.type) || !data.id) {
+        reply({ ok: false, message: '无效的编辑请求' });
+        return;
+      }
+
+      // 只读成员不能加锁，按当前角色检查（加入项目后角色可能被修改）
+      try {
+        const member = await prisma.projectMember.findUnique({
+          where: { projectId_userId: { projectId: data.projectId, userId: socket.userId! } },
+        });
+        if (!member || member.role === 'VIEWER') {
+          reply({ ok: false, message: '您没有编辑权限' });
+          return;
+        }
+      } catch (error) {
+        console.error('检查编辑权限失败:', error);
+        reply({ ok: false, message: '加锁失败，请稍后再试' });
+        return;
+      }
+
+      const result = acquireEditLock({
+        projectId: data.projectId,
+        type: data.type,
+        id: data.id,
+        userId: socket.userId!,
+        userNickname: socket.userNickname!,
+        socketId: socket.id,
+      });
+
+      if (!result.ok) {
+        reply({
+          ok: false,
+          message: `${result.holder.userNickname} 正在编辑`,
+          lockedBy: { userId: result.holder.userId, nickname: result.holder.userNickname },
+        });
+        return;
+      }
+
       socket.to(`project:${data.projectId}`).emit('editing:locked', {
         type: data.type,
         id: data.id,
         userId: socket.userId,
         userNickname: socket.userNickname,
       });
+      reply({ ok: true });
+    });
+
+    // 编辑中定期心跳续期，锁已失效时通过回调告知
+    socket.on('editing:heartbeat', (data: EditingPayload, ack?: (result: unknown) => void) => {
+      const ok = isEditLockType(data?.type) && refreshEditLock(data.projectId, data.type, data.id, socket.userId!, socket.id);
+      if (typeof ack === 'function') ack({ ok });
     });
 
     // 结束编辑某个资源（解锁）
-    socket.on('editing:end', (data: { projectId: string; type: string; id: string }) => {
-      socket.to(`project:${data.projectId}`).emit('editing:unlocked', {
-        type: data.type,
-        id: data.id,
-      });
+    socket.on('editing:end', (data: EditingPayload) => {
+      if (!isEditLockType(data?.type)) return;
+      const released = releaseEditLock(data.projectId, data.type, data.id, socket.userId!, socket.id);
+      if (released) broadcastUnlocked([released]);
     });
 
     // 光标位置同步（用于实时协作）
@@ -144,6 +230,9 @@ export const setupSocketIO = (io: Server) => {
     socket.on('disconnect', async () => {
       console.log(`用户断开: ${socket.userNickname} (${socket.userId})`);
       
+      // 释放该连接持有的编辑锁
+      broadcastUnlocked(releaseSocketLocks(socket.id));
+
       // 获取该用户加入的所有房间并广播离线消息
       const rooms = Array.from(socket.rooms);
       for (const room of rooms) {
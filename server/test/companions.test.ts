@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  attendingSeatFlags,
+  countLapSeated,
+  MAX_COMPANION_NAME_LENGTH,
+  MAX_COMPANION_NOTES_LENGTH,
+  normalizeCompanions,
+  seatsTaken,
+  SeatCountGuest,
+} from "../src/services/companions";
+
+const party = (
+  headCount: number,
+  lapCount: number,
+  rsvpStatus = "INVITED",
+  confirmedCount: number | null = null
+): SeatCountGuest => ({ headCount, lapCount, rsvpStatus, confirmedCount });
+
+describe("normalizeCompanions", () => {
+  it("按顺序编号并去掉首尾空格", () => {
+    assert.deepEqual(normalizeCompanions([{ name: " 小明 ", notes: " " }], 2), [
+      { name: "小明", type: "ADULT", notes: null, mealChoiceId: null, position: 1 },
+    ]);
+  });
+
+  it("姓名或备注过长时拒绝", () => {
+    assert.throws(
+      () =>
+        normalizeCompanions(
+          [{ name: "名".repeat(MAX_COMPANION_NAME_LENGTH + 1) }],
+          2
+        ),
+      /姓名不能超过/
+    );
+    assert.throws(
+      () =>
+        normalizeCompanions(
+          [{ name: "小明", notes: "备".repeat(MAX_COMPANION_NOTES_LENGTH + 1) }],
+          2
+        ),
+      /备注不能超过/
+    );
+  });
+
+  it("随行人员不能多于人数减去宾客本人", () => {
+    assert.throws(() => normalizeCompanions([{ name: "小明" }], 1), /最多填写 0 位/);
+  });
+});
+
+describe("seatsTaken", () => {
+  it("未启用只排确认宾客时按邀请人数减去婴儿计算", () => {
+    assert.equal(seatsTaken(party(4, 1, "CONFIRMED", 2), { confirmedOnly: false }), 3);
+  });
+
+  it("只排确认宾客时已确认的宾客按确认人数计算", () => {
+    const policy = { confirmedOnly: true };
+    assert.equal(seatsTaken(party(4, 0, "CONFIRMED", 2), policy), 2);
+    // 婴儿最多算到确认人数减去宾客本人
+    assert.equal(seatsTaken(party(3, 1, "CONFIRMED", 2), policy), 1);
+    assert.equal(seatsTaken(party(3, 2, "CONFIRMED", 1), policy), 1);
+  });
+
+  it("只排确认宾客时不出席的宾客不占座位", () => {
+    assert.equal(seatsTaken(party(4, 1, "DECLINED"), { confirmedOnly: true }), 0);
+    assert.equal(seatsTaken(party(4, 1, "DECLINED"), { confirmedOnly: false }), 3);
+  });
+
+  it("未确认或缺少确认人数的宾客仍按邀请人数计算", () => {
+    const policy = { confirmedOnly: true };
+    assert.equal(seatsTaken(party(4, 1, "TENTATIVE", 2), policy), 3);
+    assert.equal(seatsTaken(party(4, 1, "CONFIRMED", null), policy), 3);
+  });
+});
+
+describe("attendingSeatFlags", () => {
+  const companions = [
+    { type: "ADULT" as const },
+    { type: "INFANT" as const },
+    { type: "ADULT" as const },
+  ];
+
+  it("座位标记数与占用座位数一致", () => {
+    const guest = {
+      ...party(4, countLapSeated(4, companions, false), "CONFIRMED", 3),
+      companions,
+    };
+    const flags = attendingSeatFlags(guest, {
+      infantsNeedSeat: false,
+      confirmedOnly: true,
+    });
+    assert.deepEqual(flags, [true, true, false, false]);
+    assert.equal(
+      flags.filter(Boolean).length,
+      seatsTaken(guest, { confirmedOnly: true })
+    );
+  });
+
+  it("未启用只排确认宾客时婴儿不占座", () => {
+    const guest = { ...party(4, 1), companions };
+    assert.deepEqual(
+      attendingSeatFlags(guest, { infantsNeedSeat: false, confirmedOnly: false }),
+      [true, true, false, true]
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  acquireEditLock,
+  assertNotLockedByOthers,
+  EDIT_LOCK_TTL_MS,
+  findEditLock,
+  getProjectLocks,
+  refreshEditLock,
+  releaseEditLock,
+  releaseSocketLocks,
+  sweepExpiredLocks,
+} from "../src/services/editLocks";
+
+// 锁保存在模块内存中，各用例使用不同的项目避免互相影响
+const lock = (projectId: string, userId: string, socketId: string) =>
+  acquireEditLock({
+    projectId,
+    type: "guest",
+    id: "g1",
+    userId,
+    userNickname: userId,
+    socketId,
+  });
+
+describe("editLocks", () => {
+  it("资源被其他成员锁定时加锁失败并返回持有者", () => {
+    assert.equal(lock("p1", "alice", "s1").ok, true);
+    const result = lock("p1", "bob", "s2");
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.holder.userId, "alice");
+    assert.throws(
+      () => assertNotLockedByOthers("p1", "guest", "g1", "bob"),
+      (error: { statusCode?: number }) => error.statusCode === 423
+    );
+    assert.doesNotThrow(() =>
+      assertNotLockedByOthers("p1", "guest", "g1", "alice")
+    );
+  });
+
+  it("同一成员在两个标签页中编辑时，关闭其中一个不释放锁", () => {
+    lock("p2", "alice", "tab1");
+    lock("p2", "alice", "tab2");
+
+    assert.deepEqual(releaseSocketLocks("tab2"), []);
+    assert.ok(findEditLock("p2", "guest", "g1"));
+    assert.equal(lock("p2", "bob", "s3").ok, false);
+
+    const released = releaseSocketLocks("tab1");
+    assert.equal(released.length, 1);
+    assert.equal(findEditLock("p2", "guest", "g1"), undefined);
+  });
+
+  it("结束编辑时其他连接仍在编辑则保留锁", () => {
+    lock("p3", "alice", "tab1");
+    lock("p3", "alice", "tab2");
+
+    assert.equal(releaseEditLock("p3", "guest", "g1", "alice", "tab1"), null);
+    assert.equal(releaseEditLock("p3", "guest", "g1", "bob", "tab2"), null);
+    assert.ok(releaseEditLock("p3", "guest", "g1", "alice", "tab2"));
+    assert.equal(findEditLock("p3", "guest", "g1"), undefined);
+  });
+
+  it("心跳记下发送的连接，只能由持有者续期", () => {
+    lock("p4", "alice", "tab1");
+    assert.equal(refreshEditLock("p4", "guest", "g1", "bob", "s2"), false);
+    assert.equal(refreshEditLock("p4", "guest", "g1", "alice", "tab2"), true);
+
+    releaseSocketLocks("tab1");
+    assert.ok(findEditLock("p4", "guest", "g1"));
+  });
+
+  it("离开项目只释放该项目的锁", () => {
+    lock("p5", "alice", "s1");
+    lock("p6", "alice", "s1");
+    releaseSocketLocks("s1", "p5");
+    assert.deepEqual(getProjectLocks("p5"), []);
+    assert.equal(getProjectLocks("p6").length, 1);
+  });
+
+  it("超时未续期的锁被清除", () => {
+    lock("p7", "alice", "s1");
+    const expired = sweepExpiredLocks(Date.now() + EDIT_LOCK_TTL_MS + 1);
+    assert.ok(expired.some((l) => l.projectId === "p7"));
+    assert.equal(findEditLock("p7", "guest", "g1"), undefined);
+  });
+});
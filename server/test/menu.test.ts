@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MenuOptionRecord, resolvePartyMeals } from "../src/services/menu";
+
+const option = (
+  id: string,
+  kind: MenuOptionRecord["kind"] = "ADULT"
+): MenuOptionRecord =>
+  ({ id, name: id, kind, price: 100 }) as MenuOptionRecord;
+
+const menu = [option("beef"), option("fish"), option("kids", "CHILD")];
+
+const party = (overrides: Partial<Parameters<typeof resolvePartyMeals>[0]>) => ({
+  headCount: 1,
+  ageCategory: "ADULT" as const,
+  rsvpStatus: "INVITED",
+  confirmedCount: null,
+  mealChoiceId: null,
+  companions: [],
+  ...overrides,
+});
+
+const mealIds = (guest: Parameters<typeof resolvePartyMeals>[0]) =>
+  resolvePartyMeals(guest, menu).map((m) =>
+    m.status === "meal" ? m.option.id : m.status
+  );
+
+describe("resolvePartyMeals", () => {
+  it("各人按自己的选择，未选时按年龄段取默认菜品", () => {
+    assert.deepEqual(
+      mealIds(
+        party({
+          headCount: 4,
+          mealChoiceId: "fish",
+          companions: [
+            { type: "CHILD", mealChoiceId: null },
+            { type: "INFANT", mealChoiceId: null },
+          ],
+        })
+      ),
+      ["fish", "kids", "none", "fish"]
+    );
+  });
+
+  it("已确认出席时只按确认人数计", () => {
+    assert.deepEqual(
+      mealIds(
+        party({
+          headCount: 4,
+          rsvpStatus: "CONFIRMED",
+          confirmedCount: 2,
+          companions: [
+            { type: "CHILD", mealChoiceId: null },
+            { type: "ADULT", mealChoiceId: "fish" },
+          ],
+        })
+      ),
+      ["beef", "kids"]
+    );
+  });
+
+  it("待定的宾客仍按邀请人数计", () => {
+    assert.equal(
+      mealIds(party({ headCount: 3, rsvpStatus: "TENTATIVE", confirmedCount: 1 }))
+        .length,
+      3
+    );
+  });
+});
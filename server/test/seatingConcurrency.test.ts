@@ -0,0 +1,206 @@
+// 并发排座：多个请求同时写入同一批桌位时，任何桌位都不能超员
+// 需要可写的 PostgreSQL（先执行 npx prisma db push），通过 DATABASE_URL 指定；未设置时跳过
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import jwt from "jsonwebtoken";
+import type { PrismaClient } from "@prisma/client";
+
+const databaseUrl = process.env.DATABASE_URL;
+
+describe(
+  "并发排座",
+  { skip: !databaseUrl && "未设置 DATABASE_URL", timeout: 60 * 1000 },
+  () => {
+    let prisma: PrismaClient;
+    let close: () => Promise<void>;
+    let baseUrl = "";
+    let token = "";
+    let userId = "";
+    let projectId = "";
+
+    const post = async (path: string, body: object) => {
+      const response = await fetch(`${baseUrl}/api/seating${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() };
+    };
+
+    const createTables = (capacities: number[]) =>
+      Promise.all(
+        capacities.map((capacity, i) =>
+          prisma.table.create({
+            data: { projectId, name: `桌${i + 1}`, capacity },
+          })
+        )
+      );
+
+    const createGuests = (headCounts: number[]) =>
+      Promise.all(
+        headCounts.map((headCount, i) =>
+          prisma.guest.create({
+            data: {
+              projectId,
+              name: `宾客${i + 1}`,
+              headCount,
+              createdById: userId,
+            },
+          })
+        )
+      );
+
+    // 各桌已占用的座位数都不超过容量
+    const assertNoOverflow = async () => {
+      const tables = await prisma.table.findMany({
+        where: { projectId },
+        include: { assignments: { include: { guest: true } } },
+      });
+      for (const table of tables) {
+        const seats = table.assignments.reduce(
+          (sum, a) => sum + a.guest.headCount - a.guest.lapCount,
+          0
+        );
+        assert.ok(
+          seats <= table.capacity,
+          `${table.name} 坐了 ${seats} 人，容量 ${table.capacity}`
+        );
+      }
+    };
+
+    // 每个用例使用干净的宾客和桌位
+    const reset = async () => {
+      await prisma.guest.deleteMany({ where: { projectId } });
+      await prisma.table.deleteMany({ where: { projectId } });
+      await prisma.seatingSnapshot.deleteMany({ where: { projectId } });
+      await prisma.seatingOperation.deleteMany({ where: { projectId } });
+    };
+
+    before(async () => {
+      const server = await import("../src/index");
+      const { PrismaClient } = await import("@prisma/client");
+      prisma = new PrismaClient();
+
+      await new Promise<void>((resolve) =>
+        server.httpServer.listen(0, "127.0.0.1", resolve)
+      );
+      const { port } = server.httpServer.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+      close = () =>
+        new Promise<void>((resolve) => server.io.close(() => resolve()));
+
+      const user = await prisma.user.create({
+        data: {
+          email: `concurrency-${Date.now()}@test.local`,
+          passwordHash: "-",
+          nickname: "并发测试",
+        },
+      });
+      userId = user.id;
+      token = jwt.sign({ userId }, process.env.JWT_SECRET || "secret");
+
+      const project = await prisma.project.create({
+        data: {
+          name: "并发排座测试",
+          ownerId: userId,
+          members: { create: { userId, role: "OWNER" } },
+        },
+      });
+      projectId = project.id;
+    });
+
+    after(async () => {
+      if (close) await close();
+      if (!prisma) return;
+      try {
+        if (projectId) {
+          await prisma.project.delete({ where: { id: projectId } });
+        }
+        if (userId) {
+          await prisma.activityLog.deleteMany({ where: { userId } });
+          await prisma.user.delete({ where: { id: userId } });
+        }
+      } finally {
+        await prisma.$disconnect();
+      }
+    });
+
+    it("同时安排到同一桌时不超员", async () => {
+      await reset();
+      const [table] = await createTables([6]);
+      const guests = await createGuests([2, 2, 2, 2, 1, 1, 1, 1]);
+
+      const responses = await Promise.all(
+        guests.map((g) => post("/assign", { guestId: g.id, tableId: table.id }))
+      );
+
+      responses.forEach(({ status }) =>
+        assert.ok([200, 201, 400, 409].includes(status), `状态码 ${status}`)
+      );
+      assert.ok(responses.some(({ status }) => status < 300));
+      await assertNoOverflow();
+    });
+
+    it("同时换桌到同一桌时不超员", async () => {
+      await reset();
+      const [target, ...others] = await createTables([4, 4, 4, 4]);
+      const guests = await createGuests([2, 2, 2, 2, 2, 2]);
+      await prisma.seatingAssignment.createMany({
+        data: guests.map((g, i) => ({
+          guestId: g.id,
+          tableId: others[i % others.length].id,
+          assignedById: userId,
+        })),
+      });
+
+      await Promise.all(
+        guests.map((g) =>
+          post("/move", { guestId: g.id, newTableId: target.id })
+        )
+      );
+
+      await assertNoOverflow();
+    });
+
+    it("自动排座与手动安排交错时不超员", async () => {
+      await reset();
+      const tables = await createTables([5, 5, 5]);
+      const guests = await createGuests(
+        Array.from({ length: 12 }, (_, i) => (i % 2) + 1)
+      );
+
+      const preview = await post("/auto-assign", {
+        projectId,
+        strategy: "greedy",
+        dryRun: true,
+      });
+      assert.equal(preview.status, 200);
+
+      const manual = guests.map((g, i) =>
+        post("/assign", {
+          guestId: g.id,
+          tableId: tables[i % tables.length].id,
+        })
+      );
+      await Promise.all([
+        post("/auto-assign/commit", {
+          projectId,
+          fingerprint: preview.body.data.plan.fingerprint,
+          assignments: preview.body.data.plan.assignments,
+        }),
+        post("/auto-assign", { projectId, strategy: "greedy" }),
+        ...manual,
+      ]);
+
+      await assertNoOverflow();
+      const seated = await prisma.seatingAssignment.count({
+        where: { table: { projectId } },
+      });
+      assert.ok(seated > 0);
+    });
+  }
+);
@@ -0,0 +1,368 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma } from "@prisma/client";
+import {
+  assertSeatingPlan,
+  computeSeatingFingerprint,
+  fitSeatingLayout,
+} from "../src/services/seatingPlan";
+import { DEFAULT_SEATING_POLICY } from "../src/services/seatingPolicy";
+
+interface FakeGuest {
+  id: string;
+  headCount: number;
+  lapCount: number;
+  rsvpStatus: string;
+  confirmedCount: number | null;
+  tableId?: string;
+  pinned?: boolean;
+}
+
+interface FakeTable {
+  id: string;
+  name: string;
+  capacity: number;
+  pinned?: boolean;
+}
+
+interface FakeConstraint {
+  constraintType: string;
+  guest1Id: string;
+  guest2Id?: string | null;
+  tableId?: string | null;
+}
+
+const guest = (
+  id: string,
+  headCount = 1,
+  overrides: Partial<FakeGuest> = {}
+): FakeGuest => ({
+  id,
+  headCount,
+  lapCount: 0,
+  rsvpStatus: "CONFIRMED",
+  confirmedCount: headCount,
+  ...overrides,
+});
+
+// 只实现排座核对用到的查询，查询条件中只处理按宾客 ID 筛选
+const fakeDb = (data: {
+  guests: FakeGuest[];
+  tables: FakeTable[];
+  constraints?: FakeConstraint[];
+  confirmedOnly?: boolean;
+}) => {
+  const toGuest = (g: FakeGuest) => ({
+    id: g.id,
+    name: g.id,
+    ageCategory: "ADULT",
+    accessibilityNeeds: [],
+    tags: [],
+    areaId: null,
+    headCount: g.headCount,
+    lapCount: g.lapCount,
+    rsvpStatus: g.rsvpStatus,
+    confirmedCount: g.confirmedCount,
+    assignment: g.tableId
+      ? { tableId: g.tableId, pinned: g.pinned ?? false }
+      : null,
+  });
+
+  return {
+    guest: {
+      findMany: async (args: { where?: { id?: { in: string[] } } }) =>
+        data.guests
+          .filter((g) => !args.where?.id || args.where.id.in.includes(g.id))
+          .map(toGuest),
+    },
+    table: {
+      findMany: async () =>
+        data.tables.map((t) => ({
+          ...t,
+          pinned: t.pinned ?? false,
+          assignments: data.guests
+            .filter((g) => g.tableId === t.id)
+            .map((g) => ({ guest: toGuest(g) })),
+        })),
+    },
+    seatingAssignment: {
+      findMany: async () =>
+        data.guests.flatMap((g) =>
+          g.tableId ? [{ guestId: g.id, tableId: g.tableId }] : []
+        ),
+    },
+    seatingConstraint: {
+      findMany: async () =>
+        (data.constraints || []).map((c, i) => ({
+          id: `c${i}`,
+          guest2Id: null,
+          tableId: null,
+          ...c,
+        })),
+    },
+    constraintGroup: { findMany: async () => [] },
+    seatingPolicy: {
+      findUnique: async () =>
+        data.confirmedOnly
+          ? { ...DEFAULT_SEATING_POLICY, confirmedOnly: true }
+          : null,
+    },
+  } as unknown as Prisma.TransactionClient;
+};
+
+describe("assertSeatingPlan", () => {
+  it("桌位坐得下时通过，返回涉及的宾客", async () => {
+    const db = fakeDb({
+      guests: [guest("a", 2, { tableId: "t1" }), guest("b", 3)],
+      tables: [{ id: "t1", name: "1号桌", capacity: 5 }],
+    });
+    const guests = await assertSeatingPlan(db, "p", [
+      { guestId: "b", tableId: "t1" },
+    ]);
+    assert.deepEqual(
+      guests.map((g) => g.id),
+      ["b"]
+    );
+  });
+
+  it("合并现有安排后超出容量时拒绝", async () => {
+    const db = fakeDb({
+      guests: [guest("a", 3, { tableId: "t1" }), guest("b", 3)],
+      tables: [{ id: "t1", name: "1号桌", capacity: 5 }],
+    });
+    await assert.rejects(
+      assertSeatingPlan(db, "p", [{ guestId: "b", tableId: "t1" }]),
+      /"1号桌" 座位不足/
+    );
+  });
+
+  it("只安排确认出席时按确认人数核对容量", async () => {
+    const data = {
+      guests: [
+        guest("a", 3, { tableId: "t1" }),
+        guest("b", 4, { confirmedCount: 2 }),
+      ],
+      tables: [{ id: "t1", name: "1号桌", capacity: 5 }],
+    };
+    const plan = [{ guestId: "b", tableId: "t1" }];
+
+    await assert.rejects(assertSeatingPlan(fakeDb(data), "p", plan));
+    await assertSeatingPlan(fakeDb({ ...data, confirmedOnly: true }), "p", plan);
+  });
+
+  it("撤下座位后腾出的位置可供其他宾客使用", async () => {
+    const db = fakeDb({
+      guests: [guest("a", 3, { tableId: "t1" }), guest("b", 3)],
+      tables: [{ id: "t1", name: "1号桌", capacity: 5 }],
+    });
+    await assertSeatingPlan(db, "p", [
+      { guestId: "a", tableId: null },
+      { guestId: "b", tableId: "t1" },
+    ]);
+  });
+
+  it("涉及已锁定的座位或桌位时拒绝", async () => {
+    const tables = [
+      { id: "t1", name: "1号桌", capacity: 10 },
+      { id: "t2", name: "2号桌", capacity: 10, pinned: true },
+    ];
+    await assert.rejects(
+      assertSeatingPlan(
+        fakeDb({ guests: [guest("a", 1, { tableId: "t1", pinned: true })], tables }),
+        "p",
+        [{ guestId: "a", tableId: null }]
+      ),
+      /已锁定/
+    );
+    await assert.rejects(
+      assertSeatingPlan(fakeDb({ guests: [guest("a")], tables }), "p", [
+        { guestId: "a", tableId: "t2" },
+      ]),
+      /已锁定/
+    );
+  });
+
+  it("违反不能同桌或指定桌位的约束时拒绝", async () => {
+    const tables = [
+      { id: "t1", name: "1号桌", capacity: 10 },
+      { id: "t2", name: "2号桌", capacity: 10 },
+    ];
+    await assert.rejects(
+      assertSeatingPlan(
+        fakeDb({
+          guests: [guest("a", 1, { tableId: "t1" }), guest("b")],
+          tables,
+          constraints: [
+            { constraintType: "MUST_APART", guest1Id: "a", guest2Id: "b" },
+          ],
+        }),
+        "p",
+        [{ guestId: "b", tableId: "t1" }]
+      ),
+      /不能同桌/
+    );
+    await assert.rejects(
+      assertSeatingPlan(
+        fakeDb({
+          guests: [guest("a")],
+          tables,
+          constraints: [
+            { constraintType: "MUST_AT_TABLE", guest1Id: "a", tableId: "t2" },
+          ],
+        }),
+        "p",
+        [{ guestId: "a", tableId: "t1" }]
+      ),
+      /指定桌位/
+    );
+  });
+
+  it("拆开必须同桌的宾客时拒绝，同组未入座的宾客不影响", async () => {
+    const tables = [
+      { id: "t1", name: "1号桌", capacity: 10 },
+      { id: "t2", name: "2号桌", capacity: 10 },
+    ];
+    const constraints = [
+      { constraintType: "MUST_TOGETHER", guest1Id: "a", guest2Id: "b" },
+    ];
+    const db = fakeDb({
+      guests: [guest("a", 1, { tableId: "t1" }), guest("b")],
+      tables,
+      constraints,
+    });
+    await assert.rejects(
+      assertSeatingPlan(db, "p", [{ guestId: "b", tableId: "t2" }]),
+      /必须同桌/
+    );
+    await assertSeatingPlan(db, "p", [{ guestId: "b", tableId: "t1" }]);
+    await assertSeatingPlan(
+      fakeDb({ guests: [guest("a"), guest("b")], tables, constraints }),
+      "p",
+      [{ guestId: "a", tableId: "t2" }]
+    );
+  });
+
+  it("宾客或桌位不属于项目时拒绝", async () => {
+    const db = fakeDb({
+      guests: [guest("a")],
+      tables: [{ id: "t1", name: "1号桌", capacity: 10 }],
+    });
+    await assert.rejects(
+      assertSeatingPlan(db, "p", [{ guestId: "x", tableId: "t1" }]),
+      /不一致/
+    );
+    await assert.rejects(
+      assertSeatingPlan(db, "p", [{ guestId: "a", tableId: "tx" }]),
+      /不一致/
+    );
+  });
+});
+
+describe("fitSeatingLayout", () => {
+  const tables = [
+    { id: "t1", name: "1号桌", capacity: 4 },
+    { id: "t2", name: "2号桌", capacity: 4 },
+  ];
+  const seat = (guestId: string, tableId: string | null, pinned = false) => ({
+    guestId,
+    tableId,
+    pinned,
+  });
+  const ids = (seats: { guestId: string }[]) =>
+    seats.map((s) => s.guestId).sort();
+
+  it("锁定的座位先入座，其余宾客按人数从多到少入座，坐不下的跳过", async () => {
+    const db = fakeDb({
+      guests: [guest("a"), guest("b", 3), guest("c", 2)],
+      tables,
+    });
+    const { placed, skipped } = await fitSeatingLayout(db, "p", [
+      seat("a", "t1", true),
+      seat("c", "t1"),
+      seat("b", "t1"),
+    ]);
+    assert.deepEqual(
+      placed.map((s) => s.guestId),
+      ["a", "b"]
+    );
+    assert.deepEqual(ids(skipped), ["c"]);
+  });
+
+  it("违反不能同桌、必须同桌或指定桌位约束的宾客跳过", async () => {
+    const db = fakeDb({
+      guests: ["a", "b", "c", "d", "e"].map((id) => guest(id)),
+      tables,
+      constraints: [
+        { constraintType: "MUST_APART", guest1Id: "a", guest2Id: "b" },
+        { constraintType: "MUST_TOGETHER", guest1Id: "a", guest2Id: "c" },
+        { constraintType: "NEVER_AT_TABLE", guest1Id: "d", tableId: "t2" },
+      ],
+    });
+    const { placed, skipped } = await fitSeatingLayout(db, "p", [
+      seat("a", "t1", true),
+      seat("b", "t1"),
+      seat("c", "t2"),
+      seat("d", "t2"),
+      seat("e", null),
+    ]);
+    assert.deepEqual(ids(placed), ["a"]);
+    assert.deepEqual(ids(skipped), ["b", "c", "d", "e"]);
+  });
+
+  it("保留的宾客视为已入座，锁定桌位上已有宾客时不再接收新宾客", async () => {
+    const db = fakeDb({
+      guests: [guest("a", 1, { tableId: "t2" }), guest("b"), guest("c")],
+      tables: [tables[0], { ...tables[1], pinned: true }],
+    });
+    const { placed, skipped } = await fitSeatingLayout(db, "p", [
+      seat("a", "t1"),
+      seat("b", "t1"),
+      seat("c", "t2"),
+    ]);
+    assert.deepEqual(ids(placed), ["b"]);
+    assert.deepEqual(ids(skipped), ["a", "c"]);
+  });
+});
+
+describe("computeSeatingFingerprint", () => {
+  const tables = [{ id: "t1", name: "1号桌", capacity: 10 }];
+
+  it("数据不变时指纹相同", async () => {
+    const data = { guests: [guest("a", 2, { tableId: "t1" })], tables };
+    assert.equal(
+      await computeSeatingFingerprint(fakeDb(data), "p"),
+      await computeSeatingFingerprint(fakeDb(data), "p")
+    );
+  });
+
+  it("座位安排或占用座位数变化时指纹不同", async () => {
+    const base = await computeSeatingFingerprint(
+      fakeDb({ guests: [guest("a", 2, { tableId: "t1" })], tables }),
+      "p"
+    );
+    const moved = await computeSeatingFingerprint(
+      fakeDb({ guests: [guest("a", 2)], tables }),
+      "p"
+    );
+    const resized = await computeSeatingFingerprint(
+      fakeDb({ guests: [guest("a", 3, { tableId: "t1" })], tables }),
+      "p"
+    );
+    assert.notEqual(moved, base);
+    assert.notEqual(resized, base);
+  });
+
+  it("只安排确认出席时确认人数变化会改变指纹", async () => {
+    const fingerprint = (confirmedCount: number, confirmedOnly: boolean) =>
+      computeSeatingFingerprint(
+        fakeDb({
+          guests: [guest("a", 4, { confirmedCount, tableId: "t1" })],
+          tables,
+          confirmedOnly,
+        }),
+        "p"
+      );
+    assert.equal(await fingerprint(2, false), await fingerprint(3, false));
+    assert.notEqual(await fingerprint(2, true), await fingerprint(3, true));
+  });
+});
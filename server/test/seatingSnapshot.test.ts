@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffSnapshots, SnapshotData } from "../src/services/seatingSnapshot";
+
+type SnapshotTable = SnapshotData["tables"][number];
+
+const table = (
+  id: string,
+  overrides: Partial<SnapshotTable> = {}
+): SnapshotTable =>
+  ({
+    id,
+    name: id,
+    capacity: 10,
+    positionX: 0,
+    positionY: 0,
+    tableType: "ROUND",
+    kind: "REGULAR",
+    tags: [],
+    notes: null,
+    areaId: null,
+    pinned: false,
+    ...overrides,
+  }) as SnapshotTable;
+
+const seat = (guestId: string, tableId: string, guestName = guestId) => ({
+  guestId,
+  guestName,
+  tableId,
+  seats: [],
+  pinned: false,
+});
+
+describe("diffSnapshots", () => {
+  it("列出新增、删除和修改的桌位", () => {
+    const diff = diffSnapshots(
+      { tables: [table("t1"), table("t2")], assignments: [] },
+      {
+        tables: [table("t1", { name: "主桌", capacity: 12 }), table("t3")],
+        assignments: [],
+      }
+    );
+    assert.deepEqual(diff.tablesAdded, [{ id: "t3", name: "t3" }]);
+    assert.deepEqual(diff.tablesRemoved, [{ id: "t2", name: "t2" }]);
+    assert.deepEqual(diff.tablesChanged, [
+      { id: "t1", name: "主桌", previousName: "t1", fields: ["name", "capacity"] },
+    ]);
+  });
+
+  it("列出换桌、新入座和移出的宾客，未变动的不列", () => {
+    const tables = [table("t1"), table("t2")];
+    const diff = diffSnapshots(
+      {
+        tables,
+        assignments: [seat("a", "t1"), seat("b", "t1"), seat("c", "t2")],
+      },
+      {
+        tables,
+        assignments: [seat("a", "t1"), seat("b", "t2"), seat("d", "t1")],
+      }
+    );
+    assert.deepEqual(diff.moved, [
+      { guestId: "b", guestName: "b", fromTable: "t1", toTable: "t2" },
+      { guestId: "c", guestName: "c", fromTable: "t2", toTable: null },
+      { guestId: "d", guestName: "d", fromTable: null, toTable: "t1" },
+    ]);
+  });
+
+  it("宾客被删除后重新导入时按唯一姓名对应", () => {
+    const tables = [table("t1"), table("t2")];
+    const diff = diffSnapshots(
+      { tables, assignments: [seat("old", "t1", "张三")] },
+      { tables, assignments: [seat("new", "t2", "张三")] }
+    );
+    assert.deepEqual(diff.moved, [
+      { guestId: "new", guestName: "张三", fromTable: "t1", toTable: "t2" },
+    ]);
+  });
+
+  it("重名的宾客不按姓名对应", () => {
+    const tables = [table("t1")];
+    const diff = diffSnapshots(
+      { tables, assignments: [seat("old", "t1", "张三")] },
+      {
+        tables,
+        assignments: [seat("new1", "t1", "张三"), seat("new2", "t1", "张三")],
+      }
+    );
+    assert.equal(diff.moved.length, 3);
+  });
+});
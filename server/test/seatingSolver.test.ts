@@ -0,0 +1,165 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildSeatingProblem,
+  clampTimeBudget,
+  countHardViolations,
+  DEFAULT_TIME_BUDGET_MS,
+  MAX_TIME_BUDGET_MS,
+  solveSeating,
+  SolverGuest,
+  SolverTable,
+} from "../src/services/seatingSolver";
+import { ConstraintRecord } from "../src/services/constraintTypes";
+
+const guest = (id: string, headCount = 1, tags: string[] = []): SolverGuest => ({
+  id,
+  name: id,
+  headCount,
+  tags,
+  areaId: null,
+});
+
+const table = (id: string, capacity: number): SolverTable => ({
+  id,
+  name: id,
+  capacity,
+  areaId: null,
+  occupants: [],
+});
+
+const constraint = (
+  constraintType: string,
+  guest1Id: string,
+  target: Partial<ConstraintRecord> = {}
+): ConstraintRecord => ({
+  guest1Id,
+  guest2Id: null,
+  constraintType,
+  tableId: null,
+  tag: null,
+  weight: null,
+  ...target,
+});
+
+// 每位宾客所在的桌位 ID，未安排的不列出
+const seatingOf = (result: Awaited<ReturnType<typeof solveSeating>>) => {
+  const tableOf = new Map<string, string>();
+  result.outcomes.forEach(({ unit, table }) => {
+    if (table) unit.members.forEach((m) => tableOf.set(m.id, table.id));
+  });
+  return tableOf;
+};
+
+describe("solveSeating", () => {
+  it("任何桌位都不超员", async () => {
+    const guests = Array.from({ length: 12 }, (_, i) =>
+      guest(`g${i}`, (i % 3) + 1)
+    );
+    const problem = buildSeatingProblem({
+      guests,
+      tables: [table("t1", 8), table("t2", 8)],
+      constraints: [],
+    });
+
+    for (const strategy of ["greedy", "optimize"] as const) {
+      const result = await solveSeating(problem, {
+        strategy,
+        timeBudgetMs: 100,
+        seed: 1,
+      });
+      const seats = new Map<string, number>();
+      result.outcomes.forEach(({ unit, table }) => {
+        if (!table) return;
+        seats.set(table.id, (seats.get(table.id) || 0) + unit.headCount);
+      });
+      seats.forEach((count) => assert.ok(count <= 8));
+      assert.ok(countHardViolations(result.evaluation.breakdown) === 0);
+    }
+  });
+
+  it("必须同桌的宾客安排在同一桌，不能同桌的分开", async () => {
+    const problem = buildSeatingProblem({
+      guests: [guest("a"), guest("b"), guest("c"), guest("d")],
+      tables: [table("t1", 3), table("t2", 3)],
+      constraints: [
+        constraint("MUST_TOGETHER", "a", { guest2Id: "b" }),
+        constraint("MUST_APART", "a", { guest2Id: "c" }),
+        constraint("MUST_APART", "b", { guest2Id: "d" }),
+      ],
+    });
+
+    const tableOf = seatingOf(
+      await solveSeating(problem, { timeBudgetMs: 100, seed: 2 })
+    );
+    assert.equal(tableOf.size, 4);
+    assert.equal(tableOf.get("a"), tableOf.get("b"));
+    assert.notEqual(tableOf.get("a"), tableOf.get("c"));
+    assert.notEqual(tableOf.get("b"), tableOf.get("d"));
+  });
+
+  it("遵守指定桌位和禁止桌位", async () => {
+    const problem = buildSeatingProblem({
+      guests: [guest("a"), guest("b")],
+      tables: [table("t1", 4), table("t2", 4)],
+      constraints: [
+        constraint("MUST_AT_TABLE", "a", { tableId: "t2" }),
+        constraint("NEVER_AT_TABLE", "b", { tableId: "t1" }),
+      ],
+    });
+
+    const tableOf = seatingOf(
+      await solveSeating(problem, { timeBudgetMs: 100, seed: 3 })
+    );
+    assert.equal(tableOf.get("a"), "t2");
+    assert.equal(tableOf.get("b"), "t2");
+  });
+
+  it("放不下的宾客标记为未安排并说明原因", async () => {
+    const problem = buildSeatingProblem({
+      guests: [guest("big", 6), guest("small", 2)],
+      tables: [table("t1", 4)],
+      constraints: [],
+    });
+
+    const result = await solveSeating(problem, { strategy: "greedy" });
+    const big = result.outcomes.find((o) => o.unit.members[0].id === "big")!;
+    assert.equal(big.table, null);
+    assert.ok(big.error);
+    assert.equal(seatingOf(result).get("small"), "t1");
+  });
+
+  it("优化期间让出事件循环", async () => {
+    const guests = Array.from({ length: 40 }, (_, i) =>
+      guest(`g${i}`, 1, [`tag${i % 4}`])
+    );
+    const problem = buildSeatingProblem({
+      guests,
+      tables: Array.from({ length: 5 }, (_, i) => table(`t${i}`, 10)),
+      constraints: [],
+    });
+
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+    try {
+      await solveSeating(problem, { timeBudgetMs: 300, seed: 4 });
+    } finally {
+      clearInterval(timer);
+    }
+    assert.ok(ticks > 0, "求解期间定时器应能执行");
+  });
+});
+
+describe("clampTimeBudget", () => {
+  it("未提供或不是有效数字时取默认值", () => {
+    assert.equal(clampTimeBudget(undefined), DEFAULT_TIME_BUDGET_MS);
+    assert.equal(clampTimeBudget(NaN), DEFAULT_TIME_BUDGET_MS);
+    assert.equal(clampTimeBudget(Infinity), DEFAULT_TIME_BUDGET_MS);
+  });
+
+  it("限制在允许范围内", () => {
+    assert.equal(clampTimeBudget(60000), MAX_TIME_BUDGET_MS);
+    assert.equal(clampTimeBudget(1), 100);
+    assert.equal(clampTimeBudget(1500), 1500);
+  });
+});